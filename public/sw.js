@@ -0,0 +1,100 @@
+// Keeps the app shell available offline, shows Web Push notifications and
+// opens the app where they point. The simulator has no push service, so it
+// posts payloads here as messages and they take the same path as a real push.
+const SIMULATED_PUSH_MESSAGE = "simulated-push";
+
+// Written by the build (see vite.config.ts): the files of the current build and
+// an id for it. The dev server has none, so only the basics below get cached.
+self.PRECACHE_MANIFEST = { version: "dev", urls: [] };
+try {
+  importScripts("/precache-manifest.js");
+} catch {
+  // Development
+}
+
+// One cache per build; older ones are dropped once this worker takes over
+const SHELL_CACHE = `payingzee-shell-${self.PRECACHE_MANIFEST.version}`;
+const SHELL_URLS = ["/", "/manifest.webmanifest", "/icon.svg", "/icon-maskable.svg"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll([...SHELL_URLS, ...self.PRECACHE_MANIFEST.urls]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      const stale = names.filter((name) => name.startsWith("payingzee-shell-") && name !== SHELL_CACHE);
+      await Promise.all(stale.map((name) => caches.delete(name)));
+      await self.clients.claim();
+    })()
+  );
+});
+
+async function fromNetwork(request, cacheKey) {
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(cacheKey, response.clone());
+  }
+  return response;
+}
+
+// Every route is the same single-page shell, so pages are cached under "/".
+// Built assets have hashed names and never change, so the cached copy wins.
+// API data isn't cached here: it belongs to whoever is signed in, and the app
+// keeps its own copy.
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(fromNetwork(request, "/").catch(() => caches.match("/")));
+  } else if (url.pathname.startsWith("/assets/")) {
+    event.respondWith(caches.match(request).then((cached) => cached ?? fromNetwork(request, request)));
+  } else if (SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(fromNetwork(request, request).catch(() => caches.match(request)));
+  }
+});
+
+function showPush(payload) {
+  return self.registration.showNotification(payload.title, {
+    body: payload.body,
+    tag: payload.tag,
+    data: { url: payload.url },
+  });
+}
+
+self.addEventListener("push", (event) => {
+  if (!event.data) return;
+  event.waitUntil(showPush(event.data.json()));
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === SIMULATED_PUSH_MESSAGE) event.waitUntil(showPush(event.data.payload));
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url ?? "/", self.location.origin).href;
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+      const open = windows.find((client) => client.url === url);
+      if (open) return open.focus();
+      // Reuse a tab of the app when there is one rather than stacking new ones
+      const tab = windows.find((client) => "navigate" in client);
+      if (tab) {
+        const navigated = await tab.navigate(url).catch(() => null);
+        if (navigated) return navigated.focus();
+      }
+      return self.clients.openWindow(url);
+    })()
+  );
+});
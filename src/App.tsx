@@ -1,17 +1,45 @@
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { PaymentPage } from "./pages/PaymentPage";
+import { ReceiptPage } from "./pages/ReceiptPage";
+import { VerifyReceiptPage } from "./pages/VerifyReceiptPage";
 import { HomePage } from "./pages/HomePage";
 import { SellerDashboard } from "./pages/SellerDashboard";
+import { LoginPage } from "./pages/LoginPage";
+import { RECEIPT_VERIFY_PATH } from "./lib/receipts";
+import { AuthProvider } from "./components/AuthProvider";
+import { RequireAuth } from "./components/RequireAuth";
+import { SyncStatus } from "./components/SyncStatus";
 
 function App() {
   return (
-    <BrowserRouter>
-      <Routes>
-        <Route path="/" element={<HomePage />} />
-        <Route path="/seller" element={<SellerDashboard />} />
-        <Route path="/pay/:transactionId" element={<PaymentPage />} />
-      </Routes>
-    </BrowserRouter>
+    <AuthProvider>
+      <BrowserRouter>
+        <Routes>
+          <Route path="/" element={<HomePage />} />
+          <Route path="/login" element={<LoginPage />} />
+          <Route
+            path="/seller"
+            element={
+              <RequireAuth>
+                <SellerDashboard />
+              </RequireAuth>
+            }
+          />
+          <Route
+            path="/seller/orders/:orderId/receipt"
+            element={
+              <RequireAuth>
+                <ReceiptPage scope="seller" />
+              </RequireAuth>
+            }
+          />
+          <Route path="/pay/:transactionId" element={<PaymentPage />} />
+          <Route path="/pay/:transactionId/receipt" element={<ReceiptPage />} />
+          <Route path={RECEIPT_VERIFY_PATH} element={<VerifyReceiptPage />} />
+        </Routes>
+        <SyncStatus />
+      </BrowserRouter>
+    </AuthProvider>
   );
 }
 
@@ -0,0 +1,349 @@
+import { useEffect, useState } from 'react';
+import { ArrowDownRight, ArrowUpRight, Minus } from 'lucide-react';
+import { getSellerAnalytics, type AnalyticsSummary, type SalesPlatform, type SellerAnalytics } from '@/lib/api';
+import {
+  ANALYTICS_RANGE_OPTIONS,
+  DEFAULT_ANALYTICS_DAYS,
+  formatDeliveryHours,
+  lastDays,
+  percentChange,
+  validateAnalyticsRange,
+  type DateRange,
+} from '@/lib/analytics';
+import { CURRENCIES, DEFAULT_CURRENCY, SUPPORTED_CURRENCIES, formatMoney, money } from '@/lib/money';
+import { SALES_PLATFORM_LABELS } from '@/lib/paymentLinks';
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-KE', { day: 'numeric', month: 'short', timeZone: 'UTC' });
+
+interface ChartSeries {
+  label: string;
+  values: (number | null)[];
+  color: string;
+}
+
+interface TrendChartProps {
+  title: string;
+  labels: string[];
+  series: ChartSeries[];
+  format: (value: number) => string;
+  kind: 'bar' | 'line';
+}
+
+// Plain SVG: one bar per bucket, or lines that break where a bucket has no data
+function TrendChart({ title, labels, series, format, kind }: TrendChartProps) {
+  const values = series.flatMap(s => s.values).filter((v): v is number => v !== null);
+  const max = Math.max(...values, 0) || 1;
+  const step = CHART_WIDTH / Math.max(labels.length, 1);
+  const y = (value: number) => CHART_HEIGHT - (value / max) * CHART_HEIGHT;
+
+  const segments = (points: (number | null)[]) => {
+    const runs: string[] = [];
+    let current: string[] = [];
+    points.forEach((value, i) => {
+      if (value === null) {
+        if (current.length) runs.push(current.join(' '));
+        current = [];
+      } else {
+        current.push(`${i * step + step / 2},${y(value)}`);
+      }
+    });
+    if (current.length) runs.push(current.join(' '));
+    return runs;
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6">
+      <div className="flex justify-between items-start mb-4 gap-4">
+        <h3 className="font-bold text-gray-900">{title}</h3>
+        {series.length > 1 && (
+          <div className="flex gap-3 text-xs text-gray-600">
+            {series.map(s => (
+              <span key={s.label} className="flex items-center gap-1">
+                <span className="w-3 h-0.5 inline-block" style={{ backgroundColor: s.color }}></span>
+                {s.label}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+      {values.length === 0 ? (
+        <p className="text-sm text-gray-500 py-12 text-center">No orders in this period</p>
+      ) : (
+        <>
+          <div className="text-xs text-gray-500 mb-1">{format(max)}</div>
+          <svg
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+            preserveAspectRatio="none"
+            className="w-full h-40 border-b border-gray-200"
+            role="img"
+            aria-label={title}
+          >
+            {kind === 'bar' &&
+              series[0].values.map((value, i) =>
+                value ? (
+                  <rect
+                    key={i}
+                    x={i * step + step * 0.15}
+                    y={y(value)}
+                    width={step * 0.7}
+                    height={CHART_HEIGHT - y(value)}
+                    fill={series[0].color}
+                    rx={2}
+                  >
+                    <title>{`${formatDay(labels[i])}: ${format(value)}`}</title>
+                  </rect>
+                ) : null
+              )}
+            {kind === 'line' &&
+              series.map(s =>
+                segments(s.values).map((points, i) => (
+                  <polyline
+                    key={`${s.label}-${i}`}
+                    points={points}
+                    fill="none"
+                    stroke={s.color}
+                    strokeWidth={2}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                ))
+              )}
+            {kind === 'line' &&
+              labels.map((label, i) => (
+                <rect key={label} x={i * step} y={0} width={step} height={CHART_HEIGHT} fill="transparent">
+                  <title>
+                    {[formatDay(label), ...series.map(s => `${s.label}: ${s.values[i] === null ? '—' : format(s.values[i]!)}`)].join('\n')}
+                  </title>
+                </rect>
+              ))}
+          </svg>
+          <div className="flex justify-between text-xs text-gray-500 mt-2">
+            <span>{formatDay(labels[0])}</span>
+            {labels.length > 2 && <span>{formatDay(labels[Math.floor(labels.length / 2)])}</span>}
+            {labels.length > 1 && <span>{formatDay(labels[labels.length - 1])}</span>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+interface MetricCardProps {
+  label: string;
+  value: string;
+  /** Percent change, or percentage points for rates */
+  change: number | null;
+  unit: '%' | ' pts';
+  higherIsBetter: boolean;
+}
+
+function MetricCard({ label, value, change, unit, higherIsBetter }: MetricCardProps) {
+  const good = change !== null && change !== 0 && change > 0 === higherIsBetter;
+  const Icon = !change ? Minus : change > 0 ? ArrowUpRight : ArrowDownRight;
+  const tone = !change ? 'text-gray-500' : good ? 'text-green-700' : 'text-red-700';
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-4">
+      <p className="text-sm text-gray-600 mb-1">{label}</p>
+      <p className="text-2xl font-black text-gray-900">{value}</p>
+      <p className={`text-xs font-semibold flex items-center gap-1 mt-1 ${tone}`}>
+        <Icon size={14} />
+        {change === null ? 'No earlier data' : `${change > 0 ? '+' : ''}${change}${unit} vs previous period`}
+      </p>
+    </div>
+  );
+}
+
+const pointsChange = (current: number | null, previous: number | null) =>
+  current === null || previous === null ? null : current - previous;
+
+export function AnalyticsTab() {
+  const [days, setDays] = useState<number | 'custom'>(DEFAULT_ANALYTICS_DAYS);
+  const [customRange, setCustomRange] = useState<DateRange>(() => lastDays(DEFAULT_ANALYTICS_DAYS));
+  const [platform, setPlatform] = useState<SalesPlatform | ''>('');
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+  const [analytics, setAnalytics] = useState<SellerAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const range = days === 'custom' ? customRange : lastDays(days);
+  const rangeError = validateAnalyticsRange(range);
+
+  useEffect(() => {
+    if (rangeError) return;
+    const controller = new AbortController();
+    setLoading(true);
+    getSellerAnalytics({ from: range.from, to: range.to, platform: platform || undefined, currency }, controller.signal)
+      .then(data => {
+        setAnalytics(data);
+        setError(null);
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error('Fetch analytics error:', err);
+        setError((err as Error).message || 'Failed to load analytics');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [range.from, range.to, platform, currency, rangeError]);
+
+  const format = (amount: number) => formatMoney(money(Math.round(amount), currency));
+  const summary: AnalyticsSummary | null = analytics?.summary ?? null;
+  const previous = analytics?.previous;
+  const labels = analytics?.series.map(p => p.date) ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold">📈 Analytics</h2>
+        <p className="text-gray-600 text-sm">
+          How your sales are going{analytics?.granularity === 'week' ? ', week by week' : ', day by day'}
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-xl border border-gray-200 p-4 flex flex-col md:flex-row flex-wrap gap-3">
+        <select
+          value={days}
+          onChange={e => setDays(e.target.value === 'custom' ? 'custom' : Number(e.target.value))}
+          aria-label="Date range"
+          className="px-4 py-2 rounded-lg border border-gray-300 focus:outline-none focus:border-blue-500 bg-white"
+        >
+          {ANALYTICS_RANGE_OPTIONS.map(option => (
+            <option key={option.days} value={option.days}>{option.label}</option>
+          ))}
+          <option value="custom">Custom range</option>
+        </select>
+        {days === 'custom' && (
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              value={customRange.from}
+              max={customRange.to}
+              onChange={e => setCustomRange(prev => ({ ...prev, from: e.target.value }))}
+              aria-label="From"
+              className="px-3 py-2 rounded-lg border border-gray-300 focus:outline-none focus:border-blue-500"
+            />
+            <span className="text-gray-500">to</span>
+            <input
+              type="date"
+              value={customRange.to}
+              min={customRange.from}
+              onChange={e => setCustomRange(prev => ({ ...prev, to: e.target.value }))}
+              aria-label="To"
+              className="px-3 py-2 rounded-lg border border-gray-300 focus:outline-none focus:border-blue-500"
+            />
+          </div>
+        )}
+        <select
+          value={platform}
+          onChange={e => setPlatform(e.target.value as SalesPlatform | '')}
+          aria-label="Platform"
+          className="px-4 py-2 rounded-lg border border-gray-300 focus:outline-none focus:border-blue-500 bg-white"
+        >
+          <option value="">All platforms</option>
+          {(Object.keys(SALES_PLATFORM_LABELS) as SalesPlatform[]).map(p => (
+            <option key={p} value={p}>{SALES_PLATFORM_LABELS[p]}</option>
+          ))}
+        </select>
+        <select
+          value={currency}
+          onChange={e => setCurrency(e.target.value)}
+          aria-label="Currency"
+          className="px-4 py-2 rounded-lg border border-gray-300 focus:outline-none focus:border-blue-500 bg-white"
+        >
+          {SUPPORTED_CURRENCIES.map(code => (
+            <option key={code} value={code} title={CURRENCIES[code].name}>{code}</option>
+          ))}
+        </select>
+      </div>
+
+      {(rangeError || error) && (
+        <div className="bg-red-50 border-l-4 border-red-600 rounded-lg p-4 text-red-900 text-sm">{rangeError ?? error}</div>
+      )}
+
+      {loading && !analytics ? (
+        <div className="text-center py-12 text-gray-500">Loading analytics...</div>
+      ) : summary && previous && analytics && (
+        <div className={`space-y-6 ${loading ? 'opacity-60' : ''}`}>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <MetricCard
+              label="Revenue"
+              value={format(summary.revenue)}
+              change={percentChange(summary.revenue, previous.revenue)}
+              unit="%"
+              higherIsBetter
+            />
+            <MetricCard
+              label="Orders"
+              value={String(summary.orders)}
+              change={percentChange(summary.orders, previous.orders)}
+              unit="%"
+              higherIsBetter
+            />
+            <MetricCard
+              label="Acceptance Rate"
+              value={summary.acceptance_rate === null ? '—' : `${summary.acceptance_rate}%`}
+              change={pointsChange(summary.acceptance_rate, previous.acceptance_rate)}
+              unit=" pts"
+              higherIsBetter
+            />
+            <MetricCard
+              label="Dispute Rate"
+              value={summary.dispute_rate === null ? '—' : `${summary.dispute_rate}%`}
+              change={pointsChange(summary.dispute_rate, previous.dispute_rate)}
+              unit=" pts"
+              higherIsBetter={false}
+            />
+            <MetricCard
+              label="Avg Delivery"
+              value={formatDeliveryHours(summary.average_delivery_hours)}
+              change={percentChange(summary.average_delivery_hours, previous.average_delivery_hours)}
+              unit="%"
+              higherIsBetter={false}
+            />
+          </div>
+
+          <div className="grid lg:grid-cols-2 gap-6">
+            <TrendChart
+              title="Revenue"
+              kind="bar"
+              labels={labels}
+              series={[{ label: 'Revenue', values: analytics.series.map(p => p.revenue), color: '#16a34a' }]}
+              format={format}
+            />
+            <TrendChart
+              title="Orders"
+              kind="bar"
+              labels={labels}
+              series={[{ label: 'Orders', values: analytics.series.map(p => p.orders), color: '#2563eb' }]}
+              format={value => String(Math.round(value))}
+            />
+            <TrendChart
+              title="Acceptance & Dispute Rates"
+              kind="line"
+              labels={labels}
+              series={[
+                { label: 'Accepted', values: analytics.series.map(p => p.acceptance_rate), color: '#16a34a' },
+                { label: 'Disputed', values: analytics.series.map(p => p.dispute_rate), color: '#dc2626' },
+              ]}
+              format={value => `${Math.round(value)}%`}
+            />
+            <TrendChart
+              title="Delivery Time"
+              kind="line"
+              labels={labels}
+              series={[{ label: 'Avg delivery', values: analytics.series.map(p => p.average_delivery_hours), color: '#9333ea' }]}
+              format={formatDeliveryHours}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
+import {
+  getSession,
+  logout as logoutRequest,
+  onSessionChange,
+  type AuthUser,
+  type SessionEndReason,
+} from '@/lib/api';
+
+interface AuthContextValue {
+  user: AuthUser | null;
+  /** Why the last session ended, so the login page can explain it */
+  endReason: SessionEndReason | null;
+  logout: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [user, setUser] = useState<AuthUser | null>(() => getSession()?.user ?? null);
+  const [endReason, setEndReason] = useState<SessionEndReason | null>(null);
+
+  useEffect(
+    () =>
+      onSessionChange((session, reason) => {
+        setUser(session?.user ?? null);
+        setEndReason(session ? null : reason ?? null);
+      }),
+    []
+  );
+
+  const logout = useCallback(() => logoutRequest(), []);
+
+  const value = useMemo(() => ({ user, endReason, logout }), [user, endReason, logout]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) throw new Error('useAuth must be used inside <AuthProvider>');
+  return context;
+}
@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react";
+import type { PaymentViewerRole } from "@/lib/escrow";
+import { RELEASE_REMINDER_HOURS, formatCountdown } from "@/lib/inspection";
+
+interface Props {
+  autoReleaseAt: string;
+  inspectionExtendedAt?: string | null;
+  role: PaymentViewerRole;
+}
+
+export function AutoReleaseCountdown({ autoReleaseAt, inspectionExtendedAt, role }: Props) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const releaseAt = new Date(autoReleaseAt);
+  const remaining = releaseAt.getTime() - now;
+
+  return (
+    <section className="rounded-lg border border-border bg-card p-4 text-sm" aria-live="polite">
+      <h2 className="font-semibold text-card-foreground">Inspection window</h2>
+      <p className="mt-1 text-2xl font-semibold tabular-nums text-foreground">{formatCountdown(remaining)}</p>
+      <p className="text-xs text-muted-foreground">
+        Funds auto-release to the seller on {releaseAt.toLocaleString()}.
+      </p>
+      {role === "buyer" && (
+        <p className="mt-2 text-xs text-muted-foreground">
+          Confirm delivery or report a problem before then. We'll text you {RELEASE_REMINDER_HOURS[0]} hours
+          before release.
+        </p>
+      )}
+      {inspectionExtendedAt && (
+        <p className="mt-2 text-xs text-muted-foreground">
+          {role === "buyer" ? "You" : "The buyer"} extended the inspection window on{" "}
+          {new Date(inspectionExtendedAt).toLocaleDateString()}.
+        </p>
+      )}
+    </section>
+  );
+}
@@ -1,22 +1,75 @@
-import { useState } from "react";
-
-const API_BASE = import.meta.env.VITE_API_BASE_URL ?? "http://localhost:4000";
+import { useEffect, useState } from "react";
+import { confirmPayment, extendInspection } from "@/lib/api";
+import { canReportProblem } from "@/lib/disputes";
+import { canPerform, nextStatus, type EscrowStatus, type PaymentViewerRole } from "@/lib/escrow";
+import { MAX_EXTENSION_DAYS, canExtendInspection } from "@/lib/inspection";
+import { BuyerDisputeForm } from "./BuyerDisputeForm";
 
 interface Props {
   transactionId: string;
-  initialStatus: string;
+  initialStatus: EscrowStatus;
+  role: PaymentViewerRole;
+  estimatedDeliveryAt?: string | null;
+  autoReleaseAt?: string | null;
+  inspectionExtendedAt?: string | null;
+  onDisputed?: () => void;
+  onExtended?: () => void;
 }
 
-export function BuyerConfirmActions({ transactionId, initialStatus }: Props) {
-  const [status, setStatus] = useState<string>(initialStatus);
+export function BuyerConfirmActions({
+  transactionId,
+  initialStatus,
+  role,
+  estimatedDeliveryAt,
+  autoReleaseAt,
+  inspectionExtendedAt,
+  onDisputed,
+  onExtended,
+}: Props) {
+  const [status, setStatus] = useState<EscrowStatus>(initialStatus);
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [reporting, setReporting] = useState(false);
+  const [extending, setExtending] = useState(false);
+  const [extensionDays, setExtensionDays] = useState(1);
+
+  useEffect(() => setStatus(initialStatus), [initialStatus]);
+
+  const canConfirm = canPerform(status, "confirm", role);
+  const canDispute = role === "buyer" && canReportProblem(status, estimatedDeliveryAt);
+  const canExtend =
+    role === "buyer" &&
+    canExtendInspection({ status, auto_release_at: autoReleaseAt, inspection_extended_at: inspectionExtendedAt });
 
-  if (status !== "DELIVERED" && status !== "COMPLETED") {
+  if (role !== "buyer" || (!canConfirm && !canDispute && status !== "COMPLETED" && !message)) {
     return null;
   }
 
+  function handleDisputeOpened() {
+    setReporting(false);
+    setStatus(nextStatus(status, "open_dispute", "buyer"));
+    setMessage("Dispute opened. The funds are frozen while our team reviews it, and the seller has 48 hours to respond.");
+    onDisputed?.();
+  }
+
+  async function handleExtend() {
+    setLoading(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const body = await extendInspection(transactionId, { days: extensionDays });
+      setExtending(false);
+      setMessage(`Done. Funds now release on ${new Date(body.auto_release_at).toLocaleString()}. This was your one extension.`);
+      onExtended?.();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setLoading(false);
+    }
+  }
+
   async function handleConfirm() {
     setLoading(true);
     setError(null);
@@ -25,7 +78,7 @@ export function BuyerConfirmActions({ transactionId, initialStatus }: Props) {
     // Demo mode
     if (transactionId === "demo-transaction") {
       setTimeout(() => {
-        setStatus("COMPLETED");
+        setStatus(nextStatus(status, "confirm", "buyer"));
         setMessage("Thanks! We've marked this as received and queued payout to the seller.");
         setLoading(false);
       }, 1000);
@@ -33,17 +86,9 @@ export function BuyerConfirmActions({ transactionId, initialStatus }: Props) {
     }
 
     try {
-      const res = await fetch(`${API_BASE}/api/v1/payments/${transactionId}/confirm`, {
-        method: "POST",
-      });
-
-      const body = await res.json().catch(() => ({}));
+      const body = await confirmPayment(transactionId);
 
-      if (!res.ok) {
-        throw new Error(body.error || `Request failed with ${res.status}`);
-      }
-
-      setStatus(body.status ?? "COMPLETED");
+      setStatus(body.status ?? nextStatus(status, "confirm", "buyer"));
       setMessage("Thanks! We've marked this as received and queued payout to the seller.");
     } catch (err: unknown) {
       const errorMessage = err instanceof Error ? err.message : "Something went wrong";
@@ -57,22 +102,96 @@ export function BuyerConfirmActions({ transactionId, initialStatus }: Props) {
     <section className="rounded-lg border border-border bg-card p-4 text-sm">
       <h2 className="mb-2 font-semibold text-card-foreground">Buyer confirmation</h2>
       <p className="mb-3 text-muted-foreground">
-        If you have received the item or service as expected, confirm below so we can
-        release funds from escrow to the seller.
+        {status === "ACTIVE"
+          ? "The seller's delivery estimate has passed. If your item hasn't arrived, you can report a problem."
+          : "If you have received the item or service as expected, confirm below so we can release funds from escrow to the seller."}
       </p>
 
-      <button
-        type="button"
-        onClick={handleConfirm}
-        disabled={loading || status === "COMPLETED"}
-        className="inline-flex items-center justify-center rounded-md bg-primary px-4 py-2 text-xs font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-60"
-      >
-        {status === "COMPLETED"
-          ? "Already confirmed"
-          : loading
-          ? "Confirming..."
-          : "I have received the item"}
-      </button>
+      <div className="flex flex-wrap gap-2">
+        {(canConfirm || status === "COMPLETED") && (
+          <button
+            type="button"
+            onClick={handleConfirm}
+            disabled={loading || !canConfirm}
+            className="inline-flex items-center justify-center rounded-md bg-primary px-4 py-2 text-xs font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-60"
+          >
+            {!canConfirm
+              ? "Already confirmed"
+              : loading
+              ? "Confirming..."
+              : "I have received the item"}
+          </button>
+        )}
+        {canDispute && !reporting && (
+          <button
+            type="button"
+            onClick={() => setReporting(true)}
+            disabled={loading}
+            className="inline-flex items-center justify-center rounded-md border border-border px-4 py-2 text-xs font-medium text-foreground transition-colors hover:bg-secondary disabled:opacity-60"
+          >
+            Report a problem
+          </button>
+        )}
+        {canExtend && !extending && !reporting && (
+          <button
+            type="button"
+            onClick={() => setExtending(true)}
+            disabled={loading}
+            className="inline-flex items-center justify-center rounded-md border border-border px-4 py-2 text-xs font-medium text-foreground transition-colors hover:bg-secondary disabled:opacity-60"
+          >
+            I need more time
+          </button>
+        )}
+      </div>
+
+      {extending && canExtend && (
+        <div className="mt-4 space-y-3 border-t border-border pt-4">
+          <h3 className="font-semibold text-card-foreground">Extend the inspection window</h3>
+          <p className="text-xs text-muted-foreground">
+            You can push back the automatic release once, by up to {MAX_EXTENSION_DAYS} days. The seller will be told.
+          </p>
+          <label className="flex flex-col gap-1 text-xs">
+            <span className="text-muted-foreground">Extra time</span>
+            <select
+              value={extensionDays}
+              onChange={(e) => setExtensionDays(Number(e.target.value))}
+              className="rounded-md border border-input bg-background px-3 py-2 text-sm text-foreground outline-none ring-ring focus:ring-2"
+            >
+              {Array.from({ length: MAX_EXTENSION_DAYS }, (_, i) => i + 1).map((days) => (
+                <option key={days} value={days}>
+                  {days} {days === 1 ? "day" : "days"}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleExtend}
+              disabled={loading}
+              className="inline-flex items-center justify-center rounded-md bg-primary px-4 py-2 text-xs font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-60"
+            >
+              {loading ? "Extending..." : "Extend"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setExtending(false)}
+              disabled={loading}
+              className="inline-flex items-center justify-center rounded-md border border-border px-4 py-2 text-xs font-medium text-foreground transition-colors hover:bg-secondary disabled:opacity-60"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {reporting && canDispute && (
+        <BuyerDisputeForm
+          transactionId={transactionId}
+          onOpened={handleDisputeOpened}
+          onCancel={() => setReporting(false)}
+        />
+      )}
 
       {error && (
         <p className="mt-2 text-xs text-destructive" role="alert">
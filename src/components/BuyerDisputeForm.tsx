@@ -0,0 +1,168 @@
+import { useEffect, useMemo, useState, type FormEvent } from "react";
+import { openDispute, type Dispute, type DisputeReason } from "@/lib/api";
+import {
+  DISPUTE_REASONS,
+  MAX_EVIDENCE_FILES,
+  MIN_DESCRIPTION_LENGTH,
+  evidenceKind,
+  evidenceRequired,
+  validateEvidence,
+} from "@/lib/disputes";
+
+interface Props {
+  transactionId: string;
+  onOpened: (dispute: Dispute | null) => void;
+  onCancel: () => void;
+}
+
+export function BuyerDisputeForm({ transactionId, onOpened, onCancel }: Props) {
+  const [reason, setReason] = useState<DisputeReason | "">("");
+  const [description, setDescription] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const previews = useMemo(() => files.map((file) => URL.createObjectURL(file)), [files]);
+  useEffect(() => () => previews.forEach((url) => URL.revokeObjectURL(url)), [previews]);
+
+  function handleFiles(e: React.ChangeEvent<HTMLInputElement>) {
+    const next = [...files, ...Array.from(e.target.files ?? [])];
+    e.target.value = "";
+    setError(validateEvidence(next));
+    setFiles(next.slice(0, MAX_EVIDENCE_FILES));
+  }
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (!reason) {
+      setError("Choose what went wrong");
+      return;
+    }
+    if (description.trim().length < MIN_DESCRIPTION_LENGTH) {
+      setError(`Describe the problem in at least ${MIN_DESCRIPTION_LENGTH} characters`);
+      return;
+    }
+    if (evidenceRequired(reason) && files.length === 0) {
+      setError("Attach at least one photo or video of the problem");
+      return;
+    }
+    const invalid = validateEvidence(files);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+
+    // Demo mode
+    if (transactionId === "demo-transaction") {
+      setTimeout(() => onOpened(null), 1000);
+      return;
+    }
+
+    try {
+      onOpened(await openDispute(transactionId, { reason, description: description.trim(), evidence: files }));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 space-y-3 border-t border-border pt-4">
+      <h3 className="font-semibold text-card-foreground">Report a problem</h3>
+      <p className="text-xs text-muted-foreground">
+        Opening a dispute freezes the funds in escrow. Nothing is released to the seller until our team reviews it.
+      </p>
+
+      <label className="flex flex-col gap-1 text-xs">
+        <span className="text-muted-foreground">What went wrong?</span>
+        <select
+          value={reason}
+          onChange={(e) => setReason(e.target.value as DisputeReason)}
+          className="rounded-md border border-input bg-background px-3 py-2 text-sm text-foreground outline-none ring-ring focus:ring-2"
+        >
+          <option value="" disabled>
+            Choose a reason
+          </option>
+          {Object.entries(DISPUTE_REASONS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col gap-1 text-xs">
+        <span className="text-muted-foreground">Describe the problem</span>
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={4}
+          placeholder="What did you expect, and what did you receive?"
+          className="rounded-md border border-input bg-background px-3 py-2 text-sm text-foreground outline-none ring-ring focus:ring-2"
+        />
+      </label>
+
+      <div className="flex flex-col gap-1 text-xs">
+        <span className="text-muted-foreground">
+          Photos or videos {reason && !evidenceRequired(reason) ? "(optional)" : ""} — up to {MAX_EVIDENCE_FILES}
+        </span>
+        <input
+          type="file"
+          accept="image/*,video/*"
+          multiple
+          onChange={handleFiles}
+          disabled={files.length >= MAX_EVIDENCE_FILES}
+          className="text-xs text-muted-foreground file:mr-3 file:rounded-md file:border-0 file:bg-secondary file:px-3 file:py-2 file:text-xs file:font-medium file:text-secondary-foreground"
+        />
+        {files.length > 0 && (
+          <ul className="mt-2 grid grid-cols-3 gap-2">
+            {files.map((file, idx) => (
+              <li key={`${file.name}-${idx}`} className="relative overflow-hidden rounded-md border border-border">
+                {evidenceKind(file) === "video" ? (
+                  <video src={previews[idx]} className="h-20 w-full object-cover" muted />
+                ) : (
+                  <img src={previews[idx]} alt={file.name} className="h-20 w-full object-cover" />
+                )}
+                <button
+                  type="button"
+                  onClick={() => setFiles(files.filter((_, i) => i !== idx))}
+                  className="absolute right-1 top-1 rounded-full bg-background/90 px-1.5 text-xs text-foreground"
+                  aria-label={`Remove ${file.name}`}
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-xs text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={submitting}
+          className="inline-flex items-center justify-center rounded-md bg-destructive px-4 py-2 text-xs font-medium text-destructive-foreground transition-colors hover:bg-destructive/90 disabled:opacity-60"
+        >
+          {submitting ? "Submitting..." : "Open dispute"}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={submitting}
+          className="inline-flex items-center justify-center rounded-md border border-border px-4 py-2 text-xs font-medium text-foreground transition-colors hover:bg-secondary disabled:opacity-60"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,65 @@
+import { useState, type FormEvent } from "react";
+import { sendPaymentMessage } from "@/lib/api";
+
+interface Props {
+  transactionId: string;
+}
+
+// Questions about an order in progress go to the seller's dashboard
+export function BuyerMessageForm({ transactionId }: Props) {
+  const [text, setText] = useState("");
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!text.trim()) return;
+    setSending(true);
+    setError(null);
+    try {
+      await sendPaymentMessage(transactionId, text.trim());
+      setText("");
+      setSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't send your message");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <section className="rounded-lg border border-border bg-card p-4 text-card-foreground">
+      <h2 className="text-sm font-semibold">Message the seller</h2>
+      <form onSubmit={handleSubmit} className="mt-3 space-y-2">
+        <textarea
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setSent(false);
+          }}
+          rows={3}
+          placeholder="Ask about delivery, sizing or anything else"
+          className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm text-foreground outline-none ring-ring focus:ring-2"
+        />
+        {error && (
+          <p className="text-xs text-destructive" role="alert">
+            {error}
+          </p>
+        )}
+        {sent && (
+          <p className="text-xs text-muted-foreground" role="status">
+            Sent. The seller will see it on their dashboard.
+          </p>
+        )}
+        <button
+          type="submit"
+          disabled={sending || !text.trim()}
+          className="rounded-md bg-primary px-4 py-2 text-xs font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-60"
+        >
+          {sending ? "Sending..." : "Send"}
+        </button>
+      </form>
+    </section>
+  );
+}
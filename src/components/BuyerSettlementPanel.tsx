@@ -0,0 +1,145 @@
+import { useState, type FormEvent } from "react";
+import { acceptSettlement, declineSettlement, offerSettlement, type Dispute, type SettlementOffer } from "@/lib/api";
+import {
+  SETTLEMENT_OFFER_STATUS_LABELS,
+  canRespondToOffer,
+  pendingOffer,
+  validateSettlementRefund,
+} from "@/lib/disputes";
+import { formatMoney, money, parseMoney } from "@/lib/money";
+
+interface Props {
+  transactionId: string;
+  dispute: Dispute;
+  onChanged: (dispute: Dispute) => void;
+}
+
+export function BuyerSettlementPanel({ transactionId, dispute, onChanged }: Props) {
+  const [refund, setRefund] = useState("");
+  const [note, setNote] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const format = (amount: number) => formatMoney(money(amount, dispute.currency));
+  const pending = pendingOffer(dispute);
+  const canAnswer = pending !== undefined && canRespondToOffer(pending, "buyer");
+  const resolved = dispute.status === "resolved";
+  const refundAmount = parseMoney(refund, dispute.currency)?.amount ?? null;
+
+  if (resolved && dispute.offers.length === 0) return null;
+
+  async function run(action: () => Promise<Dispute>) {
+    setBusy(true);
+    setError(null);
+    try {
+      onChanged(await action());
+      setRefund("");
+      setNote("");
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function handleOffer(e: FormEvent) {
+    e.preventDefault();
+    const amount = refundAmount ?? 0;
+    const invalid = validateSettlementRefund(amount, dispute.amount);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    run(() => offerSettlement(transactionId, { refund_amount: amount, note: note.trim() || undefined }));
+  }
+
+  function describe(offer: SettlementOffer) {
+    const who = offer.proposed_by === "buyer" ? "You offered" : "The seller offered";
+    return `${who} ${format(offer.refund_amount)} back to you and ${format(offer.release_amount)} to the seller`;
+  }
+
+  return (
+    <section className="rounded-lg border border-border bg-card p-4 text-sm">
+      <h2 className="font-semibold text-card-foreground">Settle this dispute</h2>
+      <p className="mb-3 text-xs text-muted-foreground">
+        {resolved
+          ? dispute.resolution?.note
+          : `Instead of waiting for a decision, you and the seller can agree to split the ${format(dispute.amount)} held in escrow.`}
+      </p>
+
+      {dispute.offers.length > 0 && (
+        <ol className="mb-3 space-y-2">
+          {dispute.offers.map((offer) => (
+            <li key={offer.id} className="rounded-md border border-border p-3">
+              <p className="text-card-foreground">{describe(offer)}</p>
+              {offer.note && <p className="mt-1 text-xs text-muted-foreground">"{offer.note}"</p>}
+              <p className="mt-1 text-xs text-muted-foreground">
+                {new Date(offer.created_at).toLocaleString()} · {SETTLEMENT_OFFER_STATUS_LABELS[offer.status]}
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {canAnswer && pending && (
+        <div className="mb-3 flex gap-2">
+          <button
+            type="button"
+            onClick={() => run(() => acceptSettlement(transactionId, pending.id))}
+            disabled={busy}
+            className="flex-1 rounded-md bg-primary px-3 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-60"
+          >
+            Accept {format(pending.refund_amount)} refund
+          </button>
+          <button
+            type="button"
+            onClick={() => run(() => declineSettlement(transactionId, pending.id))}
+            disabled={busy}
+            className="rounded-md border border-border px-3 py-2 text-sm font-medium hover:bg-muted disabled:opacity-60"
+          >
+            Decline
+          </button>
+        </div>
+      )}
+
+      {!resolved && (
+        <form onSubmit={handleOffer} className="space-y-2">
+          <label className="block text-xs font-medium text-muted-foreground" htmlFor="settlement-refund">
+            {canAnswer ? "Or counter with the refund you'd accept" : "Refund you'd accept"} ({dispute.currency})
+          </label>
+          <input
+            id="settlement-refund"
+            type="text"
+            inputMode="decimal"
+            value={refund}
+            onChange={(e) => setRefund(e.target.value)}
+            className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+          />
+          {refundAmount !== null && refundAmount < dispute.amount && (
+            <p className="text-xs text-muted-foreground">The seller would receive {format(dispute.amount - refundAmount)}.</p>
+          )}
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Add a note for the seller (optional)"
+            rows={2}
+            className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+          />
+          <button
+            type="submit"
+            disabled={busy}
+            className="w-full rounded-md border border-border px-3 py-2 text-sm font-medium hover:bg-muted disabled:opacity-60"
+          >
+            {busy ? "Sending..." : canAnswer ? "Send counteroffer" : "Send offer"}
+          </button>
+        </form>
+      )}
+
+      {error && (
+        <p className="mt-2 text-xs text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+    </section>
+  );
+}
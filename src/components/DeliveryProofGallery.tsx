@@ -0,0 +1,116 @@
+import { useEffect, useState } from "react";
+
+interface Props {
+  urls: string[];
+}
+
+// Proof can be photos or PDFs and the URLs don't say which, so every item is
+// tried as an image and falls back to a link
+export function DeliveryProofGallery({ urls }: Props) {
+  const [broken, setBroken] = useState<Set<string>>(new Set());
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+  const images = urls.filter((url) => !broken.has(url));
+  const files = urls.filter((url) => broken.has(url));
+  const open = openIndex === null ? null : images[openIndex];
+
+  const markBroken = (url: string) => setBroken((prev) => new Set(prev).add(url));
+
+  useEffect(() => {
+    if (openIndex === null) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOpenIndex(null);
+      else if (e.key === "ArrowRight") setOpenIndex((i) => (i === null ? i : (i + 1) % images.length));
+      else if (e.key === "ArrowLeft") setOpenIndex((i) => (i === null ? i : (i - 1 + images.length) % images.length));
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [openIndex, images.length]);
+
+  return (
+    <div className="mt-3 text-xs text-muted-foreground">
+      <div className="font-medium">Delivery proof:</div>
+      {images.length > 0 && (
+        <ul className="mt-2 grid grid-cols-3 gap-2">
+          {images.map((url, index) => (
+            <li key={url}>
+              <button
+                type="button"
+                onClick={() => setOpenIndex(index)}
+                className="block aspect-square w-full overflow-hidden rounded-md border border-border bg-muted"
+              >
+                <img
+                  src={url}
+                  alt={`Delivery proof ${index + 1}`}
+                  loading="lazy"
+                  onError={() => markBroken(url)}
+                  className="h-full w-full object-cover"
+                />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {files.length > 0 && (
+        <ul className="mt-2 list-inside list-disc">
+          {files.map((url) => (
+            <li key={url} className="truncate">
+              <a href={url} target="_blank" rel="noreferrer" className="text-primary underline hover:no-underline">
+                {url}
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {open && openIndex !== null && (
+        <div
+          role="dialog"
+          aria-modal="true"
+          aria-label="Delivery proof"
+          onClick={() => setOpenIndex(null)}
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4"
+        >
+          <img
+            src={open}
+            alt={`Delivery proof ${openIndex + 1}`}
+            onClick={(e) => e.stopPropagation()}
+            className="max-h-full max-w-full rounded-md object-contain"
+          />
+          <div className="absolute inset-x-0 top-0 flex items-center justify-between p-4 text-sm text-white">
+            <span>
+              {openIndex + 1} of {images.length}
+            </span>
+            <button type="button" onClick={() => setOpenIndex(null)} className="rounded-md px-3 py-1 hover:bg-white/10">
+              Close
+            </button>
+          </div>
+          {images.length > 1 && (
+            <div className="absolute inset-x-0 bottom-0 flex justify-center gap-4 p-4">
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setOpenIndex((openIndex - 1 + images.length) % images.length);
+                }}
+                className="rounded-md bg-white/10 px-4 py-2 text-sm text-white hover:bg-white/20"
+              >
+                Previous
+              </button>
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setOpenIndex((openIndex + 1) % images.length);
+                }}
+                className="rounded-md bg-white/10 px-4 py-2 text-sm text-white hover:bg-white/20"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useEffect, useState } from "react";
+import { listPaymentPushSubscriptions, subscribePaymentPush, unsubscribePaymentPush } from "@/lib/api";
+import { createPushSubscription, getPushSubscription, pushSupported } from "@/lib/push";
+
+interface Props {
+  transactionId: string;
+}
+
+type PushState = "loading" | "unsupported" | "blocked" | "off" | "on";
+
+// Lets the buyer hear when the order ships or is delivered without keeping the page open
+export function DeliveryPushOptIn({ transactionId }: Props) {
+  const [state, setState] = useState<PushState>("loading");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    (async () => {
+      if (!pushSupported()) return setState("unsupported");
+      if (Notification.permission === "denied") return setState("blocked");
+      const subscription = await getPushSubscription();
+      const subscribed = subscription
+        ? (await listPaymentPushSubscriptions(transactionId, controller.signal)).some(
+            (s) => s.endpoint === subscription.endpoint
+          )
+        : false;
+      setState(subscribed ? "on" : "off");
+    })().catch((err: unknown) => {
+      if (!controller.signal.aborted) setState("off");
+      console.error("Push subscription check error:", err);
+    });
+    return () => controller.abort();
+  }, [transactionId]);
+
+  const toggle = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      if (state === "on") {
+        const subscription = await getPushSubscription();
+        if (subscription) await unsubscribePaymentPush(transactionId, subscription.endpoint);
+        setState("off");
+        return;
+      }
+      const subscription = await createPushSubscription();
+      if (!subscription) {
+        setState(Notification.permission === "denied" ? "blocked" : "off");
+        return;
+      }
+      await subscribePaymentPush(transactionId, subscription);
+      setState("on");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't change notifications");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (state === "loading" || state === "unsupported") return null;
+
+  return (
+    <section className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-border bg-card p-4 text-card-foreground">
+      <div>
+        <h2 className="text-sm font-semibold">Delivery updates</h2>
+        <p className="mt-1 text-xs text-muted-foreground">
+          {state === "blocked"
+            ? "Notifications are blocked for this site. Allow them in your browser settings to get delivery updates."
+            : state === "on"
+              ? "You'll get a notification on this device when the seller ships or delivers."
+              : "Get a notification on this device when the seller ships or delivers, even with this page closed."}
+        </p>
+        {error && (
+          <p className="mt-1 text-xs text-destructive" role="alert">
+            {error}
+          </p>
+        )}
+      </div>
+      {state !== "blocked" && (
+        <button
+          type="button"
+          onClick={toggle}
+          disabled={busy}
+          className={
+            state === "on"
+              ? "rounded-md border border-border px-4 py-2 text-xs font-medium text-foreground transition-colors hover:bg-muted disabled:opacity-60"
+              : "rounded-md bg-primary px-4 py-2 text-xs font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-60"
+          }
+        >
+          {state === "on" ? "Turn off" : "Notify me"}
+        </button>
+      )}
+    </section>
+  );
+}
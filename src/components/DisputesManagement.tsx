@@ -1,101 +1,314 @@
-import { useState, useRef } from 'react';
-import { ArrowLeft, HelpCircle, Upload, Send, Paperclip, X, Eye, FileText, Image, Video } from 'lucide-react';
-
-interface Dispute {
-  id: string;
-  orderId: string;
-  buyer: string;
-  amount: number;
-  item: string;
-  reason: string;
-  buyerEvidence: { type: string; url: string }[];
-  status: 'open' | 'under_review' | 'resolved';
-  openedAt: Date;
-  deadline: Date;
-  wonByYou: boolean;
-}
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ArrowLeft, HelpCircle, Upload, Send, Paperclip, X, Eye } from 'lucide-react';
+import {
+  acceptDisputeRefund,
+  acceptDisputeSettlement,
+  declineDisputeSettlement,
+  deleteDisputeEvidence,
+  getDispute,
+  listDisputeMessages,
+  listDisputes,
+  offerDisputeSettlement,
+  respondToDispute,
+  sendDisputeMessage,
+  subscribeSellerEvents,
+  uploadDisputeEvidence,
+  type Dispute,
+  type DisputeEvidence,
+  type DisputeMessage,
+  type EvidenceCategory,
+} from '@/lib/api';
+import {
+  DISPUTE_REASONS,
+  EVIDENCE_CATEGORIES,
+  MIN_DESCRIPTION_LENGTH,
+  SETTLEMENT_OFFER_STATUS_LABELS,
+  canRespondToOffer,
+  pendingOffer,
+  validateCategoryEvidence,
+  validateSettlementRefund,
+  wonBySeller,
+} from '@/lib/disputes';
+import { formatMoney, money, parseMoney } from '@/lib/money';
+import { TransactionTimeline } from './TransactionTimeline';
 
 interface UploadedFile {
-  id: number;
+  id: string;
   file: File;
   name: string;
   size: number;
   type: string;
-  category: string;
-  uploadedAt: Date;
-  url: string;
+  category: EvidenceCategory;
+  progress: number;
+  status: 'uploading' | 'failed';
+  error?: string;
+  controller: AbortController;
 }
 
-interface Message {
-  id: number;
-  text: string;
-  sender: 'seller' | 'admin';
-  timestamp: Date;
-  read: boolean;
+interface DisputesManagementProps {
+  /** Opens this dispute's details, e.g. from a notification */
+  openDisputeId?: string | null;
+  onDisputeOpened?: () => void;
 }
 
-export function DisputesManagement() {
+export function DisputesManagement({ openDisputeId, onDisputeOpened }: DisputesManagementProps = {}) {
   const [disputes, setDisputes] = useState<Dispute[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [selectedDispute, setSelectedDispute] = useState<Dispute | null>(null);
   const [activeView, setActiveView] = useState<'list' | 'detail' | 'upload' | 'communicate'>('list');
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<DisputeMessage[]>([]);
   const [newMessage, setNewMessage] = useState('');
+  const [sendingMessage, setSendingMessage] = useState(false);
   const [filter, setFilter] = useState<'all' | 'open' | 'under_review' | 'resolved'>('all');
   const [explanation, setExplanation] = useState('');
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [settlementRefund, setSettlementRefund] = useState('');
+  const [settlementNote, setSettlementNote] = useState('');
+  const [settling, setSettling] = useState(false);
+  const [settlementError, setSettlementError] = useState<string | null>(null);
+
+  const fetchDisputes = useCallback(async (signal?: AbortSignal) => {
+    try {
+      setDisputes(await listDisputes(signal));
+      setLoadError(null);
+    } catch (error) {
+      if (signal?.aborted) return;
+      console.error('Disputes fetch error:', error);
+      setLoadError((error as Error).message || 'Failed to load disputes');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchDisputes(controller.signal);
+    return () => controller.abort();
+  }, [fetchDisputes]);
+
+  // Keep the list and the open dispute in step with whatever the server returned
+  const applyDispute = (dispute: Dispute) => {
+    setDisputes(prev =>
+      prev.some(d => d.id === dispute.id) ? prev.map(d => (d.id === dispute.id ? dispute : d)) : [dispute, ...prev]
+    );
+    setSelectedDispute(prev => (prev?.id === dispute.id ? dispute : prev));
+  };
+
+  const addMessage = (message: DisputeMessage) => {
+    setMessages(prev => (prev.some(m => m.id === message.id) ? prev : [...prev, message]));
+  };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>, category: string) => {
-    const files = Array.from(e.target.files || []);
-    const newFiles: UploadedFile[] = files.map(file => ({
-      id: Date.now() + Math.random(),
+  // Read through a ref so switching disputes doesn't drop the subscription
+  const selectedIdRef = useRef<string | null>(null);
+  selectedIdRef.current = selectedDispute?.id ?? null;
+
+  useEffect(() => subscribeSellerEvents({
+    onEvent: (event) => {
+      if (event.type === 'resync') fetchDisputes();
+      else if (event.type === 'dispute.updated') applyDispute(event.data);
+      else if (event.type === 'dispute.message' && event.data.dispute_id === selectedIdRef.current) addMessage(event.data);
+    },
+  }), [fetchDisputes]);
+
+  const openDispute = async (dispute: Dispute, view: 'detail' | 'upload') => {
+    setSelectedDispute(dispute);
+    setActiveView(view);
+    setActionError(null);
+    setSettlementRefund('');
+    setSettlementNote('');
+    setSettlementError(null);
+    setExplanation(dispute.seller_response?.explanation ?? '');
+    try {
+      applyDispute(await getDispute(dispute.id));
+    } catch (error) {
+      console.error('Dispute fetch error:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (!openDisputeId) return;
+    onDisputeOpened?.();
+    getDispute(openDisputeId)
+      .then(dispute => openDispute(dispute, 'detail'))
+      .catch(error => setLoadError((error as Error).message || 'Failed to load the dispute'));
+    // openDispute is recreated every render; only a new id should reopen
+  }, [openDisputeId, onDisputeOpened]);
+
+  const backToList = () => {
+    setActiveView('list');
+    setSelectedDispute(null);
+    uploadedFiles.forEach(f => f.controller.abort());
+    setUploadedFiles([]);
+    fetchDisputes();
+  };
+
+  useEffect(() => {
+    if (activeView !== 'communicate' || !selectedDispute) return;
+
+    const controller = new AbortController();
+    const load = async () => {
+      try {
+        setMessages(await listDisputeMessages(selectedDispute.id, controller.signal));
+      } catch (error) {
+        if (!controller.signal.aborted) console.error('Dispute messages error:', error);
+      }
+    };
+    load();
+    return () => controller.abort();
+  }, [activeView, selectedDispute?.id]);
+
+  const updateUpload = (id: string, patch: Partial<UploadedFile>) => {
+    setUploadedFiles(prev => prev.map(f => (f.id === id ? { ...f, ...patch } : f)));
+  };
+
+  const uploadFile = async (file: File, category: EvidenceCategory) => {
+    if (!selectedDispute) return;
+    const disputeId = selectedDispute.id;
+    const item: UploadedFile = {
+      id: `${Date.now()}-${Math.random()}`,
       file,
       name: file.name,
       size: file.size,
       type: file.type,
       category,
-      uploadedAt: new Date(),
-      url: URL.createObjectURL(file)
-    }));
-    setUploadedFiles([...uploadedFiles, ...newFiles]);
+      progress: 0,
+      status: 'uploading',
+      controller: new AbortController(),
+    };
+
+    const invalid = validateCategoryEvidence(file, category);
+    if (invalid) {
+      setUploadedFiles(prev => [...prev, { ...item, status: 'failed', error: invalid }]);
+      return;
+    }
+
+    setUploadedFiles(prev => [...prev, item]);
+    try {
+      const evidence = await uploadDisputeEvidence(disputeId, file, category, {
+        signal: item.controller.signal,
+        onProgress: ({ loaded, total }) => updateUpload(item.id, { progress: total ? Math.round((loaded / total) * 100) : 0 }),
+      });
+      setUploadedFiles(prev => prev.filter(f => f.id !== item.id));
+      setSelectedDispute(prev => (prev?.id === disputeId ? { ...prev, evidence: [...prev.evidence, evidence] } : prev));
+    } catch (error) {
+      if (item.controller.signal.aborted) return;
+      updateUpload(item.id, { status: 'failed', error: (error as Error).message || 'Upload failed' });
+    }
   };
 
-  const removeFile = (fileId: number) => {
-    setUploadedFiles(uploadedFiles.filter(f => f.id !== fileId));
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>, category: EvidenceCategory) => {
+    Array.from(e.target.files || []).forEach(file => uploadFile(file, category));
   };
 
-  const sendMessage = () => {
-    if (!newMessage.trim()) return;
-    
-    const message: Message = {
-      id: Date.now(),
-      text: newMessage,
-      sender: 'seller',
-      timestamp: new Date(),
-      read: false
-    };
-    
-    setMessages([...messages, message]);
-    setNewMessage('');
+  const removeFile = (fileId: string) => {
+    uploadedFiles.find(f => f.id === fileId)?.controller.abort();
+    setUploadedFiles(prev => prev.filter(f => f.id !== fileId));
+  };
+
+  const removeEvidence = async (evidence: DisputeEvidence) => {
+    if (!selectedDispute) return;
+    try {
+      await deleteDisputeEvidence(selectedDispute.id, evidence.id);
+      setSelectedDispute({ ...selectedDispute, evidence: selectedDispute.evidence.filter(e => e.id !== evidence.id) });
+    } catch (error) {
+      alert((error as Error).message || 'Failed to remove evidence');
+    }
   };
 
-  const submitDisputeResponse = () => {
-    if (uploadedFiles.length === 0) {
-      alert('Please upload at least one piece of evidence before submitting.');
+  const sendMessage = async () => {
+    if (!newMessage.trim() || !selectedDispute) return;
+
+    setSendingMessage(true);
+    try {
+      const message = await sendDisputeMessage(selectedDispute.id, newMessage.trim());
+      addMessage(message);
+      setNewMessage('');
+    } catch (error) {
+      alert((error as Error).message || 'Failed to send message');
+    } finally {
+      setSendingMessage(false);
+    }
+  };
+
+  const submitDisputeResponse = async () => {
+    if (!selectedDispute) return;
+    setActionError(null);
+    if (sellerEvidence.length === 0) {
+      setActionError('Please upload at least one piece of evidence before submitting.');
+      return;
+    }
+    if (uploadedFiles.some(f => f.status === 'uploading')) {
+      setActionError('Wait for your uploads to finish before submitting.');
+      return;
+    }
+    if (explanation.trim().length < MIN_DESCRIPTION_LENGTH) {
+      setActionError(`Explain your side in at least ${MIN_DESCRIPTION_LENGTH} characters.`);
       return;
     }
 
-    console.log('Submitting dispute response:', {
-      disputeId: selectedDispute?.id,
-      files: uploadedFiles,
-      messages: messages,
-      explanation
-    });
+    setSubmitting(true);
+    try {
+      applyDispute(await respondToDispute(selectedDispute.id, { explanation: explanation.trim() }));
+      setUploadedFiles([]);
+      setActiveView('detail');
+    } catch (error) {
+      setActionError((error as Error).message || 'Failed to submit your response');
+    } finally {
+      setSubmitting(false);
+    }
+  };
 
-    alert('Dispute response submitted successfully! Admin will review within 24-48 hours.');
-    setActiveView('detail');
+  const handleAcceptRefund = async () => {
+    if (!selectedDispute) return;
+    if (!window.confirm('Are you sure you want to accept the refund? This cannot be undone.')) return;
+    try {
+      applyDispute(await acceptDisputeRefund(selectedDispute.id));
+    } catch (error) {
+      alert((error as Error).message || 'Failed to accept refund');
+    }
   };
 
+  const runSettlement = async (action: () => Promise<Dispute>) => {
+    setSettling(true);
+    setSettlementError(null);
+    try {
+      applyDispute(await action());
+      setSettlementRefund('');
+      setSettlementNote('');
+    } catch (error) {
+      setSettlementError((error as Error).message || 'Failed to update the settlement');
+    } finally {
+      setSettling(false);
+    }
+  };
+
+  const sendSettlementOffer = () => {
+    if (!selectedDispute) return;
+    const refund = parseMoney(settlementRefund, selectedDispute.currency)?.amount ?? 0;
+    const invalid = validateSettlementRefund(refund, selectedDispute.amount);
+    if (invalid) {
+      setSettlementError(invalid);
+      return;
+    }
+    const disputeId = selectedDispute.id;
+    runSettlement(() =>
+      offerDisputeSettlement(disputeId, { refund_amount: refund, note: settlementNote.trim() || undefined })
+    );
+  };
+
+  const handleAcceptSettlement = (offerId: string) => {
+    if (!selectedDispute) return;
+    if (!window.confirm('Accept this settlement? The split is final and the dispute will be closed.')) return;
+    const disputeId = selectedDispute.id;
+    runSettlement(() => acceptDisputeSettlement(disputeId, offerId));
+  };
+
+  const sellerEvidence = selectedDispute?.evidence.filter(e => e.submitted_by === 'seller') ?? [];
+  const buyerEvidence = selectedDispute?.evidence.filter(e => e.submitted_by === 'buyer') ?? [];
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -104,19 +317,18 @@ export function DisputesManagement() {
     return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
   };
 
-  const formatDate = (date: Date): string => {
+  const formatDate = (date: Date | string): string => {
     return new Intl.DateTimeFormat('en-US', {
       month: 'short',
       day: 'numeric',
       year: 'numeric',
       hour: '2-digit',
       minute: '2-digit'
-    }).format(date);
+    }).format(new Date(date));
   };
 
-  const getTimeRemaining = (deadline: Date): string => {
-    const now = new Date();
-    const diff = deadline.getTime() - now.getTime();
+  const getTimeRemaining = (deadline: string): string => {
+    const diff = new Date(deadline).getTime() - Date.now();
     const hours = Math.floor(diff / (1000 * 60 * 60));
     const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
     
@@ -134,9 +346,15 @@ export function DisputesManagement() {
     }
   };
 
+  const getResolutionLabel = (dispute: Dispute): string => {
+    if (dispute.resolution?.outcome === 'settled') return 'SETTLED';
+    return wonBySeller(dispute) ? 'WON' : 'REFUNDED';
+  };
+
   const filteredDisputes = disputes.filter(d => filter === 'all' || d.status === filter);
+  const resolvedDisputes = disputes.filter(d => d.status === 'resolved');
 
-  const createFileInput = (category: string, accept: string) => {
+  const createFileInput = (category: EvidenceCategory, accept: string) => {
     const input = document.createElement('input');
     input.type = 'file';
     input.multiple = true;
@@ -145,6 +363,73 @@ export function DisputesManagement() {
     input.click();
   };
 
+  const renderCategoryFiles = (category: EvidenceCategory) => {
+    const stored = sellerEvidence.filter(e => e.category === category);
+    const pending = uploadedFiles.filter(f => f.category === category);
+    if (stored.length === 0 && pending.length === 0) return null;
+
+    return (
+      <div className="mt-4 space-y-2">
+        {stored.map(evidence => (
+          <div key={evidence.id} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg border border-gray-200">
+            <div className="flex items-center gap-3">
+              <span className="text-2xl">{evidence.kind === 'video' ? '🎬' : evidence.kind === 'image' ? '🖼️' : '📄'}</span>
+              <div>
+                <div className="font-semibold text-sm">{evidence.name}</div>
+                <div className="text-xs text-gray-500">{formatFileSize(evidence.size)} • Uploaded</div>
+              </div>
+            </div>
+            <button 
+              onClick={() => removeEvidence(evidence)}
+              className="w-8 h-8 flex items-center justify-center bg-red-100 text-red-500 rounded-full hover:bg-red-200 transition"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        ))}
+        {pending.map(file => (
+          <div key={file.id} className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+            <div className="flex justify-between items-center">
+              <div className="flex items-center gap-3 min-w-0">
+                <span className="text-2xl">{file.type.startsWith('video/') ? '🎬' : file.type.startsWith('image/') ? '🖼️' : '📄'}</span>
+                <div className="min-w-0">
+                  <div className="font-semibold text-sm truncate">{file.name}</div>
+                  <div className={`text-xs ${file.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                    {file.status === 'failed' ? file.error : `${formatFileSize(file.size)} • ${file.progress}%`}
+                  </div>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                {file.status === 'failed' && !validateCategoryEvidence(file.file, category) && (
+                  <button
+                    onClick={() => {
+                      removeFile(file.id);
+                      uploadFile(file.file, category);
+                    }}
+                    className="text-xs font-semibold text-blue-600 hover:text-blue-800"
+                  >
+                    Retry
+                  </button>
+                )}
+                <button 
+                  onClick={() => removeFile(file.id)}
+                  className="w-8 h-8 flex items-center justify-center bg-red-100 text-red-500 rounded-full hover:bg-red-200 transition"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            </div>
+            {file.status === 'uploading' && (
+              <div className="mt-2 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-600 transition-all" style={{ width: `${file.progress}%` }}></div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -188,7 +473,7 @@ export function DisputesManagement() {
         <div className="bg-gradient-to-br from-blue-500 to-blue-600 rounded-xl p-6 text-white cursor-pointer hover:shadow-lg transition transform hover:-translate-y-1">
           <div className="text-4xl mb-3">📊</div>
           <div className="text-4xl font-bold mb-1">
-            {disputes.length > 0 ? Math.round((disputes.filter(d => d.wonByYou).length / disputes.length) * 100) : 0}%
+            {resolvedDisputes.length > 0 ? Math.round((resolvedDisputes.filter(wonBySeller).length / resolvedDisputes.length) * 100) : 0}%
           </div>
           <div className="font-semibold opacity-90">Win Rate</div>
           <div className="text-sm opacity-80">Your favor</div>
@@ -218,7 +503,22 @@ export function DisputesManagement() {
       </div>
 
       {/* Main Content */}
-      {disputes.length === 0 ? (
+      {loading ? (
+        <div className="text-center py-16 bg-white rounded-xl shadow-sm">
+          <div className="animate-spin w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full mx-auto"></div>
+        </div>
+      ) : loadError && disputes.length === 0 ? (
+        <div className="text-center py-16 bg-white rounded-xl shadow-sm">
+          <p className="font-semibold text-gray-900 mb-2">Couldn't load your disputes</p>
+          <p className="text-gray-600 mb-6">{loadError}</p>
+          <button
+            onClick={() => fetchDisputes()}
+            className="bg-blue-600 text-white px-6 py-2 rounded-lg font-semibold hover:bg-blue-700 transition"
+          >
+            Try Again
+          </button>
+        </div>
+      ) : disputes.length === 0 ? (
         <div className="text-center py-16 bg-white rounded-xl shadow-sm">
           <div className="text-6xl mb-6">🎉</div>
           <h3 className="text-xl font-bold text-gray-900 mb-2">No Active Disputes</h3>
@@ -236,32 +536,38 @@ export function DisputesManagement() {
                 <div 
                   key={dispute.id} 
                   className="bg-white rounded-xl border border-gray-200 p-6 cursor-pointer hover:shadow-lg transition transform hover:-translate-y-1"
-                  onClick={() => {
-                    setSelectedDispute(dispute);
-                    setActiveView('detail');
-                  }}
+                  onClick={() => openDispute(dispute, 'detail')}
                 >
                   <div className="flex justify-between items-start mb-4">
                     <div>
                       <div className="font-bold text-lg">🚨 Dispute #{dispute.id}</div>
-                      <div className="text-gray-600 text-sm">Order #{dispute.orderId}</div>
+                      <div className="text-gray-600 text-sm">Order #{dispute.transaction_id}</div>
                     </div>
                     <span className={`px-3 py-1 rounded-full text-xs font-semibold border ${getStatusStyles(dispute.status)}`}>
-                      {dispute.status.replace('_', ' ').toUpperCase()}
+                      {dispute.status === 'resolved'
+                        ? `RESOLVED • ${getResolutionLabel(dispute)}`
+                        : dispute.status.replace('_', ' ').toUpperCase()}
                     </span>
                   </div>
 
                   <div className="grid grid-cols-2 gap-2 mb-4 text-sm">
                     <div><span className="text-gray-500">Buyer:</span> <span className="font-medium">{dispute.buyer}</span></div>
-                    <div><span className="text-gray-500">Amount:</span> <span className="font-medium">KES {dispute.amount.toLocaleString()}</span></div>
-                    <div><span className="text-gray-500">Item:</span> <span className="font-medium">{dispute.item}</span></div>
-                    <div><span className="text-gray-500">Reason:</span> <span className="font-medium text-red-600">{dispute.reason}</span></div>
+                    <div><span className="text-gray-500">Amount:</span> <span className="font-medium">{formatMoney(money(dispute.amount, dispute.currency))}</span></div>
+                    <div><span className="text-gray-500">Item:</span> <span className="font-medium">{dispute.product_name ?? 'Untitled item'}</span></div>
+                    <div><span className="text-gray-500">Reason:</span> <span className="font-medium text-red-600">{DISPUTE_REASONS[dispute.reason]}</span></div>
                   </div>
 
                   {dispute.status === 'open' && (
                     <div className="flex items-center gap-2 bg-red-50 text-red-700 px-4 py-2 rounded-lg mb-4">
                       <span>⏰</span>
-                      <span className="font-semibold">{getTimeRemaining(dispute.deadline)} to respond</span>
+                      <span className="font-semibold">{getTimeRemaining(dispute.response_deadline)} to respond</span>
+                    </div>
+                  )}
+
+                  {dispute.offers.some(o => canRespondToOffer(o, 'seller')) && (
+                    <div className="flex items-center gap-2 bg-blue-50 text-blue-700 px-4 py-2 rounded-lg mb-4">
+                      <span>🤝</span>
+                      <span className="font-semibold">The buyer offered a settlement</span>
                     </div>
                   )}
 
@@ -270,8 +576,7 @@ export function DisputesManagement() {
                       className="flex-1 bg-blue-600 text-white py-2 rounded-lg font-semibold hover:bg-blue-700 transition"
                       onClick={(e) => {
                         e.stopPropagation();
-                        setSelectedDispute(dispute);
-                        setActiveView('detail');
+                        openDispute(dispute, 'detail');
                       }}
                     >
                       View Details
@@ -281,8 +586,7 @@ export function DisputesManagement() {
                         className="flex-1 bg-gray-100 text-gray-700 py-2 rounded-lg font-semibold hover:bg-gray-200 transition border border-gray-300"
                         onClick={(e) => {
                           e.stopPropagation();
-                          setSelectedDispute(dispute);
-                          setActiveView('upload');
+                          openDispute(dispute, 'upload');
                         }}
                       >
                         Upload Evidence
@@ -297,7 +601,7 @@ export function DisputesManagement() {
           {activeView === 'detail' && selectedDispute && (
             <div className="space-y-6">
               <button 
-                onClick={() => setActiveView('list')}
+                onClick={backToList}
                 className="flex items-center gap-2 text-gray-600 hover:text-gray-900 font-semibold"
               >
                 <ArrowLeft size={20} />
@@ -308,7 +612,7 @@ export function DisputesManagement() {
                 <div className="flex justify-between items-start mb-6 flex-wrap gap-4">
                   <div>
                     <h2 className="text-xl font-bold">Dispute #{selectedDispute.id}</h2>
-                    <p className="text-gray-600">Order #{selectedDispute.orderId}</p>
+                    <p className="text-gray-600">Order #{selectedDispute.transaction_id}</p>
                   </div>
                   <span className={`px-4 py-2 rounded-full font-semibold border ${getStatusStyles(selectedDispute.status)}`}>
                     {selectedDispute.status.replace('_', ' ').toUpperCase()}
@@ -318,54 +622,32 @@ export function DisputesManagement() {
                 {/* Timeline */}
                 <div className="mb-8">
                   <h3 className="text-lg font-bold mb-4">📅 Dispute Timeline</h3>
-                  <div className="relative pl-8 space-y-6">
-                    <div className="relative">
-                      <div className="absolute -left-8 w-5 h-5 bg-red-500 rounded-full border-3 border-white"></div>
-                      <div className="bg-gray-50 p-4 rounded-lg">
-                        <div className="text-xs text-gray-500 font-semibold mb-1">{formatDate(selectedDispute.openedAt)}</div>
-                        <div className="font-bold">🚨 Dispute opened by buyer</div>
-                        <p className="text-gray-600 text-sm">Reason: "{selectedDispute.reason}"</p>
-                      </div>
-                    </div>
-
-                    {uploadedFiles.length > 0 && (
-                      <div className="relative">
-                        <div className="absolute -left-8 w-5 h-5 bg-blue-500 rounded-full border-3 border-white"></div>
-                        <div className="bg-gray-50 p-4 rounded-lg">
-                          <div className="text-xs text-gray-500 font-semibold mb-1">{formatDate(new Date())}</div>
-                          <div className="font-bold">📎 Evidence uploaded</div>
-                          <p className="text-gray-600 text-sm">{uploadedFiles.length} file(s) submitted</p>
-                        </div>
-                      </div>
-                    )}
-
-                    <div className="relative">
-                      <div className="absolute -left-8 w-5 h-5 bg-yellow-500 rounded-full border-3 border-white"></div>
-                      <div className="bg-gray-50 p-4 rounded-lg">
-                        <div className="text-xs text-gray-500 font-semibold mb-1">Pending</div>
-                        <div className="font-bold">👤 Your response</div>
-                        <p className="text-gray-600 text-sm">Deadline: {formatDate(selectedDispute.deadline)}</p>
-                      </div>
-                    </div>
-
-                    <div className="relative">
-                      <div className="absolute -left-8 w-5 h-5 bg-gray-400 rounded-full border-3 border-white"></div>
-                      <div className="bg-gray-50 p-4 rounded-lg">
-                        <div className="text-xs text-gray-500 font-semibold mb-1">Expected</div>
-                        <div className="font-bold">⚖️ Admin review</div>
-                        <p className="text-gray-600 text-sm">Decision within 24-48 hours after submission</p>
-                      </div>
-                    </div>
-                  </div>
+                  <TransactionTimeline
+                    transactionId={selectedDispute.transaction_id}
+                    currency={selectedDispute.currency}
+                    viewer="seller"
+                    scope="seller"
+                    refreshKey={selectedDispute}
+                  />
+                  {!selectedDispute.resolution && (
+                    <p className="text-gray-600 text-sm bg-gray-50 p-4 rounded-lg">
+                      {selectedDispute.seller_response
+                        ? '⚖️ Admin review: decision within 24-48 hours of your response'
+                        : `👤 Your response is due by ${formatDate(selectedDispute.response_deadline)}`}
+                    </p>
+                  )}
                 </div>
 
                 {/* Buyer Evidence */}
                 <div className="mb-8">
                   <h3 className="text-lg font-bold mb-4">📸 Buyer's Evidence</h3>
+                  {buyerEvidence.length === 0 && (
+                    <p className="text-gray-500 text-sm mb-2">The buyer didn't attach any photos or videos.</p>
+                  )}
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-2">
-                    {selectedDispute.buyerEvidence.map((evidence, idx) => (
-                      <div key={idx} className="relative aspect-square rounded-lg overflow-hidden border-2 border-gray-200 bg-gray-50 group">
-                        {evidence.type === 'image' ? (
+                    {buyerEvidence.map((evidence, idx) => (
+                      <div key={evidence.id} className="relative aspect-square rounded-lg overflow-hidden border-2 border-gray-200 bg-gray-50 group">
+                        {evidence.kind === 'image' ? (
                           <img src={evidence.url} alt={`Evidence ${idx + 1}`} className="w-full h-full object-cover" />
                         ) : (
                           <div className="w-full h-full flex items-center justify-center text-4xl">📄</div>
@@ -382,19 +664,19 @@ export function DisputesManagement() {
                       </div>
                     ))}
                   </div>
-                  <p className="text-gray-500 text-sm italic">Buyer's claim: "{selectedDispute.reason}"</p>
+                  <p className="text-gray-500 text-sm italic">Buyer's claim: "{selectedDispute.description}"</p>
                 </div>
 
                 {/* Your Evidence */}
-                {uploadedFiles.length > 0 && (
+                {sellerEvidence.length > 0 && (
                   <div className="mb-8">
                     <h3 className="text-lg font-bold mb-4">🛡️ Your Evidence</h3>
                     <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                      {uploadedFiles.map(file => (
+                      {sellerEvidence.map(file => (
                         <div key={file.id} className="relative aspect-square rounded-lg overflow-hidden border-2 border-gray-200 bg-gray-50">
-                          {file.type.startsWith('image/') ? (
+                          {file.kind === 'image' ? (
                             <img src={file.url} alt={file.name} className="w-full h-full object-cover" />
-                          ) : file.type.startsWith('video/') ? (
+                          ) : file.kind === 'video' ? (
                             <video src={file.url} className="w-full h-full object-cover" controls />
                           ) : (
                             <div className="w-full h-full flex items-center justify-center text-4xl">📄</div>
@@ -409,29 +691,129 @@ export function DisputesManagement() {
                   </div>
                 )}
 
+                {/* Settlement */}
+                {(selectedDispute.status !== 'resolved' || selectedDispute.offers.length > 0) && (
+                  <div className="mb-8">
+                    <h3 className="text-lg font-bold mb-2">🤝 Settlement</h3>
+                    {selectedDispute.status !== 'resolved' && (
+                      <p className="text-gray-600 text-sm mb-4">
+                        Agree a split of the {formatMoney(money(selectedDispute.amount, selectedDispute.currency))} in escrow with the buyer.
+                        Part is refunded to them and the rest is released to your wallet straight away.
+                      </p>
+                    )}
+
+                    {selectedDispute.offers.length > 0 && (
+                      <div className="space-y-3 mb-4">
+                        {selectedDispute.offers.map(offer => (
+                          <div key={offer.id} className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+                            <div className="flex justify-between items-start gap-4">
+                              <div>
+                                <div className="font-semibold">
+                                  {offer.proposed_by === 'seller' ? '👤 Your offer' : '🛒 Buyer\'s offer'}
+                                </div>
+                                <div className="text-sm text-gray-700">
+                                  {formatMoney(money(offer.refund_amount, selectedDispute.currency))} refunded •{' '}
+                                  {formatMoney(money(offer.release_amount, selectedDispute.currency))} to you
+                                </div>
+                                {offer.note && <div className="text-sm text-gray-500 italic">"{offer.note}"</div>}
+                                <div className="text-xs text-gray-500 mt-1">{formatDate(offer.created_at)}</div>
+                              </div>
+                              <span className={`px-3 py-1 rounded-full text-xs font-semibold whitespace-nowrap ${
+                                offer.status === 'accepted' ? 'bg-green-100 text-green-700'
+                                  : offer.status === 'pending' ? 'bg-yellow-100 text-yellow-700'
+                                  : 'bg-gray-100 text-gray-600'
+                              }`}>
+                                {SETTLEMENT_OFFER_STATUS_LABELS[offer.status]}
+                              </span>
+                            </div>
+                            {canRespondToOffer(offer, 'seller') && selectedDispute.status !== 'resolved' && (
+                              <div className="flex gap-2 mt-3">
+                                <button
+                                  onClick={() => handleAcceptSettlement(offer.id)}
+                                  disabled={settling}
+                                  className="bg-green-600 text-white px-4 py-2 rounded-lg font-semibold text-sm hover:bg-green-700 transition disabled:opacity-50"
+                                >
+                                  ✓ Accept
+                                </button>
+                                <button
+                                  onClick={() => runSettlement(() => declineDisputeSettlement(selectedDispute.id, offer.id))}
+                                  disabled={settling}
+                                  className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg font-semibold text-sm hover:bg-gray-200 transition border border-gray-300 disabled:opacity-50"
+                                >
+                                  Decline
+                                </button>
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {selectedDispute.status !== 'resolved' && (
+                      <div className="border-2 border-gray-200 rounded-xl p-4">
+                        <div className="font-semibold mb-3">
+                          {pendingOffer(selectedDispute)?.proposed_by === 'buyer' ? 'Make a counteroffer' : 'Offer a settlement'}
+                        </div>
+                        <div className="flex flex-wrap gap-3 mb-3">
+                          <input
+                            type="text"
+                            inputMode="decimal"
+                            placeholder={`Refund to buyer (${selectedDispute.currency})`}
+                            value={settlementRefund}
+                            onChange={(e) => setSettlementRefund(e.target.value)}
+                            className="flex-1 min-w-0 px-4 py-2 rounded-lg border border-gray-300 focus:outline-none focus:border-blue-500"
+                          />
+                          <div className="flex items-center text-sm text-gray-600">
+                            You receive{' '}
+                            {formatMoney(money(
+                              Math.max(selectedDispute.amount - (parseMoney(settlementRefund, selectedDispute.currency)?.amount ?? 0), 0),
+                              selectedDispute.currency
+                            ))}
+                          </div>
+                        </div>
+                        <textarea
+                          value={settlementNote}
+                          onChange={(e) => setSettlementNote(e.target.value)}
+                          placeholder="Add a note for the buyer (optional)"
+                          rows={2}
+                          className="w-full p-3 border-2 border-gray-200 rounded-lg text-sm resize-y focus:border-blue-500 focus:outline-none transition mb-3"
+                        />
+                        <button
+                          onClick={sendSettlementOffer}
+                          disabled={settling}
+                          className="bg-blue-600 text-white px-6 py-2 rounded-lg font-semibold hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {settling ? 'Sending...' : 'Send Offer'}
+                        </button>
+                      </div>
+                    )}
+
+                    {settlementError && (
+                      <p className="mt-3 text-sm text-red-600" role="alert">{settlementError}</p>
+                    )}
+                  </div>
+                )}
+
                 {/* Action Buttons */}
                 <div className="flex flex-wrap gap-3 pt-6 border-t border-gray-200">
-                  <button 
-                    onClick={() => setActiveView('upload')}
-                    className="flex items-center gap-2 bg-blue-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-blue-700 transition"
-                  >
-                    <Upload size={18} />
-                    {uploadedFiles.length > 0 ? 'Add More Evidence' : 'Upload Evidence'}
-                  </button>
+                  {selectedDispute.status === 'open' && (
+                    <button 
+                      onClick={() => setActiveView('upload')}
+                      className="flex items-center gap-2 bg-blue-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-blue-700 transition"
+                    >
+                      <Upload size={18} />
+                      {sellerEvidence.length > 0 ? 'Add More Evidence' : 'Upload Evidence'}
+                    </button>
+                  )}
                   <button 
                     onClick={() => setActiveView('communicate')}
                     className="flex items-center gap-2 bg-gray-100 text-gray-700 px-6 py-3 rounded-lg font-semibold hover:bg-gray-200 transition border border-gray-300"
                   >
                     💬 Message Admin
                   </button>
-                  {selectedDispute.status === 'open' && (
+                  {selectedDispute.status !== 'resolved' && (
                     <button 
-                      onClick={() => {
-                        if (window.confirm('Are you sure you want to accept the refund? This cannot be undone.')) {
-                          alert('Refund accepted. Funds will be returned to buyer.');
-                          setActiveView('list');
-                        }
-                      }}
+                      onClick={handleAcceptRefund}
                       className="flex items-center gap-2 bg-red-100 text-red-700 px-6 py-3 rounded-lg font-semibold hover:bg-red-200 transition border border-red-300"
                     >
                       ✓ Accept Refund
@@ -466,34 +848,14 @@ export function DisputesManagement() {
                       <p className="text-gray-600 text-sm">Courier receipts, tracking screenshots, delivery confirmation</p>
                     </div>
                     <div 
-                      onClick={() => createFileInput('delivery', 'image/*,application/pdf')}
+                      onClick={() => createFileInput('delivery', EVIDENCE_CATEGORIES.delivery.accept)}
                       className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center cursor-pointer hover:border-blue-400 hover:bg-blue-50/50 transition bg-gray-50"
                     >
                       <div className="text-4xl mb-3">📷</div>
                       <div className="font-semibold text-gray-900">Click to upload or drag files here</div>
                       <div className="text-gray-500 text-sm">PNG, JPG, PDF up to 10MB each</div>
                     </div>
-                    {uploadedFiles.filter(f => f.category === 'delivery').length > 0 && (
-                      <div className="mt-4 space-y-2">
-                        {uploadedFiles.filter(f => f.category === 'delivery').map(file => (
-                          <div key={file.id} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg border border-gray-200">
-                            <div className="flex items-center gap-3">
-                              <span className="text-2xl">{file.type.startsWith('image/') ? '🖼️' : '📄'}</span>
-                              <div>
-                                <div className="font-semibold text-sm">{file.name}</div>
-                                <div className="text-xs text-gray-500">{formatFileSize(file.size)}</div>
-                              </div>
-                            </div>
-                            <button 
-                              onClick={() => removeFile(file.id)}
-                              className="w-8 h-8 flex items-center justify-center bg-red-100 text-red-500 rounded-full hover:bg-red-200 transition"
-                            >
-                              <X size={16} />
-                            </button>
-                          </div>
-                        ))}
-                      </div>
-                    )}
+                    {renderCategoryFiles('delivery')}
                   </div>
 
                   {/* Product Condition */}
@@ -503,34 +865,14 @@ export function DisputesManagement() {
                       <p className="text-gray-600 text-sm">Photos showing product was undamaged before shipping</p>
                     </div>
                     <div 
-                      onClick={() => createFileInput('condition', 'image/*')}
+                      onClick={() => createFileInput('condition', EVIDENCE_CATEGORIES.condition.accept)}
                       className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center cursor-pointer hover:border-blue-400 hover:bg-blue-50/50 transition bg-gray-50"
                     >
                       <div className="text-4xl mb-3">📷</div>
                       <div className="font-semibold text-gray-900">Click to upload photos</div>
                       <div className="text-gray-500 text-sm">Show product before packaging</div>
                     </div>
-                    {uploadedFiles.filter(f => f.category === 'condition').length > 0 && (
-                      <div className="mt-4 space-y-2">
-                        {uploadedFiles.filter(f => f.category === 'condition').map(file => (
-                          <div key={file.id} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg border border-gray-200">
-                            <div className="flex items-center gap-3">
-                              <span className="text-2xl">🖼️</span>
-                              <div>
-                                <div className="font-semibold text-sm">{file.name}</div>
-                                <div className="text-xs text-gray-500">{formatFileSize(file.size)}</div>
-                              </div>
-                            </div>
-                            <button 
-                              onClick={() => removeFile(file.id)}
-                              className="w-8 h-8 flex items-center justify-center bg-red-100 text-red-500 rounded-full hover:bg-red-200 transition"
-                            >
-                              <X size={16} />
-                            </button>
-                          </div>
-                        ))}
-                      </div>
-                    )}
+                    {renderCategoryFiles('condition')}
                   </div>
 
                   {/* Packing Video */}
@@ -540,34 +882,14 @@ export function DisputesManagement() {
                       <p className="text-gray-600 text-sm">Video showing careful packing process</p>
                     </div>
                     <div 
-                      onClick={() => createFileInput('video', 'video/*')}
+                      onClick={() => createFileInput('video', EVIDENCE_CATEGORIES.video.accept)}
                       className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center cursor-pointer hover:border-blue-400 hover:bg-blue-50/50 transition bg-gray-50"
                     >
                       <div className="text-4xl mb-3">🎥</div>
                       <div className="font-semibold text-gray-900">Click to upload video</div>
                       <div className="text-gray-500 text-sm">MP4, MOV up to 50MB</div>
                     </div>
-                    {uploadedFiles.filter(f => f.category === 'video').length > 0 && (
-                      <div className="mt-4 space-y-2">
-                        {uploadedFiles.filter(f => f.category === 'video').map(file => (
-                          <div key={file.id} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg border border-gray-200">
-                            <div className="flex items-center gap-3">
-                              <span className="text-2xl">🎬</span>
-                              <div>
-                                <div className="font-semibold text-sm">{file.name}</div>
-                                <div className="text-xs text-gray-500">{formatFileSize(file.size)}</div>
-                              </div>
-                            </div>
-                            <button 
-                              onClick={() => removeFile(file.id)}
-                              className="w-8 h-8 flex items-center justify-center bg-red-100 text-red-500 rounded-full hover:bg-red-200 transition"
-                            >
-                              <X size={16} />
-                            </button>
-                          </div>
-                        ))}
-                      </div>
-                    )}
+                    {renderCategoryFiles('video')}
                   </div>
 
                   {/* Written Explanation */}
@@ -590,14 +912,18 @@ export function DisputesManagement() {
                 <div className="flex gap-8 p-4 bg-gray-50 rounded-lg mt-6">
                   <div className="flex items-center gap-2">
                     <span className="text-2xl">📎</span>
-                    <span className="font-semibold">{uploadedFiles.length} file{uploadedFiles.length !== 1 ? 's' : ''} uploaded</span>
+                    <span className="font-semibold">{sellerEvidence.length} file{sellerEvidence.length !== 1 ? 's' : ''} uploaded</span>
                   </div>
                   <div className="flex items-center gap-2">
                     <span className="text-2xl">💾</span>
-                    <span className="font-semibold">{formatFileSize(uploadedFiles.reduce((acc, f) => acc + f.size, 0))} total</span>
+                    <span className="font-semibold">{formatFileSize(sellerEvidence.reduce((acc, f) => acc + f.size, 0))} total</span>
                   </div>
                 </div>
 
+                {actionError && (
+                  <p className="mt-4 text-sm text-red-600" role="alert">{actionError}</p>
+                )}
+
                 {/* Action Buttons */}
                 <div className="flex gap-4 mt-6 pt-6 border-t border-gray-200">
                   <button 
@@ -608,9 +934,10 @@ export function DisputesManagement() {
                   </button>
                   <button 
                     onClick={submitDisputeResponse}
-                    className="px-6 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition"
+                    disabled={submitting}
+                    className="px-6 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
                   >
-                    📤 Submit Evidence
+                    {submitting ? 'Submitting...' : '📤 Submit Evidence'}
                   </button>
                 </div>
 
@@ -645,7 +972,7 @@ export function DisputesManagement() {
               <div className="bg-white rounded-xl p-6 shadow-sm">
                 <div className="mb-6 pb-6 border-b border-gray-200">
                   <h2 className="text-xl font-bold mb-2">💬 Message Admin</h2>
-                  <p className="text-gray-600">Dispute #{selectedDispute.id} • {selectedDispute.orderId}</p>
+                  <p className="text-gray-600">Dispute #{selectedDispute.id} • {selectedDispute.transaction_id}</p>
                 </div>
 
                 {/* Message Thread */}
@@ -671,7 +998,7 @@ export function DisputesManagement() {
                             <span className="font-bold text-sm">
                               {msg.sender === 'seller' ? '👤 You' : '👨‍💼 Admin'}
                             </span>
-                            <span className="text-xs text-gray-500">{formatDate(msg.timestamp)}</span>
+                            <span className="text-xs text-gray-500">{formatDate(msg.created_at)}</span>
                           </div>
                           <div className="text-gray-900">{msg.text}</div>
                         </div>
@@ -711,7 +1038,7 @@ export function DisputesManagement() {
                     </button>
                     <button
                       onClick={sendMessage}
-                      disabled={!newMessage.trim()}
+                      disabled={!newMessage.trim() || sendingMessage}
                       className="flex items-center gap-2 px-6 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                       Send
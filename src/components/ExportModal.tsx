@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { validateAnalyticsRange, type DateRange } from '@/lib/analytics';
+import { CURRENCIES } from '@/lib/money';
+import { monthRange, type ExportFormat } from '@/lib/statements';
+
+const PRESETS = [
+  { id: 'last-month', label: 'Last month', range: () => monthRange(1) },
+  { id: 'this-month', label: 'This month', range: () => monthRange(0) },
+  { id: 'custom', label: 'Custom range', range: null },
+] as const;
+
+type PresetId = (typeof PRESETS)[number]['id'];
+
+interface ExportModalProps {
+  title: string;
+  /** Offer a currency choice; statements are per currency */
+  currencies?: string[];
+  /** e.g. "3 transactions", shown before exporting */
+  describe: (range: DateRange, currency: string) => string;
+  onExport: (format: ExportFormat, range: DateRange, currency: string) => void;
+  onClose: () => void;
+}
+
+export function ExportModal({ title, currencies, describe, onExport, onClose }: ExportModalProps) {
+  const [preset, setPreset] = useState<PresetId>('last-month');
+  const [customRange, setCustomRange] = useState<DateRange>(() => monthRange(1));
+  const [currency, setCurrency] = useState(currencies?.[0] ?? '');
+
+  const range = PRESETS.find(p => p.id === preset)?.range?.() ?? customRange;
+  const error = validateAnalyticsRange(range);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl max-w-md w-full p-8">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-2xl font-bold">📄 {title}</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" aria-label="Close">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Period">
+            {PRESETS.map(p => (
+              <button
+                key={p.id}
+                type="button"
+                role="radio"
+                aria-checked={preset === p.id}
+                onClick={() => setPreset(p.id)}
+                className={`px-4 py-2 rounded-lg border text-sm font-semibold transition ${
+                  preset === p.id ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {p.label}
+              </button>
+            ))}
+          </div>
+
+          {preset === 'custom' && (
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={customRange.from}
+                max={customRange.to}
+                onChange={e => setCustomRange(prev => ({ ...prev, from: e.target.value }))}
+                aria-label="From"
+                className="flex-1 px-3 py-2 rounded-lg border border-gray-300 focus:outline-none focus:border-blue-500"
+              />
+              <span className="text-gray-500">to</span>
+              <input
+                type="date"
+                value={customRange.to}
+                min={customRange.from}
+                onChange={e => setCustomRange(prev => ({ ...prev, to: e.target.value }))}
+                aria-label="To"
+                className="flex-1 px-3 py-2 rounded-lg border border-gray-300 focus:outline-none focus:border-blue-500"
+              />
+            </div>
+          )}
+
+          {currencies && currencies.length > 1 && (
+            <select
+              value={currency}
+              onChange={e => setCurrency(e.target.value)}
+              aria-label="Currency"
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:outline-none focus:border-blue-500 bg-white"
+            >
+              {currencies.map(code => (
+                <option key={code} value={code}>{code} · {CURRENCIES[code]?.name ?? code}</option>
+              ))}
+            </select>
+          )}
+
+          <p className={`text-sm ${error ? 'text-red-600' : 'text-gray-600'}`}>
+            {error ?? `${range.from} to ${range.to}: ${describe(range, currency)}`}
+          </p>
+
+          <div className="flex gap-3">
+            {(['csv', 'pdf'] as ExportFormat[]).map(format => (
+              <button
+                key={format}
+                type="button"
+                disabled={Boolean(error)}
+                onClick={() => onExport(format, range, currency)}
+                className="flex-1 bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 transition font-semibold flex items-center justify-center gap-2 disabled:opacity-60"
+              >
+                <Download size={18} />
+                {format.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import type { FeeBreakdown } from "@/lib/api";
+import { formatMoney, money } from "@/lib/money";
+
+interface Props {
+  fees: FeeBreakdown;
+  currency: string;
+  className?: string;
+}
+
+export function FeeSummary({ fees, currency, className = "" }: Props) {
+  const format = (amount: number) => formatMoney(money(amount, currency));
+  // Fees are added to the buyer's total or taken from the seller's payout
+  const sign = fees.fee_payer === "buyer" ? "+" : "−";
+
+  return (
+    <div className={`text-sm ${className}`}>
+      <dl className="space-y-1">
+        <div className="flex justify-between gap-4">
+          <dt className="text-muted-foreground">Item price</dt>
+          <dd className="tabular-nums">{format(fees.item_price)}</dd>
+        </div>
+        <div className="flex justify-between gap-4">
+          <dt className="text-muted-foreground">Escrow fee</dt>
+          <dd className="tabular-nums">
+            {sign} {format(fees.escrow_fee)}
+          </dd>
+        </div>
+        <div className="flex justify-between gap-4">
+          <dt className="text-muted-foreground">M-Pesa charges</dt>
+          <dd className="tabular-nums">
+            {sign} {format(fees.mpesa_fee)}
+          </dd>
+        </div>
+        <div className="flex justify-between gap-4 border-t border-border pt-1 font-medium">
+          <dt>Buyer pays</dt>
+          <dd className="tabular-nums">{format(fees.buyer_total)}</dd>
+        </div>
+        <div className="flex justify-between gap-4 font-medium">
+          <dt>Seller receives</dt>
+          <dd className="tabular-nums">{format(fees.seller_net)}</dd>
+        </div>
+      </dl>
+      <p className="pt-1 text-xs text-muted-foreground">
+        {fees.fee_payer === "buyer" ? "Fees are paid by the buyer." : "Fees are paid by the seller."}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { deliverMilestone, releaseMilestone, type Milestone } from "@/lib/api";
+import { canPerform, type EscrowStatus, type PaymentViewerRole } from "@/lib/escrow";
+import { MILESTONE_STATUS_LABELS, nextMilestoneToDeliver, releasedCount } from "@/lib/milestones";
+import { formatMoney, money } from "@/lib/money";
+
+interface Props {
+  transactionId: string;
+  milestones: Milestone[];
+  currency: string;
+  status: EscrowStatus;
+  role: PaymentViewerRole;
+  onChanged: () => void;
+}
+
+const STATUS_CLASSES: Record<Milestone["status"], string> = {
+  pending: "bg-muted text-muted-foreground",
+  delivered: "bg-secondary text-secondary-foreground",
+  released: "bg-green-100 text-green-800",
+  refunded: "bg-muted text-muted-foreground line-through",
+};
+
+export function MilestoneList({ transactionId, milestones, currency, status, role, onChanged }: Props) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const next = nextMilestoneToDeliver(milestones);
+  const pendingCount = milestones.filter((m) => m.status === "pending").length;
+  const unreleasedCount = milestones.length - releasedCount(milestones);
+  // The last delivery and the last release move the whole payment on
+  const canDeliver = canPerform(status, pendingCount === 1 ? "mark_delivered" : "deliver_milestone", role);
+  const canRelease = canPerform(status, unreleasedCount === 1 ? "confirm" : "release_milestone", role);
+
+  async function run(milestone: Milestone, action: typeof deliverMilestone) {
+    setBusyId(milestone.id);
+    setError(null);
+    try {
+      await action(transactionId, milestone.id);
+      onChanged();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <section className="rounded-lg border border-border bg-card p-4 text-sm">
+      <h2 className="font-semibold text-card-foreground">Milestones</h2>
+      <p className="mb-3 text-xs text-muted-foreground">
+        {releasedCount(milestones)} of {milestones.length} released.{" "}
+        {role === "buyer"
+          ? "Release each milestone once you're happy with it."
+          : role === "seller"
+          ? "Mark each milestone delivered in turn; the buyer releases them one by one."
+          : null}
+      </p>
+
+      <ol className="space-y-2">
+        {milestones.map((milestone, index) => (
+          <li key={milestone.id} className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-border p-3">
+            <div className="min-w-0">
+              <p className="font-medium text-card-foreground">
+                {index + 1}. {milestone.title}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {formatMoney(money(milestone.amount, currency))}
+                {milestone.released_at
+                  ? ` · Released ${new Date(milestone.released_at).toLocaleDateString()}`
+                  : milestone.delivered_at
+                  ? ` · Delivered ${new Date(milestone.delivered_at).toLocaleDateString()}`
+                  : ""}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_CLASSES[milestone.status]}`}>
+                {MILESTONE_STATUS_LABELS[milestone.status]}
+              </span>
+              {role === "seller" && canDeliver && milestone === next && (
+                <button
+                  type="button"
+                  onClick={() => run(milestone, deliverMilestone)}
+                  disabled={busyId !== null}
+                  className="rounded-md bg-primary px-3 py-1 text-xs font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-60"
+                >
+                  {busyId === milestone.id ? "Saving..." : "Mark delivered"}
+                </button>
+              )}
+              {role === "buyer" && canRelease && milestone.status === "delivered" && (
+                <button
+                  type="button"
+                  onClick={() => run(milestone, releaseMilestone)}
+                  disabled={busyId !== null}
+                  className="rounded-md bg-primary px-3 py-1 text-xs font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-60"
+                >
+                  {busyId === milestone.id ? "Releasing..." : "Release"}
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      {error && (
+        <p className="mt-2 text-xs text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+    </section>
+  );
+}
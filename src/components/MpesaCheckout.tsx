@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import { SIMULATOR_ENABLED, getStkPushStatus, initiateStkPush, type StkPushStatus } from "@/lib/api";
+import { canPerform, type EscrowStatus, type PaymentViewerRole } from "@/lib/escrow";
+import { formatMoney, money } from "@/lib/money";
+import { rememberPaymentAccessToken } from "@/lib/paymentAccess";
+import { normalizeMpesaPhone } from "@/lib/phone";
+
+const POLL_INTERVAL_MS = 3_000;
+// Safaricom drops unanswered prompts after about a minute
+const MAX_WAIT_MS = 90_000;
+
+type FailedStkStatus = Exclude<StkPushStatus, "PENDING" | "SUCCESS">;
+
+const FAILURE_MESSAGES: Record<FailedStkStatus, string> = {
+  CANCELLED: "You cancelled the M-Pesa prompt. You can try again whenever you're ready.",
+  TIMEOUT: "We didn't get a response from your phone in time. Make sure it's unlocked and try again.",
+  INSUFFICIENT_FUNDS: "Your M-Pesa balance is too low for this payment. Top up and try again.",
+  FAILED: "M-Pesa could not complete the payment. Please try again.",
+};
+
+interface Props {
+  transactionId: string;
+  status: EscrowStatus;
+  role: PaymentViewerRole;
+  amount: number;
+  currency: string;
+  onPaid: () => void;
+}
+
+export function MpesaCheckout({ transactionId, status, role, amount, currency, onPaid }: Props) {
+  const [phone, setPhone] = useState("");
+  const [checkoutId, setCheckoutId] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!checkoutId) return;
+
+    const controller = new AbortController();
+    const deadline = Date.now() + MAX_WAIT_MS;
+    let timer: ReturnType<typeof setTimeout>;
+
+    async function poll() {
+      try {
+        const result = await getStkPushStatus(transactionId, checkoutId!, controller.signal);
+        if (result.status === "SUCCESS") {
+          // The shared checkout link stops granting buyer access once paid
+          if (result.buyer_access_token) rememberPaymentAccessToken(transactionId, result.buyer_access_token);
+          setCheckoutId(null);
+          setMessage(
+            result.mpesa_receipt
+              ? `Payment received (M-Pesa ref ${result.mpesa_receipt}). Your money is now held in escrow.`
+              : "Payment received. Your money is now held in escrow."
+          );
+          onPaid();
+          return;
+        }
+        if (result.status !== "PENDING") {
+          setCheckoutId(null);
+          setError(FAILURE_MESSAGES[result.status]);
+          return;
+        }
+      } catch {
+        // Transient polling failures are fine; the deadline below still applies
+        if (controller.signal.aborted) return;
+      }
+
+      if (Date.now() >= deadline) {
+        setCheckoutId(null);
+        setError(FAILURE_MESSAGES.TIMEOUT);
+        return;
+      }
+      timer = setTimeout(poll, POLL_INTERVAL_MS);
+    }
+
+    timer = setTimeout(poll, POLL_INTERVAL_MS);
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [checkoutId, transactionId, onPaid]);
+
+  if (role !== "buyer" || !canPerform(status, "pay", "system")) {
+    return null;
+  }
+
+  async function handlePay() {
+    setError(null);
+    setMessage(null);
+
+    const phoneNumber = normalizeMpesaPhone(phone);
+    if (!phoneNumber) {
+      setError("Enter a valid Safaricom number, e.g. 0712 345 678.");
+      return;
+    }
+
+    setSending(true);
+    try {
+      const res = await initiateStkPush(transactionId, { phone_number: phoneNumber });
+      setCheckoutId(res.checkout_request_id);
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : "Something went wrong";
+      setError(errorMessage);
+    } finally {
+      setSending(false);
+    }
+  }
+
+  const waiting = checkoutId !== null;
+
+  return (
+    <section className="rounded-lg border border-border bg-card p-4 text-sm">
+      <h2 className="mb-2 font-semibold text-card-foreground">Pay with M-Pesa</h2>
+      <p className="mb-3 text-muted-foreground">
+        Enter your M-Pesa number and we'll send a payment prompt to your phone. The
+        money is held in escrow and only released to the seller once you confirm delivery.
+      </p>
+
+      <label className="flex flex-col gap-1 text-xs">
+        <span className="text-muted-foreground">M-Pesa phone number</span>
+        <input
+          type="tel"
+          inputMode="tel"
+          autoComplete="tel"
+          value={phone}
+          onChange={(e) => setPhone(e.target.value)}
+          disabled={waiting}
+          placeholder="e.g. 0712 345 678"
+          className="rounded-md border border-input bg-background px-3 py-2 text-sm text-foreground outline-none ring-ring focus:ring-2 disabled:opacity-60"
+        />
+      </label>
+
+      <button
+        type="button"
+        onClick={handlePay}
+        disabled={sending || waiting}
+        className="mt-3 inline-flex items-center justify-center rounded-md bg-primary px-4 py-2 text-xs font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-60"
+      >
+        {sending
+          ? "Sending prompt..."
+          : waiting
+          ? "Waiting for confirmation..."
+          : `Pay ${formatMoney(money(amount, currency))}`}
+      </button>
+
+      {waiting && (
+        <div className="mt-3 flex items-center gap-2 text-xs text-muted-foreground" role="status">
+          <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+          Check your phone and enter your M-Pesa PIN to complete the payment.
+        </div>
+      )}
+
+      {SIMULATOR_ENABLED && (
+        <p className="mt-3 text-xs text-muted-foreground">
+          Simulator: 0700000001 cancels, 0700000002 times out, 0700000003 has
+          insufficient funds, 0700000004 fails. Any other number pays.
+        </p>
+      )}
+
+      {error && (
+        <p className="mt-2 text-xs text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+      {message && (
+        <p className="mt-2 text-xs text-green-600" role="status">
+          {message}
+        </p>
+      )}
+    </section>
+  );
+}
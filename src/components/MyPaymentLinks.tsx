@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { Copy, ExternalLink, Eye, Link2, RefreshCw, Share2 } from 'lucide-react';
+import type { PaymentLink } from '@/lib/api';
+import { ESCROW_STATUS_META, isTerminal } from '@/lib/escrow';
+import { formatMoney, money } from '@/lib/money';
+import { DEFAULT_LINK_EXPIRY_HOURS, LINK_EXPIRY_OPTIONS, canRenewLink } from '@/lib/paymentLinks';
+import { copyToClipboard } from '@/lib/share';
+
+interface MyPaymentLinksProps {
+  links: PaymentLink[];
+  loading: boolean;
+  onShare: (link: PaymentLink) => void;
+  onRenew: (link: PaymentLink, expiresInHours: number) => Promise<void>;
+}
+
+const formatExpiry = (expiresAt: string | null) => {
+  if (!expiresAt) return 'No expiry';
+  const diffMs = new Date(expiresAt).getTime() - Date.now();
+  if (diffMs <= 0) return 'Expired';
+  const hours = Math.floor(diffMs / (1000 * 60 * 60));
+  if (hours < 24) return `Expires in ${hours}h`;
+  return `Expires in ${Math.floor(hours / 24)}d`;
+};
+
+const getStatusColor = (link: PaymentLink) => {
+  if (link.status === 'AWAITING_PAYMENT') return 'bg-yellow-100 text-yellow-800 border-yellow-300';
+  if (link.status === 'EXPIRED') return 'bg-red-100 text-red-700 border-red-300';
+  if (isTerminal(link.status)) return 'bg-gray-100 text-gray-700 border-gray-300';
+  return 'bg-green-100 text-green-800 border-green-300';
+};
+
+export function MyPaymentLinks({ links, loading, onShare, onRenew }: MyPaymentLinksProps) {
+  const [renewingId, setRenewingId] = useState<string | null>(null);
+  const [renewHours, setRenewHours] = useState<number>(DEFAULT_LINK_EXPIRY_HOURS);
+  const [submitting, setSubmitting] = useState(false);
+
+  const startRenew = (link: PaymentLink) => {
+    setRenewingId(link.transaction_id);
+    setRenewHours(DEFAULT_LINK_EXPIRY_HOURS);
+  };
+
+  const submitRenew = async (link: PaymentLink) => {
+    setSubmitting(true);
+    try {
+      await onRenew(link, renewHours);
+      setRenewingId(null);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6">
+      <h3 className="text-lg font-bold mb-4">🔗 My Links</h3>
+
+      {loading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full mx-auto"></div>
+        </div>
+      ) : links.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <Link2 className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+          <p>No payment links yet.</p>
+          <p className="text-sm">Links you create will appear here.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {links.map(link => (
+            <div key={link.transaction_id} className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="font-semibold truncate">{link.product_name ?? 'Untitled item'}</p>
+                  <p className="text-sm text-gray-600">
+                    {formatMoney(money(link.amount, link.currency))} • <Eye size={14} className="inline" /> {link.views} views
+                    {canRenewLink(link.status) && <> • {formatExpiry(link.expires_at)}</>}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <span className={`px-3 py-1 rounded-full text-xs font-semibold border ${getStatusColor(link)}`}>
+                    {ESCROW_STATUS_META[link.status]?.label ?? link.status}
+                  </span>
+                  {canRenewLink(link.status) && (
+                    <button
+                      onClick={() => startRenew(link)}
+                      title={link.status === 'EXPIRED' ? 'Renew link' : 'Extend expiry'}
+                      className="bg-gray-200 text-gray-700 p-2 rounded-lg hover:bg-gray-300 transition"
+                    >
+                      <RefreshCw size={16} />
+                    </button>
+                  )}
+                  <a
+                    href={link.seller_url}
+                    target="_blank"
+                    rel="noreferrer"
+                    title="Open seller view"
+                    className="bg-gray-200 text-gray-700 p-2 rounded-lg hover:bg-gray-300 transition"
+                  >
+                    <ExternalLink size={16} />
+                  </a>
+                  <button
+                    onClick={() => copyToClipboard(link.buyer_url)}
+                    title="Copy buyer link"
+                    className="bg-gray-200 text-gray-700 p-2 rounded-lg hover:bg-gray-300 transition"
+                  >
+                    <Copy size={16} />
+                  </button>
+                  <button
+                    onClick={() => onShare(link)}
+                    title="Share link"
+                    className="bg-blue-600 text-white p-2 rounded-lg hover:bg-blue-700 transition"
+                  >
+                    <Share2 size={16} />
+                  </button>
+                </div>
+              </div>
+              {renewingId === link.transaction_id && (
+                <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+                  <label htmlFor={`renew-${link.transaction_id}`} className="text-gray-600">
+                    {link.status === 'EXPIRED' ? 'Reopen for' : 'Extend to'}
+                  </label>
+                  <select
+                    id={`renew-${link.transaction_id}`}
+                    value={renewHours}
+                    onChange={(e) => setRenewHours(Number(e.target.value))}
+                    className="px-3 py-1.5 border border-gray-300 rounded-lg bg-white"
+                  >
+                    {LINK_EXPIRY_OPTIONS.map(option => (
+                      <option key={option.hours} value={option.hours}>{option.label} from now</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => submitRenew(link)}
+                    disabled={submitting}
+                    className="bg-blue-600 text-white px-3 py-1.5 rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+                  >
+                    {submitting ? 'Saving...' : link.status === 'EXPIRED' ? 'Renew' : 'Extend'}
+                  </button>
+                  <button
+                    onClick={() => setRenewingId(null)}
+                    disabled={submitting}
+                    className="px-3 py-1.5 rounded-lg text-gray-600 hover:bg-gray-200 transition"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Bell, CheckCheck } from 'lucide-react';
+import {
+  listNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+  subscribeSellerEvents,
+  type NotificationFeed,
+  type NotificationTarget,
+  type SellerNotification,
+} from '@/lib/api';
+import { NOTIFICATION_FEED_LIMIT, NOTIFICATION_ICONS, unreadBadge } from '@/lib/notifications';
+
+interface NotificationCenterProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Take the seller to whatever the notification is about */
+  onOpenTarget: (target: NotificationTarget) => void;
+}
+
+const timeAgo = (date: string) => {
+  const mins = Math.floor((Date.now() - new Date(date).getTime()) / 60000);
+  if (mins < 1) return 'just now';
+  if (mins < 60) return `${mins}m ago`;
+  if (mins < 24 * 60) return `${Math.floor(mins / 60)}h ago`;
+  if (mins < 7 * 24 * 60) return `${Math.floor(mins / (24 * 60))}d ago`;
+  return new Date(date).toLocaleDateString('en-KE');
+};
+
+export function NotificationCenter({ open, onOpenChange, onOpenTarget }: NotificationCenterProps) {
+  // One state so the list and the count can't drift apart
+  const [feed, setFeed] = useState<NotificationFeed | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  const fetchNotifications = useCallback(async (signal?: AbortSignal) => {
+    try {
+      setFeed(await listNotifications({ limit: NOTIFICATION_FEED_LIMIT }, signal));
+      setError(null);
+    } catch (err) {
+      if (signal?.aborted) return;
+      console.error('Notifications fetch error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load notifications');
+    }
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchNotifications(controller.signal);
+    return () => controller.abort();
+  }, [fetchNotifications]);
+
+  useEffect(() => subscribeSellerEvents({
+    onEvent: (event) => {
+      if (event.type === 'resync') {
+        fetchNotifications();
+      } else if (event.type === 'notification.created') {
+        const notification = event.data;
+        // A refetch may already have picked it up
+        setFeed(prev => prev && !prev.notifications.some(n => n.id === notification.id)
+          ? {
+              notifications: [notification, ...prev.notifications].slice(0, NOTIFICATION_FEED_LIMIT),
+              unread_count: prev.unread_count + 1,
+            }
+          : prev);
+      }
+    },
+  }), [fetchNotifications]);
+
+  // Refresh read state (another tab may have cleared it) each time it opens
+  useEffect(() => {
+    if (open) fetchNotifications();
+  }, [open, fetchNotifications]);
+
+  useEffect(() => {
+    if (!open) return;
+    const handlePointer = (e: MouseEvent) => {
+      if (!panelRef.current?.contains(e.target as Node)) onOpenChange(false);
+    };
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onOpenChange(false);
+    };
+    document.addEventListener('mousedown', handlePointer);
+    document.addEventListener('keydown', handleKey);
+    return () => {
+      document.removeEventListener('mousedown', handlePointer);
+      document.removeEventListener('keydown', handleKey);
+    };
+  }, [open, onOpenChange]);
+
+  const markRead = (notification: SellerNotification) => {
+    if (notification.read_at) return;
+    const readAt = new Date().toISOString();
+    setFeed(prev => prev && {
+      notifications: prev.notifications.map(n => (n.id === notification.id ? { ...n, read_at: readAt } : n)),
+      unread_count: Math.max(prev.unread_count - 1, 0),
+    });
+    markNotificationRead(notification.id).catch(err => {
+      console.error('Mark notification read error:', err);
+      fetchNotifications();
+    });
+  };
+
+  const markAllRead = async () => {
+    const readAt = new Date().toISOString();
+    setFeed(prev => prev && {
+      notifications: prev.notifications.map(n => ({ ...n, read_at: n.read_at ?? readAt })),
+      unread_count: 0,
+    });
+    try {
+      await markAllNotificationsRead();
+    } catch (err) {
+      console.error('Mark all notifications read error:', err);
+      fetchNotifications();
+    }
+  };
+
+  const openNotification = (notification: SellerNotification) => {
+    markRead(notification);
+    onOpenChange(false);
+    onOpenTarget(notification.target);
+  };
+
+  const notifications = feed?.notifications;
+  const unreadCount = feed?.unread_count ?? 0;
+
+  return (
+    <div ref={panelRef} className="relative">
+      <button
+        onClick={() => onOpenChange(!open)}
+        aria-label={unreadCount ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+        aria-expanded={open}
+        className="relative p-2 text-gray-700 hover:bg-gray-100 rounded-lg transition"
+      >
+        <Bell size={24} />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[20px] h-5 px-1 rounded-full bg-red-600 text-white text-xs font-bold flex items-center justify-center">
+            {unreadBadge(unreadCount)}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 max-w-[calc(100vw-2rem)] bg-white rounded-xl shadow-2xl border border-gray-200 z-50 overflow-hidden">
+          <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+            <h3 className="font-bold text-gray-900">🔔 Notifications</h3>
+            <button
+              onClick={markAllRead}
+              disabled={unreadCount === 0}
+              className="text-sm text-blue-600 hover:text-blue-700 font-semibold flex items-center gap-1 disabled:text-gray-400"
+            >
+              <CheckCheck size={16} /> Mark all read
+            </button>
+          </div>
+
+          <div className="max-h-[28rem] overflow-y-auto">
+            {error && !notifications && <p className="p-4 text-sm text-red-600">{error}</p>}
+            {!error && !notifications && <p className="p-4 text-sm text-gray-500">Loading...</p>}
+            {notifications?.length === 0 && (
+              <p className="p-8 text-center text-sm text-gray-500">You're all caught up. New orders, disputes and payouts show up here.</p>
+            )}
+            {notifications?.map(notification => (
+              <button
+                key={notification.id}
+                onClick={() => openNotification(notification)}
+                className={`w-full text-left px-4 py-3 border-b border-gray-100 flex gap-3 hover:bg-gray-50 transition ${
+                  notification.read_at ? '' : 'bg-blue-50'
+                }`}
+              >
+                <span className="text-xl" aria-hidden>{NOTIFICATION_ICONS[notification.type]}</span>
+                <span className="flex-1 min-w-0">
+                  <span className="flex justify-between gap-2">
+                    <span className={`text-sm text-gray-900 ${notification.read_at ? 'font-semibold' : 'font-bold'}`}>
+                      {notification.title}
+                    </span>
+                    <span className="text-xs text-gray-500 whitespace-nowrap">{timeAgo(notification.created_at)}</span>
+                  </span>
+                  <span className="block text-sm text-gray-600 mt-0.5">{notification.body}</span>
+                </span>
+                {!notification.read_at && (
+                  <span className="mt-1.5 h-2 w-2 rounded-full bg-blue-600 flex-shrink-0" aria-label="Unread" />
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,284 @@
+import { useEffect, useState } from 'react';
+import {
+  getNotificationPreferences,
+  listPushSubscriptions,
+  sendTestPush,
+  subscribePush,
+  unsubscribePush,
+  updateNotificationPreferences,
+  type NotificationCategory,
+  type NotificationChannel,
+  type NotificationPreferences,
+  type QuietHours,
+} from '@/lib/api';
+import { CATEGORY_LABELS, CHANNEL_LABELS, QUIET_HOURS_CHANNELS, validateQuietHours } from '@/lib/notifications';
+import { createPushSubscription, getPushSubscription, pushSupported } from '@/lib/push';
+
+const categories = Object.keys(CATEGORY_LABELS) as NotificationCategory[];
+const channels = Object.keys(CHANNEL_LABELS) as NotificationChannel[];
+
+type PushState = 'loading' | 'unsupported' | 'blocked' | 'off' | 'on';
+
+// Push is per browser: the matrix says which events to push, this says whether
+// this browser gets them
+function PushDevice() {
+  const [state, setState] = useState<PushState>('loading');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      if (!pushSupported()) return setState('unsupported');
+      if (Notification.permission === 'denied') return setState('blocked');
+      const subscription = await getPushSubscription();
+      const subscribed = subscription ? (await listPushSubscriptions()).some(s => s.endpoint === subscription.endpoint) : false;
+      if (!cancelled) setState(subscribed ? 'on' : 'off');
+    })().catch(err => {
+      console.error('Push subscription check error:', err);
+      if (!cancelled) setState('off');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Push settings error:', err);
+      setMessage((err as Error).message || 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const enable = () => run(async () => {
+    const subscription = await createPushSubscription();
+    if (!subscription) return setState(Notification.permission === 'denied' ? 'blocked' : 'off');
+    await subscribePush(subscription);
+    setState('on');
+  });
+
+  const disable = () => run(async () => {
+    const subscription = await getPushSubscription();
+    if (subscription) await unsubscribePush(subscription.endpoint);
+    setState('off');
+  });
+
+  const test = () => run(async () => {
+    await sendTestPush();
+    setMessage('Test notification sent');
+  });
+
+  return (
+    <div className="flex flex-wrap justify-between items-center gap-3 p-4 bg-gray-50 rounded-lg border border-gray-200">
+      <div>
+        <p className="font-semibold">📲 Push on this browser</p>
+        <p className="text-sm text-gray-600">
+          {state === 'loading' && 'Checking...'}
+          {state === 'unsupported' && "This browser can't receive push notifications."}
+          {state === 'blocked' && 'Notifications are blocked. Allow them in your browser settings to turn push on.'}
+          {state === 'off' && 'Get new orders and disputes even when the dashboard is closed.'}
+          {state === 'on' && "On. You'll be notified here even when the dashboard is closed."}
+        </p>
+        {message && <p className="text-sm text-gray-700 mt-1">{message}</p>}
+      </div>
+      {state === 'off' && (
+        <button
+          onClick={enable}
+          disabled={busy}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition font-semibold text-sm disabled:bg-gray-300"
+        >
+          Turn on
+        </button>
+      )}
+      {state === 'on' && (
+        <div className="flex gap-2">
+          <button
+            onClick={test}
+            disabled={busy}
+            className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-100 transition font-semibold text-sm disabled:text-gray-400"
+          >
+            Send test
+          </button>
+          <button
+            onClick={disable}
+            disabled={busy}
+            className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-100 transition font-semibold text-sm disabled:text-gray-400"
+          >
+            Turn off
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function NotificationSettings() {
+  const [saved, setSaved] = useState<NotificationPreferences | null>(null);
+  const [draft, setDraft] = useState<NotificationPreferences | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [justSaved, setJustSaved] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    getNotificationPreferences(controller.signal)
+      .then(preferences => {
+        setSaved(preferences);
+        setDraft(preferences);
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error('Notification preferences fetch error:', err);
+        setLoadError((err as Error).message || 'Failed to load notification settings');
+      });
+    return () => controller.abort();
+  }, []);
+
+  if (!draft || !saved) {
+    return (
+      <div className="bg-white rounded-xl border border-gray-200 p-6">
+        <p className="font-bold text-lg mb-2">🔔 Notifications</p>
+        <p className={`text-sm ${loadError ? 'text-red-600' : 'text-gray-500'}`}>{loadError ?? 'Loading...'}</p>
+      </div>
+    );
+  }
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(saved);
+  const quietHoursError = draft.quiet_hours.enabled ? validateQuietHours(draft.quiet_hours) : null;
+
+  const edit = (next: NotificationPreferences) => {
+    setDraft(next);
+    setSaveError(null);
+    setJustSaved(false);
+  };
+
+  const toggle = (category: NotificationCategory, channel: NotificationChannel) =>
+    edit({
+      ...draft,
+      channels: {
+        ...draft.channels,
+        [category]: { ...draft.channels[category], [channel]: !draft.channels[category][channel] },
+      },
+    });
+
+  const setQuietHours = (changes: Partial<QuietHours>) =>
+    edit({ ...draft, quiet_hours: { ...draft.quiet_hours, ...changes } });
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaveError(null);
+    try {
+      const updated = await updateNotificationPreferences({ channels: draft.channels, quiet_hours: draft.quiet_hours });
+      setSaved(updated);
+      setDraft(updated);
+      setJustSaved(true);
+    } catch (err) {
+      console.error('Notification preferences save error:', err);
+      setSaveError((err as Error).message || 'Failed to save notification settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 space-y-6">
+      <div>
+        <p className="font-bold text-lg">🔔 Notifications</p>
+        <p className="text-sm text-gray-600">Choose how you hear about each kind of event.</p>
+      </div>
+
+      <PushDevice />
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-600">
+              <th className="text-left font-semibold py-2 pr-4">Event</th>
+              {channels.map(channel => (
+                <th key={channel} className="font-semibold py-2 px-2 text-center">{CHANNEL_LABELS[channel]}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {categories.map(category => (
+              <tr key={category} className="border-t border-gray-100">
+                <td className="font-semibold py-3 pr-4">{CATEGORY_LABELS[category]}</td>
+                {channels.map(channel => (
+                  <td key={channel} className="py-3 px-2 text-center">
+                    <input
+                      type="checkbox"
+                      checked={draft.channels[category][channel]}
+                      onChange={() => toggle(category, channel)}
+                      aria-label={`${CATEGORY_LABELS[category]} by ${CHANNEL_LABELS[channel]}`}
+                      className="w-5 h-5"
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="border-t border-gray-200 pt-4 space-y-3">
+        <label className="flex justify-between items-center">
+          <span>
+            <span className="font-semibold block">🌙 Quiet hours</span>
+            <span className="text-sm text-gray-600">
+              No {QUIET_HOURS_CHANNELS.map(channel => CHANNEL_LABELS[channel]).join(', ')} during these hours. In-app and email still arrive.
+            </span>
+          </span>
+          <input
+            type="checkbox"
+            checked={draft.quiet_hours.enabled}
+            onChange={e => setQuietHours({ enabled: e.target.checked })}
+            className="w-5 h-5"
+          />
+        </label>
+        {draft.quiet_hours.enabled && (
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <label className="flex items-center gap-2">
+              From
+              <input
+                type="time"
+                value={draft.quiet_hours.start}
+                onChange={e => setQuietHours({ start: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              to
+              <input
+                type="time"
+                value={draft.quiet_hours.end}
+                onChange={e => setQuietHours({ end: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </label>
+            <span className="text-gray-600">{draft.quiet_hours.timezone.replace(/_/g, ' ')} time</span>
+          </div>
+        )}
+        {quietHoursError && <p className="text-sm text-red-600">{quietHoursError}</p>}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={!dirty || saving || !!quietHoursError}
+          className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition font-semibold text-sm disabled:bg-gray-300"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+        {justSaved && !dirty && <p className="text-sm text-green-600">✅ Saved</p>}
+      </div>
+    </div>
+  );
+}
@@ -4,47 +4,33 @@ import {
   Clock, MapPin, Truck, Phone, Mail, Search, Filter, Plus, Upload, Camera,
   TrendingUp, Award, ShoppingBag, Zap
 } from 'lucide-react';
-
-interface OrderShipping {
-  courierName: string;
-  trackingNumber: string;
-  estimatedDeliveryDate: string;
-  notes?: string;
-  proofImages?: string[];
-}
-
-interface TimelineEvent {
-  title: string;
-  completed: boolean;
-  completedAt?: string;
-}
-
-interface Order {
-  id: string;
-  buyerName: string;
-  buyerPhone: string;
-  buyerLocation: string;
-  buyerMemberSince?: string;
-  buyerRating?: number;
-  buyerPurchases?: number;
-  itemName: string;
-  quantity: number;
-  amount: number;
-  status: 'pending' | 'accepted' | 'shipped' | 'completed' | 'dispute' | 'cancelled';
-  createdAt: string;
-  deadline: string;
-  buyerMessage?: string;
-  messageCreatedAt?: string;
-  shipping?: OrderShipping;
-  timeline?: TimelineEvent[];
-}
-
-interface PerformanceMetrics {
-  acceptanceRate: number;
-  averageDeliveryTime: string;
-  disputeRate: number;
-  totalOrders: number;
-}
+import {
+  acceptOrder as acceptOrderRequest,
+  getOrder,
+  getOrderReceipt,
+  getPerformanceMetrics,
+  listOrders,
+  rejectOrder as rejectOrderRequest,
+  sendOrderMessage,
+  submitShippingInfo as submitShippingInfoRequest,
+  subscribeSellerEvents,
+  type Order,
+  type PerformanceMetrics,
+  type ShippingInfoRequest,
+  type StreamStatus,
+} from '@/lib/api';
+import type { DateRange } from '@/lib/analytics';
+import { ORDER_STATUSES, canPerform, escrowStatusFor, orderStatusMeta } from '@/lib/escrow';
+import { formatCountdown } from '@/lib/inspection';
+import { MILESTONE_STATUS_LABELS, releasedCount } from '@/lib/milestones';
+import { formatMoney, money } from '@/lib/money';
+import { newIdempotencyKey, queueIfOffline } from '@/lib/offlineQueue';
+import { downloadReceipt } from '@/lib/receipts';
+import { downloadFile } from '@/lib/share';
+import { exportFilename, inRange, ordersCsv, ordersPdf, type ExportFormat } from '@/lib/statements';
+import { ExportModal } from './ExportModal';
+import { useQueuedAction } from './SyncStatus';
+import { TransactionTimeline } from './TransactionTimeline';
 
 interface UIState {
   loading: boolean;
@@ -66,9 +52,12 @@ interface ShippingFormState {
 
 interface OrdersTabProps {
   onCreatePaymentLink?: () => void;
+  /** Opens this order's details, e.g. from a notification */
+  openOrderId?: string | null;
+  onOrderOpened?: () => void;
 }
 
-export function OrdersTab({ onCreatePaymentLink }: OrdersTabProps) {
+export function OrdersTab({ onCreatePaymentLink, openOrderId, onOrderOpened }: OrdersTabProps) {
   const [orders, setOrders] = useState<Order[] | null>(null);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [filterStatus, setFilterStatus] = useState('all');
@@ -94,27 +83,17 @@ export function OrdersTab({ onCreatePaymentLink }: OrdersTabProps) {
   });
 
   const [messageInput, setMessageInput] = useState('');
+  const [exportOpen, setExportOpen] = useState(false);
   const [performanceMetrics, setPerformanceMetrics] = useState<PerformanceMetrics | null>(null);
-
-  const getAuthToken = () => localStorage.getItem('authToken');
+  const [streamStatus, setStreamStatus] = useState<StreamStatus>('closed');
+  const [now, setNow] = useState(() => Date.now());
+  const shippingQueued = useQueuedAction('submit_shipping', selectedOrder?.id ?? '');
 
   const fetchOrders = useCallback(async () => {
     try {
       setUi(prev => ({ ...prev, loading: true, errorNotification: null }));
 
-      const response = await fetch('/api/v1/seller/orders', {
-        headers: {
-          'Authorization': `Bearer ${getAuthToken()}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch orders');
-      }
-
-      const data = await response.json();
-      setOrders(data.data || []);
+      setOrders(await listOrders());
     } catch (error) {
       console.error('Fetch orders error:', error);
       setUi(prev => ({
@@ -129,19 +108,7 @@ export function OrdersTab({ onCreatePaymentLink }: OrdersTabProps) {
 
   const fetchOrderDetails = useCallback(async (orderId: string) => {
     try {
-      const response = await fetch(`/api/v1/seller/orders/${orderId}`, {
-        headers: {
-          'Authorization': `Bearer ${getAuthToken()}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch order details');
-      }
-
-      const data = await response.json();
-      setSelectedOrder(data.data);
+      setSelectedOrder(await getOrder(orderId));
       setUi(prev => ({ ...prev, orderDetailOpen: true }));
     } catch (error) {
       console.error('Fetch order details error:', error);
@@ -154,19 +121,7 @@ export function OrdersTab({ onCreatePaymentLink }: OrdersTabProps) {
 
   const fetchPerformanceMetrics = useCallback(async () => {
     try {
-      const response = await fetch('/api/v1/seller/performance', {
-        headers: {
-          'Authorization': `Bearer ${getAuthToken()}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch metrics');
-      }
-
-      const data = await response.json();
-      setPerformanceMetrics(data.data);
+      setPerformanceMetrics(await getPerformanceMetrics());
     } catch (error) {
       console.error('Fetch metrics error:', error);
     }
@@ -174,23 +129,12 @@ export function OrdersTab({ onCreatePaymentLink }: OrdersTabProps) {
 
   const acceptOrder = useCallback(async (orderId: string) => {
     try {
-      const response = await fetch(`/api/v1/seller/orders/${orderId}/accept`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${getAuthToken()}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to accept order');
-      }
+      await acceptOrderRequest(orderId);
 
       setUi(prev => ({
         ...prev,
         successNotification: 'Order accepted successfully!',
       }));
-      fetchOrders();
       fetchOrderDetails(orderId);
     } catch (error) {
       console.error('Accept order error:', error);
@@ -199,28 +143,17 @@ export function OrdersTab({ onCreatePaymentLink }: OrdersTabProps) {
         errorNotification: (error as Error).message || 'Failed to accept order',
       }));
     }
-  }, [fetchOrders, fetchOrderDetails]);
+  }, [fetchOrderDetails]);
 
   const rejectOrder = useCallback(async (orderId: string) => {
     try {
-      const response = await fetch(`/api/v1/seller/orders/${orderId}/reject`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${getAuthToken()}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to reject order');
-      }
+      await rejectOrderRequest(orderId);
 
       setUi(prev => ({
         ...prev,
         successNotification: 'Order rejected',
         orderDetailOpen: false,
       }));
-      fetchOrders();
     } catch (error) {
       console.error('Reject order error:', error);
       setUi(prev => ({
@@ -228,9 +161,31 @@ export function OrdersTab({ onCreatePaymentLink }: OrdersTabProps) {
         errorNotification: (error as Error).message || 'Failed to reject order',
       }));
     }
-  }, [fetchOrders]);
+  }, []);
+
+  const downloadOrderReceipt = useCallback(async (orderId: string) => {
+    try {
+      downloadReceipt(await getOrderReceipt(orderId));
+    } catch (error) {
+      console.error('Receipt download error:', error);
+      setUi(prev => ({
+        ...prev,
+        errorNotification: (error as Error).message || 'Failed to download the receipt',
+      }));
+    }
+  }, []);
 
   const submitShippingInfo = useCallback(async (orderId: string) => {
+    const resetShippingForm = () => setShippingForm({
+      courierName: '',
+      trackingNumber: '',
+      estimatedDeliveryDate: '',
+      notes: '',
+      proofImages: [],
+    });
+    const request: ShippingInfoRequest = shippingForm;
+    const idempotencyKey = newIdempotencyKey();
+
     try {
       if (!shippingForm.courierName || !shippingForm.trackingNumber || !shippingForm.estimatedDeliveryDate) {
         setUi(prev => ({
@@ -240,27 +195,7 @@ export function OrdersTab({ onCreatePaymentLink }: OrdersTabProps) {
         return;
       }
 
-      const formData = new FormData();
-      formData.append('courierName', shippingForm.courierName);
-      formData.append('trackingNumber', shippingForm.trackingNumber);
-      formData.append('estimatedDeliveryDate', shippingForm.estimatedDeliveryDate);
-      formData.append('notes', shippingForm.notes);
-      
-      shippingForm.proofImages.forEach((image, idx) => {
-        formData.append(`proofImages[${idx}]`, image);
-      });
-
-      const response = await fetch(`/api/v1/seller/orders/${orderId}/shipping`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${getAuthToken()}`,
-        },
-        body: formData,
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to submit shipping info');
-      }
+      await submitShippingInfoRequest(orderId, request, idempotencyKey);
 
       setUi(prev => ({
         ...prev,
@@ -268,24 +203,27 @@ export function OrdersTab({ onCreatePaymentLink }: OrdersTabProps) {
         shippingModalOpen: false,
       }));
       
-      setShippingForm({
-        courierName: '',
-        trackingNumber: '',
-        estimatedDeliveryDate: '',
-        notes: '',
-        proofImages: [],
-      });
-
-      fetchOrders();
+      resetShippingForm();
+
       fetchOrderDetails(orderId);
     } catch (error) {
+      // Photos are kept with the queued request and upload when it syncs
+      if (await queueIfOffline(error, { kind: 'submit_shipping', order_id: orderId, request }, idempotencyKey)) {
+        setUi(prev => ({
+          ...prev,
+          successNotification: "You're offline. Shipping info is saved and will be sent when you reconnect.",
+          shippingModalOpen: false,
+        }));
+        resetShippingForm();
+        return;
+      }
       console.error('Submit shipping error:', error);
       setUi(prev => ({
         ...prev,
         errorNotification: (error as Error).message || 'Failed to submit shipping info',
       }));
     }
-  }, [shippingForm, fetchOrders, fetchOrderDetails]);
+  }, [shippingForm, fetchOrderDetails]);
 
   const sendMessage = useCallback(async (orderId: string) => {
     try {
@@ -297,18 +235,7 @@ export function OrdersTab({ onCreatePaymentLink }: OrdersTabProps) {
         return;
       }
 
-      const response = await fetch(`/api/v1/seller/orders/${orderId}/messages`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${getAuthToken()}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ message: messageInput }),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to send message');
-      }
+      await sendOrderMessage(orderId, messageInput);
 
       setMessageInput('');
       setUi(prev => ({
@@ -328,10 +255,48 @@ export function OrdersTab({ onCreatePaymentLink }: OrdersTabProps) {
   useEffect(() => {
     fetchOrders();
     fetchPerformanceMetrics();
-    const interval = setInterval(fetchOrders, 30000);
-    return () => clearInterval(interval);
   }, [fetchOrders, fetchPerformanceMetrics]);
 
+  useEffect(() => {
+    if (!openOrderId) return;
+    fetchOrderDetails(openOrderId);
+    onOrderOpened?.();
+  }, [openOrderId, onOrderOpened, fetchOrderDetails]);
+
+  // Orders change as buyers pay, confirm and dispute; apply each change as it
+  // streams in rather than reloading the list
+  useEffect(() => subscribeSellerEvents({
+    onEvent: (event) => {
+      if (event.type === 'resync') {
+        fetchOrders();
+        fetchPerformanceMetrics();
+      } else if (event.type === 'order.updated') {
+        const order = event.data;
+        setOrders(prev => {
+          if (!prev) return prev;
+          return prev.some(o => o.id === order.id)
+            ? prev.map(o => (o.id === order.id ? order : o))
+            : [order, ...prev];
+        });
+        setSelectedOrder(prev => (prev?.id === order.id ? order : prev));
+        fetchPerformanceMetrics();
+      } else if (event.type === 'order.message' && event.data.sender === 'buyer') {
+        const { order_id, text, created_at } = event.data;
+        const withMessage = (o: Order) =>
+          o.id === order_id ? { ...o, buyerMessage: text, messageCreatedAt: created_at } : o;
+        setOrders(prev => prev?.map(withMessage) ?? prev);
+        setSelectedOrder(prev => (prev ? withMessage(prev) : prev));
+      }
+    },
+    onStatus: setStreamStatus,
+  }), [fetchOrders, fetchPerformanceMetrics]);
+
+  // Ticks the auto-release countdowns
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(timer);
+  }, []);
+
   // Auto-dismiss notifications
   useEffect(() => {
     if (ui.successNotification) {
@@ -351,10 +316,7 @@ export function OrdersTab({ onCreatePaymentLink }: OrdersTabProps) {
     }
   }, [ui.errorNotification]);
 
-  const formatCurrency = (amount: number) => {
-    if (!amount) return 'KES 0';
-    return `KES ${amount.toLocaleString('en-KE', { maximumFractionDigits: 0 })}`;
-  };
+  const formatCurrency = (order: Order) => formatMoney(money(order.amount, order.currency));
 
   const formatTime = (dateString: string) => {
     if (!dateString) return 'unknown';
@@ -374,29 +336,12 @@ export function OrdersTab({ onCreatePaymentLink }: OrdersTabProps) {
     return date.toLocaleDateString('en-KE');
   };
 
-  const getStatusColor = (status: string) => {
-    const colors: Record<string, string> = {
-      pending: 'bg-yellow-100 text-yellow-800 border-yellow-300',
-      accepted: 'bg-blue-100 text-blue-800 border-blue-300',
-      shipped: 'bg-purple-100 text-purple-800 border-purple-300',
-      completed: 'bg-green-100 text-green-800 border-green-300',
-      dispute: 'bg-red-100 text-red-800 border-red-300',
-      cancelled: 'bg-gray-100 text-gray-800 border-gray-300',
-    };
-    return colors[status] || colors.pending;
-  };
+  const getStatusColor = (status: string) => orderStatusMeta(status).badgeClass;
 
-  const getStatusLabel = (status: string) => {
-    const labels: Record<string, string> = {
-      pending: '🟡 Awaiting Acceptance',
-      accepted: '✅ Accepted',
-      shipped: '🚚 In Transit',
-      completed: '✅ Completed',
-      dispute: '🚨 Dispute Open',
-      cancelled: '❌ Cancelled',
-    };
-    return labels[status] || status;
-  };
+  const getStatusLabel = (status: string) => orderStatusMeta(status).label;
+
+  const canSeller = (order: Order, action: 'accept' | 'reject' | 'mark_delivered') =>
+    canPerform(escrowStatusFor(order.status), action, 'seller');
 
   const filteredOrders = orders?.filter(order => {
     const matchesFilter = filterStatus === 'all' || order.status === filterStatus;
@@ -407,11 +352,22 @@ export function OrdersTab({ onCreatePaymentLink }: OrdersTabProps) {
   })?.sort((a, b) => {
     if (sortBy === 'newest') return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
     if (sortBy === 'oldest') return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
-    if (sortBy === 'amount-high') return b.amount - a.amount;
-    if (sortBy === 'amount-low') return a.amount - b.amount;
+    // Amounts only compare within a currency
+    if (sortBy === 'amount-high') return a.currency.localeCompare(b.currency) || b.amount - a.amount;
+    if (sortBy === 'amount-low') return a.currency.localeCompare(b.currency) || a.amount - b.amount;
     return 0;
   }) || [];
 
+  // Exports what the list shows, narrowed to the chosen period
+  const exportOrders = (format: ExportFormat, range: DateRange) => {
+    const selected = filteredOrders.filter(order => inRange(order.createdAt, range));
+    const file = format === 'csv'
+      ? new Blob([ordersCsv(selected)], { type: 'text/csv;charset=utf-8' })
+      : ordersPdf(selected, range);
+    downloadFile(file, exportFilename('orders', range, format));
+    setExportOpen(false);
+  };
+
   const OrderDetailModal = () => {
     if (!selectedOrder) return null;
 
@@ -423,6 +379,25 @@ export function OrdersTab({ onCreatePaymentLink }: OrdersTabProps) {
               <h3 className="text-3xl font-black text-white">Order #{selectedOrder.id}</h3>
               <p className="text-blue-100 text-sm mt-1">Created {formatTime(selectedOrder.createdAt)}</p>
             </div>
+            {selectedOrder.status === 'completed' && (
+              <>
+                <a
+                  href={`/seller/orders/${encodeURIComponent(selectedOrder.id)}/receipt`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="px-6 py-3 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition font-bold"
+                >
+                  🧾 Receipt
+                </a>
+                <button
+                  onClick={() => downloadOrderReceipt(selectedOrder.id)}
+                  className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-bold flex items-center gap-2"
+                >
+                  <Download size={18} /> Receipt PDF
+                </button>
+              </>
+            )}
+
             <button
               onClick={() => setUi(prev => ({ ...prev, orderDetailOpen: false }))}
               className="text-white hover:bg-white/20 p-2 rounded-lg transition"
@@ -492,7 +467,7 @@ export function OrdersTab({ onCreatePaymentLink }: OrdersTabProps) {
                 </div>
                 <div className="flex justify-between items-center p-3 bg-white rounded-lg border border-gray-200">
                   <span className="text-gray-700 font-semibold">Amount</span>
-                  <span className="text-2xl font-black text-green-600">{formatCurrency(selectedOrder.amount)}</span>
+                  <span className="text-2xl font-black text-green-600">{formatCurrency(selectedOrder)}</span>
                 </div>
                 <div className="flex justify-between items-center p-3 bg-white rounded-lg border border-gray-200">
                   <span className="text-gray-700 font-semibold">Status</span>
@@ -500,6 +475,30 @@ export function OrdersTab({ onCreatePaymentLink }: OrdersTabProps) {
                     {getStatusLabel(selectedOrder.status)}
                   </span>
                 </div>
+                {selectedOrder.milestones && selectedOrder.milestones.length > 0 && (
+                  <div className="p-3 bg-white rounded-lg border border-gray-200">
+                    <p className="text-gray-700 font-semibold mb-2">
+                      Milestones ({releasedCount(selectedOrder.milestones)}/{selectedOrder.milestones.length} released)
+                    </p>
+                    <ol className="space-y-2">
+                      {selectedOrder.milestones.map((milestone, idx) => (
+                        <li key={milestone.id} className="flex justify-between items-center text-sm">
+                          <span className="text-gray-900">{idx + 1}. {milestone.title}</span>
+                          <span className="flex items-center gap-2">
+                            <span className="font-semibold">{formatMoney(money(milestone.amount, selectedOrder.currency))}</span>
+                            <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${
+                              milestone.status === 'released' ? 'bg-green-100 text-green-800'
+                                : milestone.status === 'delivered' ? 'bg-blue-100 text-blue-800'
+                                : 'bg-gray-100 text-gray-700'
+                            }`}>
+                              {MILESTONE_STATUS_LABELS[milestone.status]}
+                            </span>
+                          </span>
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -513,50 +512,57 @@ export function OrdersTab({ onCreatePaymentLink }: OrdersTabProps) {
                   <CheckCircle size={20} className="flex-shrink-0 mt-1 text-green-600" />
                   <div>
                     <p className="font-bold">Amount Locked in Escrow</p>
-                    <p className="text-2xl font-black text-green-600">{formatCurrency(selectedOrder.amount)}</p>
+                    <p className="text-2xl font-black text-green-600">{formatCurrency(selectedOrder)}</p>
                   </div>
                 </div>
                 <div className="flex items-start gap-3">
                   <CheckCircle size={20} className="flex-shrink-0 mt-1 text-green-600" />
                   <div>
                     <p className="font-bold">Released When</p>
-                    <p>Buyer confirms delivery</p>
+                    <p>Buyer confirms delivery, or automatically when the inspection window ends</p>
                   </div>
                 </div>
-                <div className="flex items-start gap-3">
-                  <Clock size={20} className="flex-shrink-0 mt-1 text-orange-600" />
-                  <div>
-                    <p className="font-bold">Deadline to Ship</p>
-                    <p>{new Date(selectedOrder.deadline).toLocaleDateString('en-KE')}</p>
-                    <p className="text-sm text-gray-600 mt-1">
-                      {Math.ceil((new Date(selectedOrder.deadline).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24))} days remaining
-                    </p>
+                {selectedOrder.status === 'shipped' && selectedOrder.autoReleaseAt ? (
+                  <div className="flex items-start gap-3">
+                    <Clock size={20} className="flex-shrink-0 mt-1 text-orange-600" />
+                    <div>
+                      <p className="font-bold">Auto-release</p>
+                      <p>{new Date(selectedOrder.autoReleaseAt).toLocaleString('en-KE')}</p>
+                      <p className="text-sm text-gray-600 mt-1">
+                        In {formatCountdown(new Date(selectedOrder.autoReleaseAt).getTime() - now)}
+                      </p>
+                      {selectedOrder.inspectionExtendedAt && (
+                        <p className="text-sm text-orange-700 font-semibold mt-1">
+                          The buyer extended the inspection window on {new Date(selectedOrder.inspectionExtendedAt).toLocaleDateString('en-KE')}
+                        </p>
+                      )}
+                    </div>
                   </div>
-                </div>
+                ) : (
+                  <div className="flex items-start gap-3">
+                    <Clock size={20} className="flex-shrink-0 mt-1 text-orange-600" />
+                    <div>
+                      <p className="font-bold">Deadline to Ship</p>
+                      <p>{new Date(selectedOrder.deadline).toLocaleDateString('en-KE')}</p>
+                      <p className="text-sm text-gray-600 mt-1">
+                        {Math.ceil((new Date(selectedOrder.deadline).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24))} days remaining
+                      </p>
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
 
             {/* Status Timeline */}
             <div className="bg-white border border-gray-200 rounded-xl p-6">
               <h4 className="text-lg font-black text-gray-900 mb-4">📅 Order Timeline</h4>
-              <div className="space-y-4">
-                {selectedOrder.timeline?.map((event, idx) => (
-                  <div key={idx} className="flex gap-4">
-                    <div className="flex flex-col items-center">
-                      <div className={`w-3 h-3 rounded-full ${event.completed ? 'bg-green-600' : 'bg-gray-300'}`}></div>
-                      {idx < (selectedOrder.timeline?.length || 0) - 1 && (
-                        <div className="w-0.5 h-12 bg-gray-300"></div>
-                      )}
-                    </div>
-                    <div className="pb-4">
-                      <p className="font-bold text-gray-900">{event.title}</p>
-                      {event.completedAt && (
-                        <p className="text-sm text-gray-600">{new Date(event.completedAt).toLocaleString('en-KE')}</p>
-                      )}
-                    </div>
-                  </div>
-                ))}
-              </div>
+              <TransactionTimeline
+                transactionId={selectedOrder.id}
+                currency={selectedOrder.currency}
+                viewer="seller"
+                scope="seller"
+                refreshKey={selectedOrder}
+              />
             </div>
 
             {/* Buyer Message */}
@@ -616,24 +622,31 @@ export function OrdersTab({ onCreatePaymentLink }: OrdersTabProps) {
 
           {/* Footer Actions */}
           <div className="border-t bg-gray-50 px-8 py-6 flex gap-3 justify-end flex-wrap">
-            {selectedOrder.status === 'pending' && (
-              <>
-                <button
-                  onClick={() => rejectOrder(selectedOrder.id)}
-                  className="px-6 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-bold"
-                >
-                  ❌ Reject Order
-                </button>
-                <button
-                  onClick={() => acceptOrder(selectedOrder.id)}
-                  className="px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-bold"
-                >
-                  ✅ Accept Order
-                </button>
-              </>
+            {canSeller(selectedOrder, 'reject') && (
+              <button
+                onClick={() => rejectOrder(selectedOrder.id)}
+                className="px-6 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-bold"
+              >
+                ❌ Reject Order
+              </button>
             )}
 
-            {selectedOrder.status === 'accepted' && (
+            {canSeller(selectedOrder, 'accept') && (
+              <button
+                onClick={() => acceptOrder(selectedOrder.id)}
+                className="px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-bold"
+              >
+                ✅ Accept Order
+              </button>
+            )}
+
+            {/* Milestone orders are delivered one milestone at a time from the payment page */}
+            {canSeller(selectedOrder, 'mark_delivered') && !selectedOrder.milestones && shippingQueued && (
+              <span className="px-6 py-3 bg-yellow-50 text-yellow-700 border border-yellow-200 rounded-lg font-bold flex items-center gap-2">
+                <Clock size={18} /> Shipping info waiting to sync
+              </span>
+            )}
+            {canSeller(selectedOrder, 'mark_delivered') && !selectedOrder.milestones && !shippingQueued && (
               <button
                 onClick={() => setUi(prev => ({ ...prev, shippingModalOpen: true }))}
                 className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-bold flex items-center gap-2"
@@ -886,15 +899,35 @@ export function OrdersTab({ onCreatePaymentLink }: OrdersTabProps) {
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
         <div>
           <h2 className="text-2xl font-bold">📦 Orders</h2>
-          <p className="text-gray-600 text-sm">Manage your incoming orders</p>
+          <p className="text-gray-600 text-sm flex items-center gap-2">
+            Manage your incoming orders
+            {streamStatus === 'open' && (
+              <span className="inline-flex items-center gap-1 text-green-700 text-xs font-semibold">
+                <span className="w-2 h-2 rounded-full bg-green-500"></span> Live
+              </span>
+            )}
+            {streamStatus === 'reconnecting' && (
+              <span className="text-yellow-700 text-xs font-semibold">Reconnecting...</span>
+            )}
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <button
+            onClick={() => setExportOpen(true)}
+            disabled={filteredOrders.length === 0}
+            className="border border-gray-300 bg-white text-gray-700 px-4 py-3 rounded-lg hover:bg-gray-50 transition font-semibold flex items-center gap-2 disabled:opacity-60"
+          >
+            <Download size={20} />
+            Export
+          </button>
+          <button
+            onClick={onCreatePaymentLink}
+            className="bg-gradient-to-r from-green-500 to-emerald-600 text-white px-6 py-3 rounded-lg hover:shadow-lg transition font-bold flex items-center gap-2"
+          >
+            <Plus size={20} />
+            Create Payment Link
+          </button>
         </div>
-        <button
-          onClick={onCreatePaymentLink}
-          className="bg-gradient-to-r from-green-500 to-emerald-600 text-white px-6 py-3 rounded-lg hover:shadow-lg transition font-bold flex items-center gap-2"
-        >
-          <Plus size={20} />
-          Create Payment Link
-        </button>
       </div>
 
       {/* Performance Cards */}
@@ -951,11 +984,9 @@ export function OrdersTab({ onCreatePaymentLink }: OrdersTabProps) {
               className="px-4 py-3 rounded-lg border border-gray-300 focus:outline-none focus:border-blue-500"
             >
               <option value="all">All Status</option>
-              <option value="pending">Pending</option>
-              <option value="accepted">Accepted</option>
-              <option value="shipped">Shipped</option>
-              <option value="completed">Completed</option>
-              <option value="dispute">Dispute</option>
+              {ORDER_STATUSES.map(status => (
+                <option key={status} value={status}>{orderStatusMeta(status).filterLabel}</option>
+              ))}
             </select>
             <select
               value={sortBy}
@@ -1025,13 +1056,24 @@ export function OrdersTab({ onCreatePaymentLink }: OrdersTabProps) {
 
               <div className="bg-gray-50 rounded-lg p-4 mb-4">
                 <p className="text-gray-700 font-semibold mb-2">{order.itemName} × {order.quantity}</p>
-                <p className="text-2xl font-bold text-green-600">{formatCurrency(order.amount)}</p>
+                <p className="text-2xl font-bold text-green-600">{formatCurrency(order)}</p>
+                {order.milestones && order.milestones.length > 0 && (
+                  <p className="text-sm text-gray-600 mt-1">
+                    {releasedCount(order.milestones)} of {order.milestones.length} milestones released
+                  </p>
+                )}
               </div>
 
               <div className="flex justify-between items-center">
                 <div className="text-sm text-gray-600">
                   <Clock size={14} className="inline mr-1" />
                   {formatTime(order.createdAt)}
+                  {order.status === 'shipped' && order.autoReleaseAt && (
+                    <span className="ml-3 font-semibold text-purple-700">
+                      Auto-release in {formatCountdown(new Date(order.autoReleaseAt).getTime() - now)}
+                      {order.inspectionExtendedAt && ' (buyer extended)'}
+                    </span>
+                  )}
                 </div>
                 <div className="flex gap-2">
                   <button 
@@ -1062,6 +1104,17 @@ export function OrdersTab({ onCreatePaymentLink }: OrdersTabProps) {
 
       {/* Modals */}
       {ui.orderDetailOpen && <OrderDetailModal />}
+      {exportOpen && (
+        <ExportModal
+          title="Export Orders"
+          describe={range => {
+            const count = filteredOrders.filter(order => inRange(order.createdAt, range)).length;
+            return `${count} order${count === 1 ? '' : 's'} matching your filters`;
+          }}
+          onExport={exportOrders}
+          onClose={() => setExportOpen(false)}
+        />
+      )}
       {ui.shippingModalOpen && <ShippingModal />}
       {ui.messageModalOpen && <MessageModal />}
     </div>
@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { CheckCircle, Copy, Share2, X } from 'lucide-react';
+import type { PaymentLink } from '@/lib/api';
+import { formatMoney, money } from '@/lib/money';
+import { copyToClipboard, nativeShare } from '@/lib/share';
+
+interface PaymentLinkShareProps {
+  link: PaymentLink;
+  onShare: (link: PaymentLink) => void;
+  onDismiss?: () => void;
+}
+
+export function PaymentLinkShare({ link, onShare, onDismiss }: PaymentLinkShareProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    if (await copyToClipboard(link.buyer_url)) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  const handleShare = async () => {
+    const shared = await nativeShare({
+      title: link.product_name ?? 'Payment link',
+      text: `Pay securely for ${link.product_name ?? 'your order'} with paying-zee escrow`,
+      url: link.buyer_url,
+    });
+    if (!shared) onShare(link);
+  };
+
+  return (
+    <div className="bg-green-50 border border-green-200 rounded-xl p-6">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <p className="font-bold text-green-900 flex items-center gap-2">
+            <CheckCircle size={20} className="text-green-600" /> Payment link ready
+          </p>
+          <p className="text-sm text-green-800 mt-1">
+            {link.product_name} • {formatMoney(money(link.amount, link.currency))}
+          </p>
+        </div>
+        {onDismiss && (
+          <button onClick={onDismiss} className="text-green-700 hover:text-green-900">
+            <X size={20} />
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-6 items-center">
+        <div className="bg-white p-3 rounded-lg border border-green-200">
+          <QRCodeSVG value={link.buyer_url} size={128} />
+        </div>
+        <div className="flex-1 w-full space-y-3">
+          <p className="text-sm font-mono text-green-900 break-all bg-white p-3 rounded-lg border border-green-200">
+            {link.buyer_url}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={handleCopy}
+              className="flex-1 bg-white border border-green-300 text-green-700 py-2 rounded-lg hover:bg-green-100 transition font-semibold flex items-center justify-center gap-2"
+            >
+              <Copy size={16} /> {copied ? 'Copied!' : 'Copy Link'}
+            </button>
+            <button
+              onClick={handleShare}
+              className="flex-1 bg-green-600 text-white py-2 rounded-lg hover:bg-green-700 transition font-semibold flex items-center justify-center gap-2"
+            >
+              <Share2 size={16} /> Share
+            </button>
+          </div>
+          <p className="text-xs text-green-800">
+            Manage this payment from your{' '}
+            <a href={link.seller_url} target="_blank" rel="noreferrer" className="font-semibold underline">
+              private seller link
+            </a>
+            . Don't share it — it lets anyone act as you.
+          </p>
+          {link.expires_at && (
+            <p className="text-xs text-green-800">
+              Expires {new Date(link.expires_at).toLocaleString('en-KE')}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import type { ReactNode } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import type { Receipt } from "@/lib/api";
+import { formatMoney, money } from "@/lib/money";
+import { RECEIPT_VERIFY_PATH, formatVerificationCode, receiptVerifyUrl } from "@/lib/receipts";
+import { TRANSACTION_EVENT_LABELS } from "@/lib/transactionHistory";
+
+interface Props {
+  receipt: Receipt;
+}
+
+function Row({ label, value, strong = false }: { label: string; value: string; strong?: boolean }) {
+  return (
+    <div className={`flex justify-between gap-4 ${strong ? "font-medium" : ""}`}>
+      <dt className={strong ? "" : "text-muted-foreground"}>{label}</dt>
+      <dd className="text-right tabular-nums">{value}</dd>
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section className="border-t border-border pt-4">
+      <h2 className="mb-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+export function ReceiptView({ receipt }: Props) {
+  const format = (amount: number) => formatMoney(money(amount, receipt.currency));
+  const when = (date: string) => new Date(date).toLocaleString("en-KE");
+  const verifyUrl = receiptVerifyUrl(receipt.verification_code);
+
+  return (
+    <article className="space-y-4 rounded-lg border border-border bg-card p-6 text-sm text-card-foreground print:border-0 print:p-0">
+      <header>
+        <div className="flex justify-between gap-4 text-xs text-muted-foreground">
+          <span className="font-semibold">Paying-zee</span>
+          <span>Receipt {receipt.receipt_number}</span>
+        </div>
+        <h1 className="mt-3 text-2xl font-semibold text-foreground">Escrow receipt</h1>
+        <p className="mt-1 text-card-foreground">{receipt.product_name ?? "Payment"}</p>
+        {receipt.description && <p className="text-xs text-muted-foreground">{receipt.description}</p>}
+      </header>
+
+      <Section title="Transaction">
+        <dl className="space-y-1">
+          <Row label="Transaction ID" value={receipt.transaction_id} />
+          <Row label="Buyer" value={receipt.buyer} />
+          <Row label="Seller" value={receipt.seller} />
+          <Row label="Completed" value={when(receipt.completed_at)} />
+          <Row label="Issued" value={when(receipt.issued_at)} />
+        </dl>
+      </Section>
+
+      <Section title="Amounts">
+        <dl className="space-y-1">
+          <Row label="Item price" value={format(receipt.fees.item_price)} />
+          <Row label="Escrow fee" value={format(receipt.fees.escrow_fee)} />
+          <Row label="M-Pesa charges" value={format(receipt.fees.mpesa_fee)} />
+        </dl>
+        <p className="py-1 text-xs text-muted-foreground">
+          {receipt.fees.fee_payer === "buyer"
+            ? "Fees were added to the buyer's total."
+            : "Fees were taken from the seller's payout."}
+        </p>
+        <dl className="space-y-1">
+          <Row label="Buyer paid" value={format(receipt.fees.buyer_total)} strong />
+          <Row label="Released to the seller" value={format(receipt.released_amount)} strong />
+          {receipt.refunded_amount > 0 && (
+            <Row label="Refunded to the buyer" value={format(receipt.refunded_amount)} strong />
+          )}
+        </dl>
+      </Section>
+
+      {receipt.mpesa_references.length > 0 && (
+        <Section title="M-Pesa references">
+          <dl className="space-y-1">
+            {receipt.mpesa_references.map((ref) => (
+              <div key={ref.reference} className="flex justify-between gap-4">
+                <dt className="text-muted-foreground">{ref.label}</dt>
+                <dd className="font-mono">{ref.reference}</dd>
+              </div>
+            ))}
+          </dl>
+        </Section>
+      )}
+
+      <Section title="History">
+        <dl className="space-y-1">
+          {receipt.history.map((event) => (
+            <Row key={event.id} label={TRANSACTION_EVENT_LABELS[event.type]} value={when(event.created_at)} />
+          ))}
+        </dl>
+      </Section>
+
+      <Section title="Verification">
+        <div className="flex items-center gap-4">
+          <QRCodeSVG value={verifyUrl} size={96} />
+          <div className="min-w-0">
+            <p className="font-mono text-lg font-semibold tracking-wider">
+              {formatVerificationCode(receipt.verification_code)}
+            </p>
+            <p className="break-all text-xs text-muted-foreground">
+              Scan the code or enter it at {`${window.location.origin}${RECEIPT_VERIFY_PATH}`} to check this receipt.
+            </p>
+          </div>
+        </div>
+      </Section>
+    </article>
+  );
+}
@@ -0,0 +1,23 @@
+import type { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAuth } from './AuthProvider';
+
+export interface LoginLocationState {
+  from?: string;
+  expired?: boolean;
+}
+
+export function RequireAuth({ children }: { children: ReactNode }) {
+  const { user, endReason } = useAuth();
+  const location = useLocation();
+
+  if (!user) {
+    const state: LoginLocationState = {
+      from: `${location.pathname}${location.search}${location.hash}`,
+      expired: endReason === 'expired',
+    };
+    return <Navigate to="/login" replace state={state} />;
+  }
+
+  return <>{children}</>;
+}
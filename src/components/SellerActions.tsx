@@ -1,20 +1,28 @@
-import { useState } from "react";
-
-const API_BASE = import.meta.env.VITE_API_BASE_URL ?? "http://localhost:4000";
+import { useEffect, useState } from "react";
+import { useQueuedAction } from "@/components/SyncStatus";
+import { acceptPayment, type AcceptPaymentRequest } from "@/lib/api";
+import { canPerform, nextStatus, type EscrowStatus, type PaymentViewerRole } from "@/lib/escrow";
+import { newIdempotencyKey, queueIfOffline } from "@/lib/offlineQueue";
 
 interface Props {
   transactionId: string;
-  initialStatus: string;
+  initialStatus: EscrowStatus;
+  role: PaymentViewerRole;
 }
 
-export function SellerActions({ transactionId, initialStatus }: Props) {
+export function SellerActions({ transactionId, initialStatus, role }: Props) {
   const [status, setStatus] = useState(initialStatus);
   const [payoutContact, setPayoutContact] = useState("");
+  const [deliveryDate, setDeliveryDate] = useState("");
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const queued = useQueuedAction("accept_payment", transactionId);
+
+  // The page passes a new status when a live update arrives
+  useEffect(() => setStatus(initialStatus), [initialStatus]);
 
-  if (status !== "ESCROWED") {
+  if (!canPerform(status, "accept", role)) {
     return null;
   }
 
@@ -26,31 +34,29 @@ export function SellerActions({ transactionId, initialStatus }: Props) {
     // Demo mode
     if (transactionId === "demo-transaction") {
       setTimeout(() => {
-        setStatus("ACTIVE");
+        setStatus(nextStatus(status, "accept", "seller"));
         setMessage("Order accepted. Funds remain in escrow until delivery is marked.");
         setLoading(false);
       }, 1000);
       return;
     }
 
+    const request: AcceptPaymentRequest = {
+      seller_payout_contact: payoutContact || undefined,
+      // End of the chosen day, local time
+      estimated_delivery_at: deliveryDate ? new Date(`${deliveryDate}T23:59:59`).toISOString() : undefined,
+    };
+    const idempotencyKey = newIdempotencyKey();
     try {
-      const res = await fetch(`${API_BASE}/api/v1/payments/${transactionId}/accept`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          seller_payout_contact: payoutContact || undefined,
-        }),
-      });
-
-      const body = await res.json().catch(() => ({}));
+      const body = await acceptPayment(transactionId, request, idempotencyKey);
 
-      if (!res.ok) {
-        throw new Error(body.error || `Request failed with ${res.status}`);
-      }
-
-      setStatus(body.status ?? "ACTIVE");
+      setStatus(body.status ?? nextStatus(status, "accept", "seller"));
       setMessage("Order accepted. Funds remain in escrow until delivery is marked.");
     } catch (err: unknown) {
+      if (await queueIfOffline(err, { kind: "accept_payment", transaction_id: transactionId, request }, idempotencyKey)) {
+        setMessage("You're offline. The order will be accepted as soon as you reconnect.");
+        return;
+      }
       const errorMessage = err instanceof Error ? err.message : "Something went wrong";
       setError(errorMessage);
     } finally {
@@ -63,7 +69,8 @@ export function SellerActions({ transactionId, initialStatus }: Props) {
       <h2 className="mb-2 font-semibold text-card-foreground">Seller actions</h2>
       <p className="mb-3 text-muted-foreground">
         Funds are in escrow. As the seller, confirm you accept this order and
-        optionally provide the M-Pesa number to receive payout.
+        optionally provide the M-Pesa number to receive payout and when the buyer
+        can expect delivery.
       </p>
 
       <label className="flex flex-col gap-1 text-xs">
@@ -77,13 +84,27 @@ export function SellerActions({ transactionId, initialStatus }: Props) {
         />
       </label>
 
+      <label className="mt-3 flex flex-col gap-1 text-xs">
+        <span className="text-muted-foreground">Estimated delivery date</span>
+        <input
+          type="date"
+          value={deliveryDate}
+          min={new Date().toISOString().slice(0, 10)}
+          onChange={(e) => setDeliveryDate(e.target.value)}
+          className="rounded-md border border-input bg-background px-3 py-2 text-sm text-foreground outline-none ring-ring focus:ring-2"
+        />
+        <span className="text-muted-foreground">
+          Defaults to 3 days. The buyer can report a problem if nothing arrives by then.
+        </span>
+      </label>
+
       <button
         type="button"
         onClick={handleAccept}
-        disabled={loading}
+        disabled={loading || queued}
         className="mt-3 inline-flex items-center justify-center rounded-md bg-primary px-4 py-2 text-xs font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-60"
       >
-        {loading ? "Accepting..." : "Accept order"}
+        {queued ? "Waiting to sync" : loading ? "Accepting..." : "Accept order"}
       </button>
 
       {error && (
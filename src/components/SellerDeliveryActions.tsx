@@ -1,23 +1,125 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { useQueuedAction } from "@/components/SyncStatus";
+import { markPaymentDelivered, uploadDeliveryProof, type MarkDeliveredRequest } from "@/lib/api";
+import { MAX_PROOF_FILES, PROOF_ACCEPT, compressImage, validateProofFile } from "@/lib/deliveryProof";
+import { canPerform, nextStatus, type EscrowStatus, type PaymentViewerRole } from "@/lib/escrow";
+import { INSPECTION_WINDOW_HOURS } from "@/lib/inspection";
+import { newIdempotencyKey, queueIfOffline } from "@/lib/offlineQueue";
 
-const API_BASE = import.meta.env.VITE_API_BASE_URL ?? "http://localhost:4000";
+const DELIVERED_MESSAGE = `Marked as delivered. The buyer has ${INSPECTION_WINDOW_HOURS / 24} days to confirm or report a problem, then funds auto-release to you.`;
 
 interface Props {
   transactionId: string;
-  initialStatus: string;
+  initialStatus: EscrowStatus;
+  role: PaymentViewerRole;
 }
 
-export function SellerDeliveryActions({ transactionId, initialStatus }: Props) {
+interface ProofUpload {
+  id: string;
+  file: File;
+  /** Local object URL for the thumbnail; null for PDFs */
+  preview: string | null;
+  progress: number;
+  status: "preparing" | "uploading" | "done" | "failed";
+  url?: string;
+  error?: string;
+  /** False when the file itself was rejected, so trying again can't help */
+  retryable?: boolean;
+  controller: AbortController;
+}
+
+export function SellerDeliveryActions({ transactionId, initialStatus, role }: Props) {
   const [status, setStatus] = useState(initialStatus);
-  const [evidenceUrls, setEvidenceUrls] = useState("");
+  const [uploads, setUploads] = useState<ProofUpload[]>([]);
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const queued = useQueuedAction("mark_delivered", transactionId);
+  const cameraInput = useRef<HTMLInputElement>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
 
-  if (status !== "ACTIVE" && status !== "DELIVERED") {
+  useEffect(() => setStatus(initialStatus), [initialStatus]);
+
+  // Stop uploads and free thumbnails when the page goes away
+  const uploadsRef = useRef(uploads);
+  uploadsRef.current = uploads;
+  useEffect(
+    () => () =>
+      uploadsRef.current.forEach((u) => {
+        u.controller.abort();
+        if (u.preview) URL.revokeObjectURL(u.preview);
+      }),
+    []
+  );
+
+  const canMarkDelivered = canPerform(status, "mark_delivered", role);
+  const uploading = uploads.some((u) => u.status === "preparing" || u.status === "uploading");
+
+  if (role !== "seller" || (!canMarkDelivered && status !== "DELIVERED")) {
     return null;
   }
 
+  function updateUpload(id: string, patch: Partial<ProofUpload>) {
+    setUploads((prev) => prev.map((u) => (u.id === id ? { ...u, ...patch } : u)));
+  }
+
+  async function upload(item: ProofUpload) {
+    updateUpload(item.id, { status: "preparing", progress: 0, error: undefined });
+    const file = await compressImage(item.file);
+    if (item.controller.signal.aborted) return;
+    const invalid = validateProofFile(file);
+    if (invalid) {
+      updateUpload(item.id, { status: "failed", error: invalid, retryable: false });
+      return;
+    }
+    updateUpload(item.id, { status: "uploading" });
+    try {
+      const uploaded = await uploadDeliveryProof(transactionId, file, {
+        signal: item.controller.signal,
+        onProgress: ({ loaded, total }) => updateUpload(item.id, { progress: total ? Math.round((loaded / total) * 100) : 0 }),
+      });
+      updateUpload(item.id, { status: "done", progress: 100, url: uploaded.url });
+    } catch (err: unknown) {
+      if (item.controller.signal.aborted) return;
+      updateUpload(item.id, {
+        status: "failed",
+        error: err instanceof Error ? err.message : "Upload failed",
+        retryable: true,
+      });
+    }
+  }
+
+  function addFiles(list: FileList | null) {
+    const files = Array.from(list ?? []);
+    setError(null);
+    if (uploads.length + files.length > MAX_PROOF_FILES) {
+      setError(`Attach at most ${MAX_PROOF_FILES} files`);
+      return;
+    }
+    const items = files.map<ProofUpload>((file) => ({
+      id: `${Date.now()}-${Math.random()}`,
+      file,
+      preview: file.type.startsWith("image/") ? URL.createObjectURL(file) : null,
+      progress: 0,
+      status: "preparing",
+      controller: new AbortController(),
+    }));
+    setUploads((prev) => [...prev, ...items]);
+    items.forEach(upload);
+  }
+
+  function removeUpload(item: ProofUpload) {
+    item.controller.abort();
+    if (item.preview) URL.revokeObjectURL(item.preview);
+    setUploads((prev) => prev.filter((u) => u.id !== item.id));
+  }
+
+  function retryUpload(item: ProofUpload) {
+    const controller = new AbortController();
+    updateUpload(item.id, { controller });
+    upload({ ...item, controller });
+  }
+
   async function handleMarkDelivered() {
     setLoading(true);
     setError(null);
@@ -26,37 +128,27 @@ export function SellerDeliveryActions({ transactionId, initialStatus }: Props) {
     // Demo mode
     if (transactionId === "demo-transaction") {
       setTimeout(() => {
-        setStatus("DELIVERED");
-        setMessage("Marked as delivered. Buyer will be asked to confirm, or funds will auto-release later.");
+        setStatus(nextStatus(status, "mark_delivered", "seller"));
+        setMessage(DELIVERED_MESSAGE);
         setLoading(false);
       }, 1000);
       return;
     }
 
+    const urls = uploads.flatMap((u) => (u.status === "done" && u.url ? [u.url] : []));
+    const request: MarkDeliveredRequest = { evidence_urls: urls.length ? urls : undefined };
+    const idempotencyKey = newIdempotencyKey();
     try {
-      const urls = evidenceUrls
-        .split(",")
-        .map((u) => u.trim())
-        .filter(Boolean);
-
-      const res = await fetch(
-        `${API_BASE}/api/v1/payments/${transactionId}/mark-delivered`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ evidence_urls: urls.length ? urls : undefined }),
-        }
-      );
-
-      const body = await res.json().catch(() => ({}));
-
-      if (!res.ok) {
-        throw new Error(body.error || `Request failed with ${res.status}`);
-      }
+      const body = await markPaymentDelivered(transactionId, request, idempotencyKey);
 
-      setStatus(body.status ?? "DELIVERED");
-      setMessage("Marked as delivered. Buyer will be asked to confirm, or funds will auto-release later.");
+      setStatus(body.status ?? nextStatus(status, "mark_delivered", "seller"));
+      setMessage(DELIVERED_MESSAGE);
     } catch (err: unknown) {
+      // Proof that finished uploading goes with it; anything still to upload needs a connection
+      if (await queueIfOffline(err, { kind: "mark_delivered", transaction_id: transactionId, request }, idempotencyKey)) {
+        setMessage("You're offline. The order will be marked delivered as soon as you reconnect.");
+        return;
+      }
       const errorMessage = err instanceof Error ? err.message : "Something went wrong";
       setError(errorMessage);
     } finally {
@@ -68,30 +160,111 @@ export function SellerDeliveryActions({ transactionId, initialStatus }: Props) {
     <section className="rounded-lg border border-border bg-card p-4 text-sm">
       <h2 className="mb-2 font-semibold text-card-foreground">Delivery</h2>
       <p className="mb-3 text-muted-foreground">
-        Once you have delivered the item/service, mark it as delivered. Optionally,
-        provide links to proof (e.g., image URLs).
+        Once you have delivered the item/service, mark it as delivered. Add photos of the handover, a signed waybill or
+        a courier receipt so the buyer can see it arrived.
       </p>
 
-      <label className="flex flex-col gap-1 text-xs">
-        <span className="text-muted-foreground">Evidence URLs (comma-separated)</span>
-        <textarea
-          value={evidenceUrls}
-          onChange={(e) => setEvidenceUrls(e.target.value)}
-          placeholder="https://... , https://..."
-          className="min-h-[60px] rounded-md border border-input bg-background px-3 py-2 text-sm text-foreground outline-none ring-ring focus:ring-2"
-        />
-      </label>
+      {canMarkDelivered && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => cameraInput.current?.click()}
+              disabled={uploads.length >= MAX_PROOF_FILES}
+              className="rounded-md border border-border px-3 py-2 text-xs font-medium hover:bg-muted disabled:opacity-60"
+            >
+              Take photo
+            </button>
+            <button
+              type="button"
+              onClick={() => fileInput.current?.click()}
+              disabled={uploads.length >= MAX_PROOF_FILES}
+              className="rounded-md border border-border px-3 py-2 text-xs font-medium hover:bg-muted disabled:opacity-60"
+            >
+              Choose files
+            </button>
+            <span className="self-center text-xs text-muted-foreground">
+              Photos or PDFs, up to {MAX_PROOF_FILES} files of 10 MB
+            </span>
+          </div>
+          <input
+            ref={cameraInput}
+            type="file"
+            accept="image/*"
+            capture="environment"
+            className="hidden"
+            onChange={(e) => {
+              addFiles(e.target.files);
+              e.target.value = "";
+            }}
+          />
+          <input
+            ref={fileInput}
+            type="file"
+            accept={PROOF_ACCEPT}
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              addFiles(e.target.files);
+              e.target.value = "";
+            }}
+          />
+
+          {uploads.length > 0 && (
+            <ul className="mt-3 grid grid-cols-3 gap-2">
+              {uploads.map((item) => (
+                <li key={item.id} className="relative aspect-square overflow-hidden rounded-md border border-border bg-muted">
+                  {item.preview ? (
+                    <img src={item.preview} alt={item.file.name} className="h-full w-full object-cover" />
+                  ) : (
+                    <div className="flex h-full w-full items-center justify-center p-2 text-center text-xs text-muted-foreground">
+                      {item.file.name}
+                    </div>
+                  )}
+                  {(item.status === "preparing" || item.status === "uploading") && (
+                    <div className="absolute inset-x-0 bottom-0 h-1 bg-background/60">
+                      <div className="h-full bg-primary transition-all" style={{ width: `${item.progress}%` }} />
+                    </div>
+                  )}
+                  {item.status === "failed" && (
+                    <div className="absolute inset-0 flex flex-col items-center justify-center gap-1 bg-background/90 p-2 text-center">
+                      <span className="text-xs text-destructive">{item.error}</span>
+                      {item.retryable && (
+                        <button type="button" onClick={() => retryUpload(item)} className="text-xs font-medium underline">
+                          Retry
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => removeUpload(item)}
+                    aria-label={`Remove ${item.file.name}`}
+                    className="absolute right-1 top-1 flex h-6 w-6 items-center justify-center rounded-full bg-background/80 text-xs"
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
 
       <button
         type="button"
         onClick={handleMarkDelivered}
-        disabled={loading || status === "DELIVERED"}
+        disabled={loading || uploading || queued || !canMarkDelivered}
         className="mt-3 inline-flex items-center justify-center rounded-md bg-primary px-4 py-2 text-xs font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-60"
       >
-        {status === "DELIVERED"
+        {!canMarkDelivered
           ? "Already marked delivered"
+          : queued
+          ? "Waiting to sync"
           : loading
           ? "Saving..."
+          : uploading
+          ? "Uploading..."
           : "Mark delivered"}
       </button>
 
@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import {
+  actionTarget,
+  describeAction,
+  dismissQueued,
+  isSyncing,
+  listQueued,
+  onQueueChange,
+  replayQueue,
+  type QueuedAction,
+  type QueuedEntry,
+} from "@/lib/offlineQueue";
+
+function useQueue(): QueuedEntry[] {
+  const [entries, setEntries] = useState<QueuedEntry[]>([]);
+
+  useEffect(() => {
+    if (typeof indexedDB === "undefined") return;
+    let cancelled = false;
+    const load = () =>
+      listQueued()
+        .then((next) => !cancelled && setEntries(next))
+        .catch((err) => console.error("Offline queue read failed:", err));
+    load();
+    const stop = onQueueChange(load);
+    return () => {
+      cancelled = true;
+      stop();
+    };
+  }, []);
+
+  return entries;
+}
+
+/** True while an action of this kind for this order or payment is waiting to sync */
+export function useQueuedAction(kind: QueuedAction["kind"], id: string): boolean {
+  const entries = useQueue();
+  return entries.some((e) => e.status === "pending" && e.action.kind === kind && actionTarget(e.action) === id);
+}
+
+function useOnline(): boolean {
+  const [online, setOnline] = useState(() => navigator.onLine);
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+  return online;
+}
+
+// Always visible while offline or while anything is waiting, so a seller knows
+// their changes haven't reached the server yet
+export function SyncStatus() {
+  const entries = useQueue();
+  const online = useOnline();
+  const [expanded, setExpanded] = useState(false);
+
+  const pending = entries.filter((e) => e.status === "pending");
+  const failed = entries.filter((e) => e.status === "failed");
+  if (online && entries.length === 0) return null;
+
+  const summary = !online
+    ? pending.length
+      ? `Offline · ${pending.length} change${pending.length === 1 ? "" : "s"} waiting to sync`
+      : "Offline · showing saved data"
+    : isSyncing()
+      ? "Syncing..."
+      : pending.length
+        ? `${pending.length} change${pending.length === 1 ? "" : "s"} waiting to sync`
+        : `${failed.length} change${failed.length === 1 ? "" : "s"} couldn't sync`;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50 max-w-sm text-sm print:hidden" role="status">
+      {expanded && entries.length > 0 && (
+        <ul className="mb-2 space-y-2 rounded-lg border border-border bg-card p-3 text-card-foreground shadow-lg">
+          {entries.map((entry) => (
+            <li key={entry.id} className="flex items-start justify-between gap-3">
+              <span>
+                <span className="block font-medium">{describeAction(entry.action)}</span>
+                <span className={`block text-xs ${entry.status === "failed" ? "text-destructive" : "text-muted-foreground"}`}>
+                  {entry.status === "failed"
+                    ? entry.error
+                    : `Saved ${new Date(entry.queued_at).toLocaleTimeString("en-KE", { timeStyle: "short" })}`}
+                </span>
+              </span>
+              {entry.status === "failed" && (
+                <button
+                  type="button"
+                  onClick={() => dismissQueued(entry.id)}
+                  className="text-xs font-medium text-primary underline hover:no-underline"
+                >
+                  Dismiss
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      <div
+        className={`flex items-center gap-3 rounded-full px-4 py-2 shadow-lg ${
+          failed.length && online && !pending.length ? "bg-destructive text-destructive-foreground" : "bg-foreground text-background"
+        }`}
+      >
+        <span className={`h-2 w-2 rounded-full ${online ? "bg-green-400" : "bg-yellow-400"}`} aria-hidden />
+        <span>{summary}</span>
+        {entries.length > 0 && (
+          <button type="button" onClick={() => setExpanded(!expanded)} className="text-xs underline hover:no-underline">
+            {expanded ? "Hide" : "Details"}
+          </button>
+        )}
+        {online && pending.length > 0 && !isSyncing() && (
+          <button type="button" onClick={() => replayQueue()} className="text-xs underline hover:no-underline">
+            Sync now
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
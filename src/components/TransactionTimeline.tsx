@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import { getOrderHistory, getPaymentHistory, type TransactionEvent } from "@/lib/api";
+import type { PaymentViewerRole } from "@/lib/escrow";
+import { formatMoney, money } from "@/lib/money";
+import {
+  TRANSACTION_EVENT_LABELS,
+  TRANSACTION_EVENT_TONES,
+  actorLabel,
+  type TransactionEventTone,
+} from "@/lib/transactionHistory";
+
+interface Props {
+  transactionId: string;
+  currency: string;
+  viewer: PaymentViewerRole;
+  /** "payment" reads through the viewer's link token, "seller" through the session */
+  scope?: "payment" | "seller";
+  /** Changes whenever the transaction does, to pick up new events */
+  refreshKey?: unknown;
+  className?: string;
+}
+
+const DOT_CLASSES: Record<TransactionEventTone, string> = {
+  neutral: "bg-muted-foreground",
+  positive: "bg-green-600",
+  negative: "bg-destructive",
+  warning: "bg-amber-500",
+};
+
+export function TransactionTimeline({
+  transactionId,
+  currency,
+  viewer,
+  scope = "payment",
+  refreshKey,
+  className = "",
+}: Props) {
+  const [events, setEvents] = useState<TransactionEvent[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const load = scope === "seller" ? getOrderHistory : getPaymentHistory;
+    load(transactionId, controller.signal)
+      .then((history) => {
+        setEvents(history);
+        setError(null);
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : "Couldn't load the history");
+      });
+    return () => controller.abort();
+  }, [transactionId, scope, refreshKey]);
+
+  if (error && !events) {
+    return <p className={`text-xs text-destructive ${className}`}>{error}</p>;
+  }
+  if (!events) {
+    return <p className={`text-xs text-muted-foreground ${className}`}>Loading history...</p>;
+  }
+
+  return (
+    <ol className={`text-sm ${className}`}>
+      {events.map((event, index) => (
+        <li key={event.id} className="flex gap-3">
+          <div className="flex flex-col items-center">
+            <span className={`mt-1.5 h-2.5 w-2.5 shrink-0 rounded-full ${DOT_CLASSES[TRANSACTION_EVENT_TONES[event.type]]}`} />
+            {index < events.length - 1 && <span className="w-px flex-1 bg-border" />}
+          </div>
+          <div className="min-w-0 flex-1 pb-4">
+            <div className="flex justify-between gap-4">
+              <p className="font-medium text-card-foreground">{TRANSACTION_EVENT_LABELS[event.type]}</p>
+              {event.amount !== null && (
+                <span className="tabular-nums text-card-foreground">{formatMoney(money(event.amount, currency))}</span>
+              )}
+            </div>
+            {event.detail && <p className="text-xs text-muted-foreground">{event.detail}</p>}
+            <p className="text-xs text-muted-foreground">
+              {new Date(event.created_at).toLocaleString("en-KE")} · {actorLabel(event.actor, viewer)}
+            </p>
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
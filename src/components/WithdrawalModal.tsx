@@ -0,0 +1,237 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle, Clock, X, XCircle } from 'lucide-react';
+import {
+  SIMULATOR_ENABLED,
+  createWithdrawal,
+  getWithdrawal,
+  type WalletData,
+  type Withdrawal,
+  type WithdrawalStatus,
+} from '@/lib/api';
+import { withdrawalFee } from '@/lib/fees';
+import { DEFAULT_CURRENCY, formatMoney, money, parseMoney } from '@/lib/money';
+import { formatMpesaPhone } from '@/lib/phone';
+
+const POLL_INTERVAL_MS = 2000;
+const POLL_MAX_INTERVAL_MS = 30_000;
+
+const STEPS: { status: WithdrawalStatus; label: string }[] = [
+  { status: 'pending', label: 'Request received' },
+  { status: 'processing', label: 'Sending to M-Pesa' },
+  { status: 'succeeded', label: 'Paid out' },
+];
+
+interface WithdrawalModalProps {
+  wallet: WalletData;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export function WithdrawalModal({ wallet, onClose, onChanged }: WithdrawalModalProps) {
+  const [withdrawalAmount, setWithdrawalAmount] = useState('');
+  const [currency, setCurrency] = useState(
+    () => wallet.balances.find(b => b.available > 0)?.currency ?? DEFAULT_CURRENCY
+  );
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [withdrawal, setWithdrawal] = useState<Withdrawal | null>(null);
+  // Failed status checks in a row; each one doubles the wait before the next
+  const [pollFailures, setPollFailures] = useState(0);
+
+  const settled = withdrawal?.status === 'succeeded' || withdrawal?.status === 'failed';
+
+  useEffect(() => {
+    if (!withdrawal || settled) return;
+
+    const controller = new AbortController();
+    const delay = Math.min(POLL_INTERVAL_MS * 2 ** pollFailures, POLL_MAX_INTERVAL_MS);
+    const timer = setTimeout(async () => {
+      try {
+        const latest = await getWithdrawal(withdrawal.id, controller.signal);
+        setPollFailures(0);
+        setWithdrawal(latest);
+        if (latest.status === 'succeeded' || latest.status === 'failed') onChanged();
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Withdrawal status error:', err);
+        // Changing the count re-runs this effect, which schedules the retry
+        setPollFailures(n => n + 1);
+      }
+    }, delay);
+
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [withdrawal, settled, pollFailures, onChanged]);
+
+  const available = money(wallet.balances.find(b => b.currency === currency)?.available ?? 0, currency);
+  const requested = parseMoney(withdrawalAmount, currency);
+
+  const handleWithdraw = async () => {
+    setError(null);
+    if (!requested) {
+      setError('Please enter a valid amount');
+      return;
+    }
+    if (requested.amount > available.amount) {
+      setError('Insufficient funds');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      setWithdrawal(await createWithdrawal(requested));
+      setWithdrawalAmount('');
+      onChanged();
+    } catch (err) {
+      setError((err as Error).message || 'Failed to request withdrawal');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const canWithdraw = Boolean(wallet.payout_phone && wallet.payout_phone_verified);
+  const stepIndex = withdrawal ? STEPS.findIndex(s => s.status === withdrawal.status) : -1;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl max-w-md w-full p-8">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-2xl font-bold">💸 Withdraw Funds</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        {withdrawal ? (
+          <div className="space-y-4 mb-6">
+            <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
+              <p className="text-sm text-gray-600">Withdrawing to {formatMpesaPhone(withdrawal.phone)}</p>
+              <p className="text-2xl font-bold">{formatMoney(money(withdrawal.net_amount, withdrawal.currency))}</p>
+              <p className="text-xs text-gray-500">
+                {formatMoney(money(withdrawal.amount, withdrawal.currency))} less{' '}
+                {formatMoney(money(withdrawal.fee, withdrawal.currency))} fee
+              </p>
+            </div>
+
+            {withdrawal.status === 'failed' ? (
+              <div className="bg-red-50 p-4 rounded-lg border border-red-200 flex gap-3">
+                <XCircle className="text-red-600 flex-shrink-0" size={20} />
+                <div>
+                  <p className="font-bold text-red-800">Withdrawal failed</p>
+                  <p className="text-sm text-red-700">
+                    {withdrawal.failure_reason || 'M-Pesa could not complete the payout.'} The amount is back in your available balance.
+                  </p>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {STEPS.map((step, idx) => (
+                  <div key={step.status} className="flex items-center gap-3">
+                    {idx < stepIndex || withdrawal.status === 'succeeded' ? (
+                      <CheckCircle className="text-green-600" size={20} />
+                    ) : idx === stepIndex ? (
+                      <div className="w-5 h-5 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+                    ) : (
+                      <Clock className="text-gray-300" size={20} />
+                    )}
+                    <span className={idx <= stepIndex ? 'font-semibold' : 'text-gray-500'}>{step.label}</span>
+                  </div>
+                ))}
+                {withdrawal.mpesa_receipt && (
+                  <p className="text-sm text-green-700 bg-green-50 p-3 rounded-lg border border-green-200">
+                    M-Pesa receipt: <span className="font-mono font-bold">{withdrawal.mpesa_receipt}</span>
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        ) : (
+          <>
+            <div className="space-y-4 mb-6">
+              <div className={`p-4 rounded-lg border-2 ${canWithdraw ? 'bg-green-50 border-green-300' : 'bg-yellow-50 border-yellow-300'}`}>
+                <p className="font-bold">📱 M-Pesa (Recommended)</p>
+                {canWithdraw ? (
+                  <>
+                    <p className="text-sm text-gray-600 mt-2">{formatMpesaPhone(wallet.payout_phone!)} • ✅ Verified</p>
+                    <p className="text-xs text-green-600 mt-1">Usually arrives within a minute</p>
+                  </>
+                ) : (
+                  <p className="text-sm text-yellow-800 mt-2">
+                    Verify your M-Pesa number in Settings before withdrawing.
+                  </p>
+                )}
+              </div>
+
+              <div className="bg-gray-50 p-4 rounded-lg border-2 border-gray-300 opacity-60">
+                <p className="font-bold">🏦 Bank Account</p>
+                <p className="text-sm text-gray-600 mt-2">Coming soon</p>
+              </div>
+            </div>
+
+            <div className="space-y-3 mb-6">
+              {wallet.balances.length > 1 && (
+                <select
+                  value={currency}
+                  onChange={(e) => setCurrency(e.target.value)}
+                  className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:outline-none focus:border-blue-500 bg-white"
+                >
+                  {wallet.balances.map(b => (
+                    <option key={b.currency} value={b.currency}>{b.currency} balance</option>
+                  ))}
+                </select>
+              )}
+              <p className="text-sm text-gray-600">Available: {formatMoney(available)}</p>
+              <input
+                type="text"
+                inputMode="decimal"
+                placeholder={`Amount (${currency})`}
+                value={withdrawalAmount}
+                onChange={(e) => setWithdrawalAmount(e.target.value)}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:outline-none focus:border-blue-500"
+              />
+              {requested && (
+                <div className="bg-blue-50 p-3 rounded-lg">
+                  <p className="text-sm text-blue-900">
+                    <strong>You'll receive:</strong>{' '}
+                    {formatMoney(money(requested.amount - withdrawalFee(requested), currency))}{' '}
+                    (after {formatMoney(money(withdrawalFee(requested), currency))} fee)
+                  </p>
+                </div>
+              )}
+              {SIMULATOR_ENABLED && (
+                <p className="text-xs text-gray-500">Simulator: amounts ending in 13 (e.g. 113) fail at M-Pesa.</p>
+              )}
+              {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+            </div>
+          </>
+        )}
+
+        <div className="flex gap-3">
+          <button onClick={onClose} className="flex-1 px-4 py-3 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition font-semibold">
+            {withdrawal ? 'Close' : 'Cancel'}
+          </button>
+          {withdrawal ? (
+            settled && (
+              <button
+                onClick={() => setWithdrawal(null)}
+                className="flex-1 px-4 py-3 rounded-lg bg-gradient-to-r from-green-500 to-emerald-600 text-white hover:shadow-lg transition font-bold"
+              >
+                New Withdrawal
+              </button>
+            )
+          ) : (
+            <button
+              onClick={handleWithdraw}
+              disabled={!canWithdraw || submitting}
+              className="flex-1 px-4 py-3 rounded-lg bg-gradient-to-r from-green-500 to-emerald-600 text-white hover:shadow-lg transition font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {submitting ? 'Requesting...' : 'Confirm Withdrawal'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import type { AnalyticsGranularity } from "@/lib/api/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const ANALYTICS_RANGE_OPTIONS = [
+  { days: 7, label: "Last 7 days" },
+  { days: 30, label: "Last 30 days" },
+  { days: 90, label: "Last 90 days" },
+] as const;
+
+export const DEFAULT_ANALYTICS_DAYS = 30;
+export const MAX_ANALYTICS_DAYS = 366;
+
+// Longer ranges are bucketed by week so charts stay readable
+const DAILY_UP_TO_DAYS = 31;
+
+export interface DateRange {
+  /** Inclusive UTC dates, YYYY-MM-DD */
+  from: string;
+  to: string;
+}
+
+export function toDateKey(date: Date | number): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+function dayStart(key: string): number {
+  return Date.parse(`${key}T00:00:00Z`);
+}
+
+export function rangeDays({ from, to }: DateRange): number {
+  return Math.round((dayStart(to) - dayStart(from)) / DAY_MS) + 1;
+}
+
+export function lastDays(days: number, now = Date.now()): DateRange {
+  return { from: toDateKey(now - (days - 1) * DAY_MS), to: toDateKey(now) };
+}
+
+export function previousPeriod(range: DateRange): DateRange {
+  const start = dayStart(range.from);
+  return { from: toDateKey(start - rangeDays(range) * DAY_MS), to: toDateKey(start - DAY_MS) };
+}
+
+export function validateAnalyticsRange(range: Partial<DateRange>): string | null {
+  const { from, to } = range;
+  if (!from || !to || Number.isNaN(dayStart(from)) || Number.isNaN(dayStart(to))) return "Choose a start and end date";
+  if (from > to) return "The start date must be before the end date";
+  if (rangeDays({ from, to }) > MAX_ANALYTICS_DAYS) return "Choose a range of a year or less";
+  return null;
+}
+
+export function granularityFor(range: DateRange): AnalyticsGranularity {
+  return rangeDays(range) <= DAILY_UP_TO_DAYS ? "day" : "week";
+}
+
+// First day of each bucket. Weeks count from the start of the range, so the
+// last one may be short.
+export function bucketStarts(range: DateRange, granularity: AnalyticsGranularity): string[] {
+  const step = granularity === "day" ? DAY_MS : 7 * DAY_MS;
+  const starts: string[] = [];
+  for (let t = dayStart(range.from); t <= dayStart(range.to); t += step) starts.push(toDateKey(t));
+  return starts;
+}
+
+// Null when there's nothing to compare against
+export function percentChange(current: number | null, previous: number | null): number | null {
+  if (current === null || previous === null || previous === 0) return null;
+  return Math.round(((current - previous) / previous) * 100);
+}
+
+export function formatDeliveryHours(hours: number | null): string {
+  if (hours === null) return "—";
+  return hours < 48 ? `${Math.round(hours)} h` : `${(hours / 24).toFixed(1)} days`;
+}
@@ -0,0 +1,34 @@
+import { apiRequest } from "./client";
+import { clearSession, getSession, saveSession, type StoredSession } from "./session";
+import type { AuthSession, OtpChallenge, OtpRequest, VerifyOtpRequest } from "./types";
+
+export function requestOtp(request: OtpRequest) {
+  return apiRequest<OtpChallenge>("/api/v1/auth/otp", { method: "POST", body: request, auth: false });
+}
+
+export async function verifyOtp(request: VerifyOtpRequest): Promise<StoredSession> {
+  const session = await apiRequest<AuthSession>("/api/v1/auth/otp/verify", {
+    method: "POST",
+    body: request,
+    auth: false,
+  });
+  return saveSession(session);
+}
+
+// Revoking server-side is best effort; local credentials are cleared regardless
+export async function logout(): Promise<void> {
+  const session = getSession();
+  try {
+    if (session) {
+      await apiRequest("/api/v1/auth/logout", {
+        method: "POST",
+        body: { refresh_token: session.refresh_token },
+        auth: false,
+      });
+    }
+  } catch (err) {
+    console.error("Logout error:", err);
+  } finally {
+    clearSession("logout");
+  }
+}
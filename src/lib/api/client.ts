@@ -0,0 +1,238 @@
+import {
+  AbortedError,
+  ApiError,
+  HttpError,
+  NetworkError,
+  TimeoutError,
+  UnauthorizedError,
+  errorFromResponse,
+} from "./errors";
+import { clearSession, getSession, saveSession } from "./session";
+import type { AuthSession } from "./types";
+import { xhrFetch, type UploadProgress } from "./xhr";
+
+export const API_BASE = import.meta.env.VITE_API_BASE_URL ?? "http://localhost:4000";
+
+export const SIMULATOR_ENABLED = import.meta.env.VITE_USE_SIMULATOR === "true";
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_SAFE_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 400;
+// Refresh a little before expiry so requests in flight don't race it
+const REFRESH_SKEW_MS = 30_000;
+
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+type QueryValue = string | number | boolean | null | undefined;
+
+export interface RequestOptions {
+  method?: HttpMethod;
+  /** JSON-encoded unless it is FormData */
+  body?: unknown;
+  query?: Record<string, QueryValue>;
+  headers?: Record<string, string>;
+  /** Attach the seller bearer token when signed in, refreshing it as needed (default true) */
+  auth?: boolean;
+  timeoutMs?: number;
+  /** Defaults to a couple of retries for GET and none for anything else */
+  retries?: number;
+  /** Lets the server recognise a replay of a request it already handled */
+  idempotencyKey?: string;
+  signal?: AbortSignal;
+  /** Reports request body upload progress; useful for FormData uploads */
+  onUploadProgress?: (progress: UploadProgress) => void;
+}
+
+export function getAuthToken(): string | null {
+  return getSession()?.access_token ?? null;
+}
+
+export function buildUrl(path: string, query?: Record<string, QueryValue>): string {
+  const url = new URL(path, API_BASE);
+  if (query) {
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== null && value !== "") {
+        url.searchParams.set(key, String(value));
+      }
+    }
+  }
+  return url.toString();
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof NetworkError || error instanceof TimeoutError) return true;
+  return error instanceof HttpError && (error.status >= 500 || error.status === 429);
+}
+
+function backoffDelay(attempt: number): number {
+  const base = RETRY_BASE_DELAY_MS * 2 ** attempt;
+  return base + Math.random() * base * 0.5;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new AbortedError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortedError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+async function parseBody(response: Response): Promise<unknown> {
+  if (response.status === 204) return undefined;
+  const contentType = response.headers.get("Content-Type") ?? "";
+  if (contentType.includes("application/json")) {
+    return response.json().catch(() => undefined);
+  }
+  const text = await response.text().catch(() => "");
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+type Transport = (
+  url: string,
+  init: RequestInit,
+  onUploadProgress?: (progress: UploadProgress) => void
+) => Promise<Response>;
+
+let transport: Promise<Transport> | null = null;
+
+function getTransport(): Promise<Transport> {
+  transport ??= SIMULATOR_ENABLED
+    ? import("@/lib/simulator").then((m) => m.simulatedFetch)
+    : Promise.resolve<Transport>((url, init, onUploadProgress) =>
+        onUploadProgress ? xhrFetch(url, init, onUploadProgress) : fetch(url, init)
+      );
+  return transport;
+}
+
+async function sendOnce(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal,
+  onUploadProgress?: (progress: UploadProgress) => void
+) {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    const send = await getTransport();
+    const response = await send(url, { ...init, signal: controller.signal }, onUploadProgress);
+    const body = await parseBody(response);
+    if (!response.ok) {
+      throw errorFromResponse(response.status, body);
+    }
+    return body;
+  } catch (err) {
+    if (err instanceof ApiError) throw err;
+    if (timedOut) throw new TimeoutError(timeoutMs);
+    if (signal?.aborted) throw new AbortedError();
+    throw new NetworkError();
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+let refreshing: Promise<string | null> | null = null;
+
+// Single-flight so a burst of 401s triggers one refresh. Resolves to the new
+// access token, or null once the refresh token is rejected and the session
+// has been ended. Network failures propagate without signing the user out.
+function refreshAccessToken(): Promise<string | null> {
+  refreshing ??= (async () => {
+    const session = getSession();
+    if (!session) return null;
+    try {
+      const init: RequestInit = {
+        method: "POST",
+        headers: { Accept: "application/json", "Content-Type": "application/json" },
+        body: JSON.stringify({ refresh_token: session.refresh_token }),
+      };
+      const fresh = (await sendOnce(buildUrl("/api/v1/auth/refresh"), init, DEFAULT_TIMEOUT_MS)) as AuthSession;
+      return saveSession(fresh).access_token;
+    } catch (err) {
+      if (err instanceof HttpError && err.status >= 400 && err.status < 500) {
+        clearSession("expired");
+        return null;
+      }
+      throw err;
+    }
+  })().finally(() => {
+    refreshing = null;
+  });
+  return refreshing;
+}
+
+export async function freshAccessToken(): Promise<string | null> {
+  const session = getSession();
+  if (!session) return null;
+  if (session.expires_at - REFRESH_SKEW_MS > Date.now()) return session.access_token;
+  return refreshAccessToken();
+}
+
+export async function apiRequest<T>(path: string, options: RequestOptions = {}): Promise<T> {
+  const {
+    method = "GET",
+    body,
+    query,
+    auth = true,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    signal,
+  } = options;
+  const retries = options.retries ?? (method === "GET" ? DEFAULT_SAFE_RETRIES : 0);
+
+  const headers: Record<string, string> = { Accept: "application/json", ...options.headers };
+  if (options.idempotencyKey) headers[IDEMPOTENCY_HEADER] = options.idempotencyKey;
+  let payload: BodyInit | undefined;
+  if (body instanceof FormData) {
+    payload = body;
+  } else if (body !== undefined) {
+    headers["Content-Type"] = "application/json";
+    payload = JSON.stringify(body);
+  }
+
+  let token = auth ? await freshAccessToken() : null;
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  const url = buildUrl(path, query);
+  const init: RequestInit = { method, headers, body: payload };
+  let refreshed = false;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return (await sendOnce(url, init, timeoutMs, signal, options.onUploadProgress)) as T;
+    } catch (err) {
+      // The token may have been revoked or expired early; refresh once and replay
+      if (err instanceof UnauthorizedError && token && !refreshed) {
+        refreshed = true;
+        token = await refreshAccessToken();
+        if (!token) throw err;
+        headers.Authorization = `Bearer ${token}`;
+        attempt--;
+        continue;
+      }
+      if (attempt >= retries || !isRetryable(err)) throw err;
+      await sleep(backoffDelay(attempt), signal);
+    }
+  }
+}
@@ -0,0 +1,118 @@
+interface ApiErrorOptions {
+  status?: number | null;
+  code?: string;
+  details?: unknown;
+}
+
+export class ApiError extends Error {
+  readonly status: number | null;
+  readonly code: string;
+  readonly details?: unknown;
+
+  constructor(message: string, { status = null, code = "api_error", details }: ApiErrorOptions = {}) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+// The server answered with a non-2xx status
+export class HttpError extends ApiError {
+  declare readonly status: number;
+
+  constructor(message: string, status: number, code = "http_error", details?: unknown) {
+    super(message, { status, code, details });
+    this.name = "HttpError";
+  }
+}
+
+export class ValidationError extends HttpError {
+  constructor(message: string, status: number, details?: unknown) {
+    super(message, status, "validation_error", details);
+    this.name = "ValidationError";
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  constructor(message: string, details?: unknown) {
+    super(message, 401, "unauthorized", details);
+    this.name = "UnauthorizedError";
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(message: string, details?: unknown) {
+    super(message, 403, "forbidden", details);
+    this.name = "ForbiddenError";
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message: string, details?: unknown) {
+    super(message, 404, "not_found", details);
+    this.name = "NotFoundError";
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message: string, details?: unknown) {
+    super(message, 409, "conflict", details);
+    this.name = "ConflictError";
+  }
+}
+
+// The request never got a response (offline, DNS, CORS, ...)
+export class NetworkError extends ApiError {
+  constructor(message = "Network error. Check your connection and try again.") {
+    super(message, { code: "network_error" });
+    this.name = "NetworkError";
+  }
+}
+
+export class TimeoutError extends ApiError {
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${Math.round(timeoutMs / 1000)}s`, { code: "timeout" });
+    this.name = "TimeoutError";
+  }
+}
+
+export class AbortedError extends ApiError {
+  constructor() {
+    super("Request was cancelled", { code: "aborted" });
+    this.name = "AbortedError";
+  }
+}
+
+function messageFromBody(body: unknown, status: number): string {
+  if (typeof body === "string" && body.trim()) return body;
+  if (body && typeof body === "object") {
+    const { error, message } = body as { error?: unknown; message?: unknown };
+    if (typeof error === "string") return error;
+    if (error && typeof error === "object" && typeof (error as { message?: unknown }).message === "string") {
+      return (error as { message: string }).message;
+    }
+    if (typeof message === "string") return message;
+  }
+  return `Request failed with ${status}`;
+}
+
+export function errorFromResponse(status: number, body: unknown): HttpError {
+  const message = messageFromBody(body, status);
+  switch (status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, status, body);
+    case 401:
+      return new UnauthorizedError(message, body);
+    case 403:
+      return new ForbiddenError(message, body);
+    case 404:
+      return new NotFoundError(message, body);
+    case 409:
+      return new ConflictError(message, body);
+    default:
+      return new HttpError(message, status, "http_error", body);
+  }
+}
@@ -0,0 +1,172 @@
+import { getPaymentAccessToken } from "@/lib/paymentAccess";
+import { SIMULATOR_ENABLED, buildUrl, freshAccessToken } from "./client";
+import type { PaymentEvent, ResyncEvent, SellerEvent } from "./types";
+
+export type StreamStatus = "connecting" | "open" | "reconnecting" | "closed";
+
+export interface StreamHandlers<E> {
+  onEvent: (event: E) => void;
+  onStatus?: (status: StreamStatus) => void;
+}
+
+// The subset of EventSource the client relies on, so the simulator can stand in
+export interface EventSourceLike {
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent<string>) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  close(): void;
+}
+
+type EventSourceFactory = (url: string) => EventSourceLike;
+
+const RECONNECT_BASE_DELAY_MS = 1_000;
+const RECONNECT_MAX_DELAY_MS = 30_000;
+
+let factory: Promise<EventSourceFactory> | null = null;
+
+function getEventSourceFactory(): Promise<EventSourceFactory> {
+  factory ??= SIMULATOR_ENABLED
+    ? import("@/lib/simulator").then((m) => (url: string) => new m.SimulatedEventSource(url))
+    : Promise.resolve((url: string) => new EventSource(url));
+  return factory;
+}
+
+function reconnectDelay(attempt: number): number {
+  const base = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempt, RECONNECT_MAX_DELAY_MS);
+  return base / 2 + Math.random() * (base / 2);
+}
+
+// EventSource can't send headers, so credentials go in the query string.
+// `credentials` resolves to null when there is nothing to connect as.
+//
+// Reconnection is handled here rather than by EventSource: its built-in retry
+// reuses the original URL (and with it a token that may have expired) and
+// gives up for good on an HTTP error. Each attempt gets fresh credentials and
+// the last seen event id so the server replays whatever was missed.
+function openStream<E extends SellerEvent | PaymentEvent>(
+  path: string,
+  credentials: () => Promise<Record<string, string> | null>,
+  { onEvent, onStatus }: StreamHandlers<E>
+): () => void {
+  let source: EventSourceLike | null = null;
+  let lastEventId: string | null = null;
+  let attempt = 0;
+  let connectedBefore = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+
+  const scheduleReconnect = () => {
+    if (stopped) return;
+    onStatus?.("reconnecting");
+    timer = setTimeout(connect, reconnectDelay(attempt++));
+  };
+
+  async function connect() {
+    timer = undefined;
+    onStatus?.(attempt === 0 ? "connecting" : "reconnecting");
+    let query: Record<string, string> | null;
+    try {
+      query = await credentials();
+    } catch {
+      scheduleReconnect();
+      return;
+    }
+    const create = await getEventSourceFactory();
+    if (stopped) return;
+    if (!query) {
+      onStatus?.("closed");
+      return;
+    }
+
+    const current = create(buildUrl(path, { ...query, last_event_id: lastEventId }));
+    source = current;
+    current.onopen = () => {
+      attempt = 0;
+      onStatus?.("open");
+      // Without a cursor the server can't replay what happened while we were away
+      if (connectedBefore && !lastEventId) {
+        const resync: ResyncEvent = { id: "", type: "resync", data: null, created_at: new Date().toISOString() };
+        onEvent(resync as E);
+      }
+      connectedBefore = true;
+    };
+    current.onmessage = (message) => {
+      let event: E;
+      try {
+        event = JSON.parse(message.data) as E;
+      } catch {
+        return;
+      }
+      if (message.lastEventId) lastEventId = message.lastEventId;
+      onEvent(event);
+    };
+    current.onerror = () => {
+      current.close();
+      if (source !== current) return;
+      source = null;
+      scheduleReconnect();
+    };
+  }
+
+  // Don't sit out the backoff once the device is back online
+  const handleOnline = () => {
+    if (!timer) return;
+    clearTimeout(timer);
+    connect();
+  };
+  window.addEventListener("online", handleOnline);
+  connect();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+    source?.close();
+    source = null;
+    window.removeEventListener("online", handleOnline);
+    onStatus?.("closed");
+  };
+}
+
+// The dashboard has several panels listening at once; they share a connection
+const sellerSubscribers = new Set<StreamHandlers<SellerEvent>>();
+let sellerStatus: StreamStatus = "closed";
+let closeSellerStream: (() => void) | null = null;
+
+export function subscribeSellerEvents(handlers: StreamHandlers<SellerEvent>): () => void {
+  sellerSubscribers.add(handlers);
+  handlers.onStatus?.(sellerStatus);
+  closeSellerStream ??= openStream<SellerEvent>(
+    "/api/v1/seller/events",
+    async () => {
+      const token = await freshAccessToken();
+      return token ? { access_token: token } : null;
+    },
+    {
+      onEvent: (event) => sellerSubscribers.forEach((s) => s.onEvent(event)),
+      onStatus: (status) => {
+        sellerStatus = status;
+        sellerSubscribers.forEach((s) => s.onStatus?.(status));
+      },
+    }
+  );
+
+  return () => {
+    sellerSubscribers.delete(handlers);
+    if (sellerSubscribers.size > 0 || !closeSellerStream) return;
+    const close = closeSellerStream;
+    closeSellerStream = null;
+    close();
+  };
+}
+
+// Anyone holding the page can listen; the access token decides how much they see
+export function subscribePaymentEvents(transactionId: string, handlers: StreamHandlers<PaymentEvent>): () => void {
+  return openStream<PaymentEvent>(
+    `/api/v1/payments/${encodeURIComponent(transactionId)}/events`,
+    async () => {
+      const token = getPaymentAccessToken(transactionId);
+      return token ? { access: token } : ({} as Record<string, string>);
+    },
+    handlers
+  );
+}
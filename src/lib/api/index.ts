@@ -0,0 +1,11 @@
+export { API_BASE, IDEMPOTENCY_HEADER, SIMULATOR_ENABLED, apiRequest, getAuthToken } from "./client";
+export type { HttpMethod, RequestOptions } from "./client";
+export type { UploadProgress } from "./xhr";
+export * from "./errors";
+export * from "./types";
+export * from "./payments";
+export * from "./seller";
+export * from "./auth";
+export * from "./events";
+export { getSession, onSessionChange } from "./session";
+export type { SessionEndReason, StoredSession } from "./session";
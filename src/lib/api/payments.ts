@@ -0,0 +1,196 @@
+import { cachedRead } from "@/lib/offlineStore";
+import { getPaymentAccessToken } from "@/lib/paymentAccess";
+import { apiRequest, type RequestOptions } from "./client";
+import type { UploadProgress } from "./xhr";
+import type {
+  AcceptPaymentRequest,
+  DeliveryProofUpload,
+  Dispute,
+  InspectionExtensionRequest,
+  InspectionExtensionResponse,
+  MarkDeliveredRequest,
+  Milestone,
+  OpenDisputeRequest,
+  PaymentDetails,
+  PaymentStatusResponse,
+  PushConfig,
+  PushSubscriptionInfo,
+  PushSubscriptionRequest,
+  Receipt,
+  ReceiptVerification,
+  SettlementOfferRequest,
+  StkPushRequest,
+  StkPushResponse,
+  StkPushStatusResponse,
+  TransactionEvent,
+} from "./types";
+
+export const PAYMENT_ACCESS_HEADER = "X-Payment-Access";
+
+// Every payments call carries the viewer's link token so the server can
+// resolve their role for this transaction
+function paymentRequest<T>(transactionId: string, action: string, options: RequestOptions = {}) {
+  const path = `/api/v1/payments/${encodeURIComponent(transactionId)}${action ? `/${action}` : ""}`;
+  const token = getPaymentAccessToken(transactionId);
+  return apiRequest<T>(path, {
+    ...options,
+    headers: token ? { ...options.headers, [PAYMENT_ACCESS_HEADER]: token } : options.headers,
+  });
+}
+
+export function getPayment(transactionId: string, signal?: AbortSignal) {
+  return cachedRead(`payment:${transactionId}`, () => paymentRequest<PaymentDetails>(transactionId, "", { signal }));
+}
+
+export function acceptPayment(transactionId: string, request: AcceptPaymentRequest, idempotencyKey?: string) {
+  return paymentRequest<PaymentStatusResponse>(transactionId, "accept", {
+    method: "POST",
+    body: request,
+    idempotencyKey,
+  });
+}
+
+export function markPaymentDelivered(transactionId: string, request: MarkDeliveredRequest, idempotencyKey?: string) {
+  return paymentRequest<PaymentStatusResponse>(transactionId, "mark-delivered", {
+    method: "POST",
+    body: request,
+    idempotencyKey,
+  });
+}
+
+export function uploadDeliveryProof(
+  transactionId: string,
+  file: File,
+  options: { onProgress?: (progress: UploadProgress) => void; signal?: AbortSignal } = {}
+) {
+  const formData = new FormData();
+  formData.append("file", file);
+
+  return paymentRequest<DeliveryProofUpload>(transactionId, "delivery-proof", {
+    method: "POST",
+    body: formData,
+    timeoutMs: 120_000,
+    signal: options.signal,
+    onUploadProgress: options.onProgress,
+  });
+}
+
+export function confirmPayment(transactionId: string) {
+  return paymentRequest<PaymentStatusResponse>(transactionId, "confirm", {
+    method: "POST",
+  });
+}
+
+export function deliverMilestone(transactionId: string, milestoneId: string) {
+  return paymentRequest<Milestone>(transactionId, `milestones/${encodeURIComponent(milestoneId)}/deliver`, {
+    method: "POST",
+  });
+}
+
+export function releaseMilestone(transactionId: string, milestoneId: string) {
+  return paymentRequest<Milestone>(transactionId, `milestones/${encodeURIComponent(milestoneId)}/release`, {
+    method: "POST",
+  });
+}
+
+export function extendInspection(transactionId: string, request: InspectionExtensionRequest) {
+  return paymentRequest<InspectionExtensionResponse>(transactionId, "inspection-extension", {
+    method: "POST",
+    body: request,
+  });
+}
+
+export function initiateStkPush(transactionId: string, request: StkPushRequest) {
+  return paymentRequest<StkPushResponse>(transactionId, "stk-push", {
+    method: "POST",
+    body: request,
+  });
+}
+
+export function getStkPushStatus(transactionId: string, checkoutRequestId: string, signal?: AbortSignal) {
+  return paymentRequest<StkPushStatusResponse>(
+    transactionId,
+    `stk-push/${encodeURIComponent(checkoutRequestId)}`,
+    { signal, retries: 0 }
+  );
+}
+
+export function openDispute(transactionId: string, request: OpenDisputeRequest) {
+  const formData = new FormData();
+  formData.append("reason", request.reason);
+  formData.append("description", request.description);
+  request.evidence.forEach((file) => formData.append("evidence", file));
+
+  return paymentRequest<Dispute>(transactionId, "disputes", {
+    method: "POST",
+    body: formData,
+    // Video evidence can take a while on mobile data
+    timeoutMs: 120_000,
+  });
+}
+
+// Everything that has happened to the payment, oldest first
+export function getPaymentHistory(transactionId: string, signal?: AbortSignal) {
+  return paymentRequest<TransactionEvent[]>(transactionId, "history", { signal });
+}
+
+// Only once the payment is completed; 409 before that
+export function getPaymentReceipt(transactionId: string, signal?: AbortSignal) {
+  return paymentRequest<Receipt>(transactionId, "receipt", { signal });
+}
+
+// Public, so anyone handed a receipt can check it
+export function verifyReceipt(code: string, signal?: AbortSignal) {
+  return apiRequest<ReceiptVerification>("/api/v1/receipts/verify", { query: { code }, auth: false, signal });
+}
+
+// The buyer's view of the dispute on their payment
+export function getPaymentDispute(transactionId: string, signal?: AbortSignal) {
+  return paymentRequest<Dispute>(transactionId, "dispute", { signal });
+}
+
+export function sendPaymentMessage(transactionId: string, message: string) {
+  return paymentRequest<void>(transactionId, "messages", {
+    method: "POST",
+    body: { message },
+  });
+}
+
+export function offerSettlement(transactionId: string, request: SettlementOfferRequest) {
+  return paymentRequest<Dispute>(transactionId, "dispute/offers", {
+    method: "POST",
+    body: request,
+  });
+}
+
+export function acceptSettlement(transactionId: string, offerId: string) {
+  return paymentRequest<Dispute>(transactionId, `dispute/offers/${encodeURIComponent(offerId)}/accept`, {
+    method: "POST",
+  });
+}
+
+export function declineSettlement(transactionId: string, offerId: string) {
+  return paymentRequest<Dispute>(transactionId, `dispute/offers/${encodeURIComponent(offerId)}/decline`, {
+    method: "POST",
+  });
+}
+
+export function getPushConfig(signal?: AbortSignal) {
+  return apiRequest<PushConfig>("/api/v1/push/config", { auth: false, signal });
+}
+
+// Buyers subscribe per transaction to hear about delivery
+export function listPaymentPushSubscriptions(transactionId: string, signal?: AbortSignal) {
+  return paymentRequest<PushSubscriptionInfo[]>(transactionId, "push-subscriptions", { signal });
+}
+
+export function subscribePaymentPush(transactionId: string, subscription: PushSubscriptionRequest) {
+  return paymentRequest<PushSubscriptionInfo>(transactionId, "push-subscriptions", {
+    method: "POST",
+    body: subscription,
+  });
+}
+
+export function unsubscribePaymentPush(transactionId: string, endpoint: string) {
+  return paymentRequest<void>(transactionId, "push-subscriptions", { method: "DELETE", query: { endpoint } });
+}
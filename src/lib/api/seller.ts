@@ -0,0 +1,296 @@
+import { cachedRead } from "@/lib/offlineStore";
+import { apiRequest } from "./client";
+import type {
+  AnalyticsQuery,
+  CreatePaymentLinkRequest,
+  CreateWithdrawalRequest,
+  DataEnvelope,
+  Dispute,
+  DisputeEvidence,
+  DisputeMessage,
+  DisputeResponseRequest,
+  EvidenceCategory,
+  NotificationFeed,
+  NotificationPreferences,
+  NotificationQuery,
+  Order,
+  PaymentLink,
+  PerformanceMetrics,
+  PushSubscriptionInfo,
+  PushSubscriptionRequest,
+  Receipt,
+  RenewPaymentLinkRequest,
+  SellerAnalytics,
+  SellerNotification,
+  SettlementOfferRequest,
+  ShippingInfoRequest,
+  TransactionEvent,
+  UpdateNotificationPreferencesRequest,
+  WalletData,
+  WalletTransaction,
+  Withdrawal,
+} from "./types";
+import type { UploadProgress } from "./xhr";
+
+const orderPath = (orderId: string, action = "") =>
+  `/api/v1/seller/orders/${encodeURIComponent(orderId)}${action ? `/${action}` : ""}`;
+
+// Orders stay readable offline from the last copy loaded
+export function listOrders(signal?: AbortSignal): Promise<Order[]> {
+  return cachedRead("orders", async () => {
+    const res = await apiRequest<DataEnvelope<Order[] | null>>("/api/v1/seller/orders", { signal });
+    return res?.data ?? [];
+  });
+}
+
+export function getOrder(orderId: string): Promise<Order> {
+  return cachedRead(`order:${orderId}`, async () => {
+    const res = await apiRequest<DataEnvelope<Order>>(orderPath(orderId));
+    return res.data;
+  });
+}
+
+export async function getSellerAnalytics(query: AnalyticsQuery, signal?: AbortSignal): Promise<SellerAnalytics> {
+  const res = await apiRequest<DataEnvelope<SellerAnalytics>>("/api/v1/seller/analytics", { query: { ...query }, signal });
+  return res.data;
+}
+
+export async function getOrderHistory(orderId: string, signal?: AbortSignal): Promise<TransactionEvent[]> {
+  const res = await apiRequest<DataEnvelope<TransactionEvent[]>>(orderPath(orderId, "history"), { signal });
+  return res.data;
+}
+
+export async function getOrderReceipt(orderId: string, signal?: AbortSignal): Promise<Receipt> {
+  const res = await apiRequest<DataEnvelope<Receipt>>(orderPath(orderId, "receipt"), { signal });
+  return res.data;
+}
+
+export async function getPerformanceMetrics(): Promise<PerformanceMetrics> {
+  const res = await apiRequest<DataEnvelope<PerformanceMetrics>>("/api/v1/seller/performance");
+  return res.data;
+}
+
+export async function acceptOrder(orderId: string): Promise<void> {
+  await apiRequest(orderPath(orderId, "accept"), { method: "POST" });
+}
+
+export async function rejectOrder(orderId: string): Promise<void> {
+  await apiRequest(orderPath(orderId, "reject"), { method: "POST" });
+}
+
+export async function submitShippingInfo(
+  orderId: string,
+  info: ShippingInfoRequest,
+  idempotencyKey?: string
+): Promise<void> {
+  const formData = new FormData();
+  formData.append("courierName", info.courierName);
+  formData.append("trackingNumber", info.trackingNumber);
+  formData.append("estimatedDeliveryDate", info.estimatedDeliveryDate);
+  formData.append("notes", info.notes);
+  info.proofImages.forEach((image, idx) => {
+    formData.append(`proofImages[${idx}]`, image);
+  });
+
+  await apiRequest(orderPath(orderId, "shipping"), { method: "POST", body: formData, idempotencyKey });
+}
+
+export async function sendOrderMessage(orderId: string, message: string): Promise<void> {
+  await apiRequest(orderPath(orderId, "messages"), { method: "POST", body: { message } });
+}
+
+export async function listPaymentLinks(): Promise<PaymentLink[]> {
+  const res = await apiRequest<DataEnvelope<PaymentLink[] | null>>("/api/v1/seller/payment-links");
+  return res?.data ?? [];
+}
+
+export async function createPaymentLink(request: CreatePaymentLinkRequest): Promise<PaymentLink> {
+  const res = await apiRequest<DataEnvelope<PaymentLink>>("/api/v1/seller/payment-links", {
+    method: "POST",
+    body: request,
+  });
+  return res.data;
+}
+
+// Extends an unpaid link, or reopens an expired one, with a new expiry
+export async function renewPaymentLink(transactionId: string, request: RenewPaymentLinkRequest): Promise<PaymentLink> {
+  const res = await apiRequest<DataEnvelope<PaymentLink>>(
+    `/api/v1/seller/payment-links/${encodeURIComponent(transactionId)}/renew`,
+    { method: "POST", body: request }
+  );
+  return res.data;
+}
+
+export async function getWallet(): Promise<WalletData> {
+  const res = await apiRequest<DataEnvelope<WalletData>>("/api/v1/seller/wallet");
+  return res.data;
+}
+
+export async function listWalletTransactions(): Promise<WalletTransaction[]> {
+  const res = await apiRequest<DataEnvelope<WalletTransaction[] | null>>("/api/v1/seller/wallet/transactions");
+  return res?.data ?? [];
+}
+
+export async function createWithdrawal(request: CreateWithdrawalRequest): Promise<Withdrawal> {
+  const res = await apiRequest<DataEnvelope<Withdrawal>>("/api/v1/seller/withdrawals", {
+    method: "POST",
+    body: request,
+  });
+  return res.data;
+}
+
+export async function getWithdrawal(withdrawalId: string, signal?: AbortSignal): Promise<Withdrawal> {
+  const res = await apiRequest<DataEnvelope<Withdrawal>>(
+    `/api/v1/seller/withdrawals/${encodeURIComponent(withdrawalId)}`,
+    { signal, retries: 0 }
+  );
+  return res.data;
+}
+
+const disputePath = (disputeId: string, action = "") =>
+  `/api/v1/seller/disputes/${encodeURIComponent(disputeId)}${action ? `/${action}` : ""}`;
+
+export async function listDisputes(signal?: AbortSignal): Promise<Dispute[]> {
+  const res = await apiRequest<DataEnvelope<Dispute[] | null>>("/api/v1/seller/disputes", { signal });
+  return res?.data ?? [];
+}
+
+export async function getDispute(disputeId: string, signal?: AbortSignal): Promise<Dispute> {
+  const res = await apiRequest<DataEnvelope<Dispute>>(disputePath(disputeId), { signal });
+  return res.data;
+}
+
+export async function uploadDisputeEvidence(
+  disputeId: string,
+  file: File,
+  category: EvidenceCategory,
+  options: { onProgress?: (progress: UploadProgress) => void; signal?: AbortSignal } = {}
+): Promise<DisputeEvidence> {
+  const formData = new FormData();
+  formData.append("category", category);
+  formData.append("file", file);
+
+  const res = await apiRequest<DataEnvelope<DisputeEvidence>>(disputePath(disputeId, "evidence"), {
+    method: "POST",
+    body: formData,
+    timeoutMs: 120_000,
+    signal: options.signal,
+    onUploadProgress: options.onProgress,
+  });
+  return res.data;
+}
+
+export async function deleteDisputeEvidence(disputeId: string, evidenceId: string): Promise<void> {
+  await apiRequest(disputePath(disputeId, `evidence/${encodeURIComponent(evidenceId)}`), { method: "DELETE" });
+}
+
+export async function respondToDispute(disputeId: string, request: DisputeResponseRequest): Promise<Dispute> {
+  const res = await apiRequest<DataEnvelope<Dispute>>(disputePath(disputeId, "response"), {
+    method: "POST",
+    body: request,
+  });
+  return res.data;
+}
+
+export async function acceptDisputeRefund(disputeId: string): Promise<Dispute> {
+  const res = await apiRequest<DataEnvelope<Dispute>>(disputePath(disputeId, "refund"), { method: "POST" });
+  return res.data;
+}
+
+export async function offerDisputeSettlement(disputeId: string, request: SettlementOfferRequest): Promise<Dispute> {
+  const res = await apiRequest<DataEnvelope<Dispute>>(disputePath(disputeId, "offers"), {
+    method: "POST",
+    body: request,
+  });
+  return res.data;
+}
+
+export async function acceptDisputeSettlement(disputeId: string, offerId: string): Promise<Dispute> {
+  const res = await apiRequest<DataEnvelope<Dispute>>(
+    disputePath(disputeId, `offers/${encodeURIComponent(offerId)}/accept`),
+    { method: "POST" }
+  );
+  return res.data;
+}
+
+export async function declineDisputeSettlement(disputeId: string, offerId: string): Promise<Dispute> {
+  const res = await apiRequest<DataEnvelope<Dispute>>(
+    disputePath(disputeId, `offers/${encodeURIComponent(offerId)}/decline`),
+    { method: "POST" }
+  );
+  return res.data;
+}
+
+export async function listDisputeMessages(disputeId: string, signal?: AbortSignal): Promise<DisputeMessage[]> {
+  const res = await apiRequest<DataEnvelope<DisputeMessage[] | null>>(disputePath(disputeId, "messages"), {
+    signal,
+  });
+  return res?.data ?? [];
+}
+
+export async function sendDisputeMessage(disputeId: string, text: string): Promise<DisputeMessage> {
+  const res = await apiRequest<DataEnvelope<DisputeMessage>>(disputePath(disputeId, "messages"), {
+    method: "POST",
+    body: { text },
+  });
+  return res.data;
+}
+
+export async function listNotifications(query: NotificationQuery = {}, signal?: AbortSignal): Promise<NotificationFeed> {
+  const res = await apiRequest<DataEnvelope<NotificationFeed>>("/api/v1/seller/notifications", {
+    query: { ...query },
+    signal,
+  });
+  return res.data;
+}
+
+export async function markNotificationRead(notificationId: string): Promise<SellerNotification> {
+  const res = await apiRequest<DataEnvelope<SellerNotification>>(
+    `/api/v1/seller/notifications/${encodeURIComponent(notificationId)}/read`,
+    { method: "POST" }
+  );
+  return res.data;
+}
+
+export async function markAllNotificationsRead(): Promise<void> {
+  await apiRequest("/api/v1/seller/notifications/read-all", { method: "POST" });
+}
+
+export async function getNotificationPreferences(signal?: AbortSignal): Promise<NotificationPreferences> {
+  const res = await apiRequest<DataEnvelope<NotificationPreferences>>("/api/v1/seller/notification-preferences", {
+    signal,
+  });
+  return res.data;
+}
+
+export async function updateNotificationPreferences(
+  request: UpdateNotificationPreferencesRequest
+): Promise<NotificationPreferences> {
+  const res = await apiRequest<DataEnvelope<NotificationPreferences>>("/api/v1/seller/notification-preferences", {
+    method: "PUT",
+    body: request,
+  });
+  return res.data;
+}
+
+export async function listPushSubscriptions(signal?: AbortSignal): Promise<PushSubscriptionInfo[]> {
+  const res = await apiRequest<DataEnvelope<PushSubscriptionInfo[]>>("/api/v1/seller/push-subscriptions", { signal });
+  return res?.data ?? [];
+}
+
+export async function subscribePush(subscription: PushSubscriptionRequest): Promise<PushSubscriptionInfo> {
+  const res = await apiRequest<DataEnvelope<PushSubscriptionInfo>>("/api/v1/seller/push-subscriptions", {
+    method: "POST",
+    body: subscription,
+  });
+  return res.data;
+}
+
+export async function unsubscribePush(endpoint: string): Promise<void> {
+  await apiRequest("/api/v1/seller/push-subscriptions", { method: "DELETE", query: { endpoint } });
+}
+
+/** Sends a test notification to every browser the seller has subscribed */
+export async function sendTestPush(): Promise<void> {
+  await apiRequest("/api/v1/seller/push-subscriptions/test", { method: "POST" });
+}
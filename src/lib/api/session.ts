@@ -0,0 +1,61 @@
+import type { AuthSession, AuthUser } from "./types";
+
+export interface StoredSession {
+  access_token: string;
+  refresh_token: string;
+  /** Epoch milliseconds when the access token stops working */
+  expires_at: number;
+  user: AuthUser;
+}
+
+export type SessionEndReason = "logout" | "expired";
+
+type SessionListener = (session: StoredSession | null, reason?: SessionEndReason) => void;
+
+const STORAGE_KEY = "payingzee.session";
+
+const listeners = new Set<SessionListener>();
+
+export function getSession(): StoredSession | null {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored) as StoredSession;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSession(session: AuthSession): StoredSession {
+  const stored: StoredSession = {
+    access_token: session.access_token,
+    refresh_token: session.refresh_token,
+    expires_at: Date.now() + session.expires_in * 1000,
+    user: session.user,
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  listeners.forEach((listener) => listener(stored));
+  return stored;
+}
+
+export function clearSession(reason: SessionEndReason) {
+  if (!localStorage.getItem(STORAGE_KEY)) return;
+  localStorage.removeItem(STORAGE_KEY);
+  listeners.forEach((listener) => listener(null, reason));
+}
+
+// Signing in or out in another tab shows up as a storage event here
+function handleStorage(event: StorageEvent) {
+  if (event.key !== STORAGE_KEY) return;
+  const session = getSession();
+  listeners.forEach((listener) => listener(session, session ? undefined : "logout"));
+}
+
+export function onSessionChange(listener: SessionListener): () => void {
+  if (listeners.size === 0) window.addEventListener("storage", handleStorage);
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) window.removeEventListener("storage", handleStorage);
+  };
+}
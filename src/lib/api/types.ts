@@ -0,0 +1,663 @@
+import type { EscrowParty, EscrowStatus, OrderStatus, PaymentViewerRole } from "@/lib/escrow";
+import type { MinorUnits } from "@/lib/money";
+
+// Every amount is an integer in the minor unit of the accompanying currency
+
+// Payments (buyer-facing escrow links)
+
+export type FeePayer = "buyer" | "seller";
+
+// Fixed when the link is created, so later schedule changes don't apply
+export interface FeeBreakdown {
+  fee_payer: FeePayer;
+  item_price: MinorUnits;
+  escrow_fee: MinorUnits;
+  /** M-Pesa's charge for collecting the payment */
+  mpesa_fee: MinorUnits;
+  /** What the buyer is charged */
+  buyer_total: MinorUnits;
+  /** What the seller receives on release */
+  seller_net: MinorUnits;
+}
+
+export type MilestoneStatus = "pending" | "delivered" | "released" | "refunded";
+
+// A stage of a multi-part job, delivered by the seller and released by the
+// buyer on its own
+export interface Milestone {
+  id: string;
+  title: string;
+  amount: MinorUnits;
+  status: MilestoneStatus;
+  delivered_at: string | null;
+  released_at: string | null;
+}
+
+export interface MilestoneInput {
+  title: string;
+  amount: MinorUnits;
+}
+
+export interface PaymentDetails {
+  transaction_id: string;
+  status: EscrowStatus;
+  amount: MinorUnits;
+  currency: string;
+  fees: FeeBreakdown;
+  /** In delivery order; null for single-delivery payments */
+  milestones?: Milestone[] | null;
+  seller_contact: string;
+  seller_payout_contact?: string | null;
+  product_name: string | null;
+  description: string | null;
+  expires_at: string | null;
+  /** Once paid, the seller must accept by this time or the buyer is refunded */
+  accept_by?: string | null;
+  escrowed_amount: MinorUnits;
+  delivered_at?: string | null;
+  delivery_proof_urls?: string[] | null;
+  mpesa_receipt?: string | null;
+  /** Set by the seller on accept; buyers can report a non-delivery after it */
+  estimated_delivery_at?: string | null;
+  /** Funds go to the seller at this time unless the buyer confirms or disputes first */
+  auto_release_at?: string | null;
+  /** Set once the buyer has used their one extension of the inspection window */
+  inspection_extended_at?: string | null;
+  dispute_id?: string | null;
+  viewer_role: PaymentViewerRole;
+}
+
+export interface PaymentStatusResponse {
+  transaction_id?: string;
+  status?: EscrowStatus;
+}
+
+export interface AcceptPaymentRequest {
+  seller_payout_contact?: string;
+  estimated_delivery_at?: string;
+}
+
+export interface MarkDeliveredRequest {
+  /** URLs returned by the delivery proof upload */
+  evidence_urls?: string[];
+}
+
+export interface DeliveryProofUpload {
+  url: string;
+  name: string;
+  size: number;
+}
+
+export interface InspectionExtensionRequest {
+  days: number;
+}
+
+export interface InspectionExtensionResponse {
+  transaction_id: string;
+  auto_release_at: string;
+}
+
+// M-Pesa STK push checkout
+
+export type StkPushStatus = "PENDING" | "SUCCESS" | "CANCELLED" | "TIMEOUT" | "INSUFFICIENT_FUNDS" | "FAILED";
+
+export interface StkPushRequest {
+  phone_number: string;
+}
+
+export interface StkPushResponse {
+  checkout_request_id: string;
+  status: StkPushStatus;
+  customer_message?: string;
+}
+
+export interface StkPushStatusResponse {
+  checkout_request_id: string;
+  status: StkPushStatus;
+  result_description?: string | null;
+  mpesa_receipt?: string | null;
+  /** Issued to the payer on success; replaces the shared checkout link token */
+  buyer_access_token?: string | null;
+}
+
+// Seller orders
+
+export interface OrderShipping {
+  courierName: string;
+  trackingNumber: string;
+  estimatedDeliveryDate: string;
+  notes?: string;
+  proofImages?: string[];
+}
+
+export interface Order {
+  id: string;
+  buyerName: string;
+  buyerPhone: string;
+  buyerLocation: string;
+  buyerMemberSince?: string;
+  buyerRating?: number;
+  buyerPurchases?: number;
+  itemName: string;
+  quantity: number;
+  amount: MinorUnits;
+  currency: string;
+  status: OrderStatus;
+  createdAt: string;
+  deadline: string;
+  buyerMessage?: string;
+  messageCreatedAt?: string;
+  shipping?: OrderShipping;
+  autoReleaseAt?: string;
+  inspectionExtendedAt?: string;
+  milestones?: Milestone[];
+}
+
+export interface PerformanceMetrics {
+  acceptanceRate: number;
+  averageDeliveryTime: string;
+  disputeRate: number;
+  totalOrders: number;
+}
+
+export interface OrderMessage {
+  id: string;
+  order_id: string;
+  sender: "buyer" | "seller";
+  text: string;
+  created_at: string;
+}
+
+export interface ShippingInfoRequest {
+  courierName: string;
+  trackingNumber: string;
+  estimatedDeliveryDate: string;
+  notes: string;
+  proofImages: File[];
+}
+
+// Seller analytics
+
+export type AnalyticsGranularity = "day" | "week";
+
+export interface AnalyticsQuery {
+  /** Inclusive UTC dates, YYYY-MM-DD */
+  from: string;
+  to: string;
+  platform?: SalesPlatform;
+  /** Defaults to KES; orders in other currencies are left out */
+  currency?: string;
+}
+
+// Rates are percentages and null when nothing in the bucket could be measured
+export interface AnalyticsSummary {
+  /** What the seller was credited for orders paid in the period that have completed */
+  revenue: MinorUnits;
+  orders: number;
+  acceptance_rate: number | null;
+  dispute_rate: number | null;
+  /** From acceptance to delivery */
+  average_delivery_hours: number | null;
+}
+
+export interface AnalyticsPoint extends AnalyticsSummary {
+  /** First day of the bucket */
+  date: string;
+}
+
+export interface SellerAnalytics {
+  from: string;
+  to: string;
+  currency: string;
+  platform: SalesPlatform | null;
+  granularity: AnalyticsGranularity;
+  series: AnalyticsPoint[];
+  summary: AnalyticsSummary;
+  /** The same length of time immediately before `from` */
+  previous: AnalyticsSummary;
+}
+
+// Seller payment links
+
+// Where the seller is selling the item; drives the analytics platform filter
+export type SalesPlatform = "instagram" | "whatsapp" | "facebook" | "tiktok" | "other";
+
+export interface PaymentLink {
+  transaction_id: string;
+  /** Shareable checkout link for the buyer */
+  buyer_url: string;
+  /** Private link that lets the seller act on the payment page */
+  seller_url: string;
+  product_name: string | null;
+  description: string | null;
+  amount: MinorUnits;
+  currency: string;
+  fees: FeeBreakdown;
+  milestones?: Milestone[] | null;
+  status: EscrowStatus;
+  views: number;
+  platform: SalesPlatform | null;
+  expires_at: string | null;
+  created_at: string;
+}
+
+export interface CreatePaymentLinkRequest {
+  product_name: string;
+  description?: string;
+  amount: MinorUnits;
+  currency: string;
+  /** Defaults to the buyer */
+  fee_payer?: FeePayer;
+  /** Amounts must add up to `amount` */
+  milestones?: MilestoneInput[];
+  expires_in_hours?: number;
+  platform?: SalesPlatform;
+}
+
+export interface RenewPaymentLinkRequest {
+  expires_in_hours: number;
+}
+
+// Seller wallet and M-Pesa payouts
+
+// Funds are held per currency; nothing is converted
+export interface WalletBalance {
+  currency: string;
+  available: MinorUnits;
+  pending: MinorUnits;
+  total: MinorUnits;
+}
+
+export interface WalletData {
+  balances: WalletBalance[];
+  payout_phone: string | null;
+  payout_phone_verified: boolean;
+}
+
+export type WithdrawalStatus = "pending" | "processing" | "succeeded" | "failed";
+
+export interface Withdrawal {
+  id: string;
+  amount: MinorUnits;
+  fee: MinorUnits;
+  net_amount: MinorUnits;
+  currency: string;
+  phone: string;
+  status: WithdrawalStatus;
+  mpesa_receipt: string | null;
+  failure_reason: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export interface WalletTransaction {
+  id: string;
+  /** Refunds are informational: the money goes from escrow to the buyer, not from the wallet */
+  type: "deposit" | "withdrawal" | "refund";
+  amount: MinorUnits;
+  currency: string;
+  desc: string;
+  date: string;
+  /** Deposits: how the released payment was split */
+  fees?: FeeBreakdown | null;
+  /** Withdrawals: the payout fee, included in `amount` */
+  fee?: MinorUnits | null;
+  status?: WithdrawalStatus;
+  mpesa_receipt?: string | null;
+  withdrawal_id?: string | null;
+}
+
+export interface CreateWithdrawalRequest {
+  amount: MinorUnits;
+  currency: string;
+}
+
+// Transaction history
+
+export type TransactionEventType =
+  | "created"
+  | "renewed"
+  | "cancelled"
+  | "expired"
+  | "paid"
+  | "accepted"
+  | "shipped"
+  | "delivered"
+  | "milestone_delivered"
+  | "milestone_released"
+  | "inspection_extended"
+  | "confirmed"
+  | "released"
+  | "disputed"
+  | "evidence_added"
+  | "dispute_responded"
+  | "settlement_offered"
+  | "settled"
+  | "refunded";
+
+/** One entry in a transaction's append-only history */
+export interface TransactionEvent {
+  id: string;
+  transaction_id: string;
+  type: TransactionEventType;
+  /** Who did it; `system` for timers, `admin` for the disputes team */
+  actor: EscrowParty;
+  detail: string | null;
+  /** Money that moved with this event, in the transaction's currency */
+  amount: MinorUnits | null;
+  created_at: string;
+}
+
+// Receipts
+
+export interface ReceiptReference {
+  label: string;
+  reference: string;
+}
+
+// Issued once a transaction completes; the same receipt for buyer and seller
+export interface Receipt {
+  receipt_number: string;
+  /** Anyone can check this against the public verification endpoint */
+  verification_code: string;
+  transaction_id: string;
+  product_name: string | null;
+  description: string | null;
+  currency: string;
+  fees: FeeBreakdown;
+  /** What the seller was paid; less than `fees.seller_net` when a dispute was settled */
+  released_amount: MinorUnits;
+  refunded_amount: MinorUnits;
+  buyer: string;
+  seller: string;
+  mpesa_references: ReceiptReference[];
+  history: TransactionEvent[];
+  completed_at: string;
+  issued_at: string;
+}
+
+// What the public verification endpoint reveals: enough to match a paper
+// receipt, nothing about the parties
+export interface ReceiptVerification {
+  receipt_number: string;
+  transaction_id: string;
+  product_name: string | null;
+  currency: string;
+  buyer_total: MinorUnits;
+  released_amount: MinorUnits;
+  refunded_amount: MinorUnits;
+  completed_at: string;
+  issued_at: string;
+}
+
+// Disputes
+
+export type DisputeReason =
+  | "not_received"
+  | "not_as_described"
+  | "damaged"
+  | "wrong_item"
+  | "counterfeit"
+  | "other";
+
+export type DisputeStatus = "open" | "under_review" | "resolved";
+
+export type EvidenceKind = "image" | "video" | "document";
+
+/** What a seller's evidence is meant to show */
+export type EvidenceCategory = "delivery" | "condition" | "video";
+
+export interface DisputeEvidence {
+  id: string;
+  url: string;
+  name: string;
+  kind: EvidenceKind;
+  size: number;
+  submitted_by: "buyer" | "seller";
+  category?: EvidenceCategory | null;
+  uploaded_at: string;
+}
+
+export interface DisputeSellerResponse {
+  explanation: string;
+  submitted_at: string;
+}
+
+/** `settled`: the parties agreed to split the escrow */
+export type DisputeOutcome = "released_to_seller" | "refunded_to_buyer" | "settled";
+
+export interface DisputeResolution {
+  outcome: DisputeOutcome;
+  note: string | null;
+  resolved_at: string;
+  /** Settlements only: how the escrow was split */
+  refund_amount?: MinorUnits | null;
+  release_amount?: MinorUnits | null;
+}
+
+export type SettlementOfferStatus = "pending" | "accepted" | "declined" | "countered" | "withdrawn";
+
+export interface SettlementOffer {
+  id: string;
+  proposed_by: "buyer" | "seller";
+  /** Goes back to the buyer; the rest of the escrow is released to the seller */
+  refund_amount: MinorUnits;
+  release_amount: MinorUnits;
+  note: string | null;
+  status: SettlementOfferStatus;
+  created_at: string;
+  responded_at: string | null;
+}
+
+export interface SettlementOfferRequest {
+  refund_amount: MinorUnits;
+  note?: string;
+}
+
+export interface Dispute {
+  id: string;
+  transaction_id: string;
+  product_name: string | null;
+  amount: MinorUnits;
+  currency: string;
+  reason: DisputeReason;
+  description: string;
+  status: DisputeStatus;
+  evidence: DisputeEvidence[];
+  opened_at: string;
+  /** The seller must respond before this or the dispute is decided without them */
+  response_deadline: string;
+  /** Masked buyer phone number */
+  buyer: string;
+  seller_response: DisputeSellerResponse | null;
+  resolution: DisputeResolution | null;
+  /** Oldest first; at most one is pending */
+  offers: SettlementOffer[];
+}
+
+export interface DisputeMessage {
+  id: string;
+  dispute_id: string;
+  sender: "seller" | "admin";
+  text: string;
+  created_at: string;
+  read: boolean;
+}
+
+export interface DisputeResponseRequest {
+  explanation: string;
+}
+
+export interface OpenDisputeRequest {
+  reason: DisputeReason;
+  description: string;
+  evidence: File[];
+}
+
+// Seller notifications
+
+export type NotificationType =
+  | "order_paid"
+  | "order_expired"
+  | "inspection_extended"
+  | "delivery_confirmed"
+  | "funds_released"
+  | "dispute_opened"
+  | "dispute_deadline"
+  | "settlement_offered"
+  | "dispute_settled"
+  | "withdrawal_completed"
+  | "withdrawal_failed"
+  | "buyer_message";
+
+// What the notification opens in the dashboard. Transactions are wallet
+// entries, like a withdrawal.
+export interface NotificationTarget {
+  kind: "order" | "dispute" | "transaction";
+  id: string;
+}
+
+export interface SellerNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  target: NotificationTarget;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface NotificationQuery {
+  unread?: boolean;
+  limit?: number;
+}
+
+/** Newest first */
+export interface NotificationFeed {
+  notifications: SellerNotification[];
+  unread_count: number;
+}
+
+// Grouped for preferences: each category covers one or more notification types
+export type NotificationCategory = "new_order" | "delivered" | "dispute" | "payout" | "message";
+
+export type NotificationChannel = "in_app" | "push" | "sms" | "email" | "whatsapp";
+
+/** Times are "HH:MM" in `timezone`; the window may run past midnight */
+export interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+  /** IANA name, e.g. Africa/Nairobi */
+  timezone: string;
+}
+
+export interface NotificationPreferences {
+  channels: Record<NotificationCategory, Record<NotificationChannel, boolean>>;
+  quiet_hours: QuietHours;
+  /** Null until the seller first saves */
+  updated_at: string | null;
+}
+
+export type UpdateNotificationPreferencesRequest = Omit<NotificationPreferences, "updated_at">;
+
+// Web Push
+
+/** The browser's PushSubscription, as sent to the server */
+export interface PushSubscriptionRequest {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+export interface PushSubscriptionInfo {
+  id: string;
+  endpoint: string;
+  created_at: string;
+}
+
+export interface PushConfig {
+  /** VAPID application server key, base64url */
+  public_key: string;
+}
+
+/** What the service worker receives and shows */
+export interface PushPayload {
+  title: string;
+  body: string;
+  /** Path opened when the notification is tapped */
+  url: string;
+  /** Replaces an earlier notification with the same tag */
+  tag?: string;
+}
+
+// Auth
+
+export interface AuthUser {
+  id: string;
+  phone_number: string;
+  name: string | null;
+}
+
+export interface OtpRequest {
+  phone_number: string;
+}
+
+export interface OtpChallenge {
+  request_id: string;
+  /** Seconds until the code stops working */
+  expires_in: number;
+  /** Seconds before another code can be requested */
+  resend_in: number;
+}
+
+export interface VerifyOtpRequest {
+  request_id: string;
+  code: string;
+}
+
+export interface AuthSession {
+  access_token: string;
+  refresh_token: string;
+  /** Access token lifetime in seconds */
+  expires_in: number;
+  user: AuthUser;
+}
+
+// Live updates (server-sent events)
+
+interface StreamEventBase {
+  /** Opaque cursor; sent back as last_event_id to resume after a reconnect */
+  id: string;
+  created_at: string;
+}
+
+// Sent when the server can no longer replay from the client's cursor, so the
+// client should refetch whatever it shows
+export type ResyncEvent = StreamEventBase & { type: "resync"; data: null };
+
+export type SellerEvent =
+  | ResyncEvent
+  | (StreamEventBase &
+      (
+        | { type: "payment.updated"; data: PaymentLink }
+        | { type: "order.updated"; data: Order }
+        | { type: "order.message"; data: OrderMessage }
+        | { type: "dispute.updated"; data: Dispute }
+        | { type: "dispute.message"; data: DisputeMessage }
+        | { type: "notification.created"; data: SellerNotification }
+      ));
+
+// One transaction, rendered for the viewer's role like GET /payments/:id.
+// Only the buyer receives dispute updates.
+export type PaymentEvent =
+  | ResyncEvent
+  | (StreamEventBase &
+      (
+        | { type: "payment.updated"; data: PaymentDetails }
+        | { type: "dispute.updated"; data: Dispute }
+      ));
+
+// Seller endpoints wrap their payload in `data`
+export interface DataEnvelope<T> {
+  data: T;
+}
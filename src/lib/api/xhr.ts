@@ -0,0 +1,42 @@
+// fetch() can't report upload progress, so uploads that ask for it go through
+// XMLHttpRequest and are adapted back into a Response
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+function parseHeaders(raw: string): Headers {
+  const headers = new Headers();
+  for (const line of raw.trim().split(/[\r\n]+/)) {
+    const idx = line.indexOf(":");
+    if (idx > 0) headers.append(line.slice(0, idx).trim(), line.slice(idx + 1).trim());
+  }
+  return headers;
+}
+
+export function xhrFetch(
+  url: string,
+  init: RequestInit,
+  onUploadProgress: (progress: UploadProgress) => void
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method ?? "GET", url);
+    for (const [key, value] of Object.entries((init.headers ?? {}) as Record<string, string>)) {
+      xhr.setRequestHeader(key, value);
+    }
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onUploadProgress({ loaded: event.loaded, total: event.total });
+    };
+    xhr.onload = () => {
+      const body = xhr.status === 204 || xhr.status === 205 ? null : xhr.responseText;
+      resolve(new Response(body, { status: xhr.status, headers: parseHeaders(xhr.getAllResponseHeaders()) }));
+    };
+    xhr.onerror = () => reject(new TypeError("Network request failed"));
+    xhr.onabort = () => reject(new DOMException("The operation was aborted.", "AbortError"));
+    init.signal?.addEventListener("abort", () => xhr.abort(), { once: true });
+
+    xhr.send((init.body ?? null) as XMLHttpRequestBodyInit | null);
+  });
+}
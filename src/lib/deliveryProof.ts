@@ -0,0 +1,43 @@
+import { evidenceKind } from "@/lib/disputes";
+
+export const MAX_PROOF_FILES = 6;
+export const MAX_PROOF_BYTES = 10 * 1024 * 1024;
+export const PROOF_ACCEPT = "image/*,application/pdf";
+
+// Photos are scaled down so the longest side is at most this; still plenty to
+// read a waybill or a signature
+const MAX_IMAGE_DIMENSION = 1600;
+const JPEG_QUALITY = 0.8;
+
+export function validateProofFile(file: Pick<File, "name" | "type" | "size">): string | null {
+  const kind = evidenceKind(file);
+  if (kind !== "image" && kind !== "document") return `${file.name} is not a photo or PDF`;
+  if (file.size > MAX_PROOF_BYTES) return `${file.name} is larger than 10 MB`;
+  return null;
+}
+
+function toBlob(canvas: HTMLCanvasElement): Promise<Blob | null> {
+  return new Promise((resolve) => canvas.toBlob(resolve, "image/jpeg", JPEG_QUALITY));
+}
+
+// Re-encodes photos as JPEG at a sensible size. Anything the browser can't
+// decode, animations and files that would come out bigger are left alone.
+export async function compressImage(file: File): Promise<File> {
+  if (!file.type.startsWith("image/") || file.type === "image/gif" || file.type === "image/svg+xml") return file;
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    const blob = await toBlob(canvas);
+    if (!blob || blob.size >= file.size) return file;
+    const name = file.name.replace(/\.[^.]*$/, "") + ".jpg";
+    return new File([blob], name, { type: "image/jpeg", lastModified: file.lastModified });
+  } catch {
+    return file;
+  }
+}
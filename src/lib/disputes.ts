@@ -0,0 +1,104 @@
+import type {
+  Dispute,
+  DisputeReason,
+  EvidenceCategory,
+  EvidenceKind,
+  SettlementOffer,
+  SettlementOfferStatus,
+} from "@/lib/api/types";
+import { canPerform, type EscrowStatus } from "@/lib/escrow";
+import type { MinorUnits } from "@/lib/money";
+
+export const DISPUTE_REASONS: Record<DisputeReason, string> = {
+  not_received: "Item never arrived",
+  not_as_described: "Not as described",
+  damaged: "Arrived damaged",
+  wrong_item: "Wrong item sent",
+  counterfeit: "Counterfeit or fake",
+  other: "Something else",
+};
+
+// There is nothing to photograph when the item never arrived
+export function evidenceRequired(reason: DisputeReason): boolean {
+  return reason !== "not_received" && reason !== "other";
+}
+
+export const MAX_EVIDENCE_FILES = 5;
+export const MAX_EVIDENCE_BYTES = 25 * 1024 * 1024;
+export const MIN_DESCRIPTION_LENGTH = 20;
+
+export function evidenceKind(file: Pick<File, "type">): EvidenceKind | null {
+  if (file.type.startsWith("image/")) return "image";
+  if (file.type.startsWith("video/")) return "video";
+  if (file.type === "application/pdf") return "document";
+  return null;
+}
+
+export function validateEvidence(files: Pick<File, "name" | "type" | "size">[]): string | null {
+  if (files.length > MAX_EVIDENCE_FILES) return `Attach at most ${MAX_EVIDENCE_FILES} files`;
+  for (const file of files) {
+    const kind = evidenceKind(file);
+    if (kind !== "image" && kind !== "video") return `${file.name} is not a photo or video`;
+    if (file.size > MAX_EVIDENCE_BYTES) return `${file.name} is larger than 25 MB`;
+  }
+  return null;
+}
+
+const MB = 1024 * 1024;
+
+export const EVIDENCE_CATEGORIES: Record<
+  EvidenceCategory,
+  { label: string; accept: string; kinds: EvidenceKind[]; maxBytes: number }
+> = {
+  delivery: { label: "Proof of delivery", accept: "image/*,application/pdf", kinds: ["image", "document"], maxBytes: 10 * MB },
+  condition: { label: "Product condition", accept: "image/*", kinds: ["image"], maxBytes: 10 * MB },
+  video: { label: "Packing video", accept: "video/*", kinds: ["video"], maxBytes: 50 * MB },
+};
+
+export function validateCategoryEvidence(file: Pick<File, "name" | "type" | "size">, category: EvidenceCategory): string | null {
+  const rules = EVIDENCE_CATEGORIES[category];
+  const kind = evidenceKind(file);
+  if (!kind || !rules.kinds.includes(kind)) return `${file.name} can't be used as ${rules.label.toLowerCase()}`;
+  if (file.size > rules.maxBytes) return `${file.name} is larger than ${rules.maxBytes / MB} MB`;
+  return null;
+}
+
+export function wonBySeller(dispute: Pick<Dispute, "resolution">): boolean {
+  return dispute.resolution?.outcome === "released_to_seller";
+}
+
+export const SETTLEMENT_OFFER_STATUS_LABELS: Record<SettlementOfferStatus, string> = {
+  pending: "Waiting for a reply",
+  accepted: "Accepted",
+  declined: "Declined",
+  countered: "Countered",
+  withdrawn: "Withdrawn",
+};
+
+export function pendingOffer(dispute: Pick<Dispute, "offers">): SettlementOffer | undefined {
+  return dispute.offers.find((o) => o.status === "pending");
+}
+
+// A settlement is a split: refunding all of it is a refund, none of it a release
+export function validateSettlementRefund(refund: MinorUnits, escrowed: MinorUnits): string | null {
+  if (!Number.isInteger(refund) || refund <= 0) return "Enter the amount to refund";
+  if (refund >= escrowed) return "A settlement refunds part of the amount, not all of it";
+  return null;
+}
+
+// Offers are answered by the other party
+export function canRespondToOffer(offer: SettlementOffer, party: SettlementOffer["proposed_by"]): boolean {
+  return offer.status === "pending" && offer.proposed_by !== party;
+}
+
+// Buyers can dispute once something was delivered, or once the seller's own
+// delivery estimate has passed without delivery
+export function canReportProblem(
+  status: EscrowStatus,
+  estimatedDeliveryAt: string | null | undefined,
+  now = Date.now()
+): boolean {
+  if (!canPerform(status, "open_dispute", "buyer")) return false;
+  if (status === "DELIVERED") return true;
+  return Boolean(estimatedDeliveryAt && new Date(estimatedDeliveryAt).getTime() <= now);
+}
@@ -0,0 +1,259 @@
+// Escrow state machine: every payment status, the legal transitions between
+// them and which party may trigger each one. Components must ask this module
+// what to render instead of comparing status strings themselves.
+
+export const ESCROW_STATUSES = [
+  "AWAITING_PAYMENT",
+  "ESCROWED",
+  "ACTIVE",
+  "DELIVERED",
+  "COMPLETED",
+  "DISPUTED",
+  "REFUNDED",
+  "CANCELLED",
+  "EXPIRED",
+] as const;
+
+export type EscrowStatus = (typeof ESCROW_STATUSES)[number];
+
+export type EscrowParty = "buyer" | "seller" | "admin" | "system";
+
+// Who is looking at a payment page. Public viewers can never act.
+export type PaymentViewerRole = "buyer" | "seller" | "public";
+
+export type EscrowAction =
+  | "pay"
+  | "cancel"
+  | "expire"
+  | "accept"
+  | "reject"
+  | "mark_delivered"
+  | "deliver_milestone"
+  | "release_milestone"
+  | "confirm"
+  | "auto_release"
+  | "open_dispute"
+  | "release_to_seller"
+  | "refund_buyer"
+  | "settle"
+  | "renew";
+
+export interface EscrowTransition {
+  action: EscrowAction;
+  from: EscrowStatus;
+  to: EscrowStatus;
+  parties: readonly EscrowParty[];
+}
+
+export const ESCROW_TRANSITIONS: readonly EscrowTransition[] = [
+  { action: "pay", from: "AWAITING_PAYMENT", to: "ESCROWED", parties: ["system"] },
+  { action: "cancel", from: "AWAITING_PAYMENT", to: "CANCELLED", parties: ["seller"] },
+  { action: "expire", from: "AWAITING_PAYMENT", to: "EXPIRED", parties: ["system"] },
+  { action: "renew", from: "EXPIRED", to: "AWAITING_PAYMENT", parties: ["seller"] },
+  { action: "accept", from: "ESCROWED", to: "ACTIVE", parties: ["seller"] },
+  { action: "reject", from: "ESCROWED", to: "REFUNDED", parties: ["seller"] },
+  // The seller never accepted in time, so the buyer gets their money back
+  { action: "expire", from: "ESCROWED", to: "REFUNDED", parties: ["system"] },
+  { action: "mark_delivered", from: "ACTIVE", to: "DELIVERED", parties: ["seller"] },
+  // Milestone payments stay ACTIVE until the last milestone is delivered
+  // (mark_delivered) and DELIVERED until the last one is released (confirm)
+  { action: "deliver_milestone", from: "ACTIVE", to: "ACTIVE", parties: ["seller"] },
+  { action: "release_milestone", from: "ACTIVE", to: "ACTIVE", parties: ["buyer"] },
+  { action: "release_milestone", from: "DELIVERED", to: "DELIVERED", parties: ["buyer"] },
+  { action: "open_dispute", from: "ACTIVE", to: "DISPUTED", parties: ["buyer"] },
+  { action: "confirm", from: "DELIVERED", to: "COMPLETED", parties: ["buyer"] },
+  { action: "auto_release", from: "DELIVERED", to: "COMPLETED", parties: ["system"] },
+  { action: "open_dispute", from: "DELIVERED", to: "DISPUTED", parties: ["buyer"] },
+  { action: "release_to_seller", from: "DISPUTED", to: "COMPLETED", parties: ["admin"] },
+  { action: "refund_buyer", from: "DISPUTED", to: "REFUNDED", parties: ["admin", "seller"] },
+  // Either party accepting the other's offer to split the escrow
+  { action: "settle", from: "DISPUTED", to: "COMPLETED", parties: ["buyer", "seller"] },
+];
+
+export interface EscrowStatusMeta {
+  label: string;
+  description: string;
+  terminal: boolean;
+}
+
+export const ESCROW_STATUS_META: Record<EscrowStatus, EscrowStatusMeta> = {
+  AWAITING_PAYMENT: {
+    label: "Awaiting payment",
+    description: "The buyer has not paid into escrow yet.",
+    terminal: false,
+  },
+  ESCROWED: {
+    label: "Funds in escrow",
+    description: "Payment is held safely. Waiting for the seller to accept.",
+    terminal: false,
+  },
+  ACTIVE: {
+    label: "Accepted",
+    description: "The seller accepted the order and is preparing delivery.",
+    terminal: false,
+  },
+  DELIVERED: {
+    label: "Delivered",
+    description: "The seller marked the order delivered. Waiting for buyer confirmation.",
+    terminal: false,
+  },
+  COMPLETED: {
+    label: "Completed",
+    description: "Funds were released to the seller.",
+    terminal: true,
+  },
+  DISPUTED: {
+    label: "Disputed",
+    description: "A dispute is open. Funds stay frozen and will not auto-release until it is resolved.",
+    terminal: false,
+  },
+  REFUNDED: {
+    label: "Refunded",
+    description: "Funds were returned to the buyer.",
+    terminal: true,
+  },
+  CANCELLED: {
+    label: "Cancelled",
+    description: "This payment link was cancelled before it was paid.",
+    terminal: true,
+  },
+  EXPIRED: {
+    label: "Expired",
+    description: "This payment link expired before it was paid. The seller can renew it.",
+    terminal: false,
+  },
+};
+
+export class IllegalTransitionError extends Error {
+  constructor(status: EscrowStatus, action: EscrowAction, party: EscrowParty) {
+    super(`The ${party} cannot ${action.replace(/_/g, " ")} a payment that is ${status}`);
+    this.name = "IllegalTransitionError";
+  }
+}
+
+export function isEscrowStatus(value: unknown): value is EscrowStatus {
+  return typeof value === "string" && (ESCROW_STATUSES as readonly string[]).includes(value);
+}
+
+export function parseEscrowStatus(value: unknown): EscrowStatus | null {
+  if (typeof value !== "string") return null;
+  const normalized = value.trim().toUpperCase();
+  return isEscrowStatus(normalized) ? normalized : null;
+}
+
+export function findTransition(status: EscrowStatus, action: EscrowAction): EscrowTransition | undefined {
+  return ESCROW_TRANSITIONS.find((t) => t.from === status && t.action === action);
+}
+
+export function canPerform(
+  status: EscrowStatus,
+  action: EscrowAction,
+  party: EscrowParty | PaymentViewerRole
+): boolean {
+  // Someone who is neither buyer nor seller can't act on a payment
+  if (party === "public") return false;
+  return findTransition(status, action)?.parties.includes(party) ?? false;
+}
+
+export function availableActions(status: EscrowStatus, party: EscrowParty): EscrowAction[] {
+  return ESCROW_TRANSITIONS.filter((t) => t.from === status && t.parties.includes(party)).map(
+    (t) => t.action
+  );
+}
+
+export function nextStatus(status: EscrowStatus, action: EscrowAction, party: EscrowParty): EscrowStatus {
+  const transition = findTransition(status, action);
+  if (!transition || !transition.parties.includes(party)) {
+    throw new IllegalTransitionError(status, action, party);
+  }
+  return transition.to;
+}
+
+export function isTerminal(status: EscrowStatus): boolean {
+  return ESCROW_STATUS_META[status].terminal;
+}
+
+// Seller order vocabulary used by the dashboard
+
+export const ORDER_STATUSES = ["pending", "accepted", "shipped", "completed", "dispute", "cancelled"] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+export interface OrderStatusMeta {
+  label: string;
+  badgeClass: string;
+  filterLabel: string;
+}
+
+export const ORDER_STATUS_META: Record<OrderStatus, OrderStatusMeta> = {
+  pending: {
+    label: "🟡 Awaiting Acceptance",
+    badgeClass: "bg-yellow-100 text-yellow-800 border-yellow-300",
+    filterLabel: "Pending",
+  },
+  accepted: {
+    label: "✅ Accepted",
+    badgeClass: "bg-blue-100 text-blue-800 border-blue-300",
+    filterLabel: "Accepted",
+  },
+  shipped: {
+    label: "🚚 In Transit",
+    badgeClass: "bg-purple-100 text-purple-800 border-purple-300",
+    filterLabel: "Shipped",
+  },
+  completed: {
+    label: "✅ Completed",
+    badgeClass: "bg-green-100 text-green-800 border-green-300",
+    filterLabel: "Completed",
+  },
+  dispute: {
+    label: "🚨 Dispute Open",
+    badgeClass: "bg-red-100 text-red-800 border-red-300",
+    filterLabel: "Dispute",
+  },
+  cancelled: {
+    label: "❌ Cancelled",
+    badgeClass: "bg-gray-100 text-gray-800 border-gray-300",
+    filterLabel: "Cancelled",
+  },
+};
+
+// An order only exists once the buyer has paid, so a link that was never paid
+// (AWAITING_PAYMENT, CANCELLED, EXPIRED) has no order counterpart. A paid
+// order that ends without a release is refunded, which maps to "cancelled".
+const ORDER_STATUS_BY_ESCROW: Record<EscrowStatus, OrderStatus | null> = {
+  AWAITING_PAYMENT: null,
+  ESCROWED: "pending",
+  ACTIVE: "accepted",
+  DELIVERED: "shipped",
+  COMPLETED: "completed",
+  DISPUTED: "dispute",
+  REFUNDED: "cancelled",
+  CANCELLED: null,
+  EXPIRED: null,
+};
+
+const ESCROW_STATUS_BY_ORDER: Record<OrderStatus, EscrowStatus> = {
+  pending: "ESCROWED",
+  accepted: "ACTIVE",
+  shipped: "DELIVERED",
+  completed: "COMPLETED",
+  dispute: "DISPUTED",
+  cancelled: "REFUNDED",
+};
+
+export function orderStatusFor(status: EscrowStatus): OrderStatus | null {
+  return ORDER_STATUS_BY_ESCROW[status];
+}
+
+export function escrowStatusFor(status: OrderStatus): EscrowStatus {
+  return ESCROW_STATUS_BY_ORDER[status];
+}
+
+export function orderStatusMeta(status: string): OrderStatusMeta {
+  return ORDER_STATUS_META[status as OrderStatus] ?? {
+    label: status,
+    badgeClass: ORDER_STATUS_META.pending.badgeClass,
+    filterLabel: status,
+  };
+}
@@ -0,0 +1,79 @@
+import type { FeeBreakdown, FeePayer } from "@/lib/api/types";
+import type { MinorUnits, Money } from "@/lib/money";
+
+export interface FeeTier {
+  /** Applies to amounts up to and including this; null for no upper bound */
+  upTo: MinorUnits | null;
+  /** Percentage of the amount, e.g. 2.5 */
+  percent: number;
+  fixed: MinorUnits;
+}
+
+export interface FeeSchedule {
+  escrow: FeeTier[];
+  /** What M-Pesa charges to collect the payment */
+  mpesa: FeeTier[];
+  withdrawal: FeeTier[];
+}
+
+// Tiers per currency, in ascending order. Amounts are in minor units.
+export const FEE_SCHEDULES: Record<string, FeeSchedule> = {
+  KES: {
+    escrow: [
+      { upTo: 100000, percent: 0, fixed: 2500 },
+      { upTo: 1000000, percent: 2.5, fixed: 0 },
+      { upTo: null, percent: 1.5, fixed: 10000 },
+    ],
+    mpesa: [
+      { upTo: 100000, percent: 0, fixed: 1300 },
+      { upTo: 500000, percent: 0, fixed: 3400 },
+      { upTo: 2000000, percent: 0, fixed: 5300 },
+      { upTo: null, percent: 0, fixed: 10800 },
+    ],
+    withdrawal: [{ upTo: null, percent: 2, fixed: 0 }],
+  },
+};
+
+// Currencies without their own schedule pay flat percentages
+const DEFAULT_SCHEDULE: FeeSchedule = {
+  escrow: [{ upTo: null, percent: 2.5, fixed: 0 }],
+  mpesa: [{ upTo: null, percent: 1, fixed: 0 }],
+  withdrawal: [{ upTo: null, percent: 2, fixed: 0 }],
+};
+
+export const DEFAULT_FEE_PAYER: FeePayer = "buyer";
+
+export const FEE_PAYER_LABELS: Record<FeePayer, string> = {
+  buyer: "Buyer pays the fees",
+  seller: "I'll pay the fees",
+};
+
+export function feeScheduleFor(currency: string): FeeSchedule {
+  return FEE_SCHEDULES[currency] ?? DEFAULT_SCHEDULE;
+}
+
+export function tierFee(amount: MinorUnits, tiers: FeeTier[]): MinorUnits {
+  const tier = tiers.find((t) => t.upTo === null || amount <= t.upTo) ?? tiers[tiers.length - 1];
+  if (!tier) return 0;
+  return Math.round((amount * tier.percent) / 100) + tier.fixed;
+}
+
+// Both fees are charged on the item price, whoever pays them. The buyer pays
+// them on top of the price, or the seller has them taken out of their payout.
+export function calculateFees(price: Money, payer: FeePayer, schedule = feeScheduleFor(price.currency)): FeeBreakdown {
+  const escrowFee = tierFee(price.amount, schedule.escrow);
+  const mpesaFee = tierFee(price.amount, schedule.mpesa);
+  const fees = escrowFee + mpesaFee;
+  return {
+    fee_payer: payer,
+    item_price: price.amount,
+    escrow_fee: escrowFee,
+    mpesa_fee: mpesaFee,
+    buyer_total: payer === "buyer" ? price.amount + fees : price.amount,
+    seller_net: payer === "seller" ? Math.max(price.amount - fees, 0) : price.amount,
+  };
+}
+
+export function withdrawalFee(amount: Money): MinorUnits {
+  return tierFee(amount.amount, feeScheduleFor(amount.currency).withdrawal);
+}
@@ -0,0 +1,39 @@
+import type { PaymentDetails } from "@/lib/api/types";
+
+// Once an order is marked delivered the buyer has this long to inspect it.
+// If they neither confirm nor open a dispute, funds auto-release to the seller.
+export const INSPECTION_WINDOW_HOURS = 72;
+export const MAX_EXTENSION_DAYS = 3;
+// Buyers get an SMS this many hours before funds release
+export const RELEASE_REMINDER_HOURS = [24, 2] as const;
+
+type InspectionFields = Pick<PaymentDetails, "status" | "auto_release_at" | "inspection_extended_at">;
+
+// One extension per transaction, and only while the window is still open
+export function canExtendInspection(payment: InspectionFields, now = Date.now()): boolean {
+  return (
+    payment.status === "DELIVERED" &&
+    !payment.inspection_extended_at &&
+    !!payment.auto_release_at &&
+    new Date(payment.auto_release_at).getTime() > now
+  );
+}
+
+export function validateExtensionDays(days: number): string | null {
+  if (!Number.isInteger(days) || days < 1 || days > MAX_EXTENSION_DAYS) {
+    return `Choose between 1 and ${MAX_EXTENSION_DAYS} extra days`;
+  }
+  return null;
+}
+
+export function formatCountdown(ms: number): string {
+  if (ms <= 0) return "any moment now";
+  const totalMinutes = Math.floor(ms / 60_000);
+  const days = Math.floor(totalMinutes / (60 * 24));
+  const hours = Math.floor(totalMinutes / 60) % 24;
+  const minutes = totalMinutes % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${Math.ceil(ms / 1000)}s`;
+}
@@ -0,0 +1,40 @@
+import type { FeeBreakdown, Milestone, MilestoneInput, MilestoneStatus } from "@/lib/api/types";
+import type { MinorUnits } from "@/lib/money";
+
+export const MIN_MILESTONES = 2;
+export const MAX_MILESTONES = 5;
+
+export const MILESTONE_STATUS_LABELS: Record<MilestoneStatus, string> = {
+  pending: "In progress",
+  delivered: "Delivered",
+  released: "Released",
+  refunded: "Refunded",
+};
+
+export function validateMilestones(milestones: MilestoneInput[], price: MinorUnits): string | null {
+  if (milestones.length < MIN_MILESTONES || milestones.length > MAX_MILESTONES) {
+    return `Use between ${MIN_MILESTONES} and ${MAX_MILESTONES} milestones`;
+  }
+  if (milestones.some((m) => !m.title.trim())) return "Give every milestone a name";
+  if (milestones.some((m) => !Number.isInteger(m.amount) || m.amount <= 0)) return "Every milestone needs an amount";
+  if (milestones.reduce((sum, m) => sum + m.amount, 0) !== price) return "Milestone amounts must add up to the price";
+  return null;
+}
+
+// Milestones are delivered in order
+export function nextMilestoneToDeliver(milestones: Milestone[]): Milestone | undefined {
+  return milestones.find((m) => m.status === "pending");
+}
+
+// The seller's net is split in proportion to the milestone amounts. Rounding
+// goes on the last milestone so the payouts add up to the net exactly.
+export function milestonePayouts(milestones: Pick<Milestone, "amount">[], fees: FeeBreakdown): MinorUnits[] {
+  const payouts = milestones.map((m) => Math.floor((m.amount * fees.seller_net) / fees.item_price));
+  const rounding = fees.seller_net - payouts.reduce((sum, p) => sum + p, 0);
+  if (payouts.length > 0) payouts[payouts.length - 1] += rounding;
+  return payouts;
+}
+
+export function releasedCount(milestones: Milestone[]): number {
+  return milestones.filter((m) => m.status === "released").length;
+}
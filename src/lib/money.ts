@@ -0,0 +1,115 @@
+// Amounts are integers in the currency's minor unit (cents), both on the wire
+// and in memory. Floats only appear at the edges: parsing input and formatting.
+export type MinorUnits = number;
+
+export interface Money {
+  amount: MinorUnits;
+  currency: string;
+}
+
+interface CurrencyInfo {
+  name: string;
+  /** Digits after the decimal point (ISO 4217) */
+  minorUnits: number;
+  /** Used for formatting unless the caller asks for another locale */
+  locale: string;
+}
+
+export const CURRENCIES: Record<string, CurrencyInfo> = {
+  KES: { name: "Kenyan shilling", minorUnits: 2, locale: "en-KE" },
+  UGX: { name: "Ugandan shilling", minorUnits: 0, locale: "en-UG" },
+  TZS: { name: "Tanzanian shilling", minorUnits: 2, locale: "en-TZ" },
+  USD: { name: "US dollar", minorUnits: 2, locale: "en-US" },
+};
+
+export const SUPPORTED_CURRENCIES = Object.keys(CURRENCIES);
+
+export const DEFAULT_CURRENCY = "KES";
+
+export function isSupportedCurrency(currency: string): boolean {
+  return currency in CURRENCIES;
+}
+
+export function minorUnitDigits(currency: string): number {
+  return CURRENCIES[currency]?.minorUnits ?? 2;
+}
+
+export function money(amount: MinorUnits, currency: string): Money {
+  return { amount, currency };
+}
+
+export function toMajorUnits({ amount, currency }: Money): number {
+  return amount / 10 ** minorUnitDigits(currency);
+}
+
+export function fromMajorUnits(major: number, currency: string): Money {
+  return { amount: Math.round(major * 10 ** minorUnitDigits(currency)), currency };
+}
+
+// Parses what a person types ("1,500", "1500.5") without going through a float.
+// Null for anything that isn't a positive amount with at most the currency's
+// number of decimals.
+export function parseMoney(input: string, currency: string): Money | null {
+  const digits = minorUnitDigits(currency);
+  const match = /^(\d+)(?:\.(\d*))?$/.exec(input.replace(/[\s,]/g, ""));
+  if (!match) return null;
+  const [, whole, fraction = ""] = match;
+  if (fraction.length > digits) return null;
+  const amount = Number(whole + fraction.padEnd(digits, "0"));
+  return Number.isSafeInteger(amount) && amount > 0 ? { amount, currency } : null;
+}
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+function formatter(currency: string, locale: string, fractionDigits: number): Intl.NumberFormat {
+  const key = `${locale}|${currency}|${fractionDigits}`;
+  let format = formatters.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency,
+      currencyDisplay: "code",
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    });
+    formatters.set(key, format);
+  }
+  return format;
+}
+
+// Whole amounts drop the decimals ("KES 1,500", not "KES 1,500.00")
+export function formatMoney(value: Money, locale?: string): string {
+  const digits = minorUnitDigits(value.currency);
+  const fractionDigits = value.amount % 10 ** digits === 0 ? 0 : digits;
+  try {
+    return formatter(value.currency, locale ?? CURRENCIES[value.currency]?.locale ?? "en", fractionDigits).format(
+      toMajorUnits(value)
+    );
+  } catch {
+    // Not a currency Intl knows
+    return `${value.currency} ${toMajorUnits(value).toFixed(fractionDigits)}`;
+  }
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  if (a.currency !== b.currency) throw new Error(`Cannot add ${a.currency} to ${b.currency}`);
+  return { amount: a.amount + b.amount, currency: a.currency };
+}
+
+// One total per currency, in the order each currency first appears
+export function sumByCurrency(values: Money[]): Money[] {
+  const totals = new Map<string, Money>();
+  for (const value of values) {
+    const total = totals.get(value.currency);
+    totals.set(value.currency, total ? addMoney(total, value) : value);
+  }
+  return [...totals.values()];
+}
+
+// Zero totals are left out unless there is nothing else to show
+export function formatMoneyTotals(values: Money[], locale?: string): string {
+  const totals = sumByCurrency(values);
+  const nonZero = totals.filter((total) => total.amount !== 0);
+  if (nonZero.length > 0) return nonZero.map((total) => formatMoney(total, locale)).join(" + ");
+  return formatMoney(totals[0] ?? money(0, DEFAULT_CURRENCY), locale);
+}
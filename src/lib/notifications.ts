@@ -0,0 +1,143 @@
+import type {
+  NotificationCategory,
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationTarget,
+  NotificationType,
+  QuietHours,
+} from "@/lib/api/types";
+
+export const NOTIFICATION_ICONS: Record<NotificationType, string> = {
+  order_paid: "🛍️",
+  order_expired: "⌛",
+  inspection_extended: "🔍",
+  delivery_confirmed: "✅",
+  funds_released: "💰",
+  dispute_opened: "⚠️",
+  dispute_deadline: "⏰",
+  settlement_offered: "🤝",
+  dispute_settled: "⚖️",
+  withdrawal_completed: "📲",
+  withdrawal_failed: "❌",
+  buyer_message: "💬",
+};
+
+// Feeds show the latest few; older ones are still on the server
+export const NOTIFICATION_FEED_LIMIT = 30;
+
+export function unreadBadge(count: number): string {
+  return count > 9 ? "9+" : String(count);
+}
+
+const TARGET_KINDS: NotificationTarget["kind"][] = ["order", "dispute", "transaction"];
+
+// Push notifications open the dashboard with the target in the query string,
+// e.g. /seller?order=sim-escrowed
+export function notificationTargetPath({ kind, id }: NotificationTarget): string {
+  return `/seller?${new URLSearchParams({ [kind]: id })}`;
+}
+
+export function notificationTargetFromParams(params: URLSearchParams): NotificationTarget | null {
+  for (const kind of TARGET_KINDS) {
+    const id = params.get(kind);
+    if (id) return { kind, id };
+  }
+  return null;
+}
+
+export const NOTIFICATION_CATEGORIES: Record<NotificationType, NotificationCategory> = {
+  order_paid: "new_order",
+  order_expired: "new_order",
+  inspection_extended: "delivered",
+  delivery_confirmed: "delivered",
+  funds_released: "delivered",
+  dispute_opened: "dispute",
+  dispute_deadline: "dispute",
+  settlement_offered: "dispute",
+  dispute_settled: "dispute",
+  withdrawal_completed: "payout",
+  withdrawal_failed: "payout",
+  buyer_message: "message",
+};
+
+export const CATEGORY_LABELS: Record<NotificationCategory, string> = {
+  new_order: "New order",
+  delivered: "Delivered",
+  dispute: "Dispute",
+  payout: "Payout",
+  message: "Message",
+};
+
+export const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: "In-app",
+  push: "Push",
+  sms: "SMS",
+  email: "Email",
+  whatsapp: "WhatsApp",
+};
+
+// Channels that would wake someone up; in-app and email wait quietly anyway
+export const QUIET_HOURS_CHANNELS: NotificationChannel[] = ["push", "sms", "whatsapp"];
+
+const channels = (sms: boolean): Record<NotificationChannel, boolean> => ({
+  in_app: true,
+  push: true,
+  sms,
+  email: false,
+  whatsapp: false,
+});
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  channels: {
+    new_order: channels(true),
+    delivered: channels(false),
+    dispute: channels(true),
+    payout: channels(true),
+    message: channels(false),
+  },
+  quiet_hours: { enabled: false, start: "22:00", end: "07:00", timezone: "Africa/Nairobi" },
+  updated_at: null,
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function isTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function validateQuietHours({ start, end, timezone }: QuietHours): string | null {
+  if (!TIME_PATTERN.test(start) || !TIME_PATTERN.test(end)) return "Quiet hours need a start and end time";
+  if (start === end) return "Quiet hours must start and end at different times";
+  if (!timezone || !isTimeZone(timezone)) return "Choose a valid time zone";
+  return null;
+}
+
+export function isQuietTime({ enabled, start, end, timezone }: QuietHours, at = new Date()): boolean {
+  if (!enabled || start === end) return false;
+  const now = new Intl.DateTimeFormat("en-GB", {
+    timeZone: timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(at);
+  // "HH:MM" compares correctly as text; a window like 22:00-07:00 wraps midnight
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+/** Channels a notification of `type` goes out on right now */
+export function deliveryChannels(
+  preferences: NotificationPreferences,
+  type: NotificationType,
+  at = new Date()
+): NotificationChannel[] {
+  const enabled = preferences.channels[NOTIFICATION_CATEGORIES[type]];
+  const quiet = isQuietTime(preferences.quiet_hours, at);
+  return (Object.keys(enabled) as NotificationChannel[]).filter(
+    (channel) => enabled[channel] && !(quiet && QUIET_HOURS_CHANNELS.includes(channel))
+  );
+}
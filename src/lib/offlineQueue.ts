@@ -0,0 +1,189 @@
+// Seller actions taken without a connection wait here and are sent once it
+// returns. Each keeps the idempotency key of its first attempt, so if that
+// attempt did reach the server the replay gets the same answer back instead of
+// acting twice.
+import {
+  UnauthorizedError,
+  acceptPayment,
+  markPaymentDelivered,
+  onSessionChange,
+  submitShippingInfo,
+  type AcceptPaymentRequest,
+  type MarkDeliveredRequest,
+  type ShippingInfoRequest,
+} from "@/lib/api";
+import { clearCachedReads, isOfflineError, storeClear, storeDelete, storeGetAll, storePut } from "@/lib/offlineStore";
+
+export type QueuedAction =
+  | { kind: "accept_payment"; transaction_id: string; request: AcceptPaymentRequest }
+  | { kind: "mark_delivered"; transaction_id: string; request: MarkDeliveredRequest }
+  | { kind: "submit_shipping"; order_id: string; request: ShippingInfoRequest };
+
+export interface QueuedEntry {
+  id: string;
+  action: QueuedAction;
+  idempotency_key: string;
+  queued_at: string;
+  /** Failed ones were refused by the server and won't be tried again */
+  status: "pending" | "failed";
+  error: string | null;
+}
+
+// While requests keep failing without the browser noticing it went offline
+const RETRY_MS = 30_000;
+
+const listeners = new Set<() => void>();
+let replaying: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+export function newIdempotencyKey(): string {
+  return crypto.randomUUID();
+}
+
+export function describeAction(action: QueuedAction): string {
+  switch (action.kind) {
+    case "accept_payment":
+      return `Accept order ${action.transaction_id}`;
+    case "mark_delivered":
+      return `Mark ${action.transaction_id} delivered`;
+    case "submit_shipping":
+      return `Shipping details for ${action.order_id}`;
+  }
+}
+
+function send({ action, idempotency_key }: QueuedEntry): Promise<unknown> {
+  switch (action.kind) {
+    case "accept_payment":
+      return acceptPayment(action.transaction_id, action.request, idempotency_key);
+    case "mark_delivered":
+      return markPaymentDelivered(action.transaction_id, action.request, idempotency_key);
+    case "submit_shipping":
+      return submitShippingInfo(action.order_id, action.request, idempotency_key);
+  }
+}
+
+function changed() {
+  listeners.forEach((listener) => listener());
+}
+
+export function onQueueChange(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** Oldest first, the order they are replayed in */
+export async function listQueued(): Promise<QueuedEntry[]> {
+  const entries = await storeGetAll<QueuedEntry>("queue");
+  return entries.sort((a, b) => a.queued_at.localeCompare(b.queued_at));
+}
+
+/**
+ * Queues an action whose attempt failed for want of a connection. Pass the key
+ * that attempt used.
+ */
+export async function queueAction(action: QueuedAction, idempotencyKey: string): Promise<QueuedEntry> {
+  const entry: QueuedEntry = {
+    id: idempotencyKey,
+    action,
+    idempotency_key: idempotencyKey,
+    queued_at: new Date().toISOString(),
+    status: "pending",
+    error: null,
+  };
+  await storePut("queue", entry);
+  changed();
+  scheduleRetry();
+  return entry;
+}
+
+/**
+ * Queues the action when `error` means its attempt never got through. False
+ * means the caller should show the error as usual.
+ */
+export async function queueIfOffline(error: unknown, action: QueuedAction, idempotencyKey: string): Promise<boolean> {
+  if (!isOfflineError(error) || typeof indexedDB === "undefined") return false;
+  try {
+    await queueAction(action, idempotencyKey);
+    return true;
+  } catch (err) {
+    console.error("Queueing offline action failed:", err);
+    return false;
+  }
+}
+
+export function actionTarget(action: QueuedAction): string {
+  return action.kind === "submit_shipping" ? action.order_id : action.transaction_id;
+}
+
+export async function dismissQueued(id: string) {
+  await storeDelete("queue", id);
+  changed();
+}
+
+// Queued changes belong to whoever made them; the next session may be another
+// seller's, so they must not be sent under it
+async function clearQueue() {
+  await storeClear("queue");
+  changed();
+}
+
+function scheduleRetry() {
+  if (retryTimer) return;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    replayQueue();
+  }, RETRY_MS);
+}
+
+async function replayPending() {
+  for (const entry of await listQueued()) {
+    if (entry.status !== "pending") continue;
+    try {
+      await send(entry);
+      await storeDelete("queue", entry.id);
+    } catch (err) {
+      // Still offline: keep this and everything after it, in order
+      if (isOfflineError(err)) {
+        scheduleRetry();
+        return;
+      }
+      const error =
+        err instanceof UnauthorizedError
+          ? "Sign in again, then redo this."
+          : err instanceof Error
+            ? err.message
+            : "The server refused this change";
+      await storePut("queue", { ...entry, status: "failed", error } satisfies QueuedEntry);
+    } finally {
+      changed();
+    }
+  }
+}
+
+/** Sends whatever is pending. Safe to call at any time; runs once at a time. */
+export function replayQueue(): Promise<void> {
+  if (replaying) return replaying;
+  replaying = replayPending()
+    .catch((err) => console.error("Offline queue replay failed:", err))
+    .finally(() => {
+      replaying = null;
+      changed();
+    });
+  changed();
+  return replaying;
+}
+
+export function isSyncing(): boolean {
+  return replaying !== null;
+}
+
+// Called once at startup
+export function startOfflineSync() {
+  if (typeof indexedDB === "undefined") return;
+  window.addEventListener("online", () => replayQueue());
+  onSessionChange((session) => {
+    if (session) return;
+    Promise.all([clearCachedReads(), clearQueue()]).catch((err) => console.error("Offline data clear failed:", err));
+  });
+  replayQueue();
+}
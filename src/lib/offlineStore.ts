@@ -0,0 +1,92 @@
+// IndexedDB storage for working offline: recent reads to show when the
+// network is gone, and the queue of actions waiting to sync.
+import { NetworkError, TimeoutError } from "@/lib/api/errors";
+
+const DB_NAME = "payingzee";
+const DB_VERSION = 1;
+// Per-order and per-payment reads; the oldest are dropped past this
+const MAX_CACHED_READS = 50;
+
+export type OfflineStoreName = "cache" | "queue";
+
+interface CachedRead<T = unknown> {
+  key: string;
+  value: T;
+  saved_at: number;
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore("cache", { keyPath: "key" });
+      request.result.createObjectStore("queue", { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      database = null;
+      reject(request.error);
+    };
+  });
+  return database;
+}
+
+async function run<T>(storeName: OfflineStoreName, mode: IDBTransactionMode, use: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = use(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export const storeGet = <T>(storeName: OfflineStoreName, key: string) =>
+  run<T | undefined>(storeName, "readonly", (store) => store.get(key));
+
+export const storeGetAll = <T>(storeName: OfflineStoreName) => run<T[]>(storeName, "readonly", (store) => store.getAll());
+
+export const storePut = (storeName: OfflineStoreName, value: unknown) =>
+  run(storeName, "readwrite", (store) => store.put(value));
+
+export const storeDelete = (storeName: OfflineStoreName, key: string) =>
+  run(storeName, "readwrite", (store) => store.delete(key));
+
+export const storeClear = (storeName: OfflineStoreName) => run(storeName, "readwrite", (store) => store.clear());
+
+/** The request never got an answer, as opposed to the server refusing it */
+export function isOfflineError(error: unknown): boolean {
+  return error instanceof NetworkError || error instanceof TimeoutError;
+}
+
+async function saveRead(key: string, value: unknown) {
+  await storePut("cache", { key, value, saved_at: Date.now() } satisfies CachedRead);
+  const reads = await storeGetAll<CachedRead>("cache");
+  if (reads.length <= MAX_CACHED_READS) return;
+  reads.sort((a, b) => b.saved_at - a.saved_at);
+  await Promise.all(reads.slice(MAX_CACHED_READS).map((read) => storeDelete("cache", read.key)));
+}
+
+/**
+ * Loads fresh data and keeps a copy; when the network is gone, answers with
+ * the copy instead. Other errors, and reads never made online, still throw.
+ */
+export async function cachedRead<T>(key: string, load: () => Promise<T>): Promise<T> {
+  if (typeof indexedDB === "undefined") return load();
+  try {
+    const value = await load();
+    saveRead(key, value).catch((err) => console.error("Offline cache write failed:", err));
+    return value;
+  } catch (err) {
+    if (!isOfflineError(err)) throw err;
+    const cached = await storeGet<CachedRead<T>>("cache", key).catch(() => undefined);
+    if (!cached) throw err;
+    return cached.value;
+  }
+}
+
+// Cached orders belong to whoever was signed in
+export async function clearCachedReads() {
+  await storeClear("cache");
+}
@@ -0,0 +1,17 @@
+// Per-transaction access tokens from buyer/seller links. Kept in localStorage
+// so a party can come back to the page without the token in the URL.
+const storageKey = (transactionId: string) => `payingzee.access.${transactionId}`;
+
+export const ACCESS_QUERY_PARAM = "access";
+
+export function getPaymentAccessToken(transactionId: string): string | null {
+  return localStorage.getItem(storageKey(transactionId));
+}
+
+export function rememberPaymentAccessToken(transactionId: string, token: string) {
+  localStorage.setItem(storageKey(transactionId), token);
+}
+
+export function forgetPaymentAccessToken(transactionId: string) {
+  localStorage.removeItem(storageKey(transactionId));
+}
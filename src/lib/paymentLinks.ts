@@ -0,0 +1,36 @@
+import type { SalesPlatform } from "@/lib/api/types";
+import type { EscrowStatus } from "@/lib/escrow";
+
+// Choices offered when a seller extends or renews an unpaid link
+export const LINK_EXPIRY_OPTIONS = [
+  { hours: 24, label: "24 hours" },
+  { hours: 72, label: "3 days" },
+  { hours: 7 * 24, label: "7 days" },
+  { hours: 30 * 24, label: "30 days" },
+] as const;
+
+export const DEFAULT_LINK_EXPIRY_HOURS = 72;
+
+// Once paid, the seller has this long to accept before the buyer is refunded
+export const ACCEPT_WINDOW_HOURS = 48;
+
+export function isLinkExpiryOption(hours: number): boolean {
+  return LINK_EXPIRY_OPTIONS.some((option) => option.hours === hours);
+}
+
+// Unpaid links can be extended; expired ones renewed. Anything paid is an order now.
+export function canRenewLink(status: EscrowStatus): boolean {
+  return status === "AWAITING_PAYMENT" || status === "EXPIRED";
+}
+
+export const SALES_PLATFORM_LABELS: Record<SalesPlatform, string> = {
+  instagram: "Instagram",
+  whatsapp: "WhatsApp",
+  facebook: "Facebook Marketplace",
+  tiktok: "TikTok",
+  other: "Somewhere else",
+};
+
+export function isSalesPlatform(value: unknown): value is SalesPlatform {
+  return typeof value === "string" && value in SALES_PLATFORM_LABELS;
+}
@@ -0,0 +1,128 @@
+// Just enough PDF to print a statement: A4 pages of Helvetica text and rules,
+// no images or embedded fonts, so there is nothing to install
+
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+export const PAGE_MARGIN = 40;
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  muted?: boolean;
+  align?: "left" | "right";
+}
+
+interface Page {
+  ops: string[];
+}
+
+// Helvetica advance widths in 1/1000 em, close enough to right-align numbers
+function charWidth(char: string): number {
+  if (/[0-9]/.test(char)) return 556;
+  if (/[.,:;' ]/.test(char)) return 278;
+  if (/[-()]/.test(char)) return 333;
+  if (/[A-Z]/.test(char)) return 667;
+  if (/[ijlft]/.test(char)) return 250;
+  if (/[mw]/.test(char)) return 833;
+  return 556;
+}
+
+export function textWidth(text: string, size: number, bold = false): number {
+  const width = [...text].reduce((sum, char) => sum + charWidth(char), 0);
+  return (width * size * (bold ? 1.05 : 1)) / 1000;
+}
+
+// The standard fonts only cover WinAnsi: a few common symbols are mapped to
+// their slots and anything else outside Latin-1 is replaced
+function encode(text: string): string {
+  return text
+    .replace(/[\u00a0\u202f]/g, " ")
+    .replace(/[\u2013\u2014\u2212]/g, "-")
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/\u2022/g, "\x95")
+    .replace(/\u2026/g, "\x85")
+    .replace(/[^\x20-\xff]/g, "?")
+    .replace(/[\\()]/g, (c) => `\\${c}`);
+}
+
+export class PdfDocument {
+  private pages: Page[] = [];
+  /** Distance from the top of the current page, in points */
+  y = PAGE_MARGIN;
+
+  constructor() {
+    this.addPage();
+  }
+
+  addPage() {
+    this.pages.push({ ops: [] });
+    this.y = PAGE_MARGIN;
+  }
+
+  /** Starts a new page when fewer than `height` points are left */
+  ensureSpace(height: number): boolean {
+    if (this.y + height <= PAGE_HEIGHT - PAGE_MARGIN) return false;
+    this.addPage();
+    return true;
+  }
+
+  private get page(): Page {
+    return this.pages[this.pages.length - 1];
+  }
+
+  text(text: string, x: number, { size = 10, bold = false, muted = false, align = "left" }: PdfTextOptions = {}) {
+    const left = align === "right" ? x - textWidth(text, size, bold) : x;
+    const baseline = PAGE_HEIGHT - this.y - size;
+    const font = `${muted ? "0.42 g" : "0 g"} /${bold ? "F2" : "F1"} ${size} Tf`;
+    this.page.ops.push(`BT ${font} ${left.toFixed(2)} ${baseline.toFixed(2)} Td (${encode(text)}) Tj ET`);
+  }
+
+  /** Text cut to fit `width`, with an ellipsis */
+  clippedText(text: string, x: number, width: number, options: PdfTextOptions = {}) {
+    const size = options.size ?? 10;
+    if (textWidth(text, size, options.bold) <= width) return this.text(text, x, options);
+    let clipped = text;
+    while (clipped.length > 1 && textWidth(`${clipped}...`, size, options.bold) > width) clipped = clipped.slice(0, -1);
+    this.text(`${clipped.trimEnd()}...`, x, options);
+  }
+
+  rule(x1 = PAGE_MARGIN, x2 = PAGE_WIDTH - PAGE_MARGIN) {
+    const y = (PAGE_HEIGHT - this.y).toFixed(2);
+    this.page.ops.push(`0.8 G 0.5 w ${x1} ${y} m ${x2} ${y} l S`);
+  }
+
+  toBlob(): Blob {
+    const objects: string[] = [];
+    const add = (body: string) => objects.push(body);
+
+    add("<< /Type /Catalog /Pages 2 0 R >>");
+    const kids = this.pages.map((_, i) => `${5 + i * 2} 0 R`).join(" ");
+    add(`<< /Type /Pages /Kids [${kids}] /Count ${this.pages.length} >>`);
+    add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+    add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+    this.pages.forEach((page, i) => {
+      add(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`
+      );
+      const stream = page.ops.join("\n");
+      add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    });
+
+    // Every character is a single byte, so string offsets are byte offsets
+    let out = "%PDF-1.4\n";
+    const offsets = objects.map((body, i) => {
+      const offset = out.length;
+      out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+    const xref = out.length;
+    out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    out += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+    out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(out.length);
+    for (let i = 0; i < out.length; i++) bytes[i] = out.charCodeAt(i);
+    return new Blob([bytes], { type: "application/pdf" });
+  }
+}
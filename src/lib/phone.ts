@@ -0,0 +1,23 @@
+// Kenyan M-Pesa numbers in the 2547XXXXXXXX / 2541XXXXXXXX form Daraja expects
+const MPESA_PHONE = /^254(7|1)\d{8}$/;
+
+export function normalizeMpesaPhone(input: string): string | null {
+  const digits = input.replace(/[\s\-()]/g, "").replace(/^\+/, "");
+  let normalized = digits;
+  if (/^0(7|1)\d{8}$/.test(digits)) normalized = `254${digits.slice(1)}`;
+  else if (/^(7|1)\d{8}$/.test(digits)) normalized = `254${digits}`;
+  return MPESA_PHONE.test(normalized) ? normalized : null;
+}
+
+export function formatMpesaPhone(phone: string): string {
+  const normalized = normalizeMpesaPhone(phone);
+  if (!normalized) return phone;
+  return `+${normalized.slice(0, 3)} ${normalized.slice(3, 6)} ${normalized.slice(6, 9)} ${normalized.slice(9)}`;
+}
+
+// Enough for the other party to recognise the number without exposing it
+export function maskMpesaPhone(phone: string): string {
+  const normalized = normalizeMpesaPhone(phone);
+  if (!normalized) return "Unknown";
+  return `+${normalized.slice(0, 3)} ${normalized.slice(3, 4)}•• ••• ${normalized.slice(9)}`;
+}
@@ -0,0 +1,67 @@
+import { SIMULATOR_ENABLED, getPushConfig, type PushSubscriptionRequest } from "@/lib/api";
+
+export const SERVICE_WORKER_URL = "/sw.js";
+const STAND_IN_KEY = "payingzee.push.standIn";
+
+export function pushSupported(): boolean {
+  return typeof window !== "undefined" && "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+}
+
+export function registerServiceWorker() {
+  if (typeof window === "undefined" || !("serviceWorker" in navigator)) return;
+  navigator.serviceWorker.register(SERVICE_WORKER_URL).catch((err) => {
+    console.error("Service worker registration failed:", err);
+  });
+}
+
+function base64UrlToBytes(value: string) {
+  const base64 = (value + "=".repeat((4 - (value.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+function toRequest(subscription: PushSubscription): PushSubscriptionRequest {
+  const { keys } = subscription.toJSON();
+  return { endpoint: subscription.endpoint, keys: { p256dh: keys?.p256dh ?? "", auth: keys?.auth ?? "" } };
+}
+
+// The simulator has no push service to subscribe with, so a made-up endpoint
+// stands in; the simulator hands pushes to the service worker directly
+function standInSubscription(create: boolean): PushSubscriptionRequest | null {
+  const stored = localStorage.getItem(STAND_IN_KEY);
+  if (stored) return JSON.parse(stored) as PushSubscriptionRequest;
+  if (!create) return null;
+  const subscription = {
+    endpoint: `${window.location.origin}/sim-push/${crypto.randomUUID()}`,
+    keys: { p256dh: "simulated", auth: "simulated" },
+  };
+  localStorage.setItem(STAND_IN_KEY, JSON.stringify(subscription));
+  return subscription;
+}
+
+/** This browser's subscription, if it has one and notifications are still allowed */
+export async function getPushSubscription(): Promise<PushSubscriptionRequest | null> {
+  if (!pushSupported() || Notification.permission !== "granted") return null;
+  if (SIMULATOR_ENABLED) return standInSubscription(false);
+  const registration = await navigator.serviceWorker.getRegistration();
+  const subscription = await registration?.pushManager.getSubscription();
+  return subscription ? toRequest(subscription) : null;
+}
+
+/**
+ * Asks for permission if needed and subscribes this browser. Resolves to null
+ * when the user doesn't allow notifications. One subscription serves every
+ * audience in the browser; the server records who it is for.
+ */
+export async function createPushSubscription(): Promise<PushSubscriptionRequest | null> {
+  if ((await Notification.requestPermission()) !== "granted") return null;
+  if (SIMULATOR_ENABLED) return standInSubscription(true);
+  const registration = await navigator.serviceWorker.ready;
+  const existing = await registration.pushManager.getSubscription();
+  if (existing) return toRequest(existing);
+  const { public_key } = await getPushConfig();
+  const subscription = await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: base64UrlToBytes(public_key),
+  });
+  return toRequest(subscription);
+}
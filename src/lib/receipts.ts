@@ -0,0 +1,96 @@
+import type { Receipt } from "@/lib/api/types";
+import { formatMoney, money } from "@/lib/money";
+import { PAGE_MARGIN, PAGE_WIDTH, PdfDocument } from "@/lib/pdf";
+import { downloadFile } from "@/lib/share";
+import { TRANSACTION_EVENT_LABELS } from "@/lib/transactionHistory";
+
+export const RECEIPT_VERIFY_PATH = "/receipts/verify";
+
+// Codes are shown as XXXX-XXXX-XXXX but typed any old way
+export function normalizeVerificationCode(input: string): string {
+  return input.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+export function formatVerificationCode(code: string): string {
+  return normalizeVerificationCode(code).replace(/(.{4})(?=.)/g, "$1-");
+}
+
+export function receiptVerifyUrl(code: string, origin = window.location.origin): string {
+  return `${origin}${RECEIPT_VERIFY_PATH}?code=${encodeURIComponent(formatVerificationCode(code))}`;
+}
+
+export function receiptFilename(receipt: Receipt): string {
+  return `payingzee-receipt-${receipt.receipt_number}.pdf`;
+}
+
+const RIGHT_EDGE = PAGE_WIDTH - PAGE_MARGIN;
+
+export function receiptPdf(receipt: Receipt): Blob {
+  const format = (amount: number) => formatMoney(money(amount, receipt.currency));
+  const when = (date: string) => new Date(date).toLocaleString("en-KE");
+  const pdf = new PdfDocument();
+
+  const row = (label: string, value: string, bold = false) => {
+    pdf.ensureSpace(16);
+    pdf.text(label, PAGE_MARGIN, { muted: !bold, bold });
+    pdf.text(value, RIGHT_EDGE, { bold, align: "right" });
+    pdf.y += 16;
+  };
+  const section = (title: string) => {
+    pdf.ensureSpace(40);
+    pdf.y += 12;
+    pdf.text(title.toUpperCase(), PAGE_MARGIN, { size: 8, bold: true, muted: true });
+    pdf.y += 12;
+    pdf.rule();
+    pdf.y += 6;
+  };
+
+  pdf.text("Paying-zee", PAGE_MARGIN, { size: 9, bold: true, muted: true });
+  pdf.text(`Receipt ${receipt.receipt_number}`, RIGHT_EDGE, { size: 9, muted: true, align: "right" });
+  pdf.y += 18;
+  pdf.text("Escrow receipt", PAGE_MARGIN, { size: 18, bold: true });
+  pdf.y += 26;
+  pdf.text(receipt.product_name ?? "Payment", PAGE_MARGIN, { size: 12 });
+  pdf.y += 16;
+  if (receipt.description) {
+    pdf.clippedText(receipt.description, PAGE_MARGIN, RIGHT_EDGE - PAGE_MARGIN, { muted: true });
+    pdf.y += 14;
+  }
+
+  section("Transaction");
+  row("Transaction ID", receipt.transaction_id);
+  row("Buyer", receipt.buyer);
+  row("Seller", receipt.seller);
+  row("Completed", when(receipt.completed_at));
+  row("Issued", when(receipt.issued_at));
+
+  section("Amounts");
+  row("Item price", format(receipt.fees.item_price));
+  row("Escrow fee", format(receipt.fees.escrow_fee));
+  row("M-Pesa charges", format(receipt.fees.mpesa_fee));
+  const feeNote =
+    receipt.fees.fee_payer === "buyer" ? "Fees were added to the buyer's total" : "Fees were taken from the seller's payout";
+  pdf.text(feeNote, PAGE_MARGIN, { size: 9, muted: true });
+  pdf.y += 16;
+  row("Buyer paid", format(receipt.fees.buyer_total), true);
+  row("Released to the seller", format(receipt.released_amount), true);
+  if (receipt.refunded_amount > 0) row("Refunded to the buyer", format(receipt.refunded_amount), true);
+
+  if (receipt.mpesa_references.length > 0) {
+    section("M-Pesa references");
+    receipt.mpesa_references.forEach((ref) => row(ref.label, ref.reference));
+  }
+
+  section("History");
+  receipt.history.forEach((event) => row(TRANSACTION_EVENT_LABELS[event.type], when(event.created_at)));
+
+  section("Verification");
+  pdf.text(formatVerificationCode(receipt.verification_code), PAGE_MARGIN, { size: 14, bold: true });
+  pdf.y += 20;
+  pdf.text(`Check this receipt at ${receiptVerifyUrl(receipt.verification_code)}`, PAGE_MARGIN, { size: 9, muted: true });
+  return pdf.toBlob();
+}
+
+export function downloadReceipt(receipt: Receipt) {
+  downloadFile(receiptPdf(receipt), receiptFilename(receipt));
+}
@@ -0,0 +1,36 @@
+import { PAYMENT_ACCESS_HEADER } from "@/lib/api/payments";
+import type { PaymentViewerRole } from "@/lib/escrow";
+import { SimError } from "./router";
+import { simId, type SimPayment, type SimPaymentAccess } from "./state";
+
+// The real API signs these; the simulator only needs them to be unguessable
+// enough to tell the parties apart.
+export function issueAccessTokens(): SimPaymentAccess {
+  return { checkout: simId("pat_chk"), seller: simId("pat_sel"), buyer: null };
+}
+
+export function issueBuyerToken(payment: SimPayment): string {
+  payment.access.buyer = simId("pat_buy");
+  return payment.access.buyer;
+}
+
+// The shared checkout token only makes you the buyer until someone pays;
+// after that the payer's own token is required.
+export function viewerRole(payment: SimPayment, headers: Headers): PaymentViewerRole {
+  const token = headers.get(PAYMENT_ACCESS_HEADER);
+  if (!token) return "public";
+  if (token === payment.access.seller) return "seller";
+  if (token === payment.access.buyer) return "buyer";
+  if (token === payment.access.checkout && payment.status === "AWAITING_PAYMENT") return "buyer";
+  return "public";
+}
+
+export function requireRole(payment: SimPayment, headers: Headers, role: Exclude<PaymentViewerRole, "public">) {
+  if (viewerRole(payment, headers) !== role) {
+    throw new SimError(403, `Only the ${role} can do this. Open the payment from your ${role} link.`);
+  }
+}
+
+export function accessUrl(payment: SimPayment, token: string): string {
+  return `${window.location.origin}/pay/${payment.transaction_id}?access=${encodeURIComponent(token)}`;
+}
@@ -0,0 +1,90 @@
+import type { AnalyticsPoint, AnalyticsSummary, SellerAnalytics } from "@/lib/api/types";
+import {
+  bucketStarts,
+  granularityFor,
+  previousPeriod,
+  toDateKey,
+  validateAnalyticsRange,
+  type DateRange,
+} from "@/lib/analytics";
+import { orderStatusFor } from "@/lib/escrow";
+import { DEFAULT_CURRENCY } from "@/lib/money";
+import { isSalesPlatform } from "@/lib/paymentLinks";
+import { requireSession } from "./auth";
+import { settlePayment } from "./payments";
+import { SimError, ok, route } from "./router";
+import { getState, type SimPayment } from "./state";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const percent = (part: number, whole: number) => (whole ? Math.round((part / whole) * 100) : null);
+
+// What the seller was credited: their net after fees, or their share when a
+// dispute was settled with a split
+function sellerCredit(p: SimPayment): number {
+  const resolution = p.dispute_id ? getState().disputes[p.dispute_id]?.resolution : undefined;
+  return resolution?.outcome === "settled" ? (resolution.release_amount ?? 0) : p.fees.seller_net;
+}
+
+// Same definitions as the performance cards, so the numbers agree
+function summarize(orders: SimPayment[]): AnalyticsSummary {
+  const decided = orders.filter((p) => p.status !== "ESCROWED");
+  const accepted = decided.filter((p) => p.accepted_at);
+  const deliveryHours = accepted
+    .filter((p) => p.delivered_at)
+    .map((p) => (new Date(p.delivered_at!).getTime() - new Date(p.accepted_at!).getTime()) / HOUR_MS);
+
+  return {
+    // Only money the seller keeps: anything still in escrow could yet be refunded
+    revenue: orders.filter((p) => p.status === "COMPLETED").reduce((sum, p) => sum + sellerCredit(p), 0),
+    orders: orders.length,
+    acceptance_rate: percent(accepted.length, decided.length),
+    dispute_rate: percent(orders.filter((p) => p.dispute_id).length, orders.length),
+    average_delivery_hours: deliveryHours.length
+      ? Math.round((deliveryHours.reduce((sum, h) => sum + h, 0) / deliveryHours.length) * 10) / 10
+      : null,
+  };
+}
+
+// Orders count towards the day they were paid
+const paidOn = (p: SimPayment) => toDateKey(new Date(p.paid_at!));
+
+const within = (range: DateRange) => (p: SimPayment) => {
+  const day = paidOn(p);
+  return day >= range.from && day <= range.to;
+};
+
+route("GET", "/api/v1/seller/analytics", ({ headers, query }) => {
+  requireSession(headers);
+  const range = { from: query.get("from") ?? "", to: query.get("to") ?? "" };
+  const invalid = validateAnalyticsRange(range);
+  if (invalid) throw new SimError(422, invalid);
+  const platform = query.get("platform");
+  if (platform !== null && !isSalesPlatform(platform)) throw new SimError(422, "Unknown platform");
+  const currency = query.get("currency") ?? DEFAULT_CURRENCY;
+
+  const payments = Object.values(getState().payments);
+  payments.forEach(settlePayment);
+  const orders = payments.filter(
+    (p) => p.paid_at && orderStatusFor(p.status) && p.currency === currency && (!platform || p.platform === platform)
+  );
+
+  const current = orders.filter(within(range));
+  const granularity = granularityFor(range);
+  const starts = bucketStarts(range, granularity);
+  const series: AnalyticsPoint[] = starts.map((date, index) => {
+    const next = starts[index + 1];
+    return { date, ...summarize(current.filter((p) => paidOn(p) >= date && (!next || paidOn(p) < next))) };
+  });
+
+  const analytics: SellerAnalytics = {
+    ...range,
+    currency,
+    platform,
+    granularity,
+    series,
+    summary: summarize(current),
+    previous: summarize(orders.filter(within(previousPeriod(range)))),
+  };
+  return ok({ data: analytics });
+});
@@ -0,0 +1,113 @@
+import type { AuthSession, AuthUser } from "@/lib/api/types";
+import { normalizeMpesaPhone } from "@/lib/phone";
+import { SimError, ok, route } from "./router";
+import { getState, saveState, simId } from "./state";
+
+// Every OTP the simulator sends is this code
+export const SIM_OTP_CODE = "123456";
+
+const OTP_TTL_S = 5 * 60;
+const OTP_RESEND_S = 30;
+const OTP_MAX_ATTEMPTS = 5;
+const ACCESS_TTL_S = 15 * 60;
+const REFRESH_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface SimOtpChallenge {
+  phone_number: string;
+  expires_at: number;
+  resend_at: number;
+  attempts: number;
+}
+
+export interface SimSession {
+  user: AuthUser;
+  access_token: string;
+  access_expires_at: number;
+  refresh_expires_at: number;
+}
+
+function issueSession(user: AuthUser): AuthSession {
+  const now = Date.now();
+  const refreshToken = simId("rt");
+  const session: SimSession = {
+    user,
+    access_token: simId("at"),
+    access_expires_at: now + ACCESS_TTL_S * 1000,
+    refresh_expires_at: now + REFRESH_TTL_MS,
+  };
+  getState().sessions[refreshToken] = session;
+  saveState();
+  return { access_token: session.access_token, refresh_token: refreshToken, expires_in: ACCESS_TTL_S, user };
+}
+
+// Seller routes call this before touching seller data
+export function requireSession(headers: Headers): AuthUser {
+  const token = headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  const session = token && Object.values(getState().sessions).find((s) => s.access_token === token);
+  if (!session || session.access_expires_at <= Date.now()) {
+    throw new SimError(401, "Your session has expired. Please sign in again.");
+  }
+  return session.user;
+}
+
+route("POST", "/api/v1/auth/otp", ({ body }) => {
+  const phone = normalizeMpesaPhone(String((body as { phone_number?: unknown })?.phone_number ?? ""));
+  if (!phone) throw new SimError(422, "Enter a valid Safaricom number");
+
+  const { otpChallenges } = getState();
+  const now = Date.now();
+  const recent = Object.values(otpChallenges).find((c) => c.phone_number === phone && c.resend_at > now);
+  if (recent) throw new SimError(429, "Please wait before requesting another code");
+
+  const requestId = simId("otp");
+  otpChallenges[requestId] = {
+    phone_number: phone,
+    expires_at: now + OTP_TTL_S * 1000,
+    resend_at: now + OTP_RESEND_S * 1000,
+    attempts: 0,
+  };
+  saveState();
+  return ok({ request_id: requestId, expires_in: OTP_TTL_S, resend_in: OTP_RESEND_S }, 201);
+});
+
+route("POST", "/api/v1/auth/otp/verify", ({ body }) => {
+  const { request_id, code } = (body ?? {}) as { request_id?: string; code?: string };
+  const { otpChallenges } = getState();
+  const challenge = request_id ? otpChallenges[request_id] : undefined;
+  if (!challenge || challenge.expires_at <= Date.now()) {
+    throw new SimError(422, "This code has expired. Request a new one.");
+  }
+
+  if (code?.trim() !== SIM_OTP_CODE) {
+    challenge.attempts += 1;
+    if (challenge.attempts >= OTP_MAX_ATTEMPTS) delete otpChallenges[request_id!];
+    saveState();
+    throw new SimError(
+      422,
+      challenge.attempts >= OTP_MAX_ATTEMPTS ? "Too many attempts. Request a new code." : "That code is incorrect"
+    );
+  }
+
+  delete otpChallenges[request_id!];
+  return ok(issueSession({ id: `usr-${challenge.phone_number}`, phone_number: challenge.phone_number, name: null }));
+});
+
+route("POST", "/api/v1/auth/refresh", ({ body }) => {
+  const { refresh_token } = (body ?? {}) as { refresh_token?: string };
+  const { sessions } = getState();
+  const session = refresh_token ? sessions[refresh_token] : undefined;
+  if (!session || session.refresh_expires_at <= Date.now()) {
+    throw new SimError(401, "Your session has expired. Please sign in again.");
+  }
+
+  // Refresh tokens are single use
+  delete sessions[refresh_token!];
+  return ok(issueSession(session.user));
+});
+
+route("POST", "/api/v1/auth/logout", ({ body }) => {
+  const { refresh_token } = (body ?? {}) as { refresh_token?: string };
+  if (refresh_token) delete getState().sessions[refresh_token];
+  saveState();
+  return ok(undefined, 204);
+});
@@ -0,0 +1,509 @@
+import type {
+  Dispute,
+  DisputeEvidence,
+  DisputeMessage,
+  DisputeOutcome,
+  DisputeReason,
+  EvidenceCategory,
+  SettlementOffer,
+  SettlementOfferRequest,
+} from "@/lib/api/types";
+import {
+  DISPUTE_REASONS,
+  EVIDENCE_CATEGORIES,
+  MIN_DESCRIPTION_LENGTH,
+  canReportProblem,
+  canRespondToOffer,
+  evidenceKind,
+  evidenceRequired,
+  pendingOffer,
+  validateCategoryEvidence,
+  validateEvidence,
+  validateSettlementRefund,
+} from "@/lib/disputes";
+import { formatMoney, money } from "@/lib/money";
+import { maskMpesaPhone } from "@/lib/phone";
+import { requireRole } from "./access";
+import { requireSession } from "./auth";
+import { onTick, publish } from "./events";
+import { recordEvent } from "./history";
+import { notify } from "./notifications";
+import { findPayment, transitionPayment } from "./payments";
+import { SimError, ok, route } from "./router";
+import { sendSms } from "./sms";
+import { getState, saveState, simId } from "./state";
+import { storedFileUrl } from "./uploads";
+import { creditSeller, recordRefund } from "./wallet";
+
+const SELLER_RESPONSE_WINDOW_MS = 48 * 60 * 60 * 1000;
+// Sellers who haven't responded get a nudge this close to the deadline
+const DEADLINE_REMINDER_MS = 12 * 60 * 60 * 1000;
+// How long the simulated admin takes to decide once the seller has responded
+const REVIEW_DELAY_MS = 30_000;
+const ADMIN_REPLY_DELAY_MS = 5_000;
+
+export interface SimDispute extends Dispute {
+  review_at?: number | null;
+  /** Set once the deadline reminder has gone out, whichever channels carried it */
+  deadline_reminded_at?: string | null;
+}
+
+export interface SimDisputeMessage extends DisputeMessage {
+  /** Admin replies become visible at this time */
+  deliver_at: number;
+  /** Whether streams have been told about it; delayed replies wait for a tick */
+  announced: boolean;
+}
+
+export function storeEvidence(
+  file: File,
+  submittedBy: DisputeEvidence["submitted_by"],
+  category: EvidenceCategory | null = null
+): DisputeEvidence {
+  return {
+    id: simId("ev"),
+    url: storedFileUrl(file),
+    name: file.name,
+    kind: evidenceKind(file) ?? "image",
+    size: file.size,
+    submitted_by: submittedBy,
+    category,
+    uploaded_at: new Date().toISOString(),
+  };
+}
+
+export function toDispute(dispute: SimDispute): Dispute {
+  const { review_at: _reviewAt, deadline_reminded_at: _remindedAt, ...rest } = dispute;
+  return rest;
+}
+
+function findDispute(disputeId: string): SimDispute {
+  const dispute = getState().disputes[disputeId];
+  if (!dispute) throw new SimError(404, "Dispute not found");
+  return dispute;
+}
+
+function postMessage(disputeId: string, sender: DisputeMessage["sender"], text: string, delayMs = 0) {
+  const { disputeMessages } = getState();
+  const now = Date.now();
+  const message: SimDisputeMessage = {
+    id: simId("msg"),
+    dispute_id: disputeId,
+    sender,
+    text,
+    created_at: new Date(now + delayMs).toISOString(),
+    read: false,
+    deliver_at: now + delayMs,
+    announced: delayMs === 0,
+  };
+  (disputeMessages[disputeId] ??= []).push(message);
+  if (message.announced) publish("dispute.message", findDispute(disputeId).transaction_id, message.id);
+  return message;
+}
+
+export function toDisputeMessage(message: SimDisputeMessage): DisputeMessage {
+  const { deliver_at: _deliverAt, announced: _announced, ...rest } = message;
+  return rest;
+}
+
+function announceDueMessages() {
+  const now = Date.now();
+  let announced = false;
+  Object.values(getState().disputeMessages).forEach((thread) =>
+    thread
+      .filter((m) => !m.announced && m.deliver_at <= now)
+      .forEach((m) => {
+        m.announced = announced = true;
+        publish("dispute.message", findDispute(m.dispute_id).transaction_id, m.id);
+      })
+  );
+  if (announced) saveState();
+}
+
+function resolve(dispute: SimDispute, outcome: DisputeOutcome, note: string, party: "admin" | "seller" = "admin") {
+  const payment = findPayment(dispute.transaction_id);
+  if (outcome === "released_to_seller") {
+    transitionPayment(payment, "release_to_seller", "admin", { detail: note });
+    creditSeller(payment, payment.escrowed_amount);
+  } else {
+    transitionPayment(payment, "refund_buyer", party, { detail: note });
+  }
+  payment.escrowed_amount = 0;
+  closeDispute(dispute, { outcome, note, resolved_at: new Date().toISOString() });
+  if (party === "admin") postMessage(dispute.id, "admin", note);
+}
+
+function closeDispute(dispute: SimDispute, resolution: NonNullable<Dispute["resolution"]>) {
+  const now = resolution.resolved_at;
+  dispute.offers.forEach((offer) => {
+    if (offer.status !== "pending") return;
+    offer.status = "withdrawn";
+    offer.responded_at = now;
+  });
+  dispute.status = "resolved";
+  dispute.review_at = null;
+  dispute.resolution = resolution;
+  publish("dispute.updated", dispute.transaction_id, dispute.id);
+}
+
+// A new offer replaces whatever was pending: the other party's is countered,
+// the proposer's own earlier one is withdrawn
+function proposeSettlement(dispute: SimDispute, party: SettlementOffer["proposed_by"], body: unknown) {
+  settle(dispute);
+  if (dispute.status === "resolved") throw new SimError(409, "This dispute is already resolved");
+  const { refund_amount: refund, note } = (body ?? {}) as Partial<SettlementOfferRequest>;
+  const invalid = validateSettlementRefund(Number(refund), dispute.amount);
+  if (invalid) throw new SimError(422, invalid);
+
+  const now = new Date().toISOString();
+  const previous = pendingOffer(dispute);
+  if (previous) {
+    previous.status = previous.proposed_by === party ? "withdrawn" : "countered";
+    previous.responded_at = now;
+  }
+  const offer: SettlementOffer = {
+    id: simId("off"),
+    proposed_by: party,
+    refund_amount: Number(refund),
+    release_amount: dispute.amount - Number(refund),
+    note: note?.trim() || null,
+    status: "pending",
+    created_at: now,
+    responded_at: null,
+  };
+  dispute.offers.push(offer);
+
+  const payment = findPayment(dispute.transaction_id);
+  const item = payment.product_name ?? "your order";
+  const split = `${formatMoney(money(offer.refund_amount, dispute.currency))} back to the buyer and ${formatMoney(
+    money(offer.release_amount, dispute.currency)
+  )} to the seller`;
+  recordEvent(payment, "settlement_offered", party, { detail: split });
+  if (party === "buyer") {
+    notify(
+      "settlement_offered",
+      "Settlement offered",
+      `The buyer offered to settle the dispute on ${item}: ${split}. Reply from your dashboard.`,
+      { kind: "dispute", id: dispute.id }
+    );
+  } else {
+    sendSms(payment.buyer_phone, `The seller offered to settle your dispute on ${item}: ${split}. Reply from your payment link.`);
+  }
+  publish("dispute.updated", dispute.transaction_id, dispute.id);
+  saveState();
+  return offer;
+}
+
+function findOffer(dispute: SimDispute, offerId: string, party: SettlementOffer["proposed_by"]): SettlementOffer {
+  const offer = dispute.offers.find((o) => o.id === offerId);
+  if (!offer) throw new SimError(404, "Offer not found");
+  if (dispute.status === "resolved") throw new SimError(409, "This dispute is already resolved");
+  if (!canRespondToOffer(offer, party)) throw new SimError(409, "This offer can't be answered any more");
+  return offer;
+}
+
+// Accepting splits the escrow: part refunded to the buyer, the rest released
+function acceptSettlement(dispute: SimDispute, offerId: string, party: SettlementOffer["proposed_by"]) {
+  settle(dispute);
+  const offer = findOffer(dispute, offerId, party);
+  const payment = findPayment(dispute.transaction_id);
+  const now = new Date().toISOString();
+  const refund = formatMoney(money(offer.refund_amount, dispute.currency));
+  const release = formatMoney(money(offer.release_amount, dispute.currency));
+
+  transitionPayment(payment, "settle", party, {
+    detail: `${refund} refunded to the buyer, ${release} released to the seller`,
+    amount: payment.escrowed_amount,
+  });
+  creditSeller(payment, offer.release_amount, "Dispute settled, your share");
+  recordRefund(payment, offer.refund_amount, "Dispute settled, refunded to the buyer");
+  payment.escrowed_amount = 0;
+
+  offer.status = "accepted";
+  offer.responded_at = now;
+  const note = `Settled by agreement: ${refund} refunded to the buyer and ${release} released to the seller.`;
+  closeDispute(dispute, {
+    outcome: "settled",
+    note,
+    resolved_at: now,
+    refund_amount: offer.refund_amount,
+    release_amount: offer.release_amount,
+  });
+  postMessage(dispute.id, "admin", note);
+
+  const item = payment.product_name ?? "your order";
+  sendSms(payment.buyer_phone, `Your dispute on ${item} is settled. ${refund} is being refunded to your M-Pesa.`);
+  notify(
+    "dispute_settled",
+    "Dispute settled",
+    `The dispute on ${item} is settled. ${release} has been released to your wallet.`,
+    { kind: "dispute", id: dispute.id }
+  );
+  saveState();
+}
+
+function declineSettlement(dispute: SimDispute, offerId: string, party: SettlementOffer["proposed_by"]) {
+  settle(dispute);
+  const offer = findOffer(dispute, offerId, party);
+  offer.status = "declined";
+  offer.responded_at = new Date().toISOString();
+  publish("dispute.updated", dispute.transaction_id, dispute.id);
+  saveState();
+}
+
+// Decisions happen lazily when a dispute is read, like the other timers here.
+// The simulated admin sides with sellers who proved delivery.
+function settle(dispute: SimDispute) {
+  const now = Date.now();
+  const deadline = new Date(dispute.response_deadline).getTime();
+  if (dispute.status === "open" && now < deadline && now >= deadline - DEADLINE_REMINDER_MS) {
+    if (dispute.deadline_reminded_at) return;
+    dispute.deadline_reminded_at = new Date().toISOString();
+    notify(
+      "dispute_deadline",
+      "Dispute deadline approaching",
+      `Respond to the dispute on ${dispute.product_name ?? "your order"} by ` +
+        `${new Date(deadline).toLocaleString("en-KE")} or the buyer is refunded automatically.`,
+      { kind: "dispute", id: dispute.id }
+    );
+  } else if (dispute.status === "open" && now >= deadline) {
+    resolve(dispute, "refunded_to_buyer", "The seller did not respond before the deadline, so the buyer was refunded.");
+  } else if (dispute.status === "under_review" && dispute.review_at && now >= dispute.review_at) {
+    const provedDelivery = dispute.evidence.some((e) => e.submitted_by === "seller" && e.category === "delivery");
+    if (provedDelivery && dispute.reason !== "counterfeit") {
+      resolve(dispute, "released_to_seller", "The delivery evidence checks out. Funds have been released to the seller.");
+    } else {
+      resolve(dispute, "refunded_to_buyer", "We couldn't confirm delivery from the evidence provided, so the buyer was refunded.");
+    }
+  } else {
+    return;
+  }
+  saveState();
+}
+
+onTick(() => {
+  Object.values(getState().disputes).forEach(settle);
+  announceDueMessages();
+});
+
+route("POST", "/api/v1/payments/:id/disputes", ({ params, headers, body }) => {
+  const payment = findPayment(params.id);
+  requireRole(payment, headers, "buyer");
+  if (!(body instanceof FormData)) throw new SimError(400, "Expected multipart form data");
+
+  const reason = String(body.get("reason") ?? "") as DisputeReason;
+  const description = String(body.get("description") ?? "").trim();
+  const files = body.getAll("evidence").filter((f): f is File => f instanceof File);
+
+  if (!(reason in DISPUTE_REASONS)) throw new SimError(422, "Choose what went wrong");
+  if (description.length < MIN_DESCRIPTION_LENGTH) {
+    throw new SimError(422, `Describe the problem in at least ${MIN_DESCRIPTION_LENGTH} characters`);
+  }
+  const invalid = validateEvidence(files);
+  if (invalid) throw new SimError(422, invalid);
+  if (evidenceRequired(reason) && files.length === 0) {
+    throw new SimError(422, "Attach at least one photo or video of the problem");
+  }
+  if (payment.status === "ACTIVE" && !canReportProblem(payment.status, payment.estimated_delivery_at)) {
+    throw new SimError(409, "You can report a problem once the delivery estimate has passed");
+  }
+
+  transitionPayment(payment, "open_dispute", "buyer");
+
+  const now = Date.now();
+  const dispute: SimDispute = {
+    id: simId("dsp"),
+    transaction_id: payment.transaction_id,
+    product_name: payment.product_name,
+    amount: payment.escrowed_amount,
+    currency: payment.currency,
+    reason,
+    description,
+    status: "open",
+    evidence: files.map((file) => storeEvidence(file, "buyer")),
+    opened_at: new Date(now).toISOString(),
+    response_deadline: new Date(now + SELLER_RESPONSE_WINDOW_MS).toISOString(),
+    buyer: maskMpesaPhone(payment.buyer_phone ?? ""),
+    seller_response: null,
+    resolution: null,
+    offers: [],
+  };
+  getState().disputes[dispute.id] = dispute;
+  payment.dispute_id = dispute.id;
+  notify(
+    "dispute_opened",
+    "Dispute opened",
+    `The buyer of ${payment.product_name ?? "your order"} reported a problem: ${DISPUTE_REASONS[reason]}. ` +
+      `Respond by ${new Date(dispute.response_deadline).toLocaleString("en-KE")}.`,
+    { kind: "dispute", id: dispute.id }
+  );
+  publish("dispute.updated", dispute.transaction_id, dispute.id);
+  saveState();
+  return ok(toDispute(dispute), 201);
+});
+
+function paymentDispute(transactionId: string, headers: Headers): SimDispute {
+  const payment = findPayment(transactionId);
+  requireRole(payment, headers, "buyer");
+  if (!payment.dispute_id) throw new SimError(404, "There is no dispute on this payment");
+  const dispute = findDispute(payment.dispute_id);
+  settle(dispute);
+  return dispute;
+}
+
+route("GET", "/api/v1/payments/:id/dispute", ({ params, headers }) => {
+  return ok(toDispute(paymentDispute(params.id, headers)));
+});
+
+route("POST", "/api/v1/payments/:id/dispute/offers", ({ params, headers, body }) => {
+  const dispute = paymentDispute(params.id, headers);
+  proposeSettlement(dispute, "buyer", body);
+  return ok(toDispute(dispute), 201);
+});
+
+route("POST", "/api/v1/payments/:id/dispute/offers/:offerId/accept", ({ params, headers }) => {
+  const dispute = paymentDispute(params.id, headers);
+  acceptSettlement(dispute, params.offerId, "buyer");
+  return ok(toDispute(dispute));
+});
+
+route("POST", "/api/v1/payments/:id/dispute/offers/:offerId/decline", ({ params, headers }) => {
+  const dispute = paymentDispute(params.id, headers);
+  declineSettlement(dispute, params.offerId, "buyer");
+  return ok(toDispute(dispute));
+});
+
+route("GET", "/api/v1/seller/disputes", ({ headers }) => {
+  requireSession(headers);
+  const disputes = Object.values(getState().disputes);
+  disputes.forEach(settle);
+  return ok({ data: disputes.sort((a, b) => b.opened_at.localeCompare(a.opened_at)).map(toDispute) });
+});
+
+route("GET", "/api/v1/seller/disputes/:id", ({ params, headers }) => {
+  requireSession(headers);
+  const dispute = findDispute(params.id);
+  settle(dispute);
+  return ok({ data: toDispute(dispute) });
+});
+
+route("POST", "/api/v1/seller/disputes/:id/evidence", ({ params, headers, body }) => {
+  requireSession(headers);
+  const dispute = findDispute(params.id);
+  if (dispute.status !== "open") throw new SimError(409, "Evidence can only be added while the dispute is open");
+  if (!(body instanceof FormData)) throw new SimError(400, "Expected multipart form data");
+
+  const category = String(body.get("category") ?? "") as EvidenceCategory;
+  const file = body.get("file");
+  if (!(category in EVIDENCE_CATEGORIES)) throw new SimError(422, "Unknown evidence category");
+  if (!(file instanceof File)) throw new SimError(422, "Attach a file");
+  const invalid = validateCategoryEvidence(file, category);
+  if (invalid) throw new SimError(422, invalid);
+
+  const evidence = storeEvidence(file, "seller", category);
+  dispute.evidence.push(evidence);
+  recordEvent(findPayment(dispute.transaction_id), "evidence_added", "seller", { detail: EVIDENCE_CATEGORIES[category].label });
+  publish("dispute.updated", dispute.transaction_id, dispute.id);
+  saveState();
+  return ok({ data: evidence }, 201);
+});
+
+route("DELETE", "/api/v1/seller/disputes/:id/evidence/:evidenceId", ({ params, headers }) => {
+  requireSession(headers);
+  const dispute = findDispute(params.id);
+  const evidence = dispute.evidence.find((e) => e.id === params.evidenceId && e.submitted_by === "seller");
+  if (!evidence) throw new SimError(404, "Evidence not found");
+  if (dispute.status !== "open") throw new SimError(409, "Submitted evidence can't be removed");
+  dispute.evidence = dispute.evidence.filter((e) => e !== evidence);
+  publish("dispute.updated", dispute.transaction_id, dispute.id);
+  saveState();
+  return ok(undefined, 204);
+});
+
+route("POST", "/api/v1/seller/disputes/:id/response", ({ params, headers, body }) => {
+  requireSession(headers);
+  const dispute = findDispute(params.id);
+  settle(dispute);
+  if (dispute.status !== "open") throw new SimError(409, "This dispute is no longer accepting responses");
+
+  const explanation = String((body as { explanation?: unknown })?.explanation ?? "").trim();
+  if (explanation.length < MIN_DESCRIPTION_LENGTH) {
+    throw new SimError(422, `Explain your side in at least ${MIN_DESCRIPTION_LENGTH} characters`);
+  }
+  if (!dispute.evidence.some((e) => e.submitted_by === "seller")) {
+    throw new SimError(422, "Upload at least one piece of evidence before submitting");
+  }
+
+  dispute.status = "under_review";
+  dispute.seller_response = { explanation, submitted_at: new Date().toISOString() };
+  dispute.review_at = Date.now() + REVIEW_DELAY_MS;
+  recordEvent(findPayment(dispute.transaction_id), "dispute_responded", "seller");
+  publish("dispute.updated", dispute.transaction_id, dispute.id);
+  saveState();
+  return ok({ data: toDispute(dispute) });
+});
+
+route("POST", "/api/v1/seller/disputes/:id/refund", ({ params, headers }) => {
+  requireSession(headers);
+  const dispute = findDispute(params.id);
+  settle(dispute);
+  if (dispute.status === "resolved") throw new SimError(409, "This dispute is already resolved");
+
+  resolve(dispute, "refunded_to_buyer", "The seller accepted the refund.", "seller");
+  saveState();
+  return ok({ data: toDispute(dispute) });
+});
+
+route("POST", "/api/v1/seller/disputes/:id/offers", ({ params, headers, body }) => {
+  requireSession(headers);
+  const dispute = findDispute(params.id);
+  proposeSettlement(dispute, "seller", body);
+  return ok({ data: toDispute(dispute) }, 201);
+});
+
+route("POST", "/api/v1/seller/disputes/:id/offers/:offerId/accept", ({ params, headers }) => {
+  requireSession(headers);
+  const dispute = findDispute(params.id);
+  acceptSettlement(dispute, params.offerId, "seller");
+  return ok({ data: toDispute(dispute) });
+});
+
+route("POST", "/api/v1/seller/disputes/:id/offers/:offerId/decline", ({ params, headers }) => {
+  requireSession(headers);
+  const dispute = findDispute(params.id);
+  declineSettlement(dispute, params.offerId, "seller");
+  return ok({ data: toDispute(dispute) });
+});
+
+route("GET", "/api/v1/seller/disputes/:id/messages", ({ params, headers }) => {
+  requireSession(headers);
+  findDispute(params.id);
+  const now = Date.now();
+  const messages = (getState().disputeMessages[params.id] ?? []).filter((m) => m.deliver_at <= now);
+  const response = messages.map(toDisputeMessage);
+  messages.forEach((m) => {
+    if (m.sender === "admin") m.read = true;
+  });
+  saveState();
+  return ok({ data: response });
+});
+
+route("POST", "/api/v1/seller/disputes/:id/messages", ({ params, headers, body }) => {
+  requireSession(headers);
+  const dispute = findDispute(params.id);
+  const text = String((body as { text?: unknown })?.text ?? "").trim();
+  if (!text) throw new SimError(422, "Message can't be empty");
+
+  const message = toDisputeMessage(postMessage(dispute.id, "seller", text));
+  const thread = getState().disputeMessages[dispute.id];
+  if (dispute.status !== "resolved" && !thread.some((m) => m.sender === "admin")) {
+    postMessage(
+      dispute.id,
+      "admin",
+      "Thanks for reaching out. A member of our disputes team is looking at this and will update you here.",
+      ADMIN_REPLY_DELAY_MS
+    );
+  }
+  saveState();
+  return ok({ data: message }, 201);
+});
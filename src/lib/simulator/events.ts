@@ -0,0 +1,60 @@
+import type { SellerEvent } from "@/lib/api/types";
+import { getState, onExternalChange } from "./state";
+
+// Older events are dropped; a stream resuming from before them gets a resync
+const MAX_EVENTS = 200;
+
+export type SimEventType = Exclude<SellerEvent["type"], "resync">;
+
+// The log stores what changed, not a snapshot: streams render the current
+// state for each subscriber when they deliver it
+export interface SimEvent {
+  id: number;
+  type: SimEventType;
+  transaction_id: string;
+  /** Dispute or message id, for event types that need one */
+  ref: string | null;
+  created_at: string;
+}
+
+const listeners = new Set<() => void>();
+const tickers: Array<() => void> = [];
+let notifyQueued = false;
+
+// Deferred so listeners run after the route handler has finished mutating
+// and saved the state
+function queueNotify() {
+  if (notifyQueued) return;
+  notifyQueued = true;
+  queueMicrotask(() => {
+    notifyQueued = false;
+    listeners.forEach((listener) => listener());
+  });
+}
+
+export function publish(type: SimEventType, transactionId: string, ref: string | null = null) {
+  const state = getState();
+  state.eventSeq += 1;
+  state.events.push({ id: state.eventSeq, type, transaction_id: transactionId, ref, created_at: new Date().toISOString() });
+  if (state.events.length > MAX_EVENTS) state.events.splice(0, state.events.length - MAX_EVENTS);
+  queueNotify();
+}
+
+export function onPublish(listener: () => void): () => void {
+  listeners.add(listener);
+  const stopWatching = onExternalChange(queueNotify);
+  return () => {
+    listeners.delete(listener);
+    stopWatching();
+  };
+}
+
+// Timers elsewhere settle lazily on read. While a stream is open nobody may be
+// reading, so streams run these on an interval to keep events flowing.
+export function onTick(ticker: () => void) {
+  tickers.push(ticker);
+}
+
+export function runTickers() {
+  tickers.forEach((ticker) => ticker());
+}
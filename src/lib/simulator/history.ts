@@ -0,0 +1,117 @@
+import type { TransactionEvent, TransactionEventType } from "@/lib/api/types";
+import type { EscrowAction, EscrowParty, EscrowStatus } from "@/lib/escrow";
+import { viewerRole } from "./access";
+import { requireSession } from "./auth";
+import { SimError, ok, route } from "./router";
+import { getState, simId, type SimPayment } from "./state";
+
+export interface EventDetails {
+  detail?: string | null;
+  amount?: number | null;
+  /** Backfilled events keep their original time */
+  at?: string;
+}
+
+// What a transition looks like in the log. Anything that ends refunded reads
+// as a refund, whatever triggered it.
+export function eventTypeFor(action: EscrowAction, status: EscrowStatus): TransactionEventType {
+  if (status === "REFUNDED") return "refunded";
+  switch (action) {
+    case "pay":
+      return "paid";
+    case "cancel":
+      return "cancelled";
+    case "expire":
+      return "expired";
+    case "renew":
+      return "renewed";
+    case "accept":
+      return "accepted";
+    case "mark_delivered":
+      return "delivered";
+    case "deliver_milestone":
+      return "milestone_delivered";
+    case "release_milestone":
+      return "milestone_released";
+    case "confirm":
+      return "confirmed";
+    case "open_dispute":
+      return "disputed";
+    case "settle":
+      return "settled";
+    default:
+      return "released";
+  }
+}
+
+// Payments from before the log existed (the seeds, mostly) get one rebuilt
+// from their timestamps the first time it is read. Lifecycle order, not time
+// order: seeds don't all carry a realistic created_at.
+function backfill(payment: SimPayment): TransactionEvent[] {
+  const events: TransactionEvent[] = [];
+  const add = (type: TransactionEventType, actor: EscrowParty, at: string | null | undefined, amount: number | null = null) => {
+    if (at) events.push(toEvent(payment, type, actor, { at, amount }));
+  };
+  const dispute = payment.dispute_id ? getState().disputes[payment.dispute_id] : undefined;
+
+  add("created", "seller", payment.created_at);
+  add("paid", "buyer", payment.paid_at, payment.fees.buyer_total);
+  add("accepted", "seller", payment.accepted_at);
+  add("delivered", "seller", payment.delivered_at);
+  add("disputed", "buyer", dispute?.opened_at);
+  if (payment.status === "EXPIRED") add("expired", "system", payment.expires_at);
+  if (payment.status === "COMPLETED") add("released", "system", payment.completed_at);
+  if (payment.status === "REFUNDED") add("refunded", "system", payment.completed_at);
+  return events;
+}
+
+function toEvent(
+  payment: SimPayment,
+  type: TransactionEventType,
+  actor: EscrowParty,
+  { detail = null, amount = null, at }: EventDetails = {}
+): TransactionEvent {
+  return {
+    id: simId("evt"),
+    transaction_id: payment.transaction_id,
+    type,
+    actor,
+    detail,
+    amount,
+    created_at: at ?? new Date().toISOString(),
+  };
+}
+
+export function historyFor(payment: SimPayment): TransactionEvent[] {
+  const { history } = getState();
+  return (history[payment.transaction_id] ??= backfill(payment));
+}
+
+export function startHistory(payment: SimPayment) {
+  getState().history[payment.transaction_id] = [toEvent(payment, "created", "seller", { at: payment.created_at })];
+}
+
+// Append-only: callers save state along with whatever else they changed.
+// Record before changing any timestamps, or a backfill would log them twice.
+export function recordEvent(payment: SimPayment, type: TransactionEventType, actor: EscrowParty, details?: EventDetails) {
+  historyFor(payment).push(toEvent(payment, type, actor, details));
+}
+
+function findPayment(transactionId: string): SimPayment {
+  const payment = getState().payments[transactionId];
+  if (!payment) throw new SimError(404, "Payment link not found");
+  return payment;
+}
+
+route("GET", "/api/v1/payments/:id/history", ({ params, headers }) => {
+  const payment = findPayment(params.id);
+  if (viewerRole(payment, headers) === "public") {
+    throw new SimError(403, "Open the payment from your buyer or seller link to see its history");
+  }
+  return ok(historyFor(payment));
+});
+
+route("GET", "/api/v1/seller/orders/:id/history", ({ params, headers }) => {
+  requireSession(headers);
+  return ok({ data: historyFor(findPayment(params.id)) });
+});
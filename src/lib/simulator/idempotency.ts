@@ -0,0 +1,39 @@
+import { IDEMPOTENCY_HEADER, type HttpMethod } from "@/lib/api/client";
+import type { SimResponse } from "./router";
+import { getState, saveState } from "./state";
+
+export interface SimIdempotentResponse extends SimResponse {
+  stored_at: number;
+}
+
+// Long enough for a queued action to be replayed after a day offline
+const KEEP_MS = 48 * 60 * 60 * 1000;
+
+// A request repeated with the same key gets the first answer back instead of
+// running again, so a replay after a lost response can't act twice. Server
+// errors aren't stored: the request didn't happen and may be tried again.
+export function withIdempotency(
+  method: HttpMethod,
+  path: string,
+  headers: Headers,
+  handle: () => SimResponse
+): SimResponse {
+  const key = headers.get(IDEMPOTENCY_HEADER);
+  if (!key || method === "GET") return handle();
+
+  const state = getState();
+  const scoped = `${method} ${path} ${key}`;
+  const stored = state.idempotentResponses[scoped];
+  if (stored) return { status: stored.status, body: stored.body };
+
+  const response = handle();
+  if (response.status < 500) {
+    const now = Date.now();
+    for (const [k, r] of Object.entries(state.idempotentResponses)) {
+      if (now - r.stored_at > KEEP_MS) delete state.idempotentResponses[k];
+    }
+    state.idempotentResponses[scoped] = { ...response, stored_at: now };
+    saveState();
+  }
+  return response;
+}
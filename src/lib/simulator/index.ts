@@ -0,0 +1,82 @@
+// In-browser stand-in for the escrow backend and Safaricom, enabled with
+// VITE_USE_SIMULATOR=true. The API client loads it lazily so none of this
+// ships to production bundles.
+import type { HttpMethod } from "@/lib/api/client";
+import type { UploadProgress } from "@/lib/api/xhr";
+import { withIdempotency } from "./idempotency";
+import { dispatch } from "./router";
+import { encodeUploads } from "./uploads";
+import "./auth";
+import "./payments";
+import "./mpesa";
+import "./links";
+import "./wallet";
+import "./disputes";
+import "./orders";
+import "./analytics";
+import "./history";
+import "./receipts";
+import "./notifications";
+import "./push";
+
+export { resetSimulator } from "./state";
+export { SIM_OTP_CODE } from "./auth";
+export { STK_TEST_NUMBERS } from "./mpesa";
+export { PAYOUT_FAILURE_SUFFIX } from "./wallet";
+export { SimulatedEventSource } from "./stream";
+
+const LATENCY_MS = 250;
+// Roughly a mobile uplink, so progress bars have something to show
+const UPLOAD_BYTES_PER_SECOND = 1024 * 1024;
+const MAX_UPLOAD_MS = 8_000;
+const PROGRESS_TICK_MS = 100;
+
+const abortError = () => new DOMException("The operation was aborted.", "AbortError");
+
+async function simulateUpload(body: FormData, onProgress: (progress: UploadProgress) => void, signal?: AbortSignal | null) {
+  let total = 0;
+  body.forEach((value) => {
+    total += value instanceof File ? value.size : value.length;
+  });
+  const duration = Math.min((total / UPLOAD_BYTES_PER_SECOND) * 1000, MAX_UPLOAD_MS);
+  for (let elapsed = 0; elapsed < duration; elapsed += PROGRESS_TICK_MS) {
+    await new Promise((resolve) => setTimeout(resolve, PROGRESS_TICK_MS));
+    if (signal?.aborted) throw abortError();
+    onProgress({ loaded: Math.round((total * elapsed) / duration), total });
+  }
+  onProgress({ loaded: total, total });
+}
+
+async function readBody(body: BodyInit | null | undefined): Promise<unknown> {
+  if (body === undefined || body === null) return undefined;
+  if (typeof body === "string") return JSON.parse(body);
+  return body;
+}
+
+export async function simulatedFetch(
+  input: string,
+  init: RequestInit = {},
+  onUploadProgress?: (progress: UploadProgress) => void
+): Promise<Response> {
+  // DevTools' offline switch should look like a dropped connection here too
+  if (typeof navigator !== "undefined" && !navigator.onLine) throw new TypeError("Failed to fetch");
+
+  const url = new URL(input);
+  const method = (init.method ?? "GET").toUpperCase() as HttpMethod;
+  const body = await readBody(init.body);
+
+  if (onUploadProgress && body instanceof FormData) {
+    await simulateUpload(body, onUploadProgress, init.signal);
+  }
+  await new Promise((resolve) => setTimeout(resolve, LATENCY_MS));
+  if (init.signal?.aborted) throw abortError();
+
+  const headers = new Headers(init.headers);
+  const result =
+    (await encodeUploads(body)) ??
+    withIdempotency(method, url.pathname, headers, () => dispatch(method, url.pathname, url.searchParams, headers, body));
+  return new Response(result.body === undefined ? null : JSON.stringify(result.body), {
+    status: result.status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
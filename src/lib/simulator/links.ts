@@ -0,0 +1,118 @@
+import type { CreatePaymentLinkRequest, PaymentLink, RenewPaymentLinkRequest } from "@/lib/api/types";
+import { DEFAULT_FEE_PAYER, calculateFees } from "@/lib/fees";
+import { validateMilestones } from "@/lib/milestones";
+import { DEFAULT_CURRENCY, isSupportedCurrency, money } from "@/lib/money";
+import { DEFAULT_LINK_EXPIRY_HOURS, canRenewLink, isLinkExpiryOption, isSalesPlatform } from "@/lib/paymentLinks";
+import { accessUrl, issueAccessTokens } from "./access";
+import { requireSession } from "./auth";
+import { publish } from "./events";
+import { recordEvent, startHistory } from "./history";
+import { findPayment, settlePayment, transitionPayment } from "./payments";
+import { SimError, ok, route } from "./router";
+import { getState, saveState, simId, type SimPayment } from "./state";
+
+export function toPaymentLink(payment: SimPayment): PaymentLink {
+  return {
+    transaction_id: payment.transaction_id,
+    buyer_url: accessUrl(payment, payment.access.checkout),
+    seller_url: accessUrl(payment, payment.access.seller),
+    product_name: payment.product_name,
+    description: payment.description,
+    amount: payment.amount,
+    currency: payment.currency,
+    fees: payment.fees,
+    milestones: payment.milestones ?? null,
+    status: payment.status,
+    views: payment.views,
+    platform: payment.platform ?? null,
+    expires_at: payment.expires_at,
+    created_at: payment.created_at,
+  };
+}
+
+route("GET", "/api/v1/seller/payment-links", ({ headers }) => {
+  requireSession(headers);
+  const payments = Object.values(getState().payments);
+  payments.forEach(settlePayment);
+  const links = payments
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .map(toPaymentLink);
+  return ok({ data: links });
+});
+
+route("POST", "/api/v1/seller/payment-links", ({ headers, body }) => {
+  requireSession(headers);
+  const request = (body ?? {}) as Partial<CreatePaymentLinkRequest>;
+  if (!request.product_name?.trim()) throw new SimError(422, "Item name is required");
+  const currency = request.currency ?? DEFAULT_CURRENCY;
+  if (!isSupportedCurrency(currency)) throw new SimError(422, `${currency} is not supported`);
+  if (!request.amount || !Number.isInteger(request.amount) || request.amount <= 0) {
+    throw new SimError(422, "Price must be greater than zero");
+  }
+  const feePayer = request.fee_payer ?? DEFAULT_FEE_PAYER;
+  if (feePayer !== "buyer" && feePayer !== "seller") throw new SimError(422, "Choose who pays the fees");
+  const fees = calculateFees(money(request.amount, currency), feePayer);
+  if (fees.seller_net <= 0) throw new SimError(422, "The price is too low to cover the fees");
+  if (request.milestones) {
+    const invalid = validateMilestones(request.milestones, request.amount);
+    if (invalid) throw new SimError(422, invalid);
+  }
+  if (request.platform !== undefined && !isSalesPlatform(request.platform)) {
+    throw new SimError(422, "Choose where you're selling this");
+  }
+
+  const now = Date.now();
+  const lifetimeHours = request.expires_in_hours ?? DEFAULT_LINK_EXPIRY_HOURS;
+  const payment: SimPayment = {
+    transaction_id: simId("txn"),
+    status: "AWAITING_PAYMENT",
+    amount: request.amount,
+    currency,
+    fees,
+    milestones:
+      request.milestones?.map((m, i) => ({
+        id: `ms-${i + 1}`,
+        title: m.title.trim(),
+        amount: m.amount,
+        status: "pending",
+        delivered_at: null,
+        released_at: null,
+      })) ?? null,
+    seller_contact: "+254712345678",
+    seller_payout_contact: null,
+    product_name: request.product_name.trim(),
+    description: request.description?.trim() || null,
+    platform: request.platform ?? null,
+    expires_at: new Date(now + lifetimeHours * 60 * 60 * 1000).toISOString(),
+    escrowed_amount: 0,
+    delivered_at: null,
+    delivery_proof_urls: null,
+    created_at: new Date(now).toISOString(),
+    views: 0,
+    access: issueAccessTokens(),
+  };
+  getState().payments[payment.transaction_id] = payment;
+  startHistory(payment);
+  publish("payment.updated", payment.transaction_id);
+  saveState();
+  return ok({ data: toPaymentLink(payment) }, 201);
+});
+
+route("POST", "/api/v1/seller/payment-links/:id/renew", ({ params, headers, body }) => {
+  requireSession(headers);
+  const payment = findPayment(params.id);
+  settlePayment(payment);
+  if (!canRenewLink(payment.status)) throw new SimError(409, "Only unpaid links can be extended or renewed");
+  const { expires_in_hours } = (body ?? {}) as Partial<RenewPaymentLinkRequest>;
+  if (!expires_in_hours || !isLinkExpiryOption(expires_in_hours)) throw new SimError(422, "Choose a new expiry");
+
+  if (payment.status === "EXPIRED") {
+    transitionPayment(payment, "renew", "seller");
+  } else {
+    recordEvent(payment, "renewed", "seller");
+    publish("payment.updated", payment.transaction_id);
+  }
+  payment.expires_at = new Date(Date.now() + expires_in_hours * 60 * 60 * 1000).toISOString();
+  saveState();
+  return ok({ data: toPaymentLink(payment) });
+});
@@ -0,0 +1,103 @@
+import type { StkPushStatus } from "@/lib/api/types";
+import { canPerform } from "@/lib/escrow";
+import { formatMoney, money } from "@/lib/money";
+import { normalizeMpesaPhone } from "@/lib/phone";
+import { issueBuyerToken, requireRole } from "./access";
+import { notify } from "./notifications";
+import { findPayment, settlePayment, transitionPayment } from "./payments";
+import { SimError, ok, route } from "./router";
+import { getState, mpesaReceipt, saveState, simId, type SimStkPush } from "./state";
+
+// Test numbers, in the spirit of card-network test PANs. Any other valid
+// Safaricom number approves the prompt.
+export const STK_TEST_NUMBERS: Record<string, StkPushStatus> = {
+  "254700000001": "CANCELLED",
+  "254700000002": "TIMEOUT",
+  "254700000003": "INSUFFICIENT_FUNDS",
+  "254700000004": "FAILED",
+};
+
+const STK_RESPONSE_DELAY_MS = 4_000;
+const STK_TIMEOUT_DELAY_MS = 12_000;
+
+const RESULT_DESCRIPTIONS: Record<StkPushStatus, string> = {
+  PENDING: "Waiting for the customer to enter their M-Pesa PIN",
+  SUCCESS: "The service request is processed successfully.",
+  CANCELLED: "Request cancelled by user",
+  TIMEOUT: "DS timeout user cannot be reached",
+  INSUFFICIENT_FUNDS: "The balance is insufficient for the transaction.",
+  FAILED: "The transaction could not be completed.",
+};
+
+function settle(push: SimStkPush) {
+  if (push.status !== "PENDING" || Date.now() < push.resolve_at) return;
+  const payment = findPayment(push.transaction_id);
+  settlePayment(payment);
+  // The link expired (or was paid by someone else) while the prompt was open
+  // on the phone; the real API reverses the charge, so report a failure
+  push.status = push.outcome === "SUCCESS" && payment.status !== "AWAITING_PAYMENT" ? "FAILED" : push.outcome;
+
+  if (push.status === "SUCCESS") {
+    transitionPayment(payment, "pay", "system", { amount: payment.fees.buyer_total });
+    payment.escrowed_amount = payment.fees.seller_net;
+    payment.buyer_phone = push.phone_number;
+    payment.mpesa_receipt = push.mpesa_receipt = mpesaReceipt();
+    push.buyer_access_token = issueBuyerToken(payment);
+    notify(
+      "order_paid",
+      "New paid order",
+      `${formatMoney(money(payment.amount, payment.currency))} for ${payment.product_name ?? "your item"} is in escrow. ` +
+        `Accept it by ${new Date(payment.accept_by!).toLocaleString("en-KE")}.`,
+      { kind: "order", id: payment.transaction_id }
+    );
+  }
+  saveState();
+}
+
+route("POST", "/api/v1/payments/:id/stk-push", ({ params, headers, body }) => {
+  const payment = findPayment(params.id);
+  settlePayment(payment);
+  // Checked first: the checkout token stops granting the buyer role once the link expires
+  if (payment.status === "EXPIRED") throw new SimError(409, "This payment link has expired");
+  requireRole(payment, headers, "buyer");
+  if (!canPerform(payment.status, "pay", "system")) {
+    throw new SimError(409, "This payment link is not awaiting payment");
+  }
+
+  const phone = normalizeMpesaPhone(String((body as { phone_number?: unknown })?.phone_number ?? ""));
+  if (!phone) throw new SimError(422, "Enter a valid Safaricom M-Pesa number");
+
+  const outcome = STK_TEST_NUMBERS[phone] ?? "SUCCESS";
+  const push: SimStkPush = {
+    checkout_request_id: simId("ws_CO"),
+    transaction_id: payment.transaction_id,
+    phone_number: phone,
+    outcome,
+    status: "PENDING",
+    resolve_at: Date.now() + (outcome === "TIMEOUT" ? STK_TIMEOUT_DELAY_MS : STK_RESPONSE_DELAY_MS),
+  };
+  getState().stkPushes[push.checkout_request_id] = push;
+  saveState();
+
+  return ok(
+    {
+      checkout_request_id: push.checkout_request_id,
+      status: push.status,
+      customer_message: "Success. Request accepted for processing",
+    },
+    202
+  );
+});
+
+route("GET", "/api/v1/payments/:id/stk-push/:checkoutId", ({ params }) => {
+  const push = getState().stkPushes[params.checkoutId];
+  if (!push || push.transaction_id !== params.id) throw new SimError(404, "Checkout request not found");
+  settle(push);
+  return ok({
+    checkout_request_id: push.checkout_request_id,
+    status: push.status,
+    result_description: RESULT_DESCRIPTIONS[push.status],
+    mpesa_receipt: push.mpesa_receipt ?? null,
+    buyer_access_token: push.buyer_access_token ?? null,
+  });
+});
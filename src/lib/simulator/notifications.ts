@@ -0,0 +1,138 @@
+import type {
+  NotificationCategory,
+  NotificationChannel,
+  NotificationFeed,
+  NotificationTarget,
+  NotificationType,
+  SellerNotification,
+  UpdateNotificationPreferencesRequest,
+} from "@/lib/api/types";
+import {
+  CATEGORY_LABELS,
+  CHANNEL_LABELS,
+  deliveryChannels,
+  notificationTargetPath,
+  validateQuietHours,
+} from "@/lib/notifications";
+import { requireSession } from "./auth";
+import { publish, runTickers } from "./events";
+import { sendPush } from "./push";
+import { SimError, ok, route } from "./router";
+import { sendSms } from "./sms";
+import { getState, saveState, simId } from "./state";
+
+// Older notifications are dropped, read or not
+const MAX_NOTIFICATIONS = 100;
+const DEFAULT_LIMIT = 50;
+
+// Goes out on whichever channels the seller chose for this kind of event
+export function notify(type: NotificationType, title: string, body: string, target: NotificationTarget) {
+  const state = getState();
+  const notification: SellerNotification = {
+    id: simId("ntf"),
+    type,
+    title,
+    body,
+    target,
+    read_at: null,
+    created_at: new Date().toISOString(),
+  };
+  for (const channel of deliveryChannels(state.notificationPreferences, type)) {
+    if (channel === "in_app") {
+      state.notifications.unshift(notification);
+      state.notifications.splice(MAX_NOTIFICATIONS);
+      // Not tied to one transaction, so only the seller stream picks it up
+      publish("notification.created", "", notification.id);
+    } else if (channel === "push") {
+      sendPush(null, { title, body, url: notificationTargetPath(target), tag: notification.id });
+    } else if (channel === "sms") {
+      sendSms(state.wallet.payout_phone, `Paying-zee: ${title}. ${body}`);
+    } else {
+      console.info(`[simulator] ${CHANNEL_LABELS[channel]} to the seller: ${title}. ${body}`);
+    }
+  }
+}
+
+function feed(unreadOnly: boolean, limit: number): NotificationFeed {
+  const { notifications } = getState();
+  const unread = notifications.filter((n) => !n.read_at);
+  return {
+    notifications: (unreadOnly ? unread : notifications).slice(0, limit),
+    unread_count: unread.length,
+  };
+}
+
+route("GET", "/api/v1/seller/notifications", ({ headers, query }) => {
+  requireSession(headers);
+  // Deadlines and payouts settle lazily; catch up so reminders are in the feed
+  runTickers();
+  const limit = Number(query.get("limit") ?? DEFAULT_LIMIT);
+  if (!Number.isInteger(limit) || limit < 1) throw new SimError(422, "limit must be a positive whole number");
+  return ok({ data: feed(query.get("unread") === "true", limit) });
+});
+
+route("POST", "/api/v1/seller/notifications/:id/read", ({ params, headers }) => {
+  requireSession(headers);
+  const notification = getState().notifications.find((n) => n.id === params.id);
+  if (!notification) throw new SimError(404, "Notification not found");
+  notification.read_at ??= new Date().toISOString();
+  saveState();
+  return ok({ data: notification });
+});
+
+route("POST", "/api/v1/seller/notifications/read-all", ({ headers }) => {
+  requireSession(headers);
+  const now = new Date().toISOString();
+  getState().notifications.forEach((n) => (n.read_at ??= now));
+  saveState();
+  return ok(undefined, 204);
+});
+
+function checkPreferences(body: unknown): UpdateNotificationPreferencesRequest {
+  const request = body as Partial<UpdateNotificationPreferencesRequest> | null;
+  const channels = request?.channels;
+  const quietHours = request?.quiet_hours;
+  if (!channels || !quietHours) throw new SimError(422, "channels and quiet_hours are required");
+  for (const category of Object.keys(CATEGORY_LABELS) as NotificationCategory[]) {
+    for (const channel of Object.keys(CHANNEL_LABELS) as NotificationChannel[]) {
+      if (typeof channels[category]?.[channel] !== "boolean") {
+        throw new SimError(422, `channels.${category}.${channel} must be true or false`);
+      }
+    }
+  }
+  if (typeof quietHours.enabled !== "boolean") throw new SimError(422, "quiet_hours.enabled must be true or false");
+  const invalid = validateQuietHours(quietHours);
+  if (invalid) throw new SimError(422, invalid);
+  return { channels, quiet_hours: quietHours };
+}
+
+route("GET", "/api/v1/seller/notification-preferences", ({ headers }) => {
+  requireSession(headers);
+  return ok({ data: getState().notificationPreferences });
+});
+
+route("PUT", "/api/v1/seller/notification-preferences", ({ headers, body }) => {
+  requireSession(headers);
+  const { channels, quiet_hours } = checkPreferences(body);
+  const state = getState();
+  // Rebuilt rather than copied so unknown keys in the request aren't stored
+  state.notificationPreferences = {
+    channels: Object.fromEntries(
+      (Object.keys(CATEGORY_LABELS) as NotificationCategory[]).map((category) => [
+        category,
+        Object.fromEntries(
+          (Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map((channel) => [channel, channels[category][channel]])
+        ),
+      ])
+    ) as UpdateNotificationPreferencesRequest["channels"],
+    quiet_hours: {
+      enabled: quiet_hours.enabled,
+      start: quiet_hours.start,
+      end: quiet_hours.end,
+      timezone: quiet_hours.timezone,
+    },
+    updated_at: new Date().toISOString(),
+  };
+  saveState();
+  return ok({ data: state.notificationPreferences });
+});
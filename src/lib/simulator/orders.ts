@@ -0,0 +1,192 @@
+import type { Order, OrderMessage, PerformanceMetrics } from "@/lib/api/types";
+import { canPerform, orderStatusFor } from "@/lib/escrow";
+import { formatMpesaPhone, maskMpesaPhone } from "@/lib/phone";
+import { requireRole } from "./access";
+import { requireSession } from "./auth";
+import { publish } from "./events";
+import { recordEvent } from "./history";
+import { notify } from "./notifications";
+import {
+  DEFAULT_DELIVERY_WINDOW_MS,
+  deliveredPushBody,
+  findPayment,
+  settlePayment,
+  transitionPayment,
+} from "./payments";
+import { pushToBuyer } from "./push";
+import { SimError, ok, route } from "./router";
+import { getState, saveState, simId, type SimPayment } from "./state";
+import { storedFileUrl } from "./uploads";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Orders are the seller's view of paid payments rather than separate records
+export function toOrder(payment: SimPayment): Order | null {
+  const status = orderStatusFor(payment.status);
+  if (!status) return null;
+
+  const paidAt = payment.paid_at ?? payment.created_at;
+  const lastBuyerMessage = (getState().orderMessages[payment.transaction_id] ?? [])
+    .filter((m) => m.sender === "buyer")
+    .pop();
+
+  return {
+    id: payment.transaction_id,
+    buyerName: maskMpesaPhone(payment.buyer_phone ?? ""),
+    buyerPhone: payment.buyer_phone ? formatMpesaPhone(payment.buyer_phone) : "",
+    buyerLocation: "Not provided",
+    itemName: payment.product_name ?? "Payment",
+    quantity: 1,
+    amount: payment.amount,
+    currency: payment.currency,
+    milestones: payment.milestones ?? undefined,
+    status,
+    createdAt: paidAt,
+    deadline: (status === "pending" ? payment.accept_by : payment.estimated_delivery_at) ?? paidAt,
+    buyerMessage: lastBuyerMessage?.text,
+    messageCreatedAt: lastBuyerMessage?.created_at,
+    shipping: payment.shipping ?? undefined,
+    autoReleaseAt: payment.auto_release_at ?? undefined,
+    inspectionExtendedAt: payment.inspection_extended_at ?? undefined,
+  };
+}
+
+function findOrderPayment(orderId: string): SimPayment {
+  const payment = findPayment(orderId);
+  settlePayment(payment);
+  if (!orderStatusFor(payment.status)) throw new SimError(404, "Order not found");
+  return payment;
+}
+
+function performance(orders: SimPayment[]): PerformanceMetrics {
+  const decided = orders.filter((p) => p.status !== "ESCROWED");
+  const accepted = decided.filter((p) => p.accepted_at);
+  const deliveryDays = accepted
+    .filter((p) => p.delivered_at)
+    .map((p) => (new Date(p.delivered_at!).getTime() - new Date(p.accepted_at!).getTime()) / DAY_MS);
+  const percent = (part: number, whole: number) => (whole ? Math.round((part / whole) * 100) : 0);
+
+  return {
+    acceptanceRate: percent(accepted.length, decided.length),
+    averageDeliveryTime: deliveryDays.length
+      ? `${(deliveryDays.reduce((sum, d) => sum + d, 0) / deliveryDays.length).toFixed(1)} days`
+      : "—",
+    disputeRate: percent(orders.filter((p) => p.dispute_id).length, orders.length),
+    totalOrders: orders.length,
+  };
+}
+
+route("GET", "/api/v1/seller/orders", ({ headers }) => {
+  requireSession(headers);
+  const payments = Object.values(getState().payments);
+  payments.forEach(settlePayment);
+  const orders = payments
+    .map(toOrder)
+    .filter((o): o is Order => o !== null)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return ok({ data: orders });
+});
+
+route("GET", "/api/v1/seller/orders/:id", ({ params, headers }) => {
+  requireSession(headers);
+  return ok({ data: toOrder(findOrderPayment(params.id)) });
+});
+
+route("GET", "/api/v1/seller/performance", ({ headers }) => {
+  requireSession(headers);
+  return ok({ data: performance(Object.values(getState().payments).filter((p) => p.paid_at && orderStatusFor(p.status))) });
+});
+
+route("POST", "/api/v1/seller/orders/:id/accept", ({ params, headers }) => {
+  requireSession(headers);
+  const payment = findOrderPayment(params.id);
+  transitionPayment(payment, "accept", "seller");
+  payment.estimated_delivery_at = new Date(Date.now() + DEFAULT_DELIVERY_WINDOW_MS).toISOString();
+  saveState();
+  return ok(undefined, 204);
+});
+
+route("POST", "/api/v1/seller/orders/:id/reject", ({ params, headers }) => {
+  requireSession(headers);
+  const payment = findOrderPayment(params.id);
+  transitionPayment(payment, "reject", "seller");
+  payment.escrowed_amount = 0;
+  saveState();
+  return ok(undefined, 204);
+});
+
+route("POST", "/api/v1/seller/orders/:id/shipping", ({ params, headers, body }) => {
+  requireSession(headers);
+  const payment = findOrderPayment(params.id);
+  if (!(body instanceof FormData)) throw new SimError(400, "Expected multipart form data");
+
+  const field = (name: string) => String(body.get(name) ?? "").trim();
+  if (!field("courierName") || !field("trackingNumber") || !field("estimatedDeliveryDate")) {
+    throw new SimError(422, "Courier, tracking number and delivery date are required");
+  }
+  if (payment.milestones) throw new SimError(409, "Mark each milestone delivered instead");
+  // Checked up front so a refused shipment leaves nothing in the event log
+  if (!canPerform(payment.status, "mark_delivered", "seller")) {
+    throw new SimError(409, "Only accepted orders can be shipped");
+  }
+  const proofImages: string[] = [];
+  body.forEach((value, key) => {
+    if (key.startsWith("proofImages") && value instanceof File) proofImages.push(storedFileUrl(value));
+  });
+
+  recordEvent(payment, "shipped", "seller", { detail: `${field("courierName")} · ${field("trackingNumber")}` });
+  transitionPayment(payment, "mark_delivered", "seller");
+  payment.delivery_proof_urls = proofImages.length ? proofImages : null;
+  payment.shipping = {
+    courierName: field("courierName"),
+    trackingNumber: field("trackingNumber"),
+    estimatedDeliveryDate: field("estimatedDeliveryDate"),
+    notes: field("notes") || undefined,
+    proofImages,
+  };
+  pushToBuyer(
+    payment,
+    `Shipped with ${payment.shipping.courierName}`,
+    `Tracking number ${payment.shipping.trackingNumber}. ${deliveredPushBody(payment)}`
+  );
+  saveState();
+  return ok(undefined, 204);
+});
+
+function postOrderMessage(payment: SimPayment, sender: OrderMessage["sender"], body: unknown): OrderMessage {
+  const text = String((body as { message?: unknown })?.message ?? "").trim();
+  if (!text) throw new SimError(422, "Message can't be empty");
+
+  const message: OrderMessage = {
+    id: simId("omsg"),
+    order_id: payment.transaction_id,
+    sender,
+    text,
+    created_at: new Date().toISOString(),
+  };
+  (getState().orderMessages[payment.transaction_id] ??= []).push(message);
+  publish("order.message", payment.transaction_id, message.id);
+  return message;
+}
+
+route("POST", "/api/v1/seller/orders/:id/messages", ({ params, headers, body }) => {
+  requireSession(headers);
+  postOrderMessage(findOrderPayment(params.id), "seller", body);
+  saveState();
+  return ok(undefined, 204);
+});
+
+// Buyers write from the payment page; the order shows their latest message
+route("POST", "/api/v1/payments/:id/messages", ({ params, headers, body }) => {
+  const payment = findPayment(params.id);
+  requireRole(payment, headers, "buyer");
+  if (!orderStatusFor(payment.status)) throw new SimError(409, "Messages open once the order is paid");
+  const message = postOrderMessage(payment, "buyer", body);
+  publish("order.updated", payment.transaction_id);
+  notify("buyer_message", "Message from a buyer", `About ${payment.product_name ?? "your order"}: "${message.text}"`, {
+    kind: "order",
+    id: payment.transaction_id,
+  });
+  saveState();
+  return ok(undefined, 204);
+});
@@ -0,0 +1,338 @@
+import type { AcceptPaymentRequest, InspectionExtensionRequest, MarkDeliveredRequest } from "@/lib/api/types";
+import { MAX_PROOF_FILES, validateProofFile } from "@/lib/deliveryProof";
+import {
+  IllegalTransitionError,
+  nextStatus,
+  orderStatusFor,
+  type EscrowAction,
+  type EscrowParty,
+  type EscrowStatus,
+  type PaymentViewerRole,
+} from "@/lib/escrow";
+import {
+  INSPECTION_WINDOW_HOURS,
+  RELEASE_REMINDER_HOURS,
+  canExtendInspection,
+  formatCountdown,
+  validateExtensionDays,
+} from "@/lib/inspection";
+import { milestonePayouts, nextMilestoneToDeliver } from "@/lib/milestones";
+import { formatMoney, money } from "@/lib/money";
+import { ACCEPT_WINDOW_HOURS } from "@/lib/paymentLinks";
+import { requireRole, viewerRole } from "./access";
+import { onTick, publish } from "./events";
+import { eventTypeFor, recordEvent, type EventDetails } from "./history";
+import { notify } from "./notifications";
+import { pushToBuyer } from "./push";
+import { SimError, ok, route } from "./router";
+import { sendSms } from "./sms";
+import { getState, saveState, type SimPayment } from "./state";
+import { storedFileUrl } from "./uploads";
+import { creditSeller } from "./wallet";
+
+export const DEFAULT_DELIVERY_WINDOW_MS = 3 * 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export function findPayment(transactionId: string): SimPayment {
+  const payment = getState().payments[transactionId];
+  if (!payment) throw new SimError(404, "Payment link not found");
+  return payment;
+}
+
+// Tells the seller their share of the escrow reached the wallet
+function notifyReleased(payment: SimPayment, type: "delivery_confirmed" | "funds_released", reason: string) {
+  const released = formatMoney(money(payment.escrowed_amount, payment.currency));
+  const title = type === "delivery_confirmed" ? "Delivery confirmed" : "Funds released";
+  notify(type, title, `${reason} ${released} is in your wallet.`, { kind: "order", id: payment.transaction_id });
+}
+
+export function deliveredPushBody(payment: SimPayment): string {
+  const item = payment.product_name ?? "Your order";
+  return `${item} is marked delivered. Confirm it arrived or report a problem within ${INSPECTION_WINDOW_HOURS} hours.`;
+}
+
+// Money leaving escrow in one go; the log records how much
+const SETTLING_ACTIONS: EscrowAction[] = ["confirm", "auto_release", "release_to_seller", "refund_buyer", "reject", "expire"];
+
+export function transitionPayment(
+  payment: SimPayment,
+  action: EscrowAction,
+  party: EscrowParty,
+  details: EventDetails = {}
+) {
+  const previous = payment.status;
+  let status: EscrowStatus;
+  try {
+    status = nextStatus(payment.status, action, party);
+  } catch (err) {
+    if (err instanceof IllegalTransitionError) throw new SimError(409, err.message);
+    throw err;
+  }
+  const amount = SETTLING_ACTIONS.includes(action) && payment.escrowed_amount > 0 ? payment.escrowed_amount : null;
+  // The M-Pesa callback moves the money, but the log should say the buyer paid
+  const actor = action === "pay" ? "buyer" : party;
+  recordEvent(payment, eventTypeFor(action, status), actor, { amount, ...details });
+  payment.status = status;
+
+  const now = Date.now();
+  const timestamp = new Date(now).toISOString();
+  // Milestone actions keep the status; the rest of this is for real changes
+  if (payment.status === previous) {
+    publish("payment.updated", payment.transaction_id);
+    publish("order.updated", payment.transaction_id);
+    return;
+  }
+  if (payment.status === "ESCROWED") {
+    payment.paid_at = timestamp;
+    payment.accept_by = new Date(now + ACCEPT_WINDOW_HOURS * HOUR_MS).toISOString();
+  }
+  if (payment.status === "ACTIVE") payment.accepted_at = timestamp;
+  if (payment.status === "DELIVERED") {
+    payment.delivered_at = timestamp;
+    payment.auto_release_at = new Date(now + INSPECTION_WINDOW_HOURS * HOUR_MS).toISOString();
+    payment.release_reminders_sent = [];
+  }
+  if (payment.status === "COMPLETED" || payment.status === "REFUNDED") {
+    payment.completed_at = timestamp;
+    // Whatever was still in escrow went to one side or the other
+    payment.milestones?.forEach((milestone) => {
+      if (milestone.status === "released") return;
+      milestone.status = payment.status === "COMPLETED" ? "released" : "refunded";
+      if (milestone.status === "released") milestone.released_at = timestamp;
+    });
+  }
+
+  publish("payment.updated", payment.transaction_id);
+  if (orderStatusFor(payment.status)) publish("order.updated", payment.transaction_id);
+}
+
+// Strip simulator bookkeeping so responses match the real API shape, and
+// hide payout and delivery details from public viewers
+export function toPaymentDetails(payment: SimPayment, role: PaymentViewerRole) {
+  const {
+    buyer_phone: _buyerPhone,
+    created_at: _createdAt,
+    views: _views,
+    access: _access,
+    paid_at: _paidAt,
+    accepted_at: _acceptedAt,
+    completed_at: _completedAt,
+    shipping: _shipping,
+    platform: _platform,
+    release_reminders_sent: _remindersSent,
+    ...details
+  } = payment;
+  if (role === "public") {
+    return {
+      ...details,
+      seller_payout_contact: null,
+      delivery_proof_urls: null,
+      mpesa_receipt: null,
+      viewer_role: role,
+    };
+  }
+  return { ...details, viewer_role: role };
+}
+
+function settleExpiry(payment: SimPayment) {
+  const now = Date.now();
+  const item = payment.product_name ?? "your order";
+
+  if (payment.status === "AWAITING_PAYMENT" && payment.expires_at && now >= new Date(payment.expires_at).getTime()) {
+    transitionPayment(payment, "expire", "system");
+    saveState();
+  } else if (payment.status === "ESCROWED" && payment.accept_by && now >= new Date(payment.accept_by).getTime()) {
+    transitionPayment(payment, "expire", "system");
+    payment.escrowed_amount = 0;
+    sendSms(payment.buyer_phone, `The seller didn't accept ${item} in time, so your payment has been refunded to M-Pesa.`);
+    notify(
+      "order_expired",
+      "Order refunded",
+      `You didn't accept ${item} within ${ACCEPT_WINDOW_HOURS} hours, so the buyer was refunded.`,
+      { kind: "order", id: payment.transaction_id }
+    );
+    saveState();
+  }
+}
+
+function settleAutoRelease(payment: SimPayment) {
+  if (payment.status !== "DELIVERED" || !payment.auto_release_at) return;
+  const now = Date.now();
+  const releaseAt = new Date(payment.auto_release_at).getTime();
+  const item = payment.product_name ?? "your order";
+
+  if (now >= releaseAt) {
+    transitionPayment(payment, "auto_release", "system");
+    creditSeller(payment, payment.escrowed_amount);
+    notifyReleased(payment, "funds_released", `The inspection window for ${item} ended.`);
+    payment.escrowed_amount = 0;
+    saveState();
+    return;
+  }
+
+  const sent = (payment.release_reminders_sent ??= []);
+  const due = RELEASE_REMINDER_HOURS.filter((hours) => !sent.includes(hours) && now >= releaseAt - hours * HOUR_MS);
+  if (due.length === 0) return;
+  // Catching up on several at once only needs the latest one
+  sent.push(...due);
+  sendSms(
+    payment.buyer_phone,
+    `Paying-zee: funds for ${item} release to the seller in ${formatCountdown(releaseAt - now)}. ` +
+      "Confirm delivery or report a problem before then."
+  );
+  saveState();
+}
+
+// Deadlines are applied lazily when a payment is read, like the other timers
+// here, and on stream ticks
+export function settlePayment(payment: SimPayment) {
+  settleExpiry(payment);
+  settleAutoRelease(payment);
+}
+
+onTick(() => Object.values(getState().payments).forEach(settlePayment));
+
+route("GET", "/api/v1/payments/:id", ({ params, headers }) => {
+  const payment = findPayment(params.id);
+  settlePayment(payment);
+  payment.views += 1;
+  saveState();
+  return ok(toPaymentDetails(payment, viewerRole(payment, headers)));
+});
+
+route("POST", "/api/v1/payments/:id/accept", ({ params, headers, body }) => {
+  const payment = findPayment(params.id);
+  requireRole(payment, headers, "seller");
+  transitionPayment(payment, "accept", "seller");
+  const { seller_payout_contact, estimated_delivery_at } = (body ?? {}) as AcceptPaymentRequest;
+  if (seller_payout_contact) payment.seller_payout_contact = seller_payout_contact;
+  payment.estimated_delivery_at = estimated_delivery_at ?? new Date(Date.now() + DEFAULT_DELIVERY_WINDOW_MS).toISOString();
+  saveState();
+  return ok({ transaction_id: payment.transaction_id, status: payment.status });
+});
+
+route("POST", "/api/v1/payments/:id/delivery-proof", ({ params, headers, body }) => {
+  const payment = findPayment(params.id);
+  requireRole(payment, headers, "seller");
+  if (payment.status !== "ACTIVE") throw new SimError(409, "Proof can only be added before marking the order delivered");
+  if (!(body instanceof FormData)) throw new SimError(400, "Expected multipart form data");
+  const file = body.get("file");
+  if (!(file instanceof File)) throw new SimError(422, "Attach a file");
+  const invalid = validateProofFile(file);
+  if (invalid) throw new SimError(422, invalid);
+  return ok({ url: storedFileUrl(file), name: file.name, size: file.size }, 201);
+});
+
+route("POST", "/api/v1/payments/:id/mark-delivered", ({ params, headers, body }) => {
+  const payment = findPayment(params.id);
+  requireRole(payment, headers, "seller");
+  if (payment.milestones) throw new SimError(409, "Mark each milestone delivered instead");
+  const { evidence_urls } = (body ?? {}) as MarkDeliveredRequest;
+  if (evidence_urls && evidence_urls.length > MAX_PROOF_FILES) {
+    throw new SimError(422, `Attach at most ${MAX_PROOF_FILES} files`);
+  }
+  transitionPayment(payment, "mark_delivered", "seller");
+  payment.delivery_proof_urls = evidence_urls?.length ? evidence_urls : null;
+  pushToBuyer(payment, "Marked as delivered", deliveredPushBody(payment));
+  saveState();
+  return ok({ transaction_id: payment.transaction_id, status: payment.status });
+});
+
+route("POST", "/api/v1/payments/:id/confirm", ({ params, headers }) => {
+  const payment = findPayment(params.id);
+  requireRole(payment, headers, "buyer");
+  transitionPayment(payment, "confirm", "buyer");
+  creditSeller(payment, payment.escrowed_amount);
+  notifyReleased(payment, "delivery_confirmed", `The buyer confirmed receipt of ${payment.product_name ?? "your order"}.`);
+  payment.escrowed_amount = 0;
+  saveState();
+  return ok({ transaction_id: payment.transaction_id, status: payment.status });
+});
+
+function findMilestone(payment: SimPayment, milestoneId: string) {
+  const milestone = payment.milestones?.find((m) => m.id === milestoneId);
+  if (!milestone) throw new SimError(404, "Milestone not found");
+  return milestone;
+}
+
+route("POST", "/api/v1/payments/:id/milestones/:milestoneId/deliver", ({ params, headers }) => {
+  const payment = findPayment(params.id);
+  requireRole(payment, headers, "seller");
+  const milestone = findMilestone(payment, params.milestoneId);
+  const milestones = payment.milestones!;
+  if (milestone !== nextMilestoneToDeliver(milestones)) {
+    throw new SimError(409, "Milestones are delivered in order");
+  }
+
+  // Delivering the last one starts the inspection window like a normal delivery
+  const last = milestones.filter((m) => m.status === "pending").length === 1;
+  transitionPayment(payment, last ? "mark_delivered" : "deliver_milestone", "seller", { detail: milestone.title });
+  milestone.status = "delivered";
+  milestone.delivered_at = new Date().toISOString();
+  sendSms(
+    payment.buyer_phone,
+    `The seller delivered "${milestone.title}" for ${payment.product_name ?? "your order"}. ` +
+      "Check it and release that milestone from your payment page."
+  );
+  pushToBuyer(
+    payment,
+    `"${milestone.title}" delivered`,
+    last ? deliveredPushBody(payment) : "Check it and release that milestone from your payment page."
+  );
+  saveState();
+  return ok(milestone);
+});
+
+route("POST", "/api/v1/payments/:id/milestones/:milestoneId/release", ({ params, headers }) => {
+  const payment = findPayment(params.id);
+  requireRole(payment, headers, "buyer");
+  settlePayment(payment);
+  const milestone = findMilestone(payment, params.milestoneId);
+  const milestones = payment.milestones!;
+  if (milestone.status !== "delivered") throw new SimError(409, "Only delivered milestones can be released");
+
+  const last = milestones.every((m) => m === milestone || m.status === "released");
+  if (last) {
+    transitionPayment(payment, "confirm", "buyer", { detail: milestone.title });
+    creditSeller(payment, payment.escrowed_amount, `Milestone released: ${milestone.title}`);
+    notifyReleased(payment, "delivery_confirmed", `The buyer released "${milestone.title}", the last milestone.`);
+    payment.escrowed_amount = 0;
+  } else {
+    const payout = milestonePayouts(milestones, payment.fees)[milestones.indexOf(milestone)];
+    transitionPayment(payment, "release_milestone", "buyer", { detail: milestone.title, amount: payout });
+    creditSeller(payment, payout, `Milestone released: ${milestone.title}`);
+    payment.escrowed_amount -= payout;
+    milestone.status = "released";
+    milestone.released_at = new Date().toISOString();
+  }
+  saveState();
+  return ok(milestone);
+});
+
+route("POST", "/api/v1/payments/:id/inspection-extension", ({ params, headers, body }) => {
+  const payment = findPayment(params.id);
+  requireRole(payment, headers, "buyer");
+  settlePayment(payment);
+  if (payment.inspection_extended_at) throw new SimError(409, "The inspection window can only be extended once");
+  if (!canExtendInspection(payment)) throw new SimError(409, "The inspection window for this payment has closed");
+  const { days } = (body ?? {}) as Partial<InspectionExtensionRequest>;
+  const invalid = validateExtensionDays(Number(days));
+  if (invalid) throw new SimError(422, invalid);
+
+  recordEvent(payment, "inspection_extended", "buyer", { detail: `${days} more day(s) to inspect` });
+  payment.auto_release_at = new Date(new Date(payment.auto_release_at!).getTime() + Number(days) * DAY_MS).toISOString();
+  payment.inspection_extended_at = new Date().toISOString();
+  payment.release_reminders_sent = [];
+  notify(
+    "inspection_extended",
+    "Inspection extended",
+    `The buyer of ${payment.product_name ?? "your order"} asked for ${days} more day(s) to inspect it. ` +
+      `Funds now release on ${new Date(payment.auto_release_at).toLocaleString("en-KE")}.`,
+    { kind: "order", id: payment.transaction_id }
+  );
+  publish("payment.updated", payment.transaction_id);
+  publish("order.updated", payment.transaction_id);
+  saveState();
+  return ok({ transaction_id: payment.transaction_id, auto_release_at: payment.auto_release_at });
+});
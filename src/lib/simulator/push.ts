@@ -0,0 +1,126 @@
+import type { PushPayload, PushSubscriptionInfo, PushSubscriptionRequest } from "@/lib/api/types";
+import { requireRole } from "./access";
+import { requireSession } from "./auth";
+import { findPayment } from "./payments";
+import { SimError, ok, route } from "./router";
+import { getState, saveState, simId, type SimPayment } from "./state";
+
+export interface SimPushSubscription extends PushSubscriptionInfo {
+  keys: PushSubscriptionRequest["keys"];
+  /** Null for the seller; buyers subscribe per transaction */
+  transaction_id: string | null;
+}
+
+// Must match the message type public/sw.js listens for
+const SIMULATED_PUSH_MESSAGE = "simulated-push";
+// Never used: the client makes up stand-in subscriptions instead of asking a push service
+const SIM_PUBLIC_KEY = "simulator-has-no-push-service";
+
+// There's no push service to send through, and every stand-in subscription
+// belongs to this browser, so the payload goes straight to our own service
+// worker. It shows it the same way it would a real push.
+export function sendPush(transactionId: string | null, payload: PushPayload) {
+  const subscriptions = getState().pushSubscriptions.filter((s) => s.transaction_id === transactionId);
+  if (subscriptions.length === 0) return;
+  console.info(`[simulator] Push to ${subscriptions.length} subscription(s): ${payload.title}. ${payload.body}`);
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) return;
+  navigator.serviceWorker
+    .getRegistration()
+    .then((registration) => registration?.active?.postMessage({ type: SIMULATED_PUSH_MESSAGE, payload }))
+    .catch((err) => console.error("Simulated push failed:", err));
+}
+
+export function pushToBuyer(payment: SimPayment, title: string, body: string) {
+  sendPush(payment.transaction_id, {
+    title,
+    body,
+    url: `/pay/${encodeURIComponent(payment.transaction_id)}`,
+    tag: `delivery-${payment.transaction_id}`,
+  });
+}
+
+function checkSubscription(body: unknown): PushSubscriptionRequest {
+  const { endpoint, keys } = (body ?? {}) as Partial<PushSubscriptionRequest>;
+  if (typeof endpoint !== "string" || !/^https?:\/\//.test(endpoint)) throw new SimError(422, "endpoint must be a URL");
+  if (typeof keys?.p256dh !== "string" || typeof keys?.auth !== "string") {
+    throw new SimError(422, "keys.p256dh and keys.auth are required");
+  }
+  return { endpoint, keys: { p256dh: keys.p256dh, auth: keys.auth } };
+}
+
+const toInfo = ({ id, endpoint, created_at }: SimPushSubscription): PushSubscriptionInfo => ({ id, endpoint, created_at });
+
+// Subscribing the same browser again replaces its keys rather than adding a duplicate
+function subscribe(transactionId: string | null, body: unknown): PushSubscriptionInfo {
+  const { endpoint, keys } = checkSubscription(body);
+  const { pushSubscriptions } = getState();
+  let subscription = pushSubscriptions.find((s) => s.transaction_id === transactionId && s.endpoint === endpoint);
+  if (subscription) {
+    subscription.keys = keys;
+  } else {
+    subscription = { id: simId("psub"), endpoint, keys, transaction_id: transactionId, created_at: new Date().toISOString() };
+    pushSubscriptions.push(subscription);
+  }
+  saveState();
+  return toInfo(subscription);
+}
+
+function unsubscribe(transactionId: string | null, endpoint: string | null) {
+  if (!endpoint) throw new SimError(422, "endpoint is required");
+  const state = getState();
+  state.pushSubscriptions = state.pushSubscriptions.filter(
+    (s) => !(s.transaction_id === transactionId && s.endpoint === endpoint)
+  );
+  saveState();
+}
+
+const subscriptionsFor = (transactionId: string | null) =>
+  getState()
+    .pushSubscriptions.filter((s) => s.transaction_id === transactionId)
+    .map(toInfo);
+
+route("GET", "/api/v1/push/config", () => ok({ public_key: SIM_PUBLIC_KEY }));
+
+route("GET", "/api/v1/seller/push-subscriptions", ({ headers }) => {
+  requireSession(headers);
+  return ok({ data: subscriptionsFor(null) });
+});
+
+route("POST", "/api/v1/seller/push-subscriptions", ({ headers, body }) => {
+  requireSession(headers);
+  return ok({ data: subscribe(null, body) }, 201);
+});
+
+route("DELETE", "/api/v1/seller/push-subscriptions", ({ headers, query }) => {
+  requireSession(headers);
+  unsubscribe(null, query.get("endpoint"));
+  return ok(undefined, 204);
+});
+
+route("POST", "/api/v1/seller/push-subscriptions/test", ({ headers }) => {
+  requireSession(headers);
+  if (subscriptionsFor(null).length === 0) throw new SimError(409, "Turn on push notifications first");
+  sendPush(null, {
+    title: "Push notifications are on",
+    body: "You'll hear about new orders and disputes here, even with the dashboard closed.",
+    url: "/seller",
+    tag: "test",
+  });
+  return ok(undefined, 204);
+});
+
+route("GET", "/api/v1/payments/:id/push-subscriptions", ({ params, headers }) => {
+  requireRole(findPayment(params.id), headers, "buyer");
+  return ok(subscriptionsFor(params.id));
+});
+
+route("POST", "/api/v1/payments/:id/push-subscriptions", ({ params, headers, body }) => {
+  requireRole(findPayment(params.id), headers, "buyer");
+  return ok(subscribe(params.id, body), 201);
+});
+
+route("DELETE", "/api/v1/payments/:id/push-subscriptions", ({ params, headers, query }) => {
+  requireRole(findPayment(params.id), headers, "buyer");
+  unsubscribe(params.id, query.get("endpoint"));
+  return ok(undefined, 204);
+});
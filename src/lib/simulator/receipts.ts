@@ -0,0 +1,110 @@
+import type { Receipt, ReceiptVerification } from "@/lib/api/types";
+import { maskMpesaPhone } from "@/lib/phone";
+import { normalizeVerificationCode } from "@/lib/receipts";
+import { viewerRole } from "./access";
+import { requireSession } from "./auth";
+import { historyFor } from "./history";
+import { findPayment, settlePayment } from "./payments";
+import { SimError, ok, route } from "./router";
+import { getState, saveState, type SimPayment } from "./state";
+
+export interface SimReceipt {
+  receipt_number: string;
+  verification_code: string;
+  issued_at: string;
+}
+
+// No 0/O or 1/I, so codes survive being read out over the phone
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 12;
+
+function verificationCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH));
+  return Array.from(bytes, (b) => CODE_ALPHABET[b % CODE_ALPHABET.length]).join("");
+}
+
+// Issued the first time either party asks, then fixed
+function issueReceipt(payment: SimPayment): SimReceipt {
+  const { receipts } = getState();
+  let receipt = receipts[payment.transaction_id];
+  if (!receipt) {
+    const issued = new Date();
+    const serial = String(Object.keys(receipts).length + 1).padStart(4, "0");
+    receipt = receipts[payment.transaction_id] = {
+      receipt_number: `PZ-${issued.toISOString().slice(0, 10).replace(/-/g, "")}-${serial}`,
+      verification_code: verificationCode(),
+      issued_at: issued.toISOString(),
+    };
+    saveState();
+  }
+  return receipt;
+}
+
+// A settled dispute splits the escrow; otherwise the seller got the lot
+function payout(payment: SimPayment) {
+  const dispute = payment.dispute_id ? getState().disputes[payment.dispute_id] : undefined;
+  const resolution = dispute?.resolution;
+  if (resolution?.outcome === "settled") {
+    return { released_amount: resolution.release_amount ?? 0, refunded_amount: resolution.refund_amount ?? 0 };
+  }
+  return { released_amount: payment.fees.seller_net, refunded_amount: 0 };
+}
+
+function completedPayment(transactionId: string): SimPayment {
+  const payment = findPayment(transactionId);
+  settlePayment(payment);
+  if (payment.status !== "COMPLETED") throw new SimError(409, "Receipts are issued once the transaction is completed");
+  return payment;
+}
+
+function toReceipt(payment: SimPayment): Receipt {
+  const receipt = issueReceipt(payment);
+  return {
+    ...receipt,
+    transaction_id: payment.transaction_id,
+    product_name: payment.product_name,
+    description: payment.description,
+    currency: payment.currency,
+    fees: payment.fees,
+    ...payout(payment),
+    buyer: maskMpesaPhone(payment.buyer_phone ?? ""),
+    seller: payment.seller_contact,
+    mpesa_references: payment.mpesa_receipt ? [{ label: "Buyer payment", reference: payment.mpesa_receipt }] : [],
+    history: historyFor(payment),
+    completed_at: payment.completed_at ?? receipt.issued_at,
+  };
+}
+
+route("GET", "/api/v1/payments/:id/receipt", ({ params, headers }) => {
+  const payment = completedPayment(params.id);
+  if (viewerRole(payment, headers) === "public") {
+    throw new SimError(403, "Open the payment from your buyer or seller link to get its receipt");
+  }
+  return ok(toReceipt(payment));
+});
+
+route("GET", "/api/v1/seller/orders/:id/receipt", ({ params, headers }) => {
+  requireSession(headers);
+  return ok({ data: toReceipt(completedPayment(params.id)) });
+});
+
+// Public: anyone holding a receipt can check it
+route("GET", "/api/v1/receipts/verify", ({ query }) => {
+  const code = normalizeVerificationCode(query.get("code") ?? "");
+  const { receipts, payments } = getState();
+  const transactionId = Object.keys(receipts).find((id) => receipts[id].verification_code === code);
+  if (!code || !transactionId) throw new SimError(404, "No receipt matches this code");
+
+  const payment = payments[transactionId];
+  const verification: ReceiptVerification = {
+    receipt_number: receipts[transactionId].receipt_number,
+    transaction_id: transactionId,
+    product_name: payment.product_name,
+    currency: payment.currency,
+    buyer_total: payment.fees.buyer_total,
+    ...payout(payment),
+    completed_at: payment.completed_at ?? receipts[transactionId].issued_at,
+    issued_at: receipts[transactionId].issued_at,
+  };
+  return ok(verification);
+});
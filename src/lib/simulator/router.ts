@@ -0,0 +1,68 @@
+import type { HttpMethod } from "@/lib/api/client";
+
+export interface SimRequest {
+  method: HttpMethod;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  headers: Headers;
+  body: unknown;
+}
+
+export interface SimResponse {
+  status: number;
+  body?: unknown;
+}
+
+type Handler = (req: SimRequest) => SimResponse;
+
+interface Route {
+  method: HttpMethod;
+  pattern: RegExp;
+  keys: string[];
+  handler: Handler;
+}
+
+const routes: Route[] = [];
+
+// Thrown by handlers to answer with an error status and `{ error }` body
+export class SimError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = "SimError";
+  }
+}
+
+export function route(method: HttpMethod, path: string, handler: Handler) {
+  const keys: string[] = [];
+  const source = path.replace(/:(\w+)/g, (_, key: string) => {
+    keys.push(key);
+    return "([^/]+)";
+  });
+  routes.push({ method, pattern: new RegExp(`^${source}$`), keys, handler });
+}
+
+export function ok(body?: unknown, status = 200): SimResponse {
+  return { status, body };
+}
+
+export function dispatch(
+  method: HttpMethod,
+  pathname: string,
+  query: URLSearchParams,
+  headers: Headers,
+  body: unknown
+): SimResponse {
+  for (const r of routes) {
+    if (r.method !== method) continue;
+    const match = r.pattern.exec(pathname);
+    if (!match) continue;
+    const params = Object.fromEntries(r.keys.map((key, idx) => [key, decodeURIComponent(match[idx + 1])]));
+    try {
+      return r.handler({ method, params, query, headers, body });
+    } catch (err) {
+      if (err instanceof SimError) return { status: err.status, body: { error: err.message } };
+      throw err;
+    }
+  }
+  return { status: 404, body: { error: `Simulator has no handler for ${method} ${pathname}` } };
+}
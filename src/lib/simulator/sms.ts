@@ -0,0 +1,21 @@
+import { normalizeMpesaPhone } from "@/lib/phone";
+import { getState, simId } from "./state";
+
+export interface SimSms {
+  id: string;
+  to: string;
+  text: string;
+  sent_at: string;
+}
+
+const MAX_OUTBOX = 100;
+
+// Nothing is actually sent; the outbox (and the console) show what would have been
+export function sendSms(to: string | null | undefined, text: string) {
+  const phone = to && normalizeMpesaPhone(to);
+  if (!phone) return;
+  const { smsOutbox } = getState();
+  smsOutbox.unshift({ id: simId("sms"), to: phone, text, sent_at: new Date().toISOString() });
+  smsOutbox.splice(MAX_OUTBOX);
+  console.info(`[simulator] SMS to ${phone}: ${text}`);
+}
@@ -0,0 +1,390 @@
+import type { SimOtpChallenge, SimSession } from "./auth";
+import type { SimDispute, SimDisputeMessage } from "./disputes";
+import type { SimPushSubscription } from "./push";
+import type { SimReceipt } from "./receipts";
+import type { SimEvent } from "./events";
+import type { SimIdempotentResponse } from "./idempotency";
+import type { SimSms } from "./sms";
+import { calculateFees } from "@/lib/fees";
+import { formatMoney, money } from "@/lib/money";
+import { DEFAULT_NOTIFICATION_PREFERENCES } from "@/lib/notifications";
+import type {
+  FeePayer,
+  NotificationPreferences,
+  OrderMessage,
+  OrderShipping,
+  PaymentDetails,
+  SalesPlatform,
+  SellerNotification,
+  StkPushStatus,
+  TransactionEvent,
+  WalletTransaction,
+  Withdrawal,
+} from "@/lib/api/types";
+
+export interface SimPaymentAccess {
+  checkout: string;
+  seller: string;
+  buyer: string | null;
+}
+
+export interface SimPayment extends Omit<PaymentDetails, "viewer_role"> {
+  access: SimPaymentAccess;
+  created_at: string;
+  views: number;
+  buyer_phone?: string | null;
+  paid_at?: string | null;
+  accepted_at?: string | null;
+  completed_at?: string | null;
+  shipping?: OrderShipping | null;
+  platform?: SalesPlatform | null;
+  /** Reminder offsets (hours before auto-release) already sent for the current deadline */
+  release_reminders_sent?: number[];
+}
+
+export interface SimStkPush {
+  checkout_request_id: string;
+  transaction_id: string;
+  phone_number: string;
+  outcome: StkPushStatus;
+  resolve_at: number;
+  status: StkPushStatus;
+  mpesa_receipt?: string | null;
+  buyer_access_token?: string | null;
+}
+
+export interface SimWithdrawal extends Withdrawal {
+  processing_at: number;
+  settle_at: number;
+  will_fail: boolean;
+}
+
+export interface SimState {
+  payments: Record<string, SimPayment>;
+  stkPushes: Record<string, SimStkPush>;
+  wallet: { payout_phone: string | null; payout_phone_verified: boolean };
+  ledger: WalletTransaction[];
+  withdrawals: Record<string, SimWithdrawal>;
+  disputes: Record<string, SimDispute>;
+  disputeMessages: Record<string, SimDisputeMessage[]>;
+  otpChallenges: Record<string, SimOtpChallenge>;
+  /** Keyed by refresh token */
+  sessions: Record<string, SimSession>;
+  orderMessages: Record<string, OrderMessage[]>;
+  /** Append-only log per transaction, oldest first */
+  history: Record<string, TransactionEvent[]>;
+  /** By transaction ID */
+  receipts: Record<string, SimReceipt>;
+  /** The seller's feed, newest first */
+  notifications: SellerNotification[];
+  notificationPreferences: NotificationPreferences;
+  pushSubscriptions: SimPushSubscription[];
+  /** Keyed by method, path and Idempotency-Key */
+  idempotentResponses: Record<string, SimIdempotentResponse>;
+  /** Recent changes, replayed to event streams that reconnect */
+  events: SimEvent[];
+  eventSeq: number;
+  smsOutbox: SimSms[];
+}
+
+const STORAGE_KEY = "payingzee.simulator";
+// Bump when the stored shape changes so old browser state is re-seeded
+const SCHEMA_VERSION = 13;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function seedState(): SimState {
+  const now = Date.now();
+  // Amounts in minor units: 250000 is KES 2,500. Fees and the escrowed amount
+  // follow from the price, payer and status.
+  const payment = ({
+    fee_payer = "buyer",
+    ...overrides
+  }: Partial<SimPayment> & Pick<SimPayment, "transaction_id"> & { fee_payer?: FeePayer }): SimPayment => {
+    const seeded: Omit<SimPayment, "fees"> = {
+      status: "AWAITING_PAYMENT",
+      amount: 250000,
+      currency: "KES",
+      seller_contact: "+254712345678",
+      seller_payout_contact: null,
+      product_name: "Handmade leather wallet",
+      description: "Brown full-grain leather, 6 card slots.",
+      expires_at: new Date(now + 7 * DAY_MS).toISOString(),
+      escrowed_amount: 0,
+      delivered_at: null,
+      delivery_proof_urls: null,
+      created_at: new Date(now - DAY_MS).toISOString(),
+      views: 0,
+      access: {
+        checkout: `pat_chk-${overrides.transaction_id}`,
+        seller: `pat_sel-${overrides.transaction_id}`,
+        buyer: overrides.status && overrides.status !== "AWAITING_PAYMENT" ? `pat_buy-${overrides.transaction_id}` : null,
+      },
+      ...overrides,
+    };
+    const fees = calculateFees(money(seeded.amount, seeded.currency), fee_payer);
+    const funded = ["ESCROWED", "ACTIVE", "DELIVERED", "DISPUTED"].includes(seeded.status);
+    return { ...seeded, fees, escrowed_amount: funded ? fees.seller_net : 0 };
+  };
+
+  const payments = {
+      "sim-awaiting": payment({ transaction_id: "sim-awaiting" }),
+      "sim-expired": payment({
+        transaction_id: "sim-expired",
+        status: "EXPIRED",
+        amount: 65000,
+        currency: "UGX",
+        product_name: "Beaded Maasai bracelet",
+        description: "Handmade, adjustable.",
+        expires_at: new Date(now - DAY_MS).toISOString(),
+        created_at: new Date(now - 4 * DAY_MS).toISOString(),
+      }),
+      "sim-escrowed": payment({
+        transaction_id: "sim-escrowed",
+        platform: "instagram",
+        status: "ESCROWED",
+        amount: 1400000,
+        product_name: "Nike Air Max 90",
+        description: "Size 42, white/black.",
+        buyer_phone: "254722000111",
+        mpesa_receipt: "SIM4X7K2QP",
+        paid_at: new Date(now - 2 * 60 * 60 * 1000).toISOString(),
+        accept_by: new Date(now + 46 * 60 * 60 * 1000).toISOString(),
+      }),
+      "sim-milestones": payment({
+        transaction_id: "sim-milestones",
+        platform: "whatsapp",
+        status: "ACTIVE",
+        amount: 4500000,
+        product_name: "Brand identity package",
+        description: "Logo concepts, then the final logo and brand guide.",
+        buyer_phone: "254755000555",
+        mpesa_receipt: "SIM7M3L8KD",
+        paid_at: new Date(now - 6 * DAY_MS).toISOString(),
+        accepted_at: new Date(now - 6 * DAY_MS).toISOString(),
+        estimated_delivery_at: new Date(now + 8 * DAY_MS).toISOString(),
+        milestones: [
+          {
+            id: "ms-1",
+            title: "Logo concepts",
+            amount: 1500000,
+            status: "delivered",
+            delivered_at: new Date(now - DAY_MS).toISOString(),
+            released_at: null,
+          },
+          { id: "ms-2", title: "Final logo files", amount: 2000000, status: "pending", delivered_at: null, released_at: null },
+          { id: "ms-3", title: "Brand guide", amount: 1000000, status: "pending", delivered_at: null, released_at: null },
+        ],
+      }),
+      "sim-delivered": payment({
+        transaction_id: "sim-delivered",
+        platform: "instagram",
+        status: "DELIVERED",
+        amount: 320000,
+        product_name: "Kitenge print dress",
+        description: "Size M, as pictured.",
+        buyer_phone: "254711000333",
+        mpesa_receipt: "SIM2R8D5WE",
+        paid_at: new Date(now - 3 * DAY_MS).toISOString(),
+        accepted_at: new Date(now - 3 * DAY_MS).toISOString(),
+        estimated_delivery_at: new Date(now - DAY_MS).toISOString(),
+        delivered_at: new Date(now - DAY_MS).toISOString(),
+        auto_release_at: new Date(now + 2 * DAY_MS).toISOString(),
+      }),
+      "sim-disputed": payment({
+        transaction_id: "sim-disputed",
+        platform: "facebook",
+        status: "DISPUTED",
+        amount: 650000,
+        product_name: "Samsung Galaxy Buds 2",
+        description: "Graphite, sealed.",
+        buyer_phone: "254744000444",
+        mpesa_receipt: "SIM6H1N4ZC",
+        paid_at: new Date(now - 5 * DAY_MS).toISOString(),
+        accepted_at: new Date(now - 5 * DAY_MS).toISOString(),
+        estimated_delivery_at: new Date(now - 3 * DAY_MS).toISOString(),
+        dispute_id: "dsp-seed",
+      }),
+      "sim-completed": payment({
+        transaction_id: "sim-completed",
+        platform: "whatsapp",
+        status: "COMPLETED",
+        amount: 800000,
+        product_name: "Bluetooth speaker",
+        description: "JBL Flip 5, black.",
+        buyer_phone: "254733000222",
+        mpesa_receipt: "SIM9B3T1LM",
+        paid_at: new Date(now - 4 * DAY_MS).toISOString(),
+        accepted_at: new Date(now - 4 * DAY_MS).toISOString(),
+        delivered_at: new Date(now - 2 * DAY_MS).toISOString(),
+        completed_at: new Date(now - DAY_MS).toISOString(),
+        created_at: new Date(now - 4 * DAY_MS).toISOString(),
+        fee_payer: "seller",
+      }),
+  };
+
+  const seededNotification = (
+    notification: Omit<SellerNotification, "read_at" | "created_at">,
+    hoursAgo: number,
+    read = false
+  ): SellerNotification => ({
+    ...notification,
+    created_at: new Date(now - hoursAgo * HOUR_MS).toISOString(),
+    read_at: read ? new Date(now - hoursAgo * HOUR_MS + HOUR_MS).toISOString() : null,
+  });
+  const buyerMessage: OrderMessage = {
+    id: "omsg-seed",
+    order_id: "sim-escrowed",
+    sender: "buyer",
+    text: "Hi, can you deliver to Westlands before Friday?",
+    created_at: new Date(now - 1.5 * HOUR_MS).toISOString(),
+  };
+
+  return {
+    payments,
+    stkPushes: {},
+    wallet: { payout_phone: "254712345678", payout_phone_verified: true },
+    ledger: [
+      {
+        id: "led-seed",
+        type: "deposit",
+        amount: payments["sim-completed"].fees.seller_net,
+        currency: "KES",
+        fees: payments["sim-completed"].fees,
+        desc: "Payment released: Bluetooth speaker",
+        date: new Date(now - DAY_MS).toISOString(),
+        mpesa_receipt: "SIM9B3T1LM",
+      },
+    ],
+    withdrawals: {},
+    disputes: {
+      "dsp-seed": {
+        id: "dsp-seed",
+        transaction_id: "sim-disputed",
+        product_name: "Samsung Galaxy Buds 2",
+        amount: payments["sim-disputed"].escrowed_amount,
+        currency: "KES",
+        reason: "not_received",
+        description: "It has been over a week and the courier says they have no parcel under my name.",
+        status: "open",
+        evidence: [],
+        opened_at: new Date(now - 6 * 60 * 60 * 1000).toISOString(),
+        response_deadline: new Date(now + 42 * 60 * 60 * 1000).toISOString(),
+        buyer: "+254 7•• ••• 444",
+        seller_response: null,
+        resolution: null,
+        offers: [],
+      },
+    },
+    disputeMessages: {},
+    otpChallenges: {},
+    sessions: {},
+    orderMessages: { "sim-escrowed": [buyerMessage] },
+    history: {},
+    receipts: {},
+    notifications: [
+      seededNotification(
+        {
+          id: "ntf-seed-message",
+          type: "buyer_message",
+          title: "Message from a buyer",
+          body: `About Nike Air Max 90: "${buyerMessage.text}"`,
+          target: { kind: "order", id: "sim-escrowed" },
+        },
+        1.5
+      ),
+      seededNotification(
+        {
+          id: "ntf-seed-paid",
+          type: "order_paid",
+          title: "New paid order",
+          body: `${formatMoney(money(1400000, "KES"))} for Nike Air Max 90 is in escrow. Accept it within 46 hours.`,
+          target: { kind: "order", id: "sim-escrowed" },
+        },
+        2
+      ),
+      seededNotification(
+        {
+          id: "ntf-seed-dispute",
+          type: "dispute_opened",
+          title: "Dispute opened",
+          body: "The buyer of Samsung Galaxy Buds 2 says the item never arrived. Respond within 48 hours.",
+          target: { kind: "dispute", id: "dsp-seed" },
+        },
+        6
+      ),
+      seededNotification(
+        {
+          id: "ntf-seed-released",
+          type: "delivery_confirmed",
+          title: "Delivery confirmed",
+          body: `The buyer confirmed receipt of Bluetooth speaker. ${formatMoney(
+            money(payments["sim-completed"].fees.seller_net, "KES")
+          )} is in your wallet.`,
+          target: { kind: "order", id: "sim-completed" },
+        },
+        24,
+        true
+      ),
+    ],
+    notificationPreferences: structuredClone(DEFAULT_NOTIFICATION_PREFERENCES),
+    pushSubscriptions: [],
+    idempotentResponses: {},
+    events: [],
+    eventSeq: 0,
+    smsOutbox: [],
+  };
+}
+
+let state: SimState | null = null;
+let watching = false;
+const externalChangeListeners = new Set<() => void>();
+
+// Another tab (the buyer's, say) wrote the store; drop the cached copy so the
+// next read sees their changes
+function handleStorage(event: StorageEvent) {
+  if (event.key !== STORAGE_KEY) return;
+  state = null;
+  externalChangeListeners.forEach((listener) => listener());
+}
+
+export function onExternalChange(listener: () => void): () => void {
+  externalChangeListeners.add(listener);
+  return () => externalChangeListeners.delete(listener);
+}
+
+export function getState(): SimState {
+  if (!watching) {
+    window.addEventListener("storage", handleStorage);
+    watching = true;
+  }
+  if (!state) {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? (JSON.parse(stored) as Partial<SimState> & { version?: number }) : null;
+    state = parsed?.version === SCHEMA_VERSION ? { ...seedState(), ...parsed } : seedState();
+  }
+  return state;
+}
+
+export function saveState() {
+  if (state) localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...state, version: SCHEMA_VERSION }));
+}
+
+/** Characters the saved state takes up in localStorage */
+export function savedStateSize(): number {
+  return localStorage.getItem(STORAGE_KEY)?.length ?? 0;
+}
+
+export function resetSimulator() {
+  state = null;
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+export function simId(prefix: string): string {
+  return `${prefix}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function mpesaReceipt(): string {
+  return `SIM${Math.random().toString(36).slice(2, 9).toUpperCase()}`;
+}
@@ -0,0 +1,169 @@
+import type { EventSourceLike } from "@/lib/api/events";
+import { PAYMENT_ACCESS_HEADER } from "@/lib/api/payments";
+import type { PaymentEvent, SellerEvent } from "@/lib/api/types";
+import type { PaymentViewerRole } from "@/lib/escrow";
+import { viewerRole } from "./access";
+import { requireSession } from "./auth";
+import { toDispute, toDisputeMessage } from "./disputes";
+import { onPublish, runTickers, type SimEvent } from "./events";
+import { toPaymentLink } from "./links";
+import { toOrder } from "./orders";
+import { findPayment, toPaymentDetails } from "./payments";
+import { SimError } from "./router";
+import { getState } from "./state";
+
+const CONNECT_DELAY_MS = 250;
+const TICK_MS = 1_000;
+
+type Scope =
+  | { kind: "seller" }
+  | { kind: "payment"; transactionId: string; headers: Headers; role: PaymentViewerRole };
+
+// Render a logged change as the subscriber would receive it. Null means the
+// subscriber doesn't get this one.
+function render(event: SimEvent, scope: Scope): SellerEvent | PaymentEvent | null {
+  const { payments, disputes, orderMessages, disputeMessages, notifications } = getState();
+  const payment = payments[event.transaction_id];
+  const base = { id: String(event.id), created_at: event.created_at };
+  if (event.type === "notification.created") {
+    const notification = notifications.find((n) => n.id === event.ref);
+    return scope.kind === "seller" && notification ? { ...base, type: event.type, data: notification } : null;
+  }
+  if (!payment) return null;
+
+  if (scope.kind === "payment") {
+    if (event.transaction_id !== scope.transactionId) return null;
+    if (event.type === "payment.updated") {
+      return { ...base, type: event.type, data: toPaymentDetails(payment, scope.role) };
+    }
+    const dispute = event.ref ? disputes[event.ref] : undefined;
+    if (event.type !== "dispute.updated" || scope.role !== "buyer" || !dispute) return null;
+    return { ...base, type: event.type, data: toDispute(dispute) };
+  }
+
+  switch (event.type) {
+    case "payment.updated":
+      return { ...base, type: event.type, data: toPaymentLink(payment) };
+    case "order.updated": {
+      const order = toOrder(payment);
+      return order && { ...base, type: event.type, data: order };
+    }
+    case "order.message": {
+      const message = orderMessages[event.transaction_id]?.find((m) => m.id === event.ref);
+      return message ? { ...base, type: event.type, data: message } : null;
+    }
+    case "dispute.updated": {
+      const dispute = event.ref ? disputes[event.ref] : undefined;
+      return dispute ? { ...base, type: event.type, data: toDispute(dispute) } : null;
+    }
+    case "dispute.message": {
+      const thread = Object.values(disputeMessages).flat();
+      const message = thread.find((m) => m.id === event.ref);
+      return message ? { ...base, type: event.type, data: toDisputeMessage(message) } : null;
+    }
+  }
+}
+
+function scopeFor(url: URL): Scope {
+  const query = url.searchParams;
+  if (url.pathname === "/api/v1/seller/events") {
+    requireSession(new Headers({ Authorization: `Bearer ${query.get("access_token") ?? ""}` }));
+    return { kind: "seller" };
+  }
+  const match = /^\/api\/v1\/payments\/([^/]+)\/events$/.exec(url.pathname);
+  if (!match) throw new SimError(404, `Simulator has no stream at ${url.pathname}`);
+  const transactionId = decodeURIComponent(match[1]);
+  const access = query.get("access");
+  const headers = new Headers(access ? { [PAYMENT_ACCESS_HEADER]: access } : {});
+  return { kind: "payment", transactionId, headers, role: viewerRole(findPayment(transactionId), headers) };
+}
+
+let openStreams = 0;
+let ticker: ReturnType<typeof setInterval> | undefined;
+
+// Stands in for EventSource against the simulator. Errors (bad credentials,
+// unknown stream) surface as onerror like a failed HTTP connection would.
+export class SimulatedEventSource implements EventSourceLike {
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent<string>) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  private cursor = 0;
+  private scope: Scope | null = null;
+  private closed = false;
+  private unsubscribe: (() => void) | null = null;
+  private readonly timer: ReturnType<typeof setTimeout>;
+
+  constructor(readonly url: string) {
+    this.timer = setTimeout(() => this.connect(), CONNECT_DELAY_MS);
+  }
+
+  private connect() {
+    if (this.closed) return;
+    const url = new URL(this.url);
+    try {
+      this.scope = scopeFor(url);
+    } catch (err) {
+      if (!(err instanceof SimError)) throw err;
+      this.onerror?.(new Event("error"));
+      return;
+    }
+
+    const { events, eventSeq } = getState();
+    const lastEventId = Number(url.searchParams.get("last_event_id"));
+    const oldest = events[0]?.id ?? eventSeq + 1;
+    this.cursor = lastEventId || eventSeq;
+    this.onopen?.(new Event("open"));
+
+    // The client's cursor fell out of the log (or predates a reset), so it
+    // can't catch up event by event
+    if (lastEventId && (lastEventId < oldest - 1 || lastEventId > eventSeq)) {
+      this.cursor = eventSeq;
+      this.emit({ id: String(eventSeq), type: "resync", data: null, created_at: new Date().toISOString() });
+    }
+
+    this.unsubscribe = onPublish(() => this.deliver());
+    openStreams += 1;
+    ticker ??= setInterval(runTickers, TICK_MS);
+    this.deliver();
+  }
+
+  private deliver() {
+    if (this.closed || !this.scope) return;
+    // A token's role can change under an open stream (the checkout token stops
+    // making you the buyer once someone pays). End the stream before sending
+    // anything so the client reconnects with whatever token it holds now.
+    const scope = this.scope;
+    if (scope.kind === "payment") {
+      const payment = getState().payments[scope.transactionId];
+      if (!payment || viewerRole(payment, scope.headers) !== scope.role) {
+        this.close();
+        this.onerror?.(new Event("error"));
+        return;
+      }
+    }
+    for (const event of getState().events) {
+      if (event.id <= this.cursor) continue;
+      this.cursor = event.id;
+      const rendered = render(event, scope);
+      if (rendered) this.emit(rendered);
+    }
+  }
+
+  private emit(event: SellerEvent | PaymentEvent) {
+    this.onmessage?.(new MessageEvent("message", { data: JSON.stringify(event), lastEventId: event.id }));
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    clearTimeout(this.timer);
+    if (!this.unsubscribe) return;
+    this.unsubscribe();
+    openStreams -= 1;
+    if (openStreams === 0) {
+      clearInterval(ticker);
+      ticker = undefined;
+    }
+  }
+}
@@ -0,0 +1,44 @@
+// Uploaded files are kept as data URLs in the saved state, so they still open
+// after a reload and in the other party's tab, like files on a real server
+// would. Encoding is async, so it happens before a request reaches its route.
+import { SimError, type SimResponse } from "./router";
+import { savedStateSize } from "./state";
+
+// localStorage holds about five million characters per origin
+const STORAGE_BUDGET_CHARS = 4_500_000;
+
+const dataUrls = new WeakMap<File, string>();
+
+// Base64 grows a file by a third
+const encodedSize = (file: File) => Math.ceil(file.size / 3) * 4 + file.type.length + 13;
+
+async function toDataUrl(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${file.type || "application/octet-stream"};base64,${btoa(binary)}`;
+}
+
+/**
+ * Encodes the files of a multipart body for `storedFileUrl`. Answers 413 when
+ * they wouldn't fit in the simulator's storage, before anything is changed.
+ */
+export async function encodeUploads(body: unknown): Promise<SimResponse | null> {
+  if (!(body instanceof FormData)) return null;
+  const files = [...body.values()].filter((value): value is File => value instanceof File);
+  const size = files.reduce((sum, file) => sum + encodedSize(file), 0);
+  if (savedStateSize() + size > STORAGE_BUDGET_CHARS) {
+    return { status: 413, body: { error: "These files are too large for the simulator's storage. Try smaller ones." } };
+  }
+  await Promise.all(files.map(async (file) => dataUrls.set(file, await toDataUrl(file))));
+  return null;
+}
+
+/** Where an uploaded file of the current request can be opened from now on */
+export function storedFileUrl(file: File): string {
+  const url = dataUrls.get(file);
+  if (!url) throw new SimError(500, `${file.name} wasn't received`);
+  return url;
+}
@@ -0,0 +1,190 @@
+import type {
+  CreateWithdrawalRequest,
+  NotificationTarget,
+  WalletBalance,
+  WalletData,
+  Withdrawal,
+} from "@/lib/api/types";
+import { isTerminal } from "@/lib/escrow";
+import { withdrawalFee } from "@/lib/fees";
+import { formatMoney, isSupportedCurrency, minorUnitDigits, money } from "@/lib/money";
+import { requireSession } from "./auth";
+import { onTick } from "./events";
+import { notify } from "./notifications";
+import { SimError, ok, route } from "./router";
+import { getState, mpesaReceipt, saveState, simId, type SimPayment, type SimWithdrawal } from "./state";
+
+const PROCESSING_DELAY_MS = 2_000;
+const SETTLE_DELAY_MS = 6_000;
+
+// Withdrawals of a whole amount ending in 13 (113, 1013, ...) fail at the B2C step
+export const PAYOUT_FAILURE_SUFFIX = 13;
+
+export function creditSeller(payment: SimPayment, amount: number, desc?: string) {
+  const item = payment.product_name ?? payment.transaction_id;
+  getState().ledger.unshift({
+    id: simId("led"),
+    type: "deposit",
+    amount,
+    currency: payment.currency,
+    // The breakdown only describes a payout of the whole net
+    fees: amount === payment.fees.seller_net ? payment.fees : null,
+    desc: desc ? `${desc} (${item})` : `Payment released: ${item}`,
+    date: new Date().toISOString(),
+    mpesa_receipt: payment.mpesa_receipt ?? null,
+  });
+}
+
+// Shown alongside the seller's share so the wallet tells the whole story of a
+// settlement; the refund itself never touches the balance
+export function recordRefund(payment: SimPayment, amount: number, desc: string) {
+  getState().ledger.unshift({
+    id: simId("led"),
+    type: "refund",
+    amount,
+    currency: payment.currency,
+    desc: `${desc} (${payment.product_name ?? payment.transaction_id})`,
+    date: new Date().toISOString(),
+    mpesa_receipt: null,
+  });
+}
+
+function balances(): WalletBalance[] {
+  const { payments, ledger } = getState();
+  const byCurrency = new Map<string, WalletBalance>();
+  const balance = (currency: string) => {
+    let entry = byCurrency.get(currency);
+    if (!entry) {
+      entry = { currency, available: 0, pending: 0, total: 0 };
+      byCurrency.set(currency, entry);
+    }
+    return entry;
+  };
+
+  for (const entry of ledger) {
+    if (entry.type === "deposit") {
+      balance(entry.currency).available += entry.amount;
+      balance(entry.currency).total += entry.amount;
+    } else if (entry.type === "withdrawal" && entry.status !== "failed") {
+      balance(entry.currency).available -= entry.amount;
+    }
+  }
+  for (const payment of Object.values(payments)) {
+    if (!isTerminal(payment.status) && payment.escrowed_amount > 0) {
+      balance(payment.currency).pending += payment.escrowed_amount;
+    }
+  }
+  return [...byCurrency.values()];
+}
+
+function walletData(): WalletData {
+  return { balances: balances(), ...getState().wallet };
+}
+
+function settle(withdrawal: SimWithdrawal) {
+  const now = Date.now();
+  const previous = withdrawal.status;
+  if (withdrawal.status === "pending" && now >= withdrawal.processing_at) {
+    withdrawal.status = "processing";
+  }
+  if (withdrawal.status === "processing" && now >= withdrawal.settle_at) {
+    withdrawal.completed_at = new Date(now).toISOString();
+    if (withdrawal.will_fail) {
+      withdrawal.status = "failed";
+      withdrawal.failure_reason = "M-Pesa rejected the payout: the receiving account is restricted.";
+    } else {
+      withdrawal.status = "succeeded";
+      withdrawal.mpesa_receipt = mpesaReceipt();
+    }
+  }
+  if (withdrawal.status === previous) return;
+
+  const entry = getState().ledger.find((e) => e.withdrawal_id === withdrawal.id);
+  if (entry) {
+    entry.status = withdrawal.status;
+    entry.mpesa_receipt = withdrawal.mpesa_receipt;
+  }
+  const amount = formatMoney(money(withdrawal.net_amount, withdrawal.currency));
+  const target: NotificationTarget = { kind: "transaction", id: entry?.id ?? withdrawal.id };
+  if (withdrawal.status === "succeeded") {
+    notify("withdrawal_completed", "Withdrawal completed", `${amount} was sent to your M-Pesa.`, target);
+  } else if (withdrawal.status === "failed") {
+    notify("withdrawal_failed", "Withdrawal failed", `${withdrawal.failure_reason} Your balance was not charged.`, target);
+  }
+  saveState();
+}
+
+onTick(() => Object.values(getState().withdrawals).forEach(settle));
+
+function toWithdrawal(withdrawal: SimWithdrawal): Withdrawal {
+  const { processing_at: _p, settle_at: _s, will_fail: _f, ...rest } = withdrawal;
+  return rest;
+}
+
+route("GET", "/api/v1/seller/wallet", ({ headers }) => {
+  requireSession(headers);
+  Object.values(getState().withdrawals).forEach(settle);
+  return ok({ data: walletData() });
+});
+
+route("GET", "/api/v1/seller/wallet/transactions", ({ headers }) => {
+  requireSession(headers);
+  Object.values(getState().withdrawals).forEach(settle);
+  return ok({ data: getState().ledger });
+});
+
+route("POST", "/api/v1/seller/withdrawals", ({ headers, body }) => {
+  requireSession(headers);
+  const { amount, currency } = (body ?? {}) as Partial<CreateWithdrawalRequest>;
+  const { wallet, ledger, withdrawals } = getState();
+
+  if (!wallet.payout_phone || !wallet.payout_phone_verified) {
+    throw new SimError(422, "Verify your M-Pesa number before withdrawing");
+  }
+  if (!currency || !isSupportedCurrency(currency)) throw new SimError(422, "Unsupported currency");
+  if (!amount || !Number.isInteger(amount) || amount <= 0) throw new SimError(422, "Enter a valid amount");
+  const available = balances().find((b) => b.currency === currency)?.available ?? 0;
+  if (amount > available) throw new SimError(422, "Insufficient funds");
+
+  const now = Date.now();
+  const fee = withdrawalFee({ amount, currency });
+  const withdrawal: SimWithdrawal = {
+    id: simId("wd"),
+    amount,
+    fee,
+    net_amount: amount - fee,
+    currency,
+    phone: wallet.payout_phone,
+    status: "pending",
+    mpesa_receipt: null,
+    failure_reason: null,
+    created_at: new Date(now).toISOString(),
+    completed_at: null,
+    processing_at: now + PROCESSING_DELAY_MS,
+    settle_at: now + SETTLE_DELAY_MS,
+    will_fail: Math.floor(amount / 10 ** minorUnitDigits(currency)) % 100 === PAYOUT_FAILURE_SUFFIX,
+  };
+  withdrawals[withdrawal.id] = withdrawal;
+  ledger.unshift({
+    id: simId("led"),
+    type: "withdrawal",
+    amount,
+    currency,
+    fee,
+    desc: "Withdrawal to M-Pesa",
+    date: withdrawal.created_at,
+    status: withdrawal.status,
+    mpesa_receipt: null,
+    withdrawal_id: withdrawal.id,
+  });
+  saveState();
+  return ok({ data: toWithdrawal(withdrawal) }, 201);
+});
+
+route("GET", "/api/v1/seller/withdrawals/:id", ({ params, headers }) => {
+  requireSession(headers);
+  const withdrawal = getState().withdrawals[params.id];
+  if (!withdrawal) throw new SimError(404, "Withdrawal not found");
+  settle(withdrawal);
+  return ok({ data: toWithdrawal(withdrawal) });
+});
@@ -0,0 +1,280 @@
+import type { Order, WalletTransaction } from "@/lib/api/types";
+import { toDateKey, type DateRange } from "@/lib/analytics";
+import { orderStatusMeta } from "@/lib/escrow";
+import { formatMoney, formatMoneyTotals, minorUnitDigits, money, toMajorUnits } from "@/lib/money";
+import { PAGE_MARGIN, PAGE_WIDTH, PdfDocument } from "@/lib/pdf";
+
+export type ExportFormat = "csv" | "pdf";
+
+// Calendar month in UTC, like the analytics ranges; 0 is this month
+export function monthRange(monthsAgo: number, now = new Date()): DateRange {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth() - monthsAgo;
+  return {
+    from: toDateKey(Date.UTC(year, month, 1)),
+    to: toDateKey(Math.min(Date.UTC(year, month + 1, 0), now.getTime())),
+  };
+}
+
+export function inRange(date: string, { from, to }: DateRange): boolean {
+  const day = toDateKey(new Date(date));
+  return day >= from && day <= to;
+}
+
+export function exportFilename(kind: string, range: DateRange, format: ExportFormat): string {
+  return `payingzee-${kind}-${range.from}-to-${range.to}.${format}`;
+}
+
+// Spreadsheet apps run cells that look like formulas; descriptions come from
+// buyers and sellers, so they're defused with a leading quote
+function csvCell(value: string | number): string {
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: (string | number)[][]): string {
+  return rows.map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+// Plain decimals for spreadsheets, e.g. 1500.00
+function decimal(amount: number, currency: string): string {
+  return toMajorUnits(money(amount, currency)).toFixed(minorUnitDigits(currency));
+}
+
+// Wallet statements
+
+// How an entry moves the available balance; mirrors the wallet endpoint
+function balanceEffect(tx: WalletTransaction): number {
+  if (tx.type === "deposit") return tx.amount;
+  if (tx.type === "withdrawal" && tx.status !== "failed") return -tx.amount;
+  return 0;
+}
+
+export interface StatementEntry {
+  transaction: WalletTransaction;
+  moneyIn: number;
+  moneyOut: number;
+  balance: number;
+}
+
+export interface WalletStatement {
+  currency: string;
+  range: DateRange;
+  opening: number;
+  closing: number;
+  totalIn: number;
+  totalOut: number;
+  /** Oldest first */
+  entries: StatementEntry[];
+}
+
+export function buildWalletStatement(
+  transactions: WalletTransaction[],
+  currency: string,
+  range: DateRange
+): WalletStatement {
+  const own = transactions
+    .filter((tx) => tx.currency === currency)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const opening = own
+    .filter((tx) => toDateKey(new Date(tx.date)) < range.from)
+    .reduce((sum, tx) => sum + balanceEffect(tx), 0);
+
+  let balance = opening;
+  const entries = own
+    .filter((tx) => inRange(tx.date, range))
+    .map((transaction) => {
+      const effect = balanceEffect(transaction);
+      balance += effect;
+      return { transaction, moneyIn: Math.max(effect, 0), moneyOut: Math.max(-effect, 0), balance };
+    });
+
+  return {
+    currency,
+    range,
+    opening,
+    closing: balance,
+    totalIn: entries.reduce((sum, e) => sum + e.moneyIn, 0),
+    totalOut: entries.reduce((sum, e) => sum + e.moneyOut, 0),
+    entries,
+  };
+}
+
+function entryNote(tx: WalletTransaction): string {
+  if (tx.type === "refund") return "Refunded from escrow; balance unchanged";
+  if (tx.type === "withdrawal" && tx.status === "failed") return "Failed; nothing was paid out";
+  if (tx.type === "withdrawal" && tx.status !== "succeeded") return `Withdrawal ${tx.status ?? "pending"}`;
+  return "";
+}
+
+export function walletStatementCsv(statement: WalletStatement): string {
+  const { currency } = statement;
+  const amount = (value: number) => decimal(value, currency);
+  return toCsv([
+    [
+      "Date",
+      "Description",
+      "Type",
+      "M-Pesa ref",
+      `Money in (${currency})`,
+      `Money out (${currency})`,
+      `Balance (${currency})`,
+      "Note",
+    ],
+    ["", "Opening balance", "", "", "", "", amount(statement.opening), ""],
+    ...statement.entries.map(({ transaction: tx, moneyIn, moneyOut, balance }) => [
+      tx.date,
+      tx.desc,
+      tx.type,
+      tx.mpesa_receipt ?? "",
+      moneyIn ? amount(moneyIn) : "",
+      moneyOut ? amount(moneyOut) : "",
+      amount(balance),
+      entryNote(tx),
+    ]),
+    ["", "Closing balance", "", "", amount(statement.totalIn), amount(statement.totalOut), amount(statement.closing), ""],
+  ]);
+}
+
+const RIGHT_EDGE = PAGE_WIDTH - PAGE_MARGIN;
+const ROW_HEIGHT = 16;
+
+const formatDay = (date: string) =>
+  new Date(date).toLocaleDateString("en-KE", { day: "numeric", month: "short", year: "numeric", timeZone: "UTC" });
+
+function header(pdf: PdfDocument, title: string, range: DateRange, subtitle: string) {
+  pdf.text("Paying-zee", PAGE_MARGIN, { size: 9, bold: true, muted: true });
+  pdf.text(`Generated ${new Date().toLocaleString("en-KE")}`, RIGHT_EDGE, { size: 9, muted: true, align: "right" });
+  pdf.y += 18;
+  pdf.text(title, PAGE_MARGIN, { size: 18, bold: true });
+  pdf.y += 26;
+  pdf.text(`${formatDay(range.from)} to ${formatDay(range.to)} · ${subtitle}`, PAGE_MARGIN, { muted: true });
+  pdf.y += 26;
+}
+
+interface Column {
+  title: string;
+  x: number;
+  width: number;
+  align?: "left" | "right";
+}
+
+function tableHeader(pdf: PdfDocument, columns: Column[]) {
+  columns.forEach((c) =>
+    pdf.text(c.title, c.align === "right" ? c.x + c.width : c.x, { size: 8, bold: true, muted: true, align: c.align })
+  );
+  pdf.y += 14;
+  pdf.rule();
+  pdf.y += 4;
+}
+
+function tableRow(pdf: PdfDocument, columns: Column[], cells: string[], bold = false) {
+  if (pdf.ensureSpace(ROW_HEIGHT)) tableHeader(pdf, columns);
+  columns.forEach((c, i) => {
+    if (c.align === "right") pdf.text(cells[i], c.x + c.width, { size: 9, bold, align: "right" });
+    else pdf.clippedText(cells[i], c.x, c.width - 6, { size: 9, bold });
+  });
+  pdf.y += ROW_HEIGHT;
+}
+
+export function walletStatementPdf(statement: WalletStatement): Blob {
+  const format = (amount: number) => formatMoney(money(amount, statement.currency));
+  const pdf = new PdfDocument();
+  header(pdf, "Wallet statement", statement.range, statement.currency);
+
+  const summary: [string, string][] = [
+    ["Opening balance", format(statement.opening)],
+    ["Money in", format(statement.totalIn)],
+    ["Money out", format(statement.totalOut)],
+    ["Closing balance", format(statement.closing)],
+  ];
+  summary.forEach(([label, value], i) => {
+    const bold = i === summary.length - 1;
+    pdf.text(label, PAGE_MARGIN, { bold });
+    pdf.text(value, PAGE_MARGIN + 220, { bold, align: "right" });
+    pdf.y += 16;
+  });
+  pdf.y += 16;
+
+  const columns: Column[] = [
+    { title: "DATE", x: PAGE_MARGIN, width: 70 },
+    { title: "DESCRIPTION", x: PAGE_MARGIN + 70, width: 200 },
+    { title: "MONEY IN", x: PAGE_MARGIN + 270, width: 80, align: "right" },
+    { title: "MONEY OUT", x: PAGE_MARGIN + 350, width: 80, align: "right" },
+    { title: "BALANCE", x: PAGE_MARGIN + 430, width: 85, align: "right" },
+  ];
+  tableHeader(pdf, columns);
+  if (statement.entries.length === 0) {
+    pdf.text("No transactions in this period", PAGE_MARGIN, { size: 9, muted: true });
+    pdf.y += ROW_HEIGHT;
+  }
+  statement.entries.forEach(({ transaction: tx, moneyIn, moneyOut, balance }) => {
+    const note = entryNote(tx);
+    const description = tx.type === "refund" ? `${tx.desc} (${format(tx.amount)})` : tx.desc;
+    tableRow(pdf, columns, [
+      formatDay(tx.date),
+      note ? `${description} - ${note}` : description,
+      moneyIn ? format(moneyIn) : "",
+      moneyOut ? format(moneyOut) : "",
+      format(balance),
+    ]);
+  });
+  pdf.rule();
+  pdf.y += 4;
+  const totals = ["", "Totals", format(statement.totalIn), format(statement.totalOut), format(statement.closing)];
+  tableRow(pdf, columns, totals, true);
+  return pdf.toBlob();
+}
+
+// Orders
+
+// Status labels lead with an emoji, which neither format needs
+const statusLabel = (status: string) => orderStatusMeta(status).label.replace(/^[^\p{L}\p{N}]+/u, "");
+
+export function ordersCsv(orders: Order[]): string {
+  return toCsv([
+    ["Date", "Order ID", "Item", "Buyer", "Status", "Currency", "Amount", "Courier", "Tracking number"],
+    ...orders.map((order) => [
+      order.createdAt,
+      order.id,
+      order.itemName,
+      order.buyerName,
+      statusLabel(order.status),
+      order.currency,
+      decimal(order.amount, order.currency),
+      order.shipping?.courierName ?? "",
+      order.shipping?.trackingNumber ?? "",
+    ]),
+  ]);
+}
+
+export function ordersPdf(orders: Order[], range: DateRange): Blob {
+  const pdf = new PdfDocument();
+  header(pdf, "Orders", range, `${orders.length} order${orders.length === 1 ? "" : "s"}`);
+
+  const columns: Column[] = [
+    { title: "DATE", x: PAGE_MARGIN, width: 70 },
+    { title: "ORDER", x: PAGE_MARGIN + 70, width: 80 },
+    { title: "ITEM", x: PAGE_MARGIN + 150, width: 115 },
+    { title: "BUYER", x: PAGE_MARGIN + 265, width: 85 },
+    { title: "STATUS", x: PAGE_MARGIN + 350, width: 80 },
+    { title: "AMOUNT", x: PAGE_MARGIN + 430, width: 85, align: "right" },
+  ];
+  tableHeader(pdf, columns);
+  orders.forEach((order) =>
+    tableRow(pdf, columns, [
+      formatDay(order.createdAt),
+      order.id,
+      order.itemName,
+      order.buyerName,
+      statusLabel(order.status),
+      formatMoney(money(order.amount, order.currency)),
+    ])
+  );
+  pdf.rule();
+  pdf.y += 4;
+  const total = formatMoneyTotals(orders.map((o) => money(o.amount, o.currency))) || "—";
+  tableRow(pdf, columns, ["", "", "Total", "", "", total], true);
+  return pdf.toBlob();
+}
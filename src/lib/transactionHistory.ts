@@ -0,0 +1,64 @@
+import type { TransactionEventType } from "@/lib/api/types";
+import type { EscrowParty, PaymentViewerRole } from "@/lib/escrow";
+
+export const TRANSACTION_EVENT_LABELS: Record<TransactionEventType, string> = {
+  created: "Payment link created",
+  renewed: "Payment link renewed",
+  cancelled: "Payment link cancelled",
+  expired: "Payment link expired",
+  paid: "Paid into escrow",
+  accepted: "Order accepted",
+  shipped: "Shipped",
+  delivered: "Marked delivered",
+  milestone_delivered: "Milestone delivered",
+  milestone_released: "Milestone released",
+  inspection_extended: "Inspection window extended",
+  confirmed: "Receipt confirmed",
+  released: "Funds released to the seller",
+  disputed: "Dispute opened",
+  evidence_added: "Evidence added",
+  dispute_responded: "Seller responded to the dispute",
+  settlement_offered: "Settlement offered",
+  settled: "Dispute settled",
+  refunded: "Refunded to the buyer",
+};
+
+// Drives the dot colour: money out to the seller, back to the buyer, or trouble
+export type TransactionEventTone = "neutral" | "positive" | "negative" | "warning";
+
+export const TRANSACTION_EVENT_TONES: Record<TransactionEventType, TransactionEventTone> = {
+  created: "neutral",
+  renewed: "neutral",
+  cancelled: "negative",
+  expired: "negative",
+  paid: "positive",
+  accepted: "neutral",
+  shipped: "neutral",
+  delivered: "neutral",
+  milestone_delivered: "neutral",
+  milestone_released: "positive",
+  inspection_extended: "warning",
+  confirmed: "positive",
+  released: "positive",
+  disputed: "warning",
+  evidence_added: "neutral",
+  dispute_responded: "neutral",
+  settlement_offered: "warning",
+  settled: "positive",
+  refunded: "negative",
+};
+
+const PARTY_NAMES: Record<EscrowParty, string> = {
+  buyer: "the buyer",
+  seller: "the seller",
+  admin: "our disputes team",
+  system: "automatically",
+};
+
+// "by you" for the viewer's own actions, otherwise who did it
+export function actorLabel(actor: EscrowParty, viewer: PaymentViewerRole): string {
+  if (actor === viewer) return "by you";
+  if (actor === "system") return PARTY_NAMES.system;
+  return `by ${PARTY_NAMES[actor]}`;
+}
+
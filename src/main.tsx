@@ -1,8 +1,13 @@
 import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
 import App from "./App";
+import { startOfflineSync } from "./lib/offlineQueue";
+import { registerServiceWorker } from "./lib/push";
 import "./index.css";
 
+registerServiceWorker();
+startOfflineSync();
+
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
     <App />
@@ -1,10 +1,12 @@
 import { useState, useEffect, FormEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Check, Lock, Zap, Smartphone, ArrowRight, Shield, TrendingUp, Users, Sparkles, ChevronDown, Mail, Phone } from 'lucide-react';
 import instagramLogo from '@/assets/instagram-logo.jpg';
 import whatsappLogo from '@/assets/whatsapp-logo.jpg';
 import facebookLogo from '@/assets/facebook-logo.png';
 
 export function HomePage() {
+  const navigate = useNavigate();
   const [scrollY, setScrollY] = useState(0);
   const [email, setEmail] = useState('');
 
@@ -36,7 +38,9 @@ export function HomePage() {
             <a href="#security" className="px-5 py-2.5 rounded-xl text-sm font-semibold text-gray-300 hover:text-white bg-white/5 hover:bg-white/10 border border-white/10 hover:border-green-400/50 backdrop-blur-md transition-all duration-300 hover:shadow-lg hover:shadow-green-500/20">Security</a>
             <a href="#contact" className="px-5 py-2.5 rounded-xl text-sm font-semibold text-gray-300 hover:text-white bg-white/5 hover:bg-white/10 border border-white/10 hover:border-green-400/50 backdrop-blur-md transition-all duration-300 hover:shadow-lg hover:shadow-green-500/20">Contact</a>
           </div>
-          <button className="bg-gradient-to-r from-green-400 to-emerald-600 text-black px-6 py-3 rounded-xl text-sm font-bold hover:shadow-lg hover:shadow-green-500/50 transition-all duration-300 transform hover:scale-105">
+          <button
+            onClick={() => navigate('/seller')}
+            className="bg-gradient-to-r from-green-400 to-emerald-600 text-black px-6 py-3 rounded-xl text-sm font-bold hover:shadow-lg hover:shadow-green-500/50 transition-all duration-300 transform hover:scale-105">
             Get Started
           </button>
         </div>
@@ -0,0 +1,170 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Smartphone } from 'lucide-react';
+import { SIMULATOR_ENABLED, requestOtp, verifyOtp, type OtpChallenge } from '@/lib/api';
+import { formatMpesaPhone, normalizeMpesaPhone } from '@/lib/phone';
+import { useAuth } from '@/components/AuthProvider';
+import type { LoginLocationState } from '@/components/RequireAuth';
+
+const DEFAULT_REDIRECT = '/seller';
+
+export function LoginPage() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { from = DEFAULT_REDIRECT, expired = false } = (location.state as LoginLocationState | null) ?? {};
+
+  const [phone, setPhone] = useState('');
+  const [challenge, setChallenge] = useState<(OtpChallenge & { phone_number: string }) | null>(null);
+  const [code, setCode] = useState('');
+  const [resendIn, setResendIn] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setResendIn(resendIn - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  if (user) {
+    return <Navigate to={from} replace />;
+  }
+
+  const sendCode = async (phoneNumber: string) => {
+    setError(null);
+    setSubmitting(true);
+    try {
+      const otp = await requestOtp({ phone_number: phoneNumber });
+      setChallenge({ ...otp, phone_number: phoneNumber });
+      setResendIn(otp.resend_in);
+      setCode('');
+    } catch (err) {
+      setError((err as Error).message || 'Failed to send code');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handlePhoneSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const normalized = normalizeMpesaPhone(phone);
+    if (!normalized) {
+      setError('Enter a valid Safaricom number, e.g. 0712 345 678');
+      return;
+    }
+    sendCode(normalized);
+  };
+
+  const handleCodeSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!challenge) return;
+    setError(null);
+    setSubmitting(true);
+    try {
+      await verifyOtp({ request_id: challenge.request_id, code: code.trim() });
+      navigate(from, { replace: true });
+    } catch (err) {
+      setError((err as Error).message || 'Verification failed');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl border border-gray-200 max-w-md w-full p-8">
+        <div
+          className="text-2xl font-black bg-gradient-to-r from-green-400 to-emerald-500 bg-clip-text text-transparent cursor-pointer mb-6"
+          onClick={() => navigate('/')}
+        >
+          paying-zee
+        </div>
+
+        {expired && (
+          <p className="bg-yellow-50 border border-yellow-300 text-yellow-800 text-sm p-3 rounded-lg mb-4" role="status">
+            Your session expired. Sign in again to continue.
+          </p>
+        )}
+
+        {challenge ? (
+          <form onSubmit={handleCodeSubmit} className="space-y-4">
+            <button
+              type="button"
+              onClick={() => {
+                setChallenge(null);
+                setError(null);
+              }}
+              className="text-sm text-gray-600 hover:text-gray-800 flex items-center gap-1"
+            >
+              <ArrowLeft size={16} /> Change number
+            </button>
+            <div>
+              <h1 className="text-2xl font-bold">Enter your code</h1>
+              <p className="text-sm text-gray-600 mt-1">
+                We sent a 6-digit code by SMS to {formatMpesaPhone(challenge.phone_number)}.
+              </p>
+            </div>
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+              placeholder="123456"
+              autoFocus
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:outline-none focus:border-blue-500 text-center text-2xl tracking-[0.5em] font-mono"
+            />
+            {SIMULATOR_ENABLED && <p className="text-xs text-gray-500">Simulator: the code is always 123456.</p>}
+            {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+            <button
+              type="submit"
+              disabled={code.length !== 6 || submitting}
+              className="w-full bg-gradient-to-r from-green-500 to-emerald-600 text-white py-3 rounded-lg hover:shadow-lg transition font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {submitting ? 'Verifying...' : 'Verify & Sign In'}
+            </button>
+            <button
+              type="button"
+              onClick={() => sendCode(challenge.phone_number)}
+              disabled={resendIn > 0 || submitting}
+              className="w-full text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+            >
+              {resendIn > 0 ? `Resend code in ${resendIn}s` : 'Resend code'}
+            </button>
+          </form>
+        ) : (
+          <form onSubmit={handlePhoneSubmit} className="space-y-4">
+            <div>
+              <h1 className="text-2xl font-bold">Seller sign in</h1>
+              <p className="text-sm text-gray-600 mt-1">We'll text you a one-time code. No password needed.</p>
+            </div>
+            <label className="block">
+              <span className="text-sm font-semibold text-gray-700">Phone number</span>
+              <div className="mt-1 flex items-center gap-2 px-4 py-3 rounded-lg border border-gray-300 focus-within:border-blue-500">
+                <Smartphone size={18} className="text-gray-400" />
+                <input
+                  type="tel"
+                  autoComplete="tel"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                  placeholder="0712 345 678"
+                  autoFocus
+                  className="flex-1 focus:outline-none"
+                />
+              </div>
+            </label>
+            {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+            <button
+              type="submit"
+              disabled={!phone || submitting}
+              className="w-full bg-gradient-to-r from-green-500 to-emerald-600 text-white py-3 rounded-lg hover:shadow-lg transition font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {submitting ? 'Sending code...' : 'Send Code'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,75 +1,159 @@
-import { useParams } from "react-router-dom";
-import { useState, useEffect } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import { useState, useEffect, useCallback } from "react";
+import { AutoReleaseCountdown } from "@/components/AutoReleaseCountdown";
 import { SellerActions } from "@/components/SellerActions";
 import { SellerDeliveryActions } from "@/components/SellerDeliveryActions";
 import { BuyerConfirmActions } from "@/components/BuyerConfirmActions";
-
-const API_BASE = import.meta.env.VITE_API_BASE_URL ?? "http://localhost:4000";
-
-interface PaymentDetails {
-  transaction_id: string;
-  status: string;
-  amount: number;
-  currency: string;
-  seller_contact: string;
-  seller_payout_contact?: string | null;
-  product_name: string | null;
-  description: string | null;
-  expires_at: string | null;
-  escrowed_amount: number;
-  delivered_at?: string | null;
-  delivery_proof_urls?: string[] | null;
-}
+import { BuyerMessageForm } from "@/components/BuyerMessageForm";
+import { BuyerSettlementPanel } from "@/components/BuyerSettlementPanel";
+import { DeliveryProofGallery } from "@/components/DeliveryProofGallery";
+import { DeliveryPushOptIn } from "@/components/DeliveryPushOptIn";
+import { FeeSummary } from "@/components/FeeSummary";
+import { MilestoneList } from "@/components/MilestoneList";
+import { MpesaCheckout } from "@/components/MpesaCheckout";
+import { TransactionTimeline } from "@/components/TransactionTimeline";
+import {
+  getPayment,
+  getPaymentDispute,
+  getPaymentReceipt,
+  NotFoundError,
+  subscribePaymentEvents,
+  type Dispute,
+  type PaymentDetails,
+  type StreamStatus,
+} from "@/lib/api";
+import { ESCROW_STATUS_META, isTerminal, orderStatusFor, type PaymentViewerRole } from "@/lib/escrow";
+import { calculateFees } from "@/lib/fees";
+import { formatMoney, money } from "@/lib/money";
+import { ACCESS_QUERY_PARAM, rememberPaymentAccessToken } from "@/lib/paymentAccess";
+import { downloadReceipt } from "@/lib/receipts";
 
 // Demo data for preview
 const DEMO_PAYMENT: PaymentDetails = {
   transaction_id: "demo-transaction",
   status: "ESCROWED",
-  amount: 5000,
+  amount: 500000,
   currency: "KES",
+  fees: calculateFees(money(500000, "KES"), "buyer"),
   seller_contact: "+254712345678",
   seller_payout_contact: null,
   product_name: "iPhone 13 Pro Max",
   description: "Brand new, sealed in box. 256GB Sierra Blue.",
   expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-  escrowed_amount: 5000,
+  escrowed_amount: 500000,
   delivered_at: null,
   delivery_proof_urls: null,
+  viewer_role: "seller",
+};
+
+const ROLE_NOTICES: Record<PaymentViewerRole, string> = {
+  buyer: "You're viewing this payment as the buyer.",
+  seller: "You're viewing this payment as the seller.",
+  public: "This is a read-only view. Open the payment from your buyer or seller link to take action.",
 };
 
 export function PaymentPage() {
   const { transactionId } = useParams<{ transactionId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const accessToken = searchParams.get(ACCESS_QUERY_PARAM);
   const [data, setData] = useState<PaymentDetails | null>(null);
   const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  // A failed refresh keeps the payment already on screen and says so
   const [error, setError] = useState<string | null>(null);
+  const [streamStatus, setStreamStatus] = useState<StreamStatus>("closed");
+  const [dispute, setDispute] = useState<Dispute | null>(null);
+  const [receiptError, setReceiptError] = useState<string | null>(null);
 
-  useEffect(() => {
-    async function fetchPayment() {
-      // Use demo data for demo transaction
-      if (transactionId === "demo-transaction") {
-        setData(DEMO_PAYMENT);
-        setLoading(false);
-        return;
-      }
+  const fetchPayment = useCallback(async () => {
+    // Use demo data for demo transaction
+    if (transactionId === "demo-transaction") {
+      // ?as=buyer previews the buyer's side of the demo
+      setData({ ...DEMO_PAYMENT, viewer_role: searchParams.get("as") === "buyer" ? "buyer" : "seller" });
+      setLoading(false);
+      return;
+    }
 
-      try {
-        const res = await fetch(`${API_BASE}/api/v1/payments/${transactionId}`);
-        if (!res.ok) {
-          setError("Payment link not found");
-          setLoading(false);
-          return;
-        }
-        const payment = await res.json();
-        setData(payment);
-      } catch {
-        setError("Failed to load payment details");
-      } finally {
-        setLoading(false);
+    try {
+      const payment = await getPayment(transactionId!);
+      setData(payment);
+      setNotFound(false);
+      setError(null);
+    } catch (err) {
+      if (err instanceof NotFoundError) {
+        setData(null);
+        setNotFound(true);
+      } else {
+        setError(err instanceof Error ? err.message : "Failed to load payment details");
       }
+    } finally {
+      setLoading(false);
     }
+  }, [transactionId, searchParams]);
 
+  // Keep the link token out of the address bar (and screenshots of it) once stored
+  useEffect(() => {
+    if (!transactionId || !accessToken) return;
+    rememberPaymentAccessToken(transactionId, accessToken);
+    setSearchParams(
+      (params) => {
+        params.delete(ACCESS_QUERY_PARAM);
+        return params;
+      },
+      { replace: true }
+    );
+  }, [transactionId, accessToken, setSearchParams]);
+
+  useEffect(() => {
+    if (accessToken) return;
     fetchPayment();
-  }, [transactionId]);
+  }, [fetchPayment, accessToken]);
+
+  // Resubscribe when the role changes (paying swaps the checkout token for a
+  // buyer token) so the stream is opened with the token we hold now
+  const viewerRole = data?.viewer_role;
+  useEffect(() => {
+    if (!transactionId || !viewerRole || transactionId === "demo-transaction") return;
+    return subscribePaymentEvents(transactionId, {
+      onEvent: (event) => {
+        if (event.type === "resync") fetchPayment();
+        else if (event.type === "dispute.updated") setDispute(event.data);
+        else setData(event.data);
+      },
+      onStatus: setStreamStatus,
+    });
+  }, [transactionId, viewerRole, fetchPayment]);
+
+  // Buyers can settle their dispute from here; sellers do it from the dashboard
+  const disputeId = data?.viewer_role === "buyer" ? data.dispute_id : null;
+  useEffect(() => {
+    if (!disputeId) return;
+    const controller = new AbortController();
+    getPaymentDispute(transactionId!, controller.signal)
+      .then(setDispute)
+      .catch((err) => {
+        if (!controller.signal.aborted) console.error("Dispute fetch error:", err);
+      });
+    return () => controller.abort();
+  }, [transactionId, disputeId]);
+
+  // The server expires the link on its own; refetch when the deadline passes
+  // so an open checkout doesn't keep offering to pay
+  const expiresAt = data?.status === "AWAITING_PAYMENT" ? data.expires_at : null;
+  useEffect(() => {
+    if (!expiresAt || transactionId === "demo-transaction") return;
+    const timer = setTimeout(fetchPayment, Math.max(new Date(expiresAt).getTime() - Date.now(), 0) + 1000);
+    return () => clearTimeout(timer);
+  }, [expiresAt, transactionId, fetchPayment]);
+
+  const handleDownloadReceipt = async () => {
+    setReceiptError(null);
+    try {
+      downloadReceipt(await getPaymentReceipt(transactionId!));
+    } catch (err) {
+      setReceiptError(err instanceof Error ? err.message : "Couldn't download the receipt");
+    }
+  };
 
   if (loading) {
     return (
@@ -79,13 +163,51 @@ export function PaymentPage() {
     );
   }
 
-  if (error || !data) {
+  if (!data) {
+    return (
+      <main className="mx-auto flex min-h-screen max-w-xl flex-col items-center justify-center px-4 py-10 text-center">
+        {error && !notFound ? (
+          <>
+            <h1 className="text-xl font-semibold text-foreground">Failed to load payment details</h1>
+            <p className="mt-2 text-sm text-muted-foreground">{error}</p>
+            <button
+              type="button"
+              onClick={fetchPayment}
+              className="mt-4 text-sm text-primary underline hover:no-underline"
+            >
+              Try again
+            </button>
+          </>
+        ) : (
+          <>
+            <h1 className="text-xl font-semibold text-foreground">Payment link not found</h1>
+            <p className="mt-2 text-sm text-muted-foreground">
+              This link may have expired or the transaction ID is invalid.
+            </p>
+          </>
+        )}
+      </main>
+    );
+  }
+
+  if (data.status === "EXPIRED") {
     return (
       <main className="mx-auto flex min-h-screen max-w-xl flex-col items-center justify-center px-4 py-10 text-center">
-        <h1 className="text-xl font-semibold text-foreground">Payment link not found</h1>
+        <h1 className="text-xl font-semibold text-foreground">This payment link has expired</h1>
         <p className="mt-2 text-sm text-muted-foreground">
-          This link may have expired or the transaction ID is invalid.
+          {data.product_name ?? "This item"} · {formatMoney(money(data.amount, data.currency))}
+          {data.expires_at && <> · Expired {new Date(data.expires_at).toLocaleString()}</>}
         </p>
+        <p className="mt-4 text-sm text-muted-foreground">
+          {data.viewer_role === "seller"
+            ? "Renew it from your seller dashboard to give the buyer a new deadline. The link stays the same."
+            : `Nothing was charged. Ask the seller (${data.seller_contact}) to renew the link if you still want to pay.`}
+        </p>
+        {data.viewer_role === "seller" && (
+          <a href="/seller" className="mt-4 text-sm text-primary underline hover:no-underline">
+            Go to dashboard
+          </a>
+        )}
       </main>
     );
   }
@@ -99,21 +221,43 @@ export function PaymentPage() {
         <p className="mt-2 text-sm text-muted-foreground">
           Secure escrow via Paying-zee.
         </p>
+        <p
+          className={`mt-3 rounded-md px-3 py-2 text-xs ${
+            data.viewer_role === "public"
+              ? "border border-border bg-muted text-muted-foreground"
+              : "bg-secondary text-secondary-foreground"
+          }`}
+        >
+          {ROLE_NOTICES[data.viewer_role]}
+        </p>
+        {streamStatus === "reconnecting" && (
+          <p className="mt-2 text-xs text-muted-foreground" role="status">
+            Live updates paused. Reconnecting...
+          </p>
+        )}
+        {error && (
+          <p className="mt-2 text-xs text-destructive" role="status">
+            Couldn't refresh this payment, so it may be out of date. {error}
+          </p>
+        )}
       </header>
 
       <section className="rounded-lg border border-border bg-card p-4 text-sm">
         <div className="space-y-2">
           <p className="text-card-foreground">
-            <span className="font-medium">Amount:</span> {data.amount} {data.currency}
+            <span className="font-medium">Amount:</span> {formatMoney(money(data.amount, data.currency))}
           </p>
           <p className="text-card-foreground">
             <span className="font-medium">Status:</span>{" "}
             <span className="inline-flex items-center rounded-full bg-secondary px-2 py-0.5 text-xs font-medium text-secondary-foreground">
-              {data.status}
+              {ESCROW_STATUS_META[data.status]?.label ?? data.status}
             </span>
           </p>
+          <p className="text-xs text-muted-foreground">
+            {ESCROW_STATUS_META[data.status]?.description}
+          </p>
           <p className="text-card-foreground">
-            <span className="font-medium">Escrowed:</span> {data.escrowed_amount} {data.currency}
+            <span className="font-medium">Escrowed:</span> {formatMoney(money(data.escrowed_amount, data.currency))}
           </p>
           <p className="text-card-foreground">
             <span className="font-medium">Seller contact:</span> {data.seller_contact}
@@ -128,41 +272,141 @@ export function PaymentPage() {
               <span className="font-medium">Description:</span> {data.description}
             </p>
           )}
-          {data.expires_at && (
+          {data.mpesa_receipt && (
+            <p className="text-card-foreground">
+              <span className="font-medium">M-Pesa reference:</span>{" "}
+              <span className="font-mono">{data.mpesa_receipt}</span>
+            </p>
+          )}
+          {data.status === "AWAITING_PAYMENT" && data.expires_at && (
             <p className="mt-3 text-xs text-muted-foreground">
               Expires at: {new Date(data.expires_at).toLocaleString()}
             </p>
           )}
+          {data.status === "ESCROWED" && data.accept_by && data.viewer_role !== "public" && (
+            <p className="mt-3 text-xs text-muted-foreground">
+              {data.viewer_role === "seller"
+                ? `Accept by ${new Date(data.accept_by).toLocaleString()} or the buyer is refunded automatically.`
+                : `If the seller hasn't accepted by ${new Date(data.accept_by).toLocaleString()}, you'll be refunded automatically.`}
+            </p>
+          )}
+          {data.estimated_delivery_at && !data.delivered_at && (
+            <p className="text-xs text-muted-foreground">
+              Estimated delivery: {new Date(data.estimated_delivery_at).toLocaleDateString()}
+            </p>
+          )}
           {data.delivered_at && (
             <p className="text-xs text-muted-foreground">
               Marked delivered at: {new Date(data.delivered_at).toLocaleString()}
             </p>
           )}
           {data.delivery_proof_urls && data.delivery_proof_urls.length > 0 && (
-            <div className="mt-3 text-xs text-muted-foreground">
-              <div className="font-medium">Delivery proof:</div>
-              <ul className="mt-1 list-inside list-disc">
-                {data.delivery_proof_urls.map((url) => (
-                  <li key={url} className="truncate">
-                    <a
-                      href={url}
-                      target="_blank"
-                      rel="noreferrer"
-                      className="text-primary underline hover:no-underline"
-                    >
-                      {url}
-                    </a>
-                  </li>
-                ))}
-              </ul>
-            </div>
+            <DeliveryProofGallery urls={data.delivery_proof_urls} />
           )}
         </div>
       </section>
 
-      <SellerActions transactionId={data.transaction_id} initialStatus={data.status} />
-      <SellerDeliveryActions transactionId={data.transaction_id} initialStatus={data.status} />
-      <BuyerConfirmActions transactionId={data.transaction_id} initialStatus={data.status} />
+      <section className="rounded-lg border border-border bg-card p-4 text-card-foreground">
+        <h2 className="mb-2 text-sm font-semibold">Price breakdown</h2>
+        <FeeSummary fees={data.fees} currency={data.currency} />
+      </section>
+
+      {data.milestones && data.milestones.length > 0 && (
+        <MilestoneList
+          transactionId={data.transaction_id}
+          milestones={data.milestones}
+          currency={data.currency}
+          status={data.status}
+          role={data.viewer_role}
+          onChanged={fetchPayment}
+        />
+      )}
+
+      {data.status === "DELIVERED" && data.auto_release_at && data.viewer_role !== "public" && (
+        <AutoReleaseCountdown
+          autoReleaseAt={data.auto_release_at}
+          inspectionExtendedAt={data.inspection_extended_at}
+          role={data.viewer_role}
+        />
+      )}
+
+      {data.viewer_role === "buyer" &&
+        (data.status === "ESCROWED" || data.status === "ACTIVE") &&
+        transactionId !== "demo-transaction" && <DeliveryPushOptIn transactionId={data.transaction_id} />}
+
+      {data.viewer_role === "buyer" &&
+        orderStatusFor(data.status) &&
+        !isTerminal(data.status) &&
+        transactionId !== "demo-transaction" && <BuyerMessageForm transactionId={data.transaction_id} />}
+
+      {dispute && data.viewer_role === "buyer" && (
+        <BuyerSettlementPanel transactionId={data.transaction_id} dispute={dispute} onChanged={setDispute} />
+      )}
+
+      <MpesaCheckout
+        transactionId={data.transaction_id}
+        status={data.status}
+        role={data.viewer_role}
+        amount={data.fees.buyer_total}
+        currency={data.currency}
+        onPaid={fetchPayment}
+      />
+      <SellerActions transactionId={data.transaction_id} initialStatus={data.status} role={data.viewer_role} />
+      {!data.milestones && (
+        <SellerDeliveryActions transactionId={data.transaction_id} initialStatus={data.status} role={data.viewer_role} />
+      )}
+      <BuyerConfirmActions
+        transactionId={data.transaction_id}
+        initialStatus={data.status}
+        role={data.viewer_role}
+        estimatedDeliveryAt={data.estimated_delivery_at}
+        autoReleaseAt={data.auto_release_at}
+        inspectionExtendedAt={data.inspection_extended_at}
+        onDisputed={fetchPayment}
+        onExtended={fetchPayment}
+      />
+
+      {data.status === "COMPLETED" && data.viewer_role !== "public" && transactionId !== "demo-transaction" && (
+        <section className="rounded-lg border border-border bg-card p-4 text-card-foreground">
+          <h2 className="text-sm font-semibold">Receipt</h2>
+          <p className="mt-1 text-xs text-muted-foreground">
+            A record of this transaction with a code anyone can use to check it is genuine.
+          </p>
+          <div className="mt-3 flex flex-wrap gap-2">
+            <Link
+              to={`/pay/${encodeURIComponent(data.transaction_id)}/receipt`}
+              className="inline-flex items-center justify-center rounded-md border border-border px-4 py-2 text-xs font-medium text-foreground transition-colors hover:bg-muted"
+            >
+              View and print
+            </Link>
+            <button
+              type="button"
+              onClick={handleDownloadReceipt}
+              className="inline-flex items-center justify-center rounded-md bg-primary px-4 py-2 text-xs font-medium text-primary-foreground transition-colors hover:bg-primary/90"
+            >
+              Download PDF
+            </button>
+          </div>
+          {receiptError && (
+            <p className="mt-2 text-xs text-destructive" role="alert">
+              {receiptError}
+            </p>
+          )}
+        </section>
+      )}
+
+      {data.viewer_role !== "public" && transactionId !== "demo-transaction" && (
+        <section className="rounded-lg border border-border bg-card p-4">
+          <h2 className="mb-3 text-sm font-semibold text-card-foreground">History</h2>
+          {/* Dispute activity doesn't always touch the payment, so follow whichever changes */}
+          <TransactionTimeline
+            transactionId={data.transaction_id}
+            currency={data.currency}
+            viewer={data.viewer_role}
+            refreshKey={dispute ?? data}
+          />
+        </section>
+      )}
     </main>
   );
 }
@@ -0,0 +1,79 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { ReceiptView } from "@/components/ReceiptView";
+import { ConflictError, getOrderReceipt, getPaymentReceipt, type Receipt } from "@/lib/api";
+import { downloadReceipt } from "@/lib/receipts";
+
+interface Props {
+  /** "payment" reads through the viewer's link token, "seller" through the session */
+  scope?: "payment" | "seller";
+}
+
+export function ReceiptPage({ scope = "payment" }: Props) {
+  const { transactionId, orderId } = useParams<{ transactionId?: string; orderId?: string }>();
+  const id = (scope === "seller" ? orderId : transactionId) ?? "";
+  const [receipt, setReceipt] = useState<Receipt | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const load = scope === "seller" ? getOrderReceipt : getPaymentReceipt;
+    load(id, controller.signal)
+      .then(setReceipt)
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return;
+        if (err instanceof ConflictError) setError("The receipt is ready once the transaction is completed.");
+        else setError(err instanceof Error ? err.message : "Couldn't load the receipt");
+      });
+    return () => controller.abort();
+  }, [id, scope]);
+
+  const backTo = scope === "seller" ? "/seller" : `/pay/${encodeURIComponent(id)}`;
+
+  if (error) {
+    return (
+      <main className="mx-auto flex min-h-screen max-w-xl flex-col items-center justify-center px-4 py-10 text-center">
+        <h1 className="text-xl font-semibold text-foreground">Receipt unavailable</h1>
+        <p className="mt-2 text-sm text-muted-foreground">{error}</p>
+        <Link to={backTo} className="mt-4 text-sm text-primary underline hover:no-underline">
+          Back
+        </Link>
+      </main>
+    );
+  }
+
+  if (!receipt) {
+    return (
+      <main className="mx-auto flex min-h-screen max-w-xl flex-col items-center justify-center px-4 py-10">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </main>
+    );
+  }
+
+  return (
+    <main className="mx-auto flex min-h-screen max-w-xl flex-col gap-4 px-4 py-10 print:py-0">
+      <div className="flex items-center justify-between gap-2 print:hidden">
+        <Link to={backTo} className="text-sm text-primary underline hover:no-underline">
+          Back
+        </Link>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => window.print()}
+            className="rounded-md border border-border px-3 py-1.5 text-sm font-medium text-foreground transition-colors hover:bg-muted"
+          >
+            Print
+          </button>
+          <button
+            type="button"
+            onClick={() => downloadReceipt(receipt)}
+            className="rounded-md bg-primary px-3 py-1.5 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90"
+          >
+            Download PDF
+          </button>
+        </div>
+      </div>
+      <ReceiptView receipt={receipt} />
+    </main>
+  );
+}
@@ -1,33 +1,67 @@
-import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { 
   Home, ShoppingBag, Wallet, AlertTriangle, Share2, Settings, HelpCircle,
   MessageSquare, TrendingUp, Phone, Mail, Plus,
   ChevronRight, Bell, Menu, X, CheckCircle, Clock,
-  ArrowUpRight, ArrowDownLeft, Camera
+  ArrowUpRight, ArrowDownLeft, Camera, RotateCcw, Download
 } from 'lucide-react';
+import { AnalyticsTab } from '@/components/AnalyticsTab';
 import { DisputesManagement } from '@/components/DisputesManagement';
+import { ExportModal } from '@/components/ExportModal';
+import { FeeSummary } from '@/components/FeeSummary';
+import { NotificationCenter } from '@/components/NotificationCenter';
+import { NotificationSettings } from '@/components/NotificationSettings';
 import { OrdersTab } from '@/components/OrdersTab';
+import { PaymentLinkShare } from '@/components/PaymentLinkShare';
+import { MyPaymentLinks } from '@/components/MyPaymentLinks';
+import { WithdrawalModal } from '@/components/WithdrawalModal';
+import { useAuth } from '@/components/AuthProvider';
+import {
+  acceptOrder,
+  createPaymentLink,
+  getWallet,
+  listOrders,
+  listPaymentLinks,
+  listWalletTransactions,
+  rejectOrder,
+  renewPaymentLink,
+  subscribeSellerEvents,
+  type FeePayer,
+  type MilestoneInput,
+  type NotificationTarget,
+  type Order,
+  type PaymentLink,
+  type SalesPlatform,
+  type WalletData,
+  type WalletTransaction,
+} from '@/lib/api';
+import type { DateRange } from '@/lib/analytics';
+import { DEFAULT_FEE_PAYER, FEE_PAYER_LABELS, calculateFees } from '@/lib/fees';
+import { MAX_MILESTONES, MIN_MILESTONES, validateMilestones } from '@/lib/milestones';
+import { notificationTargetFromParams } from '@/lib/notifications';
+import {
+  CURRENCIES,
+  DEFAULT_CURRENCY,
+  SUPPORTED_CURRENCIES,
+  formatMoney,
+  formatMoneyTotals,
+  money,
+  parseMoney,
+} from '@/lib/money';
+import { SALES_PLATFORM_LABELS } from '@/lib/paymentLinks';
+import { formatMpesaPhone } from '@/lib/phone';
+import { copyToClipboard, downloadFile, facebookShareUrl, whatsappShareUrl } from '@/lib/share';
+import {
+  buildWalletStatement,
+  exportFilename,
+  walletStatementCsv,
+  walletStatementPdf,
+  type ExportFormat,
+} from '@/lib/statements';
+import { canPerform, escrowStatusFor, isTerminal, orderStatusMeta } from '@/lib/escrow';
 
 // Types
-interface Order {
-  id: string;
-  buyer: string;
-  amount: number;
-  item: string;
-  status: 'pending' | 'shipped' | 'completed' | 'dispute';
-  timeLeft: string;
-  rating: number;
-  reviews: number;
-}
-
-interface Transaction {
-  type: 'deposit' | 'withdrawal';
-  amount: number;
-  desc: string;
-  date: string;
-}
-
 interface SocialLink {
   icon: string;
   name: string;
@@ -36,12 +70,6 @@ interface SocialLink {
   connected: boolean;
 }
 
-interface WalletData {
-  available: number;
-  pending: number;
-  total: number;
-}
-
 interface SellerProfile {
   name: string;
   verified: boolean;
@@ -51,34 +79,159 @@ interface SellerProfile {
 
 export function SellerDashboard() {
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user, logout } = useAuth();
   const [activeTab, setActiveTab] = useState('home');
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [withdrawalModal, setWithdrawalModal] = useState(false);
+  const [statementModal, setStatementModal] = useState(false);
   const [shareModal, setShareModal] = useState(false);
-  const [withdrawalAmount, setWithdrawalAmount] = useState('');
+  const [notificationsOpen, setNotificationsOpen] = useState(false);
+  // Set by a notification; the tab opens it and clears it
+  const [focusedOrderId, setFocusedOrderId] = useState<string | null>(null);
+  const [focusedDisputeId, setFocusedDisputeId] = useState<string | null>(null);
+  const [highlightedTxId, setHighlightedTxId] = useState<string | null>(null);
 
   // Empty data states - ready for API integration
-  const [orders] = useState<Order[]>([]);
-  const [transactions] = useState<Transaction[]>([]);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [respondingOrderId, setRespondingOrderId] = useState<string | null>(null);
+  const [orderActionError, setOrderActionError] = useState<string | null>(null);
+  const [transactions, setTransactions] = useState<WalletTransaction[]>([]);
   const [socialLinks] = useState<SocialLink[]>([
     { icon: '📸', name: 'Instagram', handle: '', followers: '', connected: false },
     { icon: '💬', name: 'WhatsApp Business', handle: '', followers: '', connected: false },
     { icon: '👍', name: 'Facebook Marketplace', handle: '', followers: '', connected: false },
     { icon: '📌', name: 'TikTok Shop', handle: 'Coming Soon', followers: '', connected: false },
   ]);
-  const [wallet] = useState<WalletData>({ available: 0, pending: 0, total: 0 });
+  const [wallet, setWallet] = useState<WalletData>({
+    balances: [],
+    payout_phone: null,
+    payout_phone_verified: false,
+  });
   const [profile] = useState<SellerProfile>({ name: 'Seller', verified: false, memberSince: '', isActive: false });
 
   // Payment link form state
   const [paymentLinkForm, setPaymentLinkForm] = useState({
     itemName: '',
     description: '',
-    price: ''
+    price: '',
+    currency: DEFAULT_CURRENCY,
+    feePayer: DEFAULT_FEE_PAYER,
+    platform: '' as SalesPlatform | '',
+    // Empty unless the seller splits the work into milestones
+    milestones: [] as { title: string; amount: string }[]
   });
+  const [creatingLink, setCreatingLink] = useState(false);
+  const [createdLink, setCreatedLink] = useState<PaymentLink | null>(null);
+  const [paymentLinks, setPaymentLinks] = useState<PaymentLink[]>([]);
+  const [linksLoading, setLinksLoading] = useState(true);
+  const [shareLink, setShareLink] = useState<PaymentLink | null>(null);
+  const [shareNotice, setShareNotice] = useState<string | null>(null);
+
+  const fetchPaymentLinks = useCallback(async () => {
+    try {
+      setPaymentLinks(await listPaymentLinks());
+    } catch (error) {
+      console.error('Fetch payment links error:', error);
+    } finally {
+      setLinksLoading(false);
+    }
+  }, []);
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      setOrders(await listOrders());
+    } catch (error) {
+      console.error('Fetch orders error:', error);
+    }
+  }, []);
+
+  const fetchWallet = useCallback(async () => {
+    try {
+      const [walletData, walletTransactions] = await Promise.all([getWallet(), listWalletTransactions()]);
+      setWallet(walletData);
+      setTransactions(walletTransactions);
+    } catch (error) {
+      console.error('Fetch wallet error:', error);
+    }
+  }, []);
+
+  const respondToOrder = async (orderId: string, action: 'accept' | 'reject') => {
+    setRespondingOrderId(orderId);
+    setOrderActionError(null);
+    try {
+      await (action === 'accept' ? acceptOrder(orderId) : rejectOrder(orderId));
+      fetchOrders();
+      fetchWallet();
+    } catch (error) {
+      console.error(`${action} order error:`, error);
+      setOrderActionError(error instanceof Error ? error.message : `Failed to ${action} order`);
+    } finally {
+      setRespondingOrderId(null);
+    }
+  };
+
+  useEffect(() => {
+    fetchPaymentLinks();
+    fetchOrders();
+    fetchWallet();
+  }, [fetchPaymentLinks, fetchOrders, fetchWallet]);
+
+  // A payment changing status moves money between escrow and the wallet
+  useEffect(() => subscribeSellerEvents({
+    onEvent: (event) => {
+      if (event.type === 'resync') {
+        fetchPaymentLinks();
+        fetchOrders();
+        fetchWallet();
+      } else if (event.type === 'order.updated') {
+        const order = event.data;
+        setOrders(prev =>
+          prev.some(o => o.id === order.id) ? prev.map(o => (o.id === order.id ? order : o)) : [order, ...prev]
+        );
+      } else if (event.type === 'payment.updated') {
+        const link = event.data;
+        setPaymentLinks(prev =>
+          prev.some(l => l.transaction_id === link.transaction_id)
+            ? prev.map(l => (l.transaction_id === link.transaction_id ? link : l))
+            : [link, ...prev]
+        );
+        fetchWallet();
+      }
+    },
+  }), [fetchPaymentLinks, fetchOrders, fetchWallet]);
+
+  const openNotificationTarget = useCallback((target: NotificationTarget) => {
+    if (target.kind === 'order') {
+      setActiveTab('orders');
+      setFocusedOrderId(target.id);
+    } else if (target.kind === 'dispute') {
+      setActiveTab('disputes');
+      setFocusedDisputeId(target.id);
+    } else {
+      setActiveTab('wallet');
+      setHighlightedTxId(target.id);
+      fetchWallet();
+    }
+  }, [fetchWallet]);
+
+  // Tapping a push notification lands here with the target in the query string
+  useEffect(() => {
+    const target = notificationTargetFromParams(searchParams);
+    if (!target) return;
+    openNotificationTarget(target);
+    setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams, openNotificationTarget]);
+
+  useEffect(() => {
+    if (activeTab !== 'wallet' || !highlightedTxId) return;
+    document.getElementById(`wallet-tx-${highlightedTxId}`)?.scrollIntoView({ block: 'center' });
+  }, [activeTab, highlightedTxId]);
 
   const navItems = [
     { id: 'home', label: 'Home', icon: Home },
     { id: 'orders', label: 'Orders', icon: ShoppingBag },
+    { id: 'analytics', label: 'Analytics', icon: TrendingUp },
     { id: 'wallet', label: 'Wallet', icon: Wallet },
     { id: 'disputes', label: 'Disputes', icon: AlertTriangle },
     { id: 'social', label: 'Social Links', icon: Share2 },
@@ -86,49 +239,152 @@ export function SellerDashboard() {
     { id: 'support', label: 'Support', icon: HelpCircle },
   ];
 
-  const getStatusColor = (status: string) => {
-    switch(status) {
-      case 'pending': return 'bg-yellow-500/20 text-yellow-600 border-yellow-200';
-      case 'shipped': return 'bg-blue-500/20 text-blue-600 border-blue-200';
-      case 'completed': return 'bg-green-500/20 text-green-600 border-green-200';
-      case 'dispute': return 'bg-red-500/20 text-red-600 border-red-200';
-      default: return 'bg-gray-500/20 text-gray-600 border-gray-200';
-    }
-  };
+  const getStatusColor = (status: string) => orderStatusMeta(status).badgeClass;
 
-  const getStatusLabel = (status: string) => {
-    const labels: Record<string, string> = {
-      pending: '🟡 Awaiting Acceptance',
-      shipped: '🚚 In Transit',
-      completed: '✅ Completed',
-      dispute: '🚨 Dispute Opened'
-    };
-    return labels[status] || status;
-  };
+  const getStatusLabel = (status: string) => orderStatusMeta(status).label;
 
-  const handleCreatePaymentLink = () => {
-    if (!paymentLinkForm.itemName || !paymentLinkForm.price) {
+  const usingMilestones = paymentLinkForm.milestones.length > 0;
+
+  // With milestones the price is their total; null while any amount is invalid
+  const parsedMilestones = paymentLinkForm.milestones.map(m => {
+    const amount = parseMoney(m.amount, paymentLinkForm.currency);
+    return amount && { title: m.title.trim(), amount: amount.amount };
+  });
+  const linkMilestones: MilestoneInput[] | null =
+    usingMilestones && parsedMilestones.every(Boolean) ? (parsedMilestones as MilestoneInput[]) : null;
+
+  const linkPrice = usingMilestones
+    ? linkMilestones && money(linkMilestones.reduce((sum, m) => sum + m.amount, 0), paymentLinkForm.currency)
+    : parseMoney(paymentLinkForm.price, paymentLinkForm.currency);
+  const linkFees = linkPrice && calculateFees(linkPrice, paymentLinkForm.feePayer);
+
+  const handleCreatePaymentLink = async () => {
+    if (!paymentLinkForm.itemName || (!paymentLinkForm.price && !usingMilestones)) {
       alert('Please fill in item name and price');
       return;
     }
-    // TODO: API integration to create payment link
-    alert('Payment link functionality coming soon!');
-    setPaymentLinkForm({ itemName: '', description: '', price: '' });
-  };
-
-  const handleWithdraw = () => {
-    if (!withdrawalAmount || Number(withdrawalAmount) <= 0) {
-      alert('Please enter a valid amount');
+    if (usingMilestones && !linkMilestones) {
+      alert('Every milestone needs a valid amount');
+      return;
+    }
+    const price = linkPrice;
+    if (!price) {
+      alert('Please enter a valid price');
       return;
     }
-    if (Number(withdrawalAmount) > wallet.available) {
-      alert('Insufficient funds');
+    const milestoneError = linkMilestones && validateMilestones(linkMilestones, price.amount);
+    if (milestoneError) {
+      alert(milestoneError);
       return;
     }
-    // TODO: API integration for withdrawal
-    alert('Withdrawal functionality coming soon!');
-    setWithdrawalModal(false);
-    setWithdrawalAmount('');
+    if (calculateFees(price, paymentLinkForm.feePayer).seller_net <= 0) {
+      alert('The price is too low to cover the fees');
+      return;
+    }
+
+    setCreatingLink(true);
+    try {
+      const link = await createPaymentLink({
+        product_name: paymentLinkForm.itemName,
+        description: paymentLinkForm.description || undefined,
+        amount: price.amount,
+        currency: price.currency,
+        fee_payer: paymentLinkForm.feePayer,
+        milestones: linkMilestones ?? undefined,
+        platform: paymentLinkForm.platform || undefined,
+      });
+      setCreatedLink(link);
+      setPaymentLinks(prev => [link, ...prev.filter(l => l.transaction_id !== link.transaction_id)]);
+      setPaymentLinkForm(prev => ({ ...prev, itemName: '', description: '', price: '', milestones: [] }));
+    } catch (error) {
+      alert((error as Error).message || 'Failed to create payment link');
+    } finally {
+      setCreatingLink(false);
+    }
+  };
+
+  const updateMilestone = (index: number, field: 'title' | 'amount', value: string) =>
+    setPaymentLinkForm(prev => ({
+      ...prev,
+      milestones: prev.milestones.map((m, i) => (i === index ? { ...m, [field]: value } : m)),
+    }));
+
+  const setMilestonesEnabled = (enabled: boolean) =>
+    setPaymentLinkForm(prev => ({
+      ...prev,
+      milestones: enabled ? Array.from({ length: MIN_MILESTONES }, () => ({ title: '', amount: '' })) : [],
+    }));
+
+  const handleRenewLink = async (link: PaymentLink, expiresInHours: number) => {
+    try {
+      const renewed = await renewPaymentLink(link.transaction_id, { expires_in_hours: expiresInHours });
+      setPaymentLinks(prev => prev.map(l => (l.transaction_id === renewed.transaction_id ? renewed : l)));
+    } catch (error) {
+      alert((error as Error).message || 'Failed to renew payment link');
+    }
+  };
+
+  const statementCurrencies = [...new Set(transactions.map(tx => tx.currency))];
+
+  const exportStatement = (format: ExportFormat, range: DateRange, currency: string) => {
+    const statement = buildWalletStatement(transactions, currency, range);
+    const file = format === 'csv'
+      ? new Blob([walletStatementCsv(statement)], { type: 'text/csv;charset=utf-8' })
+      : walletStatementPdf(statement);
+    downloadFile(file, exportFilename(`wallet-${currency}`, range, format));
+    setStatementModal(false);
+  };
+
+  const openShareModal = (link: PaymentLink | null) => {
+    setShareLink(link);
+    setShareNotice(null);
+    setShareModal(true);
+  };
+
+  const shareText = (link: PaymentLink) =>
+    `Pay for ${link.product_name ?? 'your order'} (${formatMoney(money(link.amount, link.currency))}) securely via paying-zee escrow: ${link.buyer_url}`;
+
+  const handleInstagramShare = async (link: PaymentLink) => {
+    // Instagram has no web share intent; copy so the seller can paste into a DM or bio
+    const copied = await copyToClipboard(link.buyer_url);
+    setShareNotice(copied ? 'Link copied! Paste it into your Instagram DM or bio.' : 'Copy the link above to share on Instagram.');
+  };
+
+  const handleLogout = async () => {
+    await logout();
+    navigate('/', { replace: true });
+  };
+
+  const walletTotal = (key: 'available' | 'pending' | 'total') =>
+    formatMoneyTotals(wallet.balances.map(b => money(b[key], b.currency)));
+
+  const hasAvailableFunds = wallet.balances.some(b => b.available > 0);
+  // Whatever the state machine lets the seller accept is waiting on them
+  const awaitingAction = orders.filter(o => canPerform(escrowStatusFor(o.status), 'accept', 'seller'));
+
+  const formatTxDate = (date: string) => {
+    const parsed = new Date(date);
+    return Number.isNaN(parsed.getTime()) ? date : parsed.toLocaleString('en-KE');
+  };
+
+  const txSign = (tx: WalletTransaction) => (tx.type === 'deposit' ? '+' : tx.type === 'withdrawal' ? '-' : '');
+
+  const txAmountClass = (tx: WalletTransaction) =>
+    tx.type === 'deposit' ? 'text-green-600' : tx.type === 'withdrawal' ? 'text-red-600' : 'text-gray-500';
+
+  const getWithdrawalStatusBadge = (tx: WalletTransaction) => {
+    if (tx.type !== 'withdrawal' || !tx.status) return null;
+    const styles: Record<string, string> = {
+      pending: 'bg-yellow-100 text-yellow-800',
+      processing: 'bg-blue-100 text-blue-800',
+      succeeded: 'bg-green-100 text-green-800',
+      failed: 'bg-red-100 text-red-800',
+    };
+    return (
+      <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-semibold ${styles[tx.status]}`}>
+        {tx.status}
+      </span>
+    );
   };
 
   // HOME TAB
@@ -145,7 +401,11 @@ export function SellerDashboard() {
               {profile.isActive && ' • 🟢 Active Now'}
             </p>
           </div>
-          <button className="bg-white/20 hover:bg-white/30 px-4 py-2 rounded-lg transition">
+          <button
+            onClick={() => setNotificationsOpen(true)}
+            aria-label="Notifications"
+            className="bg-white/20 hover:bg-white/30 px-4 py-2 rounded-lg transition"
+          >
             <Bell size={20} />
           </button>
         </div>
@@ -157,7 +417,7 @@ export function SellerDashboard() {
           { label: 'New Orders', value: orders.filter(o => o.status === 'pending').length, color: 'from-green-500 to-emerald-600' },
           { label: 'Active Orders', value: orders.filter(o => o.status === 'shipped').length, color: 'from-blue-500 to-cyan-600' },
           { label: 'Completed', value: orders.filter(o => o.status === 'completed').length, color: 'from-purple-500 to-pink-600' },
-          { label: 'Total Revenue', value: `KES ${wallet.total.toLocaleString()}`, color: 'from-orange-500 to-red-600' },
+          { label: 'Total Revenue', value: walletTotal('total'), color: 'from-orange-500 to-red-600' },
         ].map((stat, idx) => (
           <div key={idx} className={`bg-gradient-to-br ${stat.color} rounded-xl p-6 text-white shadow-lg`}>
             <p className="text-sm opacity-90 mb-2">{stat.label}</p>
@@ -170,10 +430,10 @@ export function SellerDashboard() {
       <div className="grid md:grid-cols-3 gap-6">
         <div className="bg-white border border-green-200 rounded-xl p-6">
           <p className="text-gray-600 text-sm mb-2">Available to Withdraw</p>
-          <p className="text-3xl font-bold text-green-600 mb-4">KES {wallet.available.toLocaleString()}</p>
+          <p className="text-3xl font-bold text-green-600 mb-4">{walletTotal('available')}</p>
           <button 
             onClick={() => setWithdrawalModal(true)} 
-            disabled={wallet.available <= 0}
+            disabled={!hasAvailableFunds}
             className="w-full bg-green-600 text-white py-2 rounded-lg hover:bg-green-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
           >
             Withdraw Now
@@ -182,13 +442,13 @@ export function SellerDashboard() {
 
         <div className="bg-white border border-yellow-200 rounded-xl p-6">
           <p className="text-gray-600 text-sm mb-2">Pending Escrow</p>
-          <p className="text-3xl font-bold text-yellow-600 mb-4">KES {wallet.pending.toLocaleString()}</p>
+          <p className="text-3xl font-bold text-yellow-600 mb-4">{walletTotal('pending')}</p>
           <p className="text-xs text-gray-500">({orders.filter(o => o.status === 'pending' || o.status === 'shipped').length} orders pending confirmation)</p>
         </div>
 
         <div className="bg-white border border-blue-200 rounded-xl p-6">
           <p className="text-gray-600 text-sm mb-2">Total Earnings</p>
-          <p className="text-3xl font-bold text-blue-600 mb-2">KES {wallet.total.toLocaleString()}</p>
+          <p className="text-3xl font-bold text-blue-600 mb-2">{walletTotal('total')}</p>
           <div className="flex items-center gap-1 text-green-600 text-sm">
             <TrendingUp size={16} /> All time earnings
           </div>
@@ -198,28 +458,45 @@ export function SellerDashboard() {
       {/* Action Board */}
       <div className="bg-red-50 border border-red-200 rounded-xl p-6">
         <h3 className="text-lg font-bold text-red-800 mb-4">🔴 Awaiting Your Action</h3>
-        {orders.filter(o => o.status === 'pending').length === 0 ? (
+        {orderActionError && <p className="text-sm text-red-600 mb-4" role="alert">{orderActionError}</p>}
+        {awaitingAction.length === 0 ? (
           <div className="text-center py-8 text-gray-500">
             <CheckCircle className="w-12 h-12 mx-auto mb-4 text-green-500" />
             <p>No pending actions! You're all caught up.</p>
           </div>
         ) : (
           <div className="space-y-4">
-            {orders.filter(o => o.status === 'pending').map((order) => (
+            {awaitingAction.map((order) => (
               <div key={order.id} className="bg-white p-4 rounded-lg border border-gray-200 hover:border-red-300 transition cursor-pointer">
                 <div className="flex justify-between items-start mb-2">
                   <div>
                     <p className="font-bold">Order #{order.id}</p>
-                    <p className="text-sm text-gray-600">{order.buyer}</p>
+                    <p className="text-sm text-gray-600">{order.buyerName}</p>
                   </div>
                   <span className={`px-3 py-1 rounded-full text-xs font-semibold border ${getStatusColor(order.status)}`}>
                     {getStatusLabel(order.status)}
                   </span>
                 </div>
-                <p className="text-gray-700 text-sm mb-3">{order.item} • KES {order.amount.toLocaleString()}</p>
+                <p className="text-gray-700 text-sm mb-3">{order.itemName} • {formatMoney(money(order.amount, order.currency))}</p>
                 <div className="flex gap-2">
-                  <button className="flex-1 bg-green-600 text-white py-1 rounded text-sm hover:bg-green-700 transition">Accept</button>
-                  <button className="flex-1 bg-red-600 text-white py-1 rounded text-sm hover:bg-red-700 transition">Reject</button>
+                  {canPerform(escrowStatusFor(order.status), 'accept', 'seller') && (
+                    <button
+                      onClick={() => respondToOrder(order.id, 'accept')}
+                      disabled={respondingOrderId === order.id}
+                      className="flex-1 bg-green-600 text-white py-1 rounded text-sm hover:bg-green-700 transition disabled:opacity-50"
+                    >
+                      Accept
+                    </button>
+                  )}
+                  {canPerform(escrowStatusFor(order.status), 'reject', 'seller') && (
+                    <button
+                      onClick={() => respondToOrder(order.id, 'reject')}
+                      disabled={respondingOrderId === order.id}
+                      className="flex-1 bg-red-600 text-white py-1 rounded text-sm hover:bg-red-700 transition disabled:opacity-50"
+                    >
+                      Reject
+                    </button>
+                  )}
                 </div>
               </div>
             ))}
@@ -238,19 +515,21 @@ export function SellerDashboard() {
           </div>
         ) : (
           <div className="space-y-3">
-            {transactions.slice(0, 5).map((tx, idx) => (
-              <div key={idx} className="flex items-start gap-3 pb-3 border-b last:border-0">
+            {transactions.slice(0, 5).map((tx) => (
+              <div key={tx.id} className="flex items-start gap-3 pb-3 border-b last:border-0">
                 {tx.type === 'deposit' ? (
                   <ArrowDownLeft className="text-green-600 flex-shrink-0 mt-1" size={20} />
+                ) : tx.type === 'refund' ? (
+                  <RotateCcw className="text-gray-500 flex-shrink-0 mt-1" size={20} />
                 ) : (
                   <ArrowUpRight className="text-red-600 flex-shrink-0 mt-1" size={20} />
                 )}
                 <div className="flex-1">
-                  <p className="font-semibold">{tx.desc}</p>
-                  <p className="text-sm text-gray-600">{tx.date}</p>
+                  <p className="font-semibold">{tx.desc}{getWithdrawalStatusBadge(tx)}</p>
+                  <p className="text-sm text-gray-600">{formatTxDate(tx.date)}</p>
                 </div>
-                <p className={`font-bold ${tx.type === 'deposit' ? 'text-green-600' : 'text-red-600'}`}>
-                  {tx.type === 'deposit' ? '+' : '-'}KES {tx.amount.toLocaleString()}
+                <p className={`font-bold ${txAmountClass(tx)}`}>
+                  {txSign(tx)}{formatMoney(money(tx.amount, tx.currency))}
                 </p>
               </div>
             ))}
@@ -262,9 +541,16 @@ export function SellerDashboard() {
 
   // ORDERS TAB
   const renderOrders = () => (
-    <OrdersTab onCreatePaymentLink={() => setActiveTab('social')} />
+    <OrdersTab
+      onCreatePaymentLink={() => setActiveTab('social')}
+      openOrderId={focusedOrderId}
+      onOrderOpened={() => setFocusedOrderId(null)}
+    />
   );
 
+  // ANALYTICS TAB
+  const renderAnalytics = () => <AnalyticsTab />;
+
   // WALLET TAB
   const renderWallet = () => (
     <div className="space-y-6">
@@ -273,10 +559,10 @@ export function SellerDashboard() {
       <div className="grid md:grid-cols-3 gap-6">
         <div className="bg-gradient-to-br from-green-500 to-emerald-600 rounded-xl p-8 text-white">
           <p className="text-green-100 mb-2">Available to Withdraw</p>
-          <p className="text-4xl font-bold mb-4">KES {wallet.available.toLocaleString()}</p>
+          <p className="text-4xl font-bold mb-4">{walletTotal('available')}</p>
           <button 
             onClick={() => setWithdrawalModal(true)} 
-            disabled={wallet.available <= 0}
+            disabled={!hasAvailableFunds}
             className="w-full bg-white text-green-600 py-3 rounded-lg hover:bg-gray-100 transition font-bold disabled:opacity-50 disabled:cursor-not-allowed"
           >
             💸 Withdraw
@@ -285,20 +571,30 @@ export function SellerDashboard() {
 
         <div className="bg-gradient-to-br from-yellow-500 to-orange-600 rounded-xl p-8 text-white">
           <p className="text-yellow-100 mb-2">Pending Escrow</p>
-          <p className="text-4xl font-bold mb-2">KES {wallet.pending.toLocaleString()}</p>
-          <p className="text-sm text-yellow-100">({orders.filter(o => o.status !== 'completed').length} orders pending)</p>
+          <p className="text-4xl font-bold mb-2">{walletTotal('pending')}</p>
+          <p className="text-sm text-yellow-100">({orders.filter(o => !isTerminal(escrowStatusFor(o.status))).length} orders pending)</p>
         </div>
 
         <div className="bg-gradient-to-br from-blue-500 to-cyan-600 rounded-xl p-8 text-white">
           <p className="text-blue-100 mb-2">Total Earnings</p>
-          <p className="text-4xl font-bold mb-2">KES {wallet.total.toLocaleString()}</p>
+          <p className="text-4xl font-bold mb-2">{walletTotal('total')}</p>
           <p className="text-sm text-blue-100">All time</p>
         </div>
       </div>
 
       {/* Transaction History */}
       <div className="bg-white rounded-xl border border-gray-200 p-6">
-        <h3 className="text-lg font-bold mb-6">📝 Transaction History</h3>
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-lg font-bold">📝 Transaction History</h3>
+          {transactions.length > 0 && (
+            <button
+              onClick={() => setStatementModal(true)}
+              className="border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition text-sm font-semibold flex items-center gap-2"
+            >
+              <Download size={16} /> Statement
+            </button>
+          )}
+        </div>
         {transactions.length === 0 ? (
           <div className="text-center py-12 text-gray-500">
             <Wallet className="w-16 h-16 mx-auto mb-4 text-gray-300" />
@@ -307,23 +603,50 @@ export function SellerDashboard() {
           </div>
         ) : (
           <div className="space-y-4">
-            {transactions.map((tx, idx) => (
-              <div key={idx} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg border border-gray-200">
+            {transactions.map((tx) => (
+              <div
+                key={tx.id}
+                id={`wallet-tx-${tx.id}`}
+                className={`flex items-center justify-between p-4 rounded-lg border ${
+                  tx.id === highlightedTxId ? 'bg-blue-50 border-blue-400' : 'bg-gray-50 border-gray-200'
+                }`}
+              >
                 <div className="flex items-center gap-4">
-                  <div className={`p-3 rounded-full ${tx.type === 'deposit' ? 'bg-green-100' : 'bg-red-100'}`}>
+                  <div className={`p-3 rounded-full ${tx.type === 'deposit' ? 'bg-green-100' : tx.type === 'refund' ? 'bg-gray-200' : 'bg-red-100'}`}>
                     {tx.type === 'deposit' ? (
                       <ArrowDownLeft className="text-green-600" size={20} />
+                    ) : tx.type === 'refund' ? (
+                      <RotateCcw className="text-gray-500" size={20} />
                     ) : (
                       <ArrowUpRight className="text-red-600" size={20} />
                     )}
                   </div>
                   <div>
-                    <p className="font-semibold">{tx.desc}</p>
-                    <p className="text-sm text-gray-600">{tx.date}</p>
+                    <p className="font-semibold">{tx.desc}{getWithdrawalStatusBadge(tx)}</p>
+                    <p className="text-sm text-gray-600">{formatTxDate(tx.date)}</p>
+                    {tx.mpesa_receipt && (
+                      <p className="text-xs text-gray-500">M-Pesa ref: <span className="font-mono">{tx.mpesa_receipt}</span></p>
+                    )}
+                    {tx.fees && tx.fees.fee_payer === 'seller' && (
+                      <p className="text-xs text-gray-500">
+                        {formatMoney(money(tx.fees.item_price, tx.currency))} less{' '}
+                        {formatMoney(money(tx.fees.escrow_fee, tx.currency))} escrow fee and{' '}
+                        {formatMoney(money(tx.fees.mpesa_fee, tx.currency))} M-Pesa charges
+                      </p>
+                    )}
+                    {tx.fees && tx.fees.fee_payer === 'buyer' && (
+                      <p className="text-xs text-gray-500">Item price in full; the buyer paid the fees</p>
+                    )}
+                    {tx.type === 'refund' && (
+                      <p className="text-xs text-gray-500">Paid back from escrow; your balance is unchanged</p>
+                    )}
+                    {tx.fee ? (
+                      <p className="text-xs text-gray-500">Includes {formatMoney(money(tx.fee, tx.currency))} withdrawal fee</p>
+                    ) : null}
                   </div>
                 </div>
-                <p className={`text-xl font-bold ${tx.type === 'deposit' ? 'text-green-600' : 'text-red-600'}`}>
-                  {tx.type === 'deposit' ? '+' : '-'}KES {tx.amount.toLocaleString()}
+                <p className={`text-xl font-bold ${txAmountClass(tx)}`}>
+                  {txSign(tx)}{formatMoney(money(tx.amount, tx.currency))}
                 </p>
               </div>
             ))}
@@ -334,7 +657,9 @@ export function SellerDashboard() {
   );
 
   // DISPUTES TAB
-  const renderDisputes = () => <DisputesManagement />;
+  const renderDisputes = () => (
+    <DisputesManagement openDisputeId={focusedDisputeId} onDisputeOpened={() => setFocusedDisputeId(null)} />
+  );
 
   // SOCIAL TAB
   const renderSocial = () => (
@@ -355,7 +680,7 @@ export function SellerDashboard() {
             <div className="flex gap-2">
               {social.connected ? (
                 <>
-                  <button onClick={() => setShareModal(true)} className="flex-1 bg-green-600 text-white py-2 rounded-lg hover:bg-green-700 transition text-sm font-semibold">
+                  <button onClick={() => openShareModal(createdLink ?? paymentLinks[0] ?? null)} className="flex-1 bg-green-600 text-white py-2 rounded-lg hover:bg-green-700 transition text-sm font-semibold">
                     Share Link
                   </button>
                   <button className="flex-1 bg-gray-300 text-gray-700 py-2 rounded-lg hover:bg-gray-400 transition text-sm font-semibold">
@@ -394,22 +719,126 @@ export function SellerDashboard() {
             className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:outline-none focus:border-blue-500" 
             rows={3}
           />
-          <input 
-            type="number" 
-            placeholder="Price (KES)" 
-            value={paymentLinkForm.price}
-            onChange={(e) => setPaymentLinkForm(prev => ({ ...prev, price: e.target.value }))}
-            className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:outline-none focus:border-blue-500" 
-          />
+          <select
+            value={paymentLinkForm.platform}
+            onChange={(e) => setPaymentLinkForm(prev => ({ ...prev, platform: e.target.value as SalesPlatform | '' }))}
+            aria-label="Where are you selling this?"
+            className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:outline-none focus:border-blue-500 bg-white"
+          >
+            <option value="">Where are you selling this? (optional)</option>
+            {(Object.keys(SALES_PLATFORM_LABELS) as SalesPlatform[]).map(platform => (
+              <option key={platform} value={platform}>{SALES_PLATFORM_LABELS[platform]}</option>
+            ))}
+          </select>
+          <div className="flex gap-3">
+            <select
+              value={paymentLinkForm.currency}
+              onChange={(e) => setPaymentLinkForm(prev => ({ ...prev, currency: e.target.value }))}
+              aria-label="Currency"
+              className="px-4 py-3 rounded-lg border border-gray-300 focus:outline-none focus:border-blue-500 bg-white"
+            >
+              {SUPPORTED_CURRENCIES.map(code => (
+                <option key={code} value={code} title={CURRENCIES[code].name}>{code}</option>
+              ))}
+            </select>
+            <input 
+              type="text" 
+              inputMode="decimal"
+              placeholder={`Price (${paymentLinkForm.currency})`} 
+              value={usingMilestones ? (linkPrice ? formatMoney(linkPrice) : '') : paymentLinkForm.price}
+              onChange={(e) => setPaymentLinkForm(prev => ({ ...prev, price: e.target.value }))}
+              readOnly={usingMilestones}
+              title={usingMilestones ? 'The total of the milestones' : undefined}
+              className="flex-1 min-w-0 px-4 py-3 rounded-lg border border-gray-300 focus:outline-none focus:border-blue-500 read-only:bg-gray-50" 
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={usingMilestones}
+              onChange={(e) => setMilestonesEnabled(e.target.checked)}
+            />
+            Split into milestones (paid out one at a time)
+          </label>
+          {usingMilestones && (
+            <div className="space-y-2">
+              {paymentLinkForm.milestones.map((milestone, index) => (
+                <div key={index} className="flex gap-2">
+                  <input
+                    type="text"
+                    placeholder={`Milestone ${index + 1}, e.g. ${index === 0 ? 'First drafts' : 'Final files'}`}
+                    value={milestone.title}
+                    onChange={(e) => updateMilestone(index, 'title', e.target.value)}
+                    className="flex-1 min-w-0 px-3 py-2 rounded-lg border border-gray-300 focus:outline-none focus:border-blue-500"
+                  />
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    placeholder={`Amount (${paymentLinkForm.currency})`}
+                    value={milestone.amount}
+                    onChange={(e) => updateMilestone(index, 'amount', e.target.value)}
+                    className="w-36 px-3 py-2 rounded-lg border border-gray-300 focus:outline-none focus:border-blue-500"
+                  />
+                  {paymentLinkForm.milestones.length > MIN_MILESTONES && (
+                    <button
+                      type="button"
+                      onClick={() => setPaymentLinkForm(prev => ({ ...prev, milestones: prev.milestones.filter((_, i) => i !== index) }))}
+                      aria-label={`Remove milestone ${index + 1}`}
+                      className="p-2 text-gray-400 hover:text-red-600"
+                    >
+                      <X size={18} />
+                    </button>
+                  )}
+                </div>
+              ))}
+              {paymentLinkForm.milestones.length < MAX_MILESTONES && (
+                <button
+                  type="button"
+                  onClick={() => setPaymentLinkForm(prev => ({ ...prev, milestones: [...prev.milestones, { title: '', amount: '' }] }))}
+                  className="text-sm text-blue-600 hover:underline"
+                >
+                  + Add milestone
+                </button>
+              )}
+            </div>
+          )}
+          <div className="flex flex-wrap gap-4" role="radiogroup" aria-label="Who pays the fees">
+            {(Object.keys(FEE_PAYER_LABELS) as FeePayer[]).map(payer => (
+              <label key={payer} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="radio"
+                  name="fee-payer"
+                  value={payer}
+                  checked={paymentLinkForm.feePayer === payer}
+                  onChange={() => setPaymentLinkForm(prev => ({ ...prev, feePayer: payer }))}
+                />
+                {FEE_PAYER_LABELS[payer]}
+              </label>
+            ))}
+          </div>
+          {linkFees && (
+            <FeeSummary
+              fees={linkFees}
+              currency={paymentLinkForm.currency}
+              className="bg-gray-50 p-4 rounded-lg border border-gray-200"
+            />
+          )}
           <button 
             onClick={handleCreatePaymentLink}
-            className="w-full bg-gradient-to-r from-green-500 to-emerald-600 text-white py-3 rounded-lg hover:shadow-lg transition font-bold text-lg"
+            disabled={creatingLink}
+            className="w-full bg-gradient-to-r from-green-500 to-emerald-600 text-white py-3 rounded-lg hover:shadow-lg transition font-bold text-lg disabled:opacity-60"
           >
             <Plus className="inline mr-2" size={20} />
-            Generate Payment Link
+            {creatingLink ? 'Generating...' : 'Generate Payment Link'}
           </button>
         </div>
       </div>
+
+      {createdLink && (
+        <PaymentLinkShare link={createdLink} onShare={openShareModal} onDismiss={() => setCreatedLink(null)} />
+      )}
+
+      <MyPaymentLinks links={paymentLinks} loading={linksLoading} onShare={openShareModal} onRenew={handleRenewLink} />
     </div>
   );
 
@@ -440,34 +869,25 @@ export function SellerDashboard() {
               <span className="font-semibold">Phone</span>
               <span className="text-yellow-600 font-bold">⏳ Pending</span>
             </div>
-            <div className="flex justify-between items-center p-3 bg-yellow-50 rounded-lg border border-yellow-200">
-              <span className="font-semibold">M-Pesa</span>
-              <span className="text-yellow-600 font-bold">⏳ Pending</span>
-            </div>
+            {wallet.payout_phone_verified ? (
+              <div className="flex justify-between items-center p-3 bg-green-50 rounded-lg border border-green-200">
+                <span className="font-semibold">M-Pesa</span>
+                <span className="text-green-600 font-bold">✅ {wallet.payout_phone ? formatMpesaPhone(wallet.payout_phone) : 'Verified'}</span>
+              </div>
+            ) : (
+              <div className="flex justify-between items-center p-3 bg-yellow-50 rounded-lg border border-yellow-200">
+                <span className="font-semibold">M-Pesa</span>
+                <span className="text-yellow-600 font-bold">⏳ Pending</span>
+              </div>
+            )}
           </div>
         </div>
       </div>
 
-      <div className="bg-white rounded-xl border border-gray-200 p-6">
-        <p className="font-bold text-lg mb-4">Quick Settings</p>
-        <div className="space-y-4">
-          <div className="flex justify-between items-center">
-            <span className="font-semibold">Push Notifications</span>
-            <input type="checkbox" defaultChecked className="w-5 h-5" />
-          </div>
-          <div className="flex justify-between items-center">
-            <span className="font-semibold">SMS Alerts</span>
-            <input type="checkbox" defaultChecked className="w-5 h-5" />
-          </div>
-          <div className="flex justify-between items-center">
-            <span className="font-semibold">Email Updates</span>
-            <input type="checkbox" defaultChecked className="w-5 h-5" />
-          </div>
-        </div>
-      </div>
+      <NotificationSettings />
 
       <button 
-        onClick={() => navigate('/')}
+        onClick={handleLogout}
         className="w-full bg-red-600 text-white py-3 rounded-lg hover:bg-red-700 transition font-bold text-lg"
       >
         🚪 Log Out
@@ -546,11 +966,16 @@ export function SellerDashboard() {
             </div>
           </div>
           <div className="flex items-center gap-4">
-            <button className="relative p-2 text-gray-700 hover:bg-gray-100 rounded-lg transition">
-              <Bell size={24} />
-            </button>
-            <button className="w-10 h-10 rounded-full bg-gradient-to-br from-blue-500 to-cyan-600 text-white font-bold flex items-center justify-center">
-              S
+            <NotificationCenter
+              open={notificationsOpen}
+              onOpenChange={setNotificationsOpen}
+              onOpenTarget={openNotificationTarget}
+            />
+            <button
+              title={user ? formatMpesaPhone(user.phone_number) : undefined}
+              className="w-10 h-10 rounded-full bg-gradient-to-br from-blue-500 to-cyan-600 text-white font-bold flex items-center justify-center"
+            >
+              {user?.name?.charAt(0).toUpperCase() ?? 'S'}
             </button>
           </div>
         </div>
@@ -567,6 +992,7 @@ export function SellerDashboard() {
                   key={item.id}
                   onClick={() => {
                     setActiveTab(item.id);
+                    setHighlightedTxId(null);
                     setSidebarOpen(false);
                   }}
                   className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg transition ${
@@ -587,6 +1013,7 @@ export function SellerDashboard() {
         <div className="flex-1 p-6 md:ml-0">
           {activeTab === 'home' && renderHome()}
           {activeTab === 'orders' && renderOrders()}
+          {activeTab === 'analytics' && renderAnalytics()}
           {activeTab === 'wallet' && renderWallet()}
           {activeTab === 'disputes' && renderDisputes()}
           {activeTab === 'social' && renderSocial()}
@@ -597,59 +1024,21 @@ export function SellerDashboard() {
 
       {/* Withdrawal Modal */}
       {withdrawalModal && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white rounded-xl max-w-md w-full p-8">
-            <div className="flex justify-between items-center mb-6">
-              <h3 className="text-2xl font-bold">💸 Withdraw Funds</h3>
-              <button onClick={() => setWithdrawalModal(false)} className="text-gray-500 hover:text-gray-700">
-                <X size={24} />
-              </button>
-            </div>
-
-            <div className="space-y-4 mb-6">
-              <div className="bg-green-50 p-4 rounded-lg border-2 border-green-300 cursor-pointer hover:bg-green-100 transition">
-                <p className="font-bold">📱 M-Pesa (Recommended)</p>
-                <p className="text-sm text-gray-600 mt-2">Link your M-Pesa number</p>
-                <p className="text-xs text-green-600 mt-1">Instant • No fee</p>
-              </div>
-
-              <div className="bg-gray-50 p-4 rounded-lg border-2 border-gray-300 cursor-pointer hover:bg-gray-100 transition">
-                <p className="font-bold">🏦 Bank Account</p>
-                <p className="text-sm text-gray-600 mt-2">Link your bank account</p>
-                <p className="text-xs text-gray-600 mt-1">24-48 hours • No fee</p>
-              </div>
-            </div>
-
-            <div className="space-y-3 mb-6">
-              <input 
-                type="number" 
-                placeholder="Amount (KES)" 
-                value={withdrawalAmount}
-                onChange={(e) => setWithdrawalAmount(e.target.value)}
-                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:outline-none focus:border-blue-500" 
-              />
-              {withdrawalAmount && (
-                <div className="bg-blue-50 p-3 rounded-lg">
-                  <p className="text-sm text-blue-900">
-                    <strong>You'll receive:</strong> KES {(Number(withdrawalAmount) * 0.98).toLocaleString()} (after 2% fee)
-                  </p>
-                </div>
-              )}
-            </div>
+        <WithdrawalModal wallet={wallet} onClose={() => setWithdrawalModal(false)} onChanged={fetchWallet} />
+      )}
 
-            <div className="flex gap-3">
-              <button onClick={() => setWithdrawalModal(false)} className="flex-1 px-4 py-3 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition font-semibold">
-                Cancel
-              </button>
-              <button 
-                onClick={handleWithdraw}
-                className="flex-1 px-4 py-3 rounded-lg bg-gradient-to-r from-green-500 to-emerald-600 text-white hover:shadow-lg transition font-bold"
-              >
-                Confirm Withdrawal
-              </button>
-            </div>
-          </div>
-        </div>
+      {/* Statement Export */}
+      {statementModal && (
+        <ExportModal
+          title="Wallet Statement"
+          currencies={statementCurrencies}
+          describe={(range, currency) => {
+            const count = buildWalletStatement(transactions, currency, range).entries.length;
+            return `${count} transaction${count === 1 ? '' : 's'}`;
+          }}
+          onExport={exportStatement}
+          onClose={() => setStatementModal(false)}
+        />
       )}
 
       {/* Share Modal */}
@@ -664,19 +1053,46 @@ export function SellerDashboard() {
             </div>
 
             <div className="bg-blue-50 p-4 rounded-lg mb-6 border border-blue-200">
-              <p className="text-sm font-mono text-blue-900 break-all">Create a payment link first to share</p>
+              <p className="text-sm font-mono text-blue-900 break-all">
+                {shareLink ? shareLink.buyer_url : 'Create a payment link first to share'}
+              </p>
+              {shareLink && (
+                <p className="text-xs text-blue-700 mt-2">
+                  {shareLink.product_name} • {formatMoney(money(shareLink.amount, shareLink.currency))}
+                </p>
+              )}
             </div>
 
+            {shareNotice && (
+              <p className="text-sm text-green-700 mb-4">{shareNotice}</p>
+            )}
+
             <div className="space-y-3 mb-6">
-              <button className="w-full flex items-center justify-center gap-3 px-4 py-3 rounded-lg bg-pink-600 text-white hover:bg-pink-700 transition font-semibold">
+              <button
+                onClick={() => shareLink && handleInstagramShare(shareLink)}
+                disabled={!shareLink}
+                className="w-full flex items-center justify-center gap-3 px-4 py-3 rounded-lg bg-pink-600 text-white hover:bg-pink-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+              >
                 📸 Share on Instagram
               </button>
-              <button className="w-full flex items-center justify-center gap-3 px-4 py-3 rounded-lg bg-green-600 text-white hover:bg-green-700 transition font-semibold">
+              <a
+                href={shareLink ? whatsappShareUrl(shareText(shareLink)) : undefined}
+                target="_blank"
+                rel="noreferrer"
+                aria-disabled={!shareLink}
+                className={`w-full flex items-center justify-center gap-3 px-4 py-3 rounded-lg bg-green-600 text-white hover:bg-green-700 transition font-semibold ${shareLink ? '' : 'opacity-50 pointer-events-none'}`}
+              >
                 💬 Share on WhatsApp
-              </button>
-              <button className="w-full flex items-center justify-center gap-3 px-4 py-3 rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition font-semibold">
+              </a>
+              <a
+                href={shareLink ? facebookShareUrl(shareLink.buyer_url) : undefined}
+                target="_blank"
+                rel="noreferrer"
+                aria-disabled={!shareLink}
+                className={`w-full flex items-center justify-center gap-3 px-4 py-3 rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition font-semibold ${shareLink ? '' : 'opacity-50 pointer-events-none'}`}
+              >
                 👍 Share on Facebook
-              </button>
+              </a>
             </div>
 
             <button onClick={() => setShareModal(false)} className="w-full px-4 py-3 rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 transition font-semibold">
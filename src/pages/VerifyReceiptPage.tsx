@@ -0,0 +1,105 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { useSearchParams } from "react-router-dom";
+import { NotFoundError, verifyReceipt, type ReceiptVerification } from "@/lib/api";
+import { formatMoney, money } from "@/lib/money";
+import { formatVerificationCode, normalizeVerificationCode } from "@/lib/receipts";
+
+export function VerifyReceiptPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const code = normalizeVerificationCode(searchParams.get("code") ?? "");
+  const [input, setInput] = useState(formatVerificationCode(code));
+  const [result, setResult] = useState<ReceiptVerification | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  // The code lives in the URL so a scanned QR code checks straight away
+  useEffect(() => {
+    setResult(null);
+    setError(null);
+    if (!code) return;
+    const controller = new AbortController();
+    setChecking(true);
+    verifyReceipt(code, controller.signal)
+      .then(setResult)
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return;
+        setError(
+          err instanceof NotFoundError
+            ? "No receipt matches this code. Check it was typed correctly; it may not be genuine."
+            : "Couldn't check the code. Try again."
+        );
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setChecking(false);
+      });
+    return () => controller.abort();
+  }, [code]);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    setSearchParams({ code: formatVerificationCode(input) }, { replace: true });
+  };
+
+  const format = (amount: number) => formatMoney(money(amount, result!.currency));
+
+  return (
+    <main className="mx-auto flex min-h-screen max-w-xl flex-col gap-6 px-4 py-10">
+      <header>
+        <h1 className="text-2xl font-semibold text-foreground">Verify a receipt</h1>
+        <p className="mt-2 text-sm text-muted-foreground">
+          Enter the verification code printed on a Paying-zee receipt to check it is genuine.
+        </p>
+      </header>
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="XXXX-XXXX-XXXX"
+          autoCapitalize="characters"
+          aria-label="Verification code"
+          className="flex-1 rounded-md border border-input bg-background px-3 py-2 font-mono text-sm uppercase text-foreground outline-none ring-ring focus:ring-2"
+        />
+        <button
+          type="submit"
+          disabled={checking || !normalizeVerificationCode(input)}
+          className="inline-flex items-center justify-center rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-60"
+        >
+          {checking ? "Checking..." : "Check"}
+        </button>
+      </form>
+
+      {error && (
+        <p className="rounded-md border border-destructive px-3 py-2 text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+
+      {result && (
+        <section className="rounded-lg border border-border bg-card p-4 text-sm text-card-foreground" role="status">
+          <p className="font-semibold text-green-600">Genuine receipt</p>
+          <dl className="mt-3 space-y-1">
+            {[
+              ["Receipt", result.receipt_number],
+              ["Transaction ID", result.transaction_id],
+              ["Item", result.product_name ?? "Payment"],
+              ["Buyer paid", format(result.buyer_total)],
+              ["Released to the seller", format(result.released_amount)],
+              ...(result.refunded_amount > 0 ? [["Refunded to the buyer", format(result.refunded_amount)]] : []),
+              ["Completed", new Date(result.completed_at).toLocaleString("en-KE")],
+              ["Issued", new Date(result.issued_at).toLocaleString("en-KE")],
+            ].map(([label, value]) => (
+              <div key={label} className="flex justify-between gap-4">
+                <dt className="text-muted-foreground">{label}</dt>
+                <dd className="text-right tabular-nums">{value}</dd>
+              </div>
+            ))}
+          </dl>
+          <p className="mt-3 text-xs text-muted-foreground">
+            Compare these details with the receipt you were given. If anything differs, it has been altered.
+          </p>
+        </section>
+      )}
+    </main>
+  );
+}
@@ -1,9 +1,40 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import { createHash } from "crypto";
 import path from "path";
 
+// Must match the script public/sw.js imports
+const PRECACHE_MANIFEST = "precache-manifest.js";
+
+// Tells the service worker which files this build produced, so it can cache the
+// whole app on install, and gives the build an id that changes with its
+// contents. The worker imports it, so a new build also updates the worker.
+function precacheManifest(): Plugin {
+  return {
+    name: "precache-manifest",
+    apply: "build",
+    generateBundle(_options, bundle) {
+      const files = Object.values(bundle)
+        .filter((file) => !file.fileName.endsWith(".map"))
+        .sort((a, b) => a.fileName.localeCompare(b.fileName));
+      const hash = createHash("sha256");
+      files.forEach((file) => hash.update(file.fileName).update(file.type === "chunk" ? file.code : file.source));
+      const manifest = {
+        version: hash.digest("hex").slice(0, 12),
+        // The page itself is cached as "/" by the worker
+        urls: files.filter((file) => file.fileName !== "index.html").map((file) => `/${file.fileName}`),
+      };
+      this.emitFile({
+        type: "asset",
+        fileName: PRECACHE_MANIFEST,
+        source: `self.PRECACHE_MANIFEST = ${JSON.stringify(manifest)};\n`,
+      });
+    },
+  };
+}
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),